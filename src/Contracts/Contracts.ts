@@ -4,17 +4,154 @@
 */
 
 import * as K8sTypes from "@kubernetes/client-node";
+import { KubeResourceType } from "./KubeServiceBase";
 
+export interface IPodLogOptions {
+    container?: string;
+    tailLines?: number;
+    sinceSeconds?: number;
+    timestamps?: boolean;
+    previous?: boolean;
+}
+
+export type KubeWatchEventType = "ADDED" | "MODIFIED" | "DELETED";
+
+export interface IKubeWatchEvent<T = any> {
+    type: KubeWatchEventType;
+    object: T;
+}
+
+export interface IKubeWatch {
+    stop(): void;
+}
+
+/**
+ * Usage of a container as reported by metrics.k8s.io, e.g. { cpu: "250m", memory: "64Mi" }.
+ */
+export interface IContainerMetrics {
+    name: string;
+    usage: { cpu?: string; memory?: string };
+}
+
+/**
+ * Pod usage in the shape of the metrics.k8s.io/v1beta1 PodMetrics object.
+ */
+export interface IPodMetrics {
+    metadata: K8sTypes.V1ObjectMeta;
+    // time the usage was sampled at and the window it was averaged over, e.g. "30s"
+    timestamp: string;
+    window: string;
+    containers: IContainerMetrics[];
+}
+
+export interface IPodMetricsList {
+    items: IPodMetrics[];
+}
+
+/**
+ * Passed as the namespace to get or watch the objects of every namespace in the cluster.
+ */
+export const AllNamespaces: string = "*";
+
+/**
+ * Where KubeSummary keeps the route of what it shows, e.g. the hash of the page url, so that it can be shared as a link.
+ */
+export interface IKubeRouteLocation {
+    /**
+     * The route to show once KubeSummary is mounted, empty for the default view.
+     */
+    getRoute(): string;
+
+    /**
+     * Invoked with the new route whenever the pivot, filters or selection change.
+     */
+    setRoute(route: string): void;
+}
+
+/**
+ * The namespace parameters are optional, when not given the host's default namespace is used.
+ * Hosts list across the cluster when the namespace is AllNamespaces.
+ */
 export interface IKubeService {
-    getPods(labelSelector?:string): Promise<K8sTypes.V1PodList>;
+    getNamespaces(): Promise<K8sTypes.V1NamespaceList>;
+
+    getPods(labelSelector?:string, namespace?: string): Promise<K8sTypes.V1PodList>;
+
+    getDeployments(namespace?: string): Promise<K8sTypes.V1DeploymentList>;
+
+    getServices(namespace?: string): Promise<K8sTypes.V1ServiceList>;
+
+    getReplicaSets(namespace?: string): Promise<K8sTypes.V1ReplicaSetList>;
+
+    getDaemonSets(namespace?: string): Promise<K8sTypes.V1DaemonSetList>;
+
+    getStatefulSets(namespace?: string): Promise<K8sTypes.V1StatefulSetList>;
+
+    getJobs(namespace?: string): Promise<K8sTypes.V1JobList>;
+
+    /**
+     * CronJobs are served by batch/v1beta1 on the supported clusters.
+     */
+    getCronJobs(namespace?: string): Promise<K8sTypes.V1beta1CronJobList>;
+
+    /**
+     * Ingresses are served by extensions/v1beta1 on the supported clusters.
+     */
+    getIngresses(namespace?: string): Promise<K8sTypes.V1beta1IngressList>;
+
+    getConfigMaps(namespace?: string): Promise<K8sTypes.V1ConfigMapList>;
+
+    /**
+     * The views list the keys of the secrets, their values are only shown when KubeSummary is given allowSecretReveal.
+     * Hosts which never want the values in the page may return the secrets with the values of their data emptied.
+     */
+    getSecrets(namespace?: string): Promise<K8sTypes.V1SecretList>;
+
+    getPersistentVolumeClaims(namespace?: string): Promise<K8sTypes.V1PersistentVolumeClaimList>;
+
+    /**
+     * Nodes are not namespaced, all the nodes of the cluster are returned.
+     */
+    getNodes(): Promise<K8sTypes.V1NodeList>;
+
+    /**
+     * @param fieldSelector e.g. "involvedObject.uid=<uid>" to get the events of a single object
+     */
+    getEvents(fieldSelector?: string, namespace?: string): Promise<K8sTypes.V1EventList>;
+
+    getPodLog(namespace: string, podName: string, options?: IPodLogOptions): Promise<string>;
+
+    /**
+     * Optional, hosts which can stream changes deliver them through onEvent until the returned watch is stopped.
+     * When not implemented the views are populated once from the get methods.
+     */
+    watch?(resourceType: KubeResourceType, onEvent: (event: IKubeWatchEvent) => void, labelSelector?: string, namespace?: string): IKubeWatch;
 
-    getDeployments(): Promise<K8sTypes.V1DeploymentList>;
+    /**
+     * Optional, sets the desired replica count of a deployment or stateful set.
+     * The mutation commands are only offered by the views for the methods the host implements.
+     */
+    scaleWorkload?(resourceType: KubeResourceType, namespace: string, name: string, replicas: number): Promise<void>;
 
-    getServices(): Promise<K8sTypes.V1ServiceList>;
+    /**
+     * Optional, restarts the rollout of a deployment or stateful set, e.g. by updating the restartedAt annotation of its pod template.
+     */
+    restartWorkload?(resourceType: KubeResourceType, namespace: string, name: string): Promise<void>;
 
-    getReplicaSets(): Promise<K8sTypes.V1ReplicaSetList>;
+    /**
+     * Optional, deletes the pod so that its owner recreates it.
+     */
+    deletePod?(namespace: string, podName: string): Promise<void>;
 
-    getDaemonSets(): Promise<K8sTypes.V1DaemonSetList>;
+    /**
+     * Optional, rolls the deployment back by patching its spec.template with the template of an earlier revision.
+     * @param template the pod template of the replica set of that revision, without its pod-template-hash label
+     */
+    rollbackDeployment?(namespace: string, name: string, template: K8sTypes.V1PodTemplateSpec): Promise<void>;
 
-    getStatefulSets(): Promise<K8sTypes.V1StatefulSetList>;
+    /**
+     * Optional, gets the current usage of the pods from metrics.k8s.io, e.g. when the metrics server is installed.
+     * The views show the configured requests and limits only when not implemented.
+     */
+    getPodMetrics?(labelSelector?: string, namespace?: string): Promise<IPodMetricsList>;
 }
\ No newline at end of file
@@ -5,7 +5,7 @@
 
 import * as K8sTypes from "@kubernetes/client-node";
 
-import { IKubeService } from "./Contracts";
+import { IKubeService, IPodLogOptions } from "./Contracts";
 
 export enum KubeResourceType {
     Pods = 1,
@@ -14,32 +14,86 @@ export enum KubeResourceType {
     ReplicaSets = 8,
     DaemonSets = 16,
     StatefulSets = 32,
+    Events = 64,
+    Namespaces = 128,
+    Jobs = 256,
+    CronJobs = 512,
+    Ingresses = 1024,
+    ConfigMaps = 2048,
+    Secrets = 4096,
+    PersistentVolumeClaims = 8192,
+    Nodes = 16384,
 }
 
 export abstract class KubeServiceBase implements IKubeService {
-    getPods(labelSelector?:string): Promise<K8sTypes.V1PodList> {
-        return this.fetch(KubeResourceType.Pods, labelSelector);
+    getNamespaces(): Promise<K8sTypes.V1NamespaceList> {
+        return this.fetch(KubeResourceType.Namespaces);
     }
 
-    getDeployments(): Promise<K8sTypes.V1DeploymentList> {
-        return this.fetch(KubeResourceType.Deployments);
+    getPods(labelSelector?:string, namespace?: string): Promise<K8sTypes.V1PodList> {
+        return this.fetch(KubeResourceType.Pods, labelSelector, undefined, namespace);
     }
 
-    getServices(): Promise<K8sTypes.V1ServiceList> {
-        return this.fetch(KubeResourceType.Services);
+    getDeployments(namespace?: string): Promise<K8sTypes.V1DeploymentList> {
+        return this.fetch(KubeResourceType.Deployments, undefined, undefined, namespace);
     }
 
-    getReplicaSets(): Promise<K8sTypes.V1ReplicaSetList> {
-        return this.fetch(KubeResourceType.ReplicaSets);
+    getServices(namespace?: string): Promise<K8sTypes.V1ServiceList> {
+        return this.fetch(KubeResourceType.Services, undefined, undefined, namespace);
     }
 
-    getDaemonSets() : Promise<K8sTypes.V1DaemonSetList> {
-        return this.fetch(KubeResourceType.DaemonSets)
+    getReplicaSets(namespace?: string): Promise<K8sTypes.V1ReplicaSetList> {
+        return this.fetch(KubeResourceType.ReplicaSets, undefined, undefined, namespace);
     }
 
-    getStatefulSets() : Promise<K8sTypes.V1StatefulSetList> {
-        return this.fetch(KubeResourceType.StatefulSets)
+    getDaemonSets(namespace?: string) : Promise<K8sTypes.V1DaemonSetList> {
+        return this.fetch(KubeResourceType.DaemonSets, undefined, undefined, namespace)
     }
 
-    abstract fetch(resourceType: KubeResourceType, labelSelector?:string): Promise<any>;
+    getStatefulSets(namespace?: string) : Promise<K8sTypes.V1StatefulSetList> {
+        return this.fetch(KubeResourceType.StatefulSets, undefined, undefined, namespace)
+    }
+
+    getJobs(namespace?: string): Promise<K8sTypes.V1JobList> {
+        return this.fetch(KubeResourceType.Jobs, undefined, undefined, namespace);
+    }
+
+    getCronJobs(namespace?: string): Promise<K8sTypes.V1beta1CronJobList> {
+        return this.fetch(KubeResourceType.CronJobs, undefined, undefined, namespace);
+    }
+
+    getIngresses(namespace?: string): Promise<K8sTypes.V1beta1IngressList> {
+        return this.fetch(KubeResourceType.Ingresses, undefined, undefined, namespace);
+    }
+
+    getConfigMaps(namespace?: string): Promise<K8sTypes.V1ConfigMapList> {
+        return this.fetch(KubeResourceType.ConfigMaps, undefined, undefined, namespace);
+    }
+
+    getSecrets(namespace?: string): Promise<K8sTypes.V1SecretList> {
+        return this.fetch(KubeResourceType.Secrets, undefined, undefined, namespace);
+    }
+
+    getPersistentVolumeClaims(namespace?: string): Promise<K8sTypes.V1PersistentVolumeClaimList> {
+        return this.fetch(KubeResourceType.PersistentVolumeClaims, undefined, undefined, namespace);
+    }
+
+    getNodes(): Promise<K8sTypes.V1NodeList> {
+        return this.fetch(KubeResourceType.Nodes);
+    }
+
+    getEvents(fieldSelector?: string, namespace?: string): Promise<K8sTypes.V1EventList> {
+        return this.fetch(KubeResourceType.Events, undefined, fieldSelector, namespace);
+    }
+
+    getPodLog(namespace: string, podName: string, options?: IPodLogOptions): Promise<string> {
+        return this.fetchPodLog(namespace, podName, options);
+    }
+
+    abstract fetch(resourceType: KubeResourceType, labelSelector?: string, fieldSelector?: string, namespace?: string): Promise<any>;
+
+    // Hosts which can read pod logs override this, the logs tab shows the error otherwise
+    fetchPodLog(namespace: string, podName: string, options?: IPodLogOptions): Promise<string> {
+        return Promise.reject(new Error("Reading pod logs is not supported"));
+    }
 }
\ No newline at end of file
@@ -8,7 +8,8 @@ import { BaseComponent, css, IRenderFunction } from "office-ui-fabric-react/lib/
 import * as React from "react";
 import { IVssComponentProperties } from "../Types";
 import { Table, ITableColumn, TableRow, ITableRowProps, SimpleTableCell } from "azure-devops-ui/Table";
-import { ITableRow, ITableRowDetails } from "azure-devops-ui/Components/Table/Table.Props";
+import { ITableRow, ITableRowDetails, ITableProps, ITable } from "azure-devops-ui/Components/Table/Table.Props";
+import { IBehavior } from "azure-devops-ui/Utilities/Behavior";
 import { ArrayItemProvider } from "azure-devops-ui/Utilities/Provider";
 import "./BaseKubeTable.scss";
 
@@ -17,6 +18,8 @@ export interface ITableComponentProperties<T> extends IVssComponentProperties {
     headingContent?: JSX.Element;
     items: T[];
     columns: ITableColumn<T>[];
+    // The table initializes its behaviors with its complete props, as the ColumnSorting<T> behavior expects
+    behaviors?: IBehavior<ITableProps<T>, ITable<T>>[];
     onItemActivated?: (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: any) => void;
     onItemSelected?: (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: any) => void;
 }
@@ -37,6 +40,7 @@ export class BaseKubeTable<T> extends BaseComponent<ITableComponentProperties<T>
                 className={"kube-list"}
                 itemProvider={new ArrayItemProvider<T>(this.props.items)}
                 columns={this.props.columns}
+                behaviors={this.props.behaviors as IBehavior<Partial<ITableProps<T>>, Partial<ITable<T>>>[] | undefined}
                 showHeader={true}
                 showLines={false}
                 singleClickActivation={false}
@@ -0,0 +1,100 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { MessageCard, MessageCardSeverity } from "azure-devops-ui/MessageCard";
+import { Spinner, SpinnerSize } from "azure-devops-ui/Spinner";
+import { DefaultButton, PrimaryButton } from "office-ui-fabric-react/lib/Button";
+import { Dialog, DialogFooter, DialogType } from "office-ui-fabric-react/lib/Dialog";
+import * as React from "react";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import "./KubeConfirmDialog.scss";
+
+export interface IKubeConfirmDialogProperties extends IVssComponentProperties {
+    title: string;
+    description: string;
+    confirmText: string;
+    // e.g. while the input rendered as children is not valid
+    confirmDisabled?: boolean;
+    // For content which needs more room than a question, e.g. a preview of the change
+    isWide?: boolean;
+    // The dialog stays open with the error of a rejected promise, and is dismissed once the promise is resolved
+    onConfirm: () => Promise<void>;
+    onDismiss: () => void;
+}
+
+export interface IKubeConfirmDialogState {
+    inProgress: boolean;
+    errorMessage?: string;
+}
+
+/**
+ * Asks for confirmation of a change to the cluster, and shows its progress and failure.
+ */
+export class KubeConfirmDialog extends BaseComponent<IKubeConfirmDialogProperties, IKubeConfirmDialogState> {
+    constructor(props: IKubeConfirmDialogProperties) {
+        super(props, {});
+        this.state = { inProgress: false };
+    }
+
+    public componentWillUnmount(): void {
+        this._isUnmounted = true;
+    }
+
+    public render(): JSX.Element {
+        return (
+            <Dialog
+                hidden={false}
+                onDismiss={this._onDismiss}
+                dialogContentProps={{ type: DialogType.normal, title: this.props.title, subText: this.props.description }}
+                modalProps={{ isBlocking: true, containerClassName: css("kube-confirm-dialog", this.props.isWide ? "kube-confirm-dialog-wide" : "") }}>
+                {this.props.children}
+                {
+                    this.state.errorMessage &&
+                    <MessageCard className="kube-confirm-dialog-error" severity={MessageCardSeverity.Error}>
+                        {format(Resources.CommandFailedText, this.state.errorMessage)}
+                    </MessageCard>
+                }
+                <DialogFooter>
+                    {this.state.inProgress && <Spinner className="kube-confirm-dialog-progress" size={SpinnerSize.small} label={Resources.CommandInProgressText} />}
+                    <PrimaryButton
+                        text={this.props.confirmText}
+                        disabled={this.state.inProgress || this.props.confirmDisabled}
+                        onClick={this._onConfirm}
+                    />
+                    <DefaultButton
+                        text={Resources.CancelText}
+                        disabled={this.state.inProgress}
+                        onClick={this._onDismiss}
+                    />
+                </DialogFooter>
+            </Dialog>
+        );
+    }
+
+    private _onConfirm = (): void => {
+        this.setState({ inProgress: true, errorMessage: undefined });
+        this.props.onConfirm().then(() => {
+            if (!this._isUnmounted) {
+                this.props.onDismiss();
+            }
+        }, error => {
+            if (!this._isUnmounted) {
+                this.setState({ inProgress: false, errorMessage: Utils.getErrorMessage(error) });
+            }
+        });
+    }
+
+    // The change cannot be cancelled once it is sent to the cluster
+    private _onDismiss = (): void => {
+        if (!this.state.inProgress) {
+            this.props.onDismiss();
+        }
+    }
+
+    private _isUnmounted: boolean = false;
+}
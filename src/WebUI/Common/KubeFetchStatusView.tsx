@@ -0,0 +1,63 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { MessageCard, MessageCardSeverity } from "azure-devops-ui/MessageCard";
+import * as React from "react";
+import * as Resources from "../Resources";
+import { IResourceFetchStatus, IVssComponentProperties } from "../Types";
+import { ResourceFetchStatus } from "../Constants";
+import "./KubeFetchStatusView.scss";
+
+const shimmerRowCount: number = 3;
+
+export interface IKubeFetchStatusViewProperties extends IVssComponentProperties {
+    fetchStatus: IResourceFetchStatus;
+    // Displayed in the error message, e.g. "StatefulSet"
+    resourceName: string;
+    onRetry: () => void;
+}
+
+/**
+ * Renders the loading shimmer or the error card with retry for a resource kind, and nothing once it is loaded.
+ */
+export class KubeFetchStatusView extends BaseComponent<IKubeFetchStatusViewProperties> {
+    public render(): JSX.Element | null {
+        switch (this.props.fetchStatus.status) {
+            case ResourceFetchStatus.Loading:
+                return this._getShimmer();
+            case ResourceFetchStatus.Failed:
+                return this._getErrorCard();
+            default:
+                return null;
+        }
+    }
+
+    private _getShimmer(): JSX.Element {
+        let rows: JSX.Element[] = [];
+        for (let index = 0; index < shimmerRowCount; index++) {
+            rows.push(
+                <div className="kube-shimmer-row" key={index}>
+                    <div className="kube-shimmer-cell kube-shimmer-primary" />
+                    <div className="kube-shimmer-cell" />
+                    <div className="kube-shimmer-cell" />
+                </div>
+            );
+        }
+
+        return <div className={css("kube-list-content", "kube-shimmer", "depth-16", this.props.className)}>{rows}</div>;
+    }
+
+    private _getErrorCard(): JSX.Element {
+        return (
+            <MessageCard
+                className={css("kube-fetch-error", this.props.className)}
+                severity={MessageCardSeverity.Error}
+                buttonProps={[{ text: Resources.RetryText, onClick: this.props.onRetry }]}>
+                {format(Resources.FetchFailedText, this.props.resourceName, this.props.fetchStatus.errorMessage || "")}
+            </MessageCard>
+        );
+    }
+}
@@ -12,6 +12,7 @@ import { ConditionalChildren } from "azure-devops-ui/ConditionalChildren";
 
 export const NameKey: string = "nameKey";
 export const TypeKey: string = "typeKey";
+export const NamespaceKey: string = "namespaceKey";
 
 export interface IFilterComponentProperties extends IVssComponentProperties {
     filter: Filter,
@@ -20,6 +21,8 @@ export interface IFilterComponentProperties extends IVssComponentProperties {
     filterToggled:ObservableValue<boolean>,
     pickListItemsFn: () => any[];
     listItemsFn: (item:any) => IPickListItem;
+    // Only given when the objects of all namespaces are shown
+    namespaceItemsFn?: () => string[];
 }
 
 export class KubeFilterBar extends BaseComponent<IFilterComponentProperties, {}> {
@@ -40,8 +43,30 @@ export class KubeFilterBar extends BaseComponent<IFilterComponentProperties, {}>
                         getPickListItems={this.props.pickListItemsFn}
                         getListItem={this.props.listItemsFn}
                     />
+                    {
+                        // the filter bar only skips null children
+                        this.props.namespaceItemsFn ?
+                        <PickListFilterBarItem
+                            placeholder={Resources.NamespaceText}
+                            showPlaceholderAsLabel={true}
+                            filterItemKey={NamespaceKey}
+                            selectionMode={SelectionMode.multiple}
+                            noItemsText={Resources.NoItemsText}
+                            showSelectAll={false}
+                            hideClearButton={false}
+                            getPickListItems={this.props.namespaceItemsFn}
+                            getListItem={KubeFilterBar._getNamespaceListItem}
+                        /> : null
+                    }
                 </FilterBar>
             </ConditionalChildren>
         );
     }
+
+    private static _getNamespaceListItem(namespace: string): IPickListItem {
+        return {
+            key: namespace,
+            name: namespace
+        };
+    }
 }
@@ -0,0 +1,43 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent, css } from "@uifabric/utilities";
+import * as React from "react";
+import { IVssComponentProperties } from "../Types";
+import "./KubeSparkline.scss";
+
+export interface IKubeSparklineProps extends IVssComponentProperties {
+    // oldest value first
+    values: number[];
+    // top of the chart, e.g. the limit, defaults to the highest value
+    maxValue?: number;
+    width?: number;
+    height?: number;
+}
+
+export class KubeSparkline extends BaseComponent<IKubeSparklineProps> {
+    public render(): JSX.Element | null {
+        const values = this.props.values.filter(value => !isNaN(value));
+        if (values.length < 2) {
+            return null;
+        }
+
+        const width = this.props.width || 80;
+        const height = this.props.height || 20;
+        const maxValue = Math.max(this.props.maxValue || 0, ...values) || 1;
+        const points = values.map((value, index) => {
+            const x = index * width / (values.length - 1);
+            // the line is inset by a pixel so that it is not clipped at the top and bottom
+            const y = height - 1 - value * (height - 2) / maxValue;
+            return x.toFixed(1) + "," + y.toFixed(1);
+        });
+
+        return (
+            <svg className={css("kube-sparkline", this.props.className)} width={width} height={height} viewBox={"0 0 " + width + " " + height} aria-hidden={true}>
+                <polyline points={points.join(" ")} />
+            </svg>
+        );
+    }
+}
@@ -3,14 +3,15 @@
     Licensed under the MIT license.
 */
 
-import { V1ReplicaSet, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta } from "@kubernetes/client-node";
+import { V1ReplicaSet, V1Pod, V1DaemonSet, V1StatefulSet, V1Job, V1PodTemplateSpec, V1ObjectMeta } from "@kubernetes/client-node";
 import { BaseComponent, format } from "@uifabric/utilities";
 import * as React from "react";
-import { IKubeService } from "../../Contracts/Contracts";
+import { AllNamespaces, IKubeRouteLocation, IKubeService, IKubeWatch } from "../../Contracts/Contracts";
 import * as Resources from "../Resources";
 import { IVssComponentProperties, IServiceItem } from "../Types";
 import "./KubeSummary.scss";
 import { WorkloadPodsView } from "../Workloads/WorkloadPodsView";
+import { DeploymentDetailsView } from "../Workloads/DeploymentDetailsView";
 import { ServiceDetailsView } from "../Services/ServiceDetailsView";
 // todo :: work around till this issue is fixed in devops ui
 import "azure-devops-ui/Label.scss";
@@ -19,83 +20,178 @@ import { Filter, IFilterState, FILTER_CHANGE_EVENT, IFilterItemState } from "azu
 import { Tab, TabBar, TabContent } from "azure-devops-ui/Tabs";
 import { ObservableValue } from "azure-devops-ui/Core/Observable";
 import { HeaderCommandBarWithFilter } from 'azure-devops-ui/HeaderCommandBar';
+import { Dropdown, IDropdownOption } from "office-ui-fabric-react/lib/Dropdown";
 import { SelectedItemKeys } from "../Constants";
 import { PodDetailsView } from "../Pods/PodDetailsView";
 import { SelectionStore } from "../Selection/SelectionStore";
+import { SelectionActions, ISelectionViewState, SelectedItem } from "../Selection/SelectionActions";
+import { SelectionBreadcrumb } from "../Selection/SelectionBreadcrumb";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
 import { StoreManager } from "../FluxCommon/StoreManager";
+import { FluxContextTypes, FluxScope, IFluxContext } from "../FluxCommon/FluxContext";
+import { WorkloadsActions } from "../Workloads/WorkloadsActions";
 import { WorkloadsActionsCreator } from "../Workloads/WorkloadsActionsCreator";
 import { WorkloadsPivot } from "../Workloads/WorkloadsPivot";
 import { WorkloadsStore } from "../Workloads/WorkloadsStore";
 import { ServicesStore } from "../Services/ServicesStore";
 import { ServicesPivot } from "../Services/ServicesPivot";
+import { ServicesTable } from "../Services/ServicesTable";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
-import { WorkloadsEvents, ServicesEvents } from "../Constants";
+import { WorkloadsEvents, ServicesEvents, NamespacesEvents, PodsEvents, ConfigurationEvents, NodesEvents, ResourceFetchStatus } from "../Constants";
+import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
+import { MetricsActionsCreator } from "../Metrics/MetricsActionsCreator";
+import { PodsStore } from "../Pods/PodsStore";
+import { ServicesActionsCreator } from "../Services/ServicesActionsCreator";
+import { ConfigurationActionsCreator } from "../Configuration/ConfigurationActionsCreator";
+import { ConfigurationDetailsView } from "../Configuration/ConfigurationDetailsView";
+import { ConfigurationPivot } from "../Configuration/ConfigurationPivot";
+import { ConfigurationStore } from "../Configuration/ConfigurationStore";
+import { NamespacesActionsCreator } from "../Namespaces/NamespacesActionsCreator";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { NodeDetailsView } from "../Nodes/NodeDetailsView";
+import { NodesActionsCreator } from "../Nodes/NodesActionsCreator";
+import { EventsActionsCreator } from "../Events/EventsActionsCreator";
+import { NodesPivot } from "../Nodes/NodesPivot";
+import { NodesStore } from "../Nodes/NodesStore";
+import { RefreshScheduler } from "../RefreshScheduler";
+import { RefreshIndicator } from "./RefreshIndicator";
+import { NameKey, TypeKey } from "./KubeFilterBar";
+import { IKubeRoute, KubeRouter } from "../KubeRouter";
+import { Utils } from "../Utils";
 
 const workloadsPivotItemKey: string = "workloads";
 const servicesPivotItemKey: string = "services";
-const filterToggled = new ObservableValue<boolean>(false);
+const configurationPivotItemKey: string = "configuration";
+const nodesPivotItemKey: string = "nodes";
+const pivotItemKeys: string[] = [workloadsPivotItemKey, servicesPivotItemKey, configurationPivotItemKey, nodesPivotItemKey];
 
 //todo: refactor filter properties to respective resource type components
 export interface IKubernetesContainerState {
     namespace?: string;
     selectedPivotKey?: string;
-    selectedItem?: V1ReplicaSet | V1DaemonSet | V1StatefulSet | V1Pod | IServiceItem;
+    selectedItem?: SelectedItem;
     showSelectedItem?: boolean;
     selectedItemType?: string;
+    // Name of the pod selected within the selected workload, shown as the last breadcrumb
+    selectedPodName?: string;
+    selectedPodTab?: string;
     resourceSize: number;
     workloadsFilter: Filter;
     svcFilter: Filter;
+    configurationFilter: Filter;
+    nodesFilter: Filter;
+    lastUpdated?: Date;
+    isRefreshPaused: boolean;
+    isFetchComplete: boolean;
+    namespaces: string[];
+    clusterName?: string;
 }
 
 export interface IKubeSummaryProps extends IVssComponentProperties {
     title: string;
-    kubeService: IKubeService;
+    kubeService?: IKubeService;
+    /**
+     * Services of the named clusters to switch between, given instead of kubeService. The stores are kept per cluster,
+     * so switching back to a cluster shows its objects right away while they are fetched again.
+     */
+    kubeServices?: { [clusterName: string]: IKubeService };
     namespace?: string;
+    /**
+     * When set, the data is fetched again on this interval. Meant for hosts whose IKubeService does not implement watch.
+     */
+    refreshIntervalInSeconds?: number;
+    /**
+     * When set, the pivot, filters and selection are kept in this location, and restored from it on mount.
+     * Use KubeRouter.createHashLocation to keep them in the hash of the page url.
+     */
+    routeLocation?: IKubeRouteLocation;
+    /**
+     * Hides the scale, restart and delete commands, which are otherwise offered when the kube service implements them.
+     */
+    disableMutations?: boolean;
+    /**
+     * Offers to show the value of one key of a secret at a time. Secret values are masked unless the host sets this.
+     */
+    allowSecretReveal?: boolean;
 }
 
 export class KubeSummary extends BaseComponent<IKubeSummaryProps, IKubernetesContainerState> {
+    // Every summary on the page gets its own stores, actions hubs and action creators, which the views find through the context
+    public static childContextTypes = FluxContextTypes;
+
     constructor(props: IKubeSummaryProps) {
         super(props, {});
 
+        const route = props.routeLocation ? KubeRouter.parse(props.routeLocation.getRoute()) : {} as IKubeRoute;
+        const selectedPivotKey = route.pivotKey && pivotItemKeys.indexOf(route.pivotKey) >= 0 ? route.pivotKey : workloadsPivotItemKey;
         const workloadsFilter = new Filter();
         const servicesFilter = new Filter();
+        const configurationFilter = new Filter();
+        const nodesFilter = new Filter();
         workloadsFilter.subscribe(this._onWorkloadsFilterApplied, FILTER_CHANGE_EVENT);
         servicesFilter.subscribe(this._onSvcFilterApplied, FILTER_CHANGE_EVENT);
+        configurationFilter.subscribe(this._onConfigurationFilterApplied, FILTER_CHANGE_EVENT);
+        nodesFilter.subscribe(this._onNodesFilterApplied, FILTER_CHANGE_EVENT);
 
         this._setSelectedKeyPodsViewMap();
 
-        // Take namespace from deployment store and rest from selection store
+        const clusterNames = KubeSummary._getClusterNames(props);
+        const routeClusterIndex = route.clusterName ? clusterNames.indexOf(route.clusterName) : -1;
+        this._clusterName = clusterNames.length > 0 ? clusterNames[Math.max(routeClusterIndex, 0)] : undefined;
+        this._initializeScope();
+
+        const scopeState = this._getScopeState();
+        scopeState.namespace = route.namespace || scopeState.namespace;
         this.state = {
-            namespace: this.props.namespace || "",
-            selectedPivotKey: workloadsPivotItemKey,
-            showSelectedItem: false,
-            selectedItem: undefined,
-            selectedItemType: "",
-            resourceSize: 0,
+            ...scopeState,
+            selectedPivotKey: selectedPivotKey,
             svcFilter: servicesFilter,
-            workloadsFilter: workloadsFilter
+            workloadsFilter: workloadsFilter,
+            configurationFilter: configurationFilter,
+            nodesFilter: nodesFilter,
+            isRefreshPaused: false,
+            clusterName: this._clusterName
         };
 
-        this._servicesStore = StoreManager.GetStore<ServicesStore>(ServicesStore);
-        this._selectionStore = StoreManager.GetStore<SelectionStore>(SelectionStore);
-        this._selectionStore.addChangedListener(this._onSelectionStoreChanged);
+        this._getPivotFilter(selectedPivotKey).setState(KubeSummary._getRouteFilterState(route), true);
 
-        this._workloadsActionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator);
+        this._namespacesActionCreator.getNamespaces(this._getKubeService());
+        // Fetch deployments in parent component we need to show nameSpace in heading and namespace is obtained from deployment metadata
+        this._fetchSummaryResources(scopeState.namespace || undefined);
 
-        // Ensure workload store is created before get Deployments action
-        this._workloadsStore = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore);
+        if (route.selectedItemType || route.podName) {
+            // The selected object is resolved by name once fetched, the pivot only fetches the objects it shows
+            this._pendingRoute = route;
+            this._fetchRouteResources(route, scopeState.namespace || undefined);
+        }
 
-        // Fetch deployments in parent component we need to show nameSpace in heading and namespace is obtained from deployment metadata
-        this._workloadsActionCreator.getDeployments(this.props.kubeService);
-        this._workloadsStore.addListener(WorkloadsEvents.DeploymentsFetchedEvent, this._setNamespaceOnDeploymentsFetched);
+        if (this.props.refreshIntervalInSeconds && this.props.refreshIntervalInSeconds > 0) {
+            this._refreshScheduler = new RefreshScheduler(this.props.refreshIntervalInSeconds, this._refresh);
+        }
+    }
 
-        this._workloadsStore.addListener(WorkloadsEvents.WorkloadsFoundEvent, this._onDataFound);
-        this._servicesStore.addListener(ServicesEvents.ServicesFoundEvent, this._onDataFound);
+    public componentDidMount(): void {
+        if (this._refreshScheduler) {
+            this._refreshScheduler.start();
+        }
+
+        // The stores of the cluster may already have the objects of the route
+        this._scheduleRouteResolution();
+        this._updateRoute();
+    }
+
+    public componentDidUpdate(): void {
+        this._updateRoute();
+    }
+
+    public getChildContext(): IFluxContext {
+        return { fluxInstanceId: this._getInstanceId() };
     }
 
     public render(): React.ReactNode {
+        // Keyed by cluster, so that the views are mounted again on the stores of the selected cluster
         return (
-            <div className={"kubernetes-container"}>
+            <div className={"kubernetes-container"} key={this.state.clusterName || ""}>
                 {
                     this.state.showSelectedItem ?
                         this._getSelectedItemPodsView() :
@@ -106,10 +202,333 @@ export class KubeSummary extends BaseComponent<IKubeSummaryProps, IKubernetesCon
     }
 
     public componentWillUnmount(): void {
+        this._disposeScope();
+        if (this._refreshScheduler) {
+            this._refreshScheduler.stop();
+        }
+
+        if (this._routeTimerId !== undefined) {
+            window.clearTimeout(this._routeTimerId);
+        }
+
+        FluxScope.dispose(this._scopeId);
+    }
+
+    private static _getClusterNames(props: IKubeSummaryProps): string[] {
+        return props.kubeServices ? Object.keys(props.kubeServices) : [];
+    }
+
+    private _getKubeService(): IKubeService {
+        const kubeServices = this.props.kubeServices;
+        return (kubeServices && this._clusterName ? kubeServices[this._clusterName] : this.props.kubeService) as IKubeService;
+    }
+
+    // The stores and action creators of each cluster are nested in the scope of this summary
+    private _getInstanceId(): string {
+        return this._clusterName ? this._scopeId + "." + this._clusterName : this._scopeId;
+    }
+
+    private _initializeScope(): void {
+        const instanceId = this._getInstanceId();
+        this._servicesStore = StoreManager.GetStore<ServicesStore>(ServicesStore, instanceId);
+        this._configurationStore = StoreManager.GetStore<ConfigurationStore>(ConfigurationStore, instanceId);
+        this._nodesStore = StoreManager.GetStore<NodesStore>(NodesStore, instanceId);
+        this._selectionStore = StoreManager.GetStore<SelectionStore>(SelectionStore, instanceId);
+        this._selectionStore.addChangedListener(this._onSelectionStoreChanged);
+        this._selectionActions = ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, instanceId);
+        this._workloadsActions = ActionsHubManager.GetActionsHub<WorkloadsActions>(WorkloadsActions, instanceId);
+
+        this._workloadsActionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, instanceId);
+        this._podsActionCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, instanceId);
+        this._metricsActionCreator = ActionsCreatorManager.GetActionCreator<MetricsActionsCreator>(MetricsActionsCreator, instanceId);
+        this._servicesActionCreator = ActionsCreatorManager.GetActionCreator<ServicesActionsCreator>(ServicesActionsCreator, instanceId);
+        this._configurationActionCreator = ActionsCreatorManager.GetActionCreator<ConfigurationActionsCreator>(ConfigurationActionsCreator, instanceId);
+        this._namespacesActionCreator = ActionsCreatorManager.GetActionCreator<NamespacesActionsCreator>(NamespacesActionsCreator, instanceId);
+        this._nodesActionCreator = ActionsCreatorManager.GetActionCreator<NodesActionsCreator>(NodesActionsCreator, instanceId);
+        this._eventsActionCreator = ActionsCreatorManager.GetActionCreator<EventsActionsCreator>(EventsActionsCreator, instanceId);
+
+        // Ensure workload store is created before get Deployments action
+        this._workloadsStore = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, instanceId);
+
+        this._namespacesStore = StoreManager.GetStore<NamespacesStore>(NamespacesStore, instanceId);
+        this._podsStore = StoreManager.GetStore<PodsStore>(PodsStore, instanceId);
+        this._podsStore.addListener(PodsEvents.PodsFetchedEvent, this._scheduleRouteResolution);
+        this._configurationStore.addListener(ConfigurationEvents.ConfigMapsFetchedEvent, this._scheduleRouteResolution);
+        this._configurationStore.addListener(ConfigurationEvents.SecretsFetchedEvent, this._scheduleRouteResolution);
+        this._nodesStore.addListener(NodesEvents.NodesFetchedEvent, this._scheduleRouteResolution);
+        this._namespacesStore.addListener(NamespacesEvents.NamespacesFetchedEvent, this._onNamespacesFetched);
+        this._namespacesStore.addListener(NamespacesEvents.NamespaceSelectedEvent, this._onNamespaceSelected);
+
+        this._workloadsStore.addListener(WorkloadsEvents.DeploymentsFetchedEvent, this._setNamespaceOnDeploymentsFetched);
+        this._workloadsActions.deploymentsFetched.addListener(this._setLastUpdatedOnDeploymentsFetched);
+        this._workloadsStore.addListener(WorkloadsEvents.WorkloadsFoundEvent, this._onDataFound);
+        this._servicesStore.addListener(ServicesEvents.ServicesFoundEvent, this._onDataFound);
+        this._workloadsStore.addListener(WorkloadsEvents.WorkloadsFetchStatusChangedEvent, this._onFetchStatusChanged);
+        this._servicesStore.addListener(ServicesEvents.ServicesFetchStatusChangedEvent, this._onFetchStatusChanged);
+    }
+
+    // The stores are only deleted on unmount, they keep the objects of the cluster for when it is selected again
+    private _disposeScope(): void {
         this._selectionStore.removeChangedListener(this._onSelectionStoreChanged);
         this._workloadsStore.removeListener(WorkloadsEvents.DeploymentsFetchedEvent, this._setNamespaceOnDeploymentsFetched);
+        this._workloadsActions.deploymentsFetched.removeListener(this._setLastUpdatedOnDeploymentsFetched);
         this._workloadsStore.removeListener(WorkloadsEvents.WorkloadsFoundEvent, this._onDataFound);
         this._servicesStore.removeListener(ServicesEvents.ServicesFoundEvent, this._onDataFound);
+        this._workloadsStore.removeListener(WorkloadsEvents.WorkloadsFetchStatusChangedEvent, this._onFetchStatusChanged);
+        this._servicesStore.removeListener(ServicesEvents.ServicesFetchStatusChangedEvent, this._onFetchStatusChanged);
+        this._namespacesStore.removeListener(NamespacesEvents.NamespacesFetchedEvent, this._onNamespacesFetched);
+        this._namespacesStore.removeListener(NamespacesEvents.NamespaceSelectedEvent, this._onNamespaceSelected);
+        this._podsStore.removeListener(PodsEvents.PodsFetchedEvent, this._scheduleRouteResolution);
+        this._configurationStore.removeListener(ConfigurationEvents.ConfigMapsFetchedEvent, this._scheduleRouteResolution);
+        this._configurationStore.removeListener(ConfigurationEvents.SecretsFetchedEvent, this._scheduleRouteResolution);
+        this._nodesStore.removeListener(NodesEvents.NodesFetchedEvent, this._scheduleRouteResolution);
+        if (this._watch) {
+            this._watch.stop();
+            this._watch = undefined;
+        }
+    }
+
+    // Everything shown from the stores of the selected cluster, which are empty until the cluster is shown for the first time
+    private _getScopeState() {
+        const selectionState = this._selectionStore.getState();
+        return {
+            namespace: this._namespacesStore.getState().selectedNamespace || this.props.namespace || this._workloadsStore.getState().deploymentNamespace || "",
+            namespaces: this._namespacesStore.getNamespaceNames(),
+            resourceSize: this._workloadsStore.getWorkloadSize() + this._servicesStore.getServicesSize(),
+            isFetchComplete: this._isFetchComplete(),
+            showSelectedItem: selectionState.showSelectedItem,
+            selectedItem: selectionState.selectedItem,
+            selectedItemType: selectionState.selectedItemType
+        };
+    }
+
+    private _onClusterChanged = (option: IDropdownOption): void => {
+        const clusterName = option.key as string;
+        if (clusterName !== this._clusterName) {
+            this._pendingRoute = undefined;
+            this._disposeScope();
+            this._clusterName = clusterName;
+            this._initializeScope();
+
+            const scopeState = this._getScopeState();
+            this.setState({ ...scopeState, clusterName: clusterName });
+            this._namespacesActionCreator.getNamespaces(this._getKubeService());
+            this._fetchSummaryResources(scopeState.namespace || undefined);
+        }
+    }
+
+    // Services are fetched here as well, so that zero data is only shown once both pivots are known to be empty
+    private _fetchSummaryResources(namespace?: string): void {
+        const kubeService = this._getKubeService();
+        this._workloadsActionCreator.getDeployments(kubeService, namespace);
+        this._watch = this._workloadsActionCreator.watchDeployments(kubeService, namespace);
+        this._servicesActionCreator.getServices(kubeService, namespace);
+    }
+
+    private _fetchRouteResources(route: IKubeRoute, namespace?: string): void {
+        const kubeService = this._getKubeService();
+        this._workloadsActionCreator.getReplicaSets(kubeService, namespace);
+        this._workloadsActionCreator.getDaemonSets(kubeService, namespace);
+        this._workloadsActionCreator.getStatefulSets(kubeService, namespace);
+        this._workloadsActionCreator.getJobs(kubeService, namespace);
+        this._workloadsActionCreator.getCronJobs(kubeService, namespace);
+        this._podsActionCreator.getPods(kubeService, undefined, namespace);
+        this._configurationActionCreator.getConfigMaps(kubeService, namespace);
+        if (route.selectedItemType === SelectedItemKeys.SecretKey) {
+            this._configurationActionCreator.getSecrets(kubeService, namespace);
+        }
+
+        if (route.selectedItemType === SelectedItemKeys.NodeKey) {
+            this._nodesActionCreator.getNodes(kubeService);
+        }
+    }
+
+    // Selecting is an action of its own, which cannot be invoked while the stores handle the fetched objects
+    private _scheduleRouteResolution = (): void => {
+        if (this._pendingRoute && this._routeTimerId === undefined) {
+            this._routeTimerId = window.setTimeout(this._resolvePendingRoute, 0);
+        }
+    }
+
+    private _resolvePendingRoute = (): void => {
+        this._routeTimerId = undefined;
+        const route = this._pendingRoute;
+        if (!route) {
+            return;
+        }
+
+        const workloadsState = this._workloadsStore.getState();
+        const podsList = this._podsStore.getState().podsList;
+        const serviceList = this._servicesStore.getState().serviceList;
+        const configurationState = this._configurationStore.getState();
+        const nodeList = this._nodesStore.getState().nodeList;
+        const selection = KubeRouter.resolveSelection(route, {
+            deployments: workloadsState.deploymentList && workloadsState.deploymentList.items || [],
+            replicaSets: workloadsState.replicaSetList && workloadsState.replicaSetList.items || [],
+            daemonSets: workloadsState.daemonSetList && workloadsState.daemonSetList.items || [],
+            statefulSets: workloadsState.statefulSetList && workloadsState.statefulSetList.items || [],
+            jobs: workloadsState.jobList && workloadsState.jobList.items || [],
+            pods: podsList && podsList.items || [],
+            services: ServicesTable.getServiceItems(serviceList && serviceList.items || []),
+            configMaps: configurationState.configMapList && configurationState.configMapList.items || [],
+            secrets: configurationState.secretList && configurationState.secretList.items || [],
+            nodes: nodeList && nodeList.items || []
+        });
+
+        // Once everything is fetched, a route which cannot be resolved refers to objects that no longer exist
+        if (selection) {
+            this._pendingRoute = undefined;
+            this._selectionActions.selectItem.invoke(selection);
+        }
+        else if (this._isFetchComplete() && this._configurationStore.isFetchComplete(route.selectedItemType === SelectedItemKeys.SecretKey)
+            && (route.selectedItemType !== SelectedItemKeys.NodeKey || this._nodesStore.isFetchComplete())) {
+            this._pendingRoute = undefined;
+            this._updateRoute();
+        }
+    }
+
+    // The location keeps the route it was opened with until the selection of that route is resolved
+    private _updateRoute(): void {
+        if (!this.props.routeLocation || this._pendingRoute) {
+            return;
+        }
+
+        const route = KubeRouter.serialize(this._getRoute());
+        if (route !== this._lastRoute) {
+            this._lastRoute = route;
+            this.props.routeLocation.setRoute(route);
+        }
+    }
+
+    private _getRoute(): IKubeRoute {
+        const filter = this._getPivotFilter(this.state.selectedPivotKey);
+        const route: IKubeRoute = {
+            clusterName: this.state.clusterName,
+            namespace: this.state.namespace || undefined,
+            pivotKey: this.state.selectedPivotKey,
+            nameFilter: filter.getFilterItemValue<string>(NameKey),
+            typeFilter: filter.getFilterItemValue<(string | number)[]>(TypeKey)
+        };
+
+        const selectedItem = this.state.selectedItem;
+        if (this.state.showSelectedItem && selectedItem) {
+            route.selectedItemType = this.state.selectedItemType;
+            if (this.state.selectedItemType === SelectedItemKeys.ServiceItemKey) {
+                const serviceItem = selectedItem as IServiceItem;
+                route.selectedItemName = serviceItem.package;
+                route.selectedItemNamespace = serviceItem.service && serviceItem.service.metadata.namespace;
+            }
+            else {
+                const metadata = (selectedItem as Exclude<SelectedItem, IServiceItem>).metadata;
+                route.selectedItemName = metadata.name;
+                route.selectedItemNamespace = metadata.namespace;
+            }
+
+            route.podName = this.state.selectedPodName;
+            route.podTab = this.state.selectedPodTab;
+        }
+
+        return route;
+    }
+
+    private static _getRouteFilterState(route: IKubeRoute): IFilterState {
+        const filterState: IFilterState = {};
+        if (route.nameFilter) {
+            filterState[NameKey] = { value: route.nameFilter };
+        }
+
+        if (route.typeFilter) {
+            filterState[TypeKey] = { value: route.typeFilter };
+        }
+
+        return filterState;
+    }
+
+    private _refresh = (): void => {
+        const kubeService = this._getKubeService();
+        const namespace = this.state.namespace || undefined;
+        this._namespacesActionCreator.getNamespaces(kubeService);
+        this._workloadsActionCreator.getDeployments(kubeService, namespace);
+        this._workloadsActionCreator.getReplicaSets(kubeService, namespace);
+        this._workloadsActionCreator.getDaemonSets(kubeService, namespace);
+        this._workloadsActionCreator.getStatefulSets(kubeService, namespace);
+        this._workloadsActionCreator.getJobs(kubeService, namespace);
+        this._workloadsActionCreator.getCronJobs(kubeService, namespace);
+        this._podsActionCreator.getPods(kubeService, undefined, namespace);
+        this._servicesActionCreator.getServices(kubeService, namespace);
+        this._servicesActionCreator.getIngresses(kubeService, namespace);
+        this._configurationActionCreator.getConfigMaps(kubeService, namespace);
+        // Secrets are only read while they are shown
+        if (this._isShowingSecrets()) {
+            this._configurationActionCreator.getSecrets(kubeService, namespace);
+        }
+
+        this._configurationActionCreator.getPersistentVolumeClaims(kubeService, namespace);
+        // Nodes are only read while they are shown
+        if (this._isShowingNodes()) {
+            this._nodesActionCreator.getNodes(kubeService);
+        }
+
+        this._eventsActionCreator.refreshEvents();
+
+        // every refresh adds a sample to the usage shown for the pods
+        this._metricsActionCreator.getPodMetrics(kubeService, namespace);
+
+        const selectedItem = this.state.selectedItem as IServiceItem;
+        if (this.state.showSelectedItem && this.state.selectedItemType === SelectedItemKeys.ServiceItemKey && selectedItem && selectedItem.service) {
+            const svc = selectedItem.service;
+            this._podsActionCreator.getPods(kubeService, Utils.generateEqualsConditionLabelSelector(svc.spec && svc.spec.selector || {}), svc.metadata.namespace);
+        }
+    }
+
+    private _isShowingSecrets(): boolean {
+        return this.state.showSelectedItem
+            ? this.state.selectedItemType === SelectedItemKeys.SecretKey
+            : this.state.selectedPivotKey === configurationPivotItemKey;
+    }
+
+    private _isShowingNodes(): boolean {
+        return this.state.showSelectedItem
+            ? this.state.selectedItemType === SelectedItemKeys.NodeKey || this.state.selectedItemType === SelectedItemKeys.NodePodKey
+            : this.state.selectedPivotKey === nodesPivotItemKey;
+    }
+
+    private _onRefreshPauseToggled = (): void => {
+        if (this._refreshScheduler) {
+            if (this._refreshScheduler.isPaused()) {
+                this._refreshScheduler.resume();
+            }
+            else {
+                this._refreshScheduler.pause();
+            }
+
+            this.setState({ isRefreshPaused: this._refreshScheduler.isPaused() });
+        }
+    }
+
+    private _onNamespacesFetched = (): void => {
+        const namespaces = this._namespacesStore.getNamespaceNames();
+        if (namespaces.join() !== this.state.namespaces.join()) {
+            this.setState({ namespaces: namespaces });
+        }
+    }
+
+    private _onNamespaceChanged = (option: IDropdownOption): void => {
+        const namespace = option.key as string;
+        if (namespace !== this.state.namespace) {
+            this._namespacesActionCreator.selectNamespace(namespace);
+        }
+    }
+
+    // The stores have dropped the objects of the previous namespace, the pivots are remounted for the new one through their keys
+    private _onNamespaceSelected = (): void => {
+        const namespace = this._namespacesStore.getState().selectedNamespace;
+        if (this._watch) {
+            this._watch.stop();
+        }
+
+        this.setState({ namespace: namespace, resourceSize: 0, isFetchComplete: false });
+        this._fetchSummaryResources(namespace);
     }
 
     private _setNamespaceOnDeploymentsFetched = (): void => {
@@ -119,14 +538,81 @@ export class KubeSummary extends BaseComponent<IKubeSummaryProps, IKubernetesCon
         }
     }
 
+    // Deployments are fetched on every refresh, the time is only set when their list is received and not on the store event which failed fetches and watch events also emit
+    private _setLastUpdatedOnDeploymentsFetched = (): void => {
+        if (this._refreshScheduler) {
+            this.setState({ lastUpdated: new Date() });
+        }
+    }
+
     private _onWorkloadsFilterApplied = (currentState: IFilterState) => {
         this.setState({})
+        this._saveViewState(this.state.selectedPivotKey);
     };
 
     private _onSvcFilterApplied = (currentState: IFilterState) => {
         this.setState({})
+        this._saveViewState(this.state.selectedPivotKey);
     };
 
+    private _onConfigurationFilterApplied = (currentState: IFilterState) => {
+        this.setState({})
+        this._saveViewState(this.state.selectedPivotKey);
+    };
+
+    private _onNodesFilterApplied = (currentState: IFilterState) => {
+        this.setState({})
+        this._saveViewState(this.state.selectedPivotKey);
+    };
+
+    private _getPivotFilter(pivotKey: string | undefined): Filter {
+        switch (pivotKey) {
+            case servicesPivotItemKey:
+                return this.state.svcFilter;
+            case configurationPivotItemKey:
+                return this.state.configurationFilter;
+            case nodesPivotItemKey:
+                return this.state.nodesFilter;
+        }
+
+        return this.state.workloadsFilter;
+    }
+
+    private _onSelectedTabChanged = (key: string): void => {
+        this.setState({ selectedPivotKey: key });
+        this._saveViewState(key);
+    }
+
+    // Kept with the current selection history entry, to be restored when navigating back or forward to it
+    private _saveViewState(selectedPivotKey: string | undefined): void {
+        const filterStates: { [pivotKey: string]: IFilterState } = {};
+        filterStates[workloadsPivotItemKey] = this.state.workloadsFilter.getState();
+        filterStates[servicesPivotItemKey] = this.state.svcFilter.getState();
+        filterStates[configurationPivotItemKey] = this.state.configurationFilter.getState();
+        filterStates[nodesPivotItemKey] = this.state.nodesFilter.getState();
+        this._selectionActions.saveViewState.invoke({ selectedPivotKey: selectedPivotKey, filterStates: filterStates });
+    }
+
+    // The change events are suppressed, as restoring the filters is not a change to save
+    private _restoreViewState(viewState: ISelectionViewState): void {
+        const filterStates = viewState.filterStates || {};
+        if (filterStates[workloadsPivotItemKey]) {
+            this.state.workloadsFilter.setState(filterStates[workloadsPivotItemKey], true);
+        }
+
+        if (filterStates[servicesPivotItemKey]) {
+            this.state.svcFilter.setState(filterStates[servicesPivotItemKey], true);
+        }
+
+        if (filterStates[configurationPivotItemKey]) {
+            this.state.configurationFilter.setState(filterStates[configurationPivotItemKey], true);
+        }
+
+        if (filterStates[nodesPivotItemKey]) {
+            this.state.nodesFilter.setState(filterStates[nodesPivotItemKey], true);
+        }
+    }
+
     private _onDataFound = (): void => {
         const workloadSize = this._workloadsStore.getWorkloadSize();
         const servicesSize = this._servicesStore.getServicesSize();
@@ -136,11 +622,25 @@ export class KubeSummary extends BaseComponent<IKubeSummaryProps, IKubernetesCon
         }
     }
 
+    private _onFetchStatusChanged = (): void => {
+        this._scheduleRouteResolution();
+        const isFetchComplete = this._isFetchComplete();
+        if (isFetchComplete !== this.state.isFetchComplete) {
+            this.setState({ isFetchComplete: isFetchComplete });
+        }
+    }
+
+    private _isFetchComplete(): boolean {
+        return this._workloadsStore.isFetchComplete()
+            && this._servicesStore.getState().servicesFetchStatus.status === ResourceFetchStatus.Loaded;
+    }
+
     private _getMainContent(): JSX.Element {
+        // The pivot fetches the remaining workload kinds and shows their progress, so it stays up until everything is known to be empty
         return (
             <div className="main-content">
                 {this._getMainHeading()}
-                {this.state.resourceSize > 0 ?
+                {this.state.resourceSize > 0 || !this.state.isFetchComplete ?
                     this._getMainPivot() :
                     KubeZeroData._getDefaultZeroData("https://kubernetes.io/docs/concepts/workloads/pods/pod/",
                         Resources.LearnMoreText, Resources.NoWorkLoadsText, Resources.CreateWorkLoadText)
@@ -153,7 +653,58 @@ export class KubeSummary extends BaseComponent<IKubeSummaryProps, IKubernetesCon
         return (
             <div className="content-main-heading">
                 <h2 className="title-heading">{this.props.title}</h2>
-                <div className={"sub-heading"}>{format(Resources.NamespaceHeadingText, this.state.namespace || "")}</div>
+                {this._getClusterPicker()}
+                {this._getNamespaceHeading()}
+                {
+                    this._refreshScheduler &&
+                    <RefreshIndicator
+                        lastUpdated={this.state.lastUpdated}
+                        isPaused={this.state.isRefreshPaused}
+                        onPauseToggled={this._onRefreshPauseToggled}
+                    />
+                }
+            </div>
+        );
+    }
+
+    private _getClusterPicker(): JSX.Element | null {
+        const clusterNames = KubeSummary._getClusterNames(this.props);
+        if (clusterNames.length <= 1) {
+            return null;
+        }
+
+        return (
+            <div className="sub-heading cluster-picker">
+                <span className="cluster-picker-label">{Resources.ClusterText}</span>
+                <Dropdown
+                    className="cluster-picker-dropdown"
+                    options={clusterNames.map(clusterName => ({ key: clusterName, text: clusterName }))}
+                    selectedKey={this.state.clusterName}
+                    onChanged={this._onClusterChanged}
+                />
+            </div>
+        );
+    }
+
+    private _getNamespaceHeading(): JSX.Element {
+        if (this.state.namespaces.length === 0) {
+            const namespaceText = Utils.isAllNamespaces(this.state.namespace) ? Resources.AllNamespacesText : this.state.namespace;
+            return <div className={"sub-heading"}>{format(Resources.NamespaceHeadingText, namespaceText || "")}</div>;
+        }
+
+        const options: IDropdownOption[] = [{ key: AllNamespaces, text: Resources.AllNamespacesText }];
+        this.state.namespaces.forEach(namespace => options.push({ key: namespace, text: namespace }));
+
+        return (
+            <div className="sub-heading namespace-picker">
+                <span className="namespace-picker-label">{Resources.NamespaceText}</span>
+                <Dropdown
+                    className="namespace-picker-dropdown"
+                    options={options}
+                    selectedKey={this.state.namespace || undefined}
+                    placeHolder={Resources.SelectNamespaceText}
+                    onChanged={this._onNamespaceChanged}
+                />
             </div>
         );
     }
@@ -162,21 +713,24 @@ export class KubeSummary extends BaseComponent<IKubeSummaryProps, IKubernetesCon
         return (
             <div className="content-with-pivot">
                 <TabBar
-                    onSelectedTabChanged={(key: string) => { this.setState({ selectedPivotKey: key }) }}
+                    onSelectedTabChanged={this._onSelectedTabChanged}
                     orientation={0}
                     selectedTabId={this.state.selectedPivotKey || workloadsPivotItemKey}
                     renderAdditionalContent={() => {
-                        return (<HeaderCommandBarWithFilter filter={this.state.selectedPivotKey === workloadsPivotItemKey ?
-                            this.state.workloadsFilter : this.state.svcFilter}
-                            filterToggled={filterToggled} items={[]} />);
+                        return (<HeaderCommandBarWithFilter filter={this._getPivotFilter(this.state.selectedPivotKey)}
+                            filterToggled={this._filterToggled} items={[]} />);
                     }}>
                     <Tab name={Resources.PivotWorkloadsText} id={workloadsPivotItemKey} />
                     <Tab name={Resources.PivotServiceText} id={servicesPivotItemKey} />
+                    <Tab name={Resources.PivotConfigurationText} id={configurationPivotItemKey} />
+                    <Tab name={Resources.PivotNodesText} id={nodesPivotItemKey} />
                 </TabBar>
                 <TabContent>
                     <div className="item-padding">
-                        {this.state.selectedPivotKey === servicesPivotItemKey && <ServicesPivot kubeService={this.props.kubeService} namespace={this.state.namespace} filter={this.state.svcFilter} filterToggled={filterToggled}/>}
-                        {this.state.selectedPivotKey === workloadsPivotItemKey && <WorkloadsPivot kubeService={this.props.kubeService} namespace={this.state.namespace} filter={this.state.workloadsFilter} filterToggled={filterToggled}/>}
+                        {this.state.selectedPivotKey === servicesPivotItemKey && <ServicesPivot key={format("svc-pivot-{0}", this.state.namespace || "")} kubeService={this._getKubeService()} namespace={this.state.namespace || undefined} filter={this.state.svcFilter} filterToggled={this._filterToggled}/>}
+                        {this.state.selectedPivotKey === workloadsPivotItemKey && <WorkloadsPivot key={format("workloads-pivot-{0}", this.state.namespace || "")} kubeService={this._getKubeService()} namespace={this.state.namespace || undefined} filter={this.state.workloadsFilter} filterToggled={this._filterToggled} allowMutations={!this.props.disableMutations} />}
+                        {this.state.selectedPivotKey === configurationPivotItemKey && <ConfigurationPivot key={format("configuration-pivot-{0}", this.state.namespace || "")} kubeService={this._getKubeService()} namespace={this.state.namespace || undefined} filter={this.state.configurationFilter} filterToggled={this._filterToggled} />}
+                        {this.state.selectedPivotKey === nodesPivotItemKey && <NodesPivot key={format("nodes-pivot-{0}", this.state.namespace || "")} kubeService={this._getKubeService()} namespace={this.state.namespace || undefined} filter={this.state.nodesFilter} filterToggled={this._filterToggled} />}
                     </div>
 
                 </TabContent>
@@ -188,39 +742,101 @@ export class KubeSummary extends BaseComponent<IKubeSummaryProps, IKubernetesCon
         const selectedItem = this.state.selectedItem;
         const selectedItemType = this.state.selectedItemType;
         if (selectedItem && selectedItemType && this._selectedItemViewMap.hasOwnProperty(selectedItemType)) {
-            return this._selectedItemViewMap[selectedItemType](selectedItem);
+            // Keyed by the history entry, so that navigating between items of the same kind mounts the view again
+            const historyIndex = this._selectionStore.getState().historyIndex;
+            return (
+                <div className="selected-item-view">
+                    <SelectionBreadcrumb podName={this.state.selectedPodName} />
+                    <div key={format("selected-item-{0}", historyIndex)}>
+                        {this._selectedItemViewMap[selectedItemType](selectedItem)}
+                    </div>
+                </div>
+            );
         }
 
         return null;
     }
 
-    private _getWorkoadPodsViewComponent(parentMetaData: V1ObjectMeta, podTemplate: V1PodTemplateSpec, parentKind: string): JSX.Element | null {
+    private _getWorkoadPodsViewComponent(parentMetaData: V1ObjectMeta, podTemplate: V1PodTemplateSpec, parentKind: string, parentResource: V1ReplicaSet | V1DaemonSet | V1StatefulSet | V1Job): JSX.Element | null {
         return (<WorkloadPodsView
+            kubeService={this._getKubeService()}
             parentMetaData={parentMetaData}
             podTemplate={podTemplate}
-            parentKind={parentKind} />);
+            parentKind={parentKind}
+            parentResource={parentResource}
+            initialPodName={this.state.selectedPodName}
+            allowMutations={!this.props.disableMutations}
+            onSelectedPodChanged={this._onSelectedPodChanged}
+            selectedPodTab={this.state.selectedPodTab}
+            onSelectedPodTabChanged={this._onSelectedPodTabChanged} />);
+    }
+
+    private _onSelectedPodTabChanged = (selectedTab: string): void => {
+        this.setState({ selectedPodTab: selectedTab });
+    }
+
+    private _onSelectedPodChanged = (selectedPod: V1Pod | null): void => {
+        const selectedPodName = selectedPod ? selectedPod.metadata.name : undefined;
+        if (selectedPodName !== this.state.selectedPodName) {
+            this.setState({ selectedPodName: selectedPodName });
+        }
     }
 
     private _onSelectionStoreChanged = () => {
         const selectionStoreState = this._selectionStore.getState();
+        if (!selectionStoreState.showSelectedItem) {
+            this._restoreViewState(selectionStoreState.viewState);
+        }
+
         this.setState({
             showSelectedItem: selectionStoreState.showSelectedItem,
             selectedItem: selectionStoreState.selectedItem,
-            selectedItemType: selectionStoreState.selectedItemType
+            selectedItemType: selectionStoreState.selectedItemType,
+            selectedPodName: selectionStoreState.selectedPodName,
+            selectedPodTab: selectionStoreState.selectedPodTab,
+            selectedPivotKey: selectionStoreState.viewState.selectedPivotKey || this.state.selectedPivotKey
         });
     }
 
     private _setSelectedKeyPodsViewMap() {
-        this._selectedItemViewMap[SelectedItemKeys.StatefulSetKey] = (item) => this._getWorkoadPodsViewComponent(item.metadata, item.spec && item.spec.template, item.kind || "StatefulSet");
-        this._selectedItemViewMap[SelectedItemKeys.ServiceItemKey] = (item) => { return <ServiceDetailsView kubeService={this.props.kubeService} service={item} /> };
-        this._selectedItemViewMap[SelectedItemKeys.DaemonSetKey] = (item) => this._getWorkoadPodsViewComponent(item.metadata, item.spec && item.spec.template, item.kind || "DaemonSet");
-        this._selectedItemViewMap[SelectedItemKeys.OrphanPodKey] = (item) => { return <PodDetailsView pod={item} />; }
-        this._selectedItemViewMap[SelectedItemKeys.ReplicaSetKey] = (item) => this._getWorkoadPodsViewComponent(item.metadata, item.spec && item.spec.template, item.kind || "ReplicaSet");
+        this._selectedItemViewMap[SelectedItemKeys.StatefulSetKey] = (item) => this._getWorkoadPodsViewComponent(item.metadata, item.spec && item.spec.template, item.kind || "StatefulSet", item);
+        this._selectedItemViewMap[SelectedItemKeys.ServiceItemKey] = (item) => { return <ServiceDetailsView kubeService={this._getKubeService()} service={item} /> };
+        this._selectedItemViewMap[SelectedItemKeys.DaemonSetKey] = (item) => this._getWorkoadPodsViewComponent(item.metadata, item.spec && item.spec.template, item.kind || "DaemonSet", item);
+        this._selectedItemViewMap[SelectedItemKeys.OrphanPodKey] = (item) => { return <PodDetailsView pod={item} kubeService={this._getKubeService()} />; }
+        this._selectedItemViewMap[SelectedItemKeys.ServicePodKey] = (item) => { return <PodDetailsView pod={item} kubeService={this._getKubeService()} />; }
+        this._selectedItemViewMap[SelectedItemKeys.DeploymentKey] = (item) => { return <DeploymentDetailsView kubeService={this._getKubeService()} deployment={item} />; }
+        this._selectedItemViewMap[SelectedItemKeys.ReplicaSetKey] = (item) => this._getWorkoadPodsViewComponent(item.metadata, item.spec && item.spec.template, item.kind || "ReplicaSet", item);
+        this._selectedItemViewMap[SelectedItemKeys.JobKey] = (item) => this._getWorkoadPodsViewComponent(item.metadata, item.spec && item.spec.template, item.kind || "Job", item);
+        this._selectedItemViewMap[SelectedItemKeys.ConfigMapKey] = (item) => { return <ConfigurationDetailsView kubeService={this._getKubeService()} item={item} kind="ConfigMap" />; }
+        this._selectedItemViewMap[SelectedItemKeys.SecretKey] = (item) => { return <ConfigurationDetailsView kubeService={this._getKubeService()} item={item} kind="Secret" allowSecretReveal={!!this.props.allowSecretReveal} />; }
+        this._selectedItemViewMap[SelectedItemKeys.NodeKey] = (item) => { return <NodeDetailsView kubeService={this._getKubeService()} node={item} />; }
+        this._selectedItemViewMap[SelectedItemKeys.NodePodKey] = (item) => { return <PodDetailsView pod={item} kubeService={this._getKubeService()} />; }
     }
 
     private _selectedItemViewMap: { [selectedItemKey: string]: (selectedItem: any) => JSX.Element | null } = {};
+    private _scopeId: string = FluxScope.createScopeId("kube-summary");
+    private _clusterName: string | undefined;
+    private _filterToggled: ObservableValue<boolean> = new ObservableValue<boolean>(false);
     private _selectionStore: SelectionStore;
+    private _selectionActions: SelectionActions;
+    private _workloadsActions: WorkloadsActions;
     private _workloadsActionCreator: WorkloadsActionsCreator;
+    private _podsActionCreator: PodsActionsCreator;
+    private _metricsActionCreator: MetricsActionsCreator;
+    private _servicesActionCreator: ServicesActionsCreator;
+    private _configurationActionCreator: ConfigurationActionsCreator;
+    private _namespacesActionCreator: NamespacesActionsCreator;
+    private _nodesActionCreator: NodesActionsCreator;
+    private _eventsActionCreator: EventsActionsCreator;
+    private _namespacesStore: NamespacesStore;
     private _workloadsStore: WorkloadsStore;
     private _servicesStore: ServicesStore;
+    private _configurationStore: ConfigurationStore;
+    private _nodesStore: NodesStore;
+    private _watch: IKubeWatch | undefined;
+    private _refreshScheduler: RefreshScheduler | undefined;
+    private _podsStore: PodsStore;
+    private _pendingRoute: IKubeRoute | undefined;
+    private _routeTimerId: number | undefined;
+    private _lastRoute: string | undefined;
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent, css } from "@uifabric/utilities";
+import * as React from "react";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { YamlLineChange, YamlUtils } from "../YamlUtils";
+import "./KubeYamlDiffView.scss";
+
+const changeMarkers: { [change: string]: string } = {
+    "added": "+",
+    "removed": "-",
+    "unchanged": " "
+};
+
+export interface IKubeYamlDiffViewProperties extends IVssComponentProperties {
+    oldObject: any;
+    newObject: any;
+}
+
+/**
+ * Renders the yaml of the new object with the lines removed from and added to the old object highlighted.
+ */
+export class KubeYamlDiffView extends BaseComponent<IKubeYamlDiffViewProperties> {
+    public render(): JSX.Element {
+        const lines = YamlUtils.diffLines(YamlUtils.toYaml(this.props.oldObject), YamlUtils.toYaml(this.props.newObject));
+        if (lines.every(line => line.change === "unchanged")) {
+            return <div className={css("kube-yaml-diff-view", "secondary-text", this.props.className)}>{Resources.NoTemplateChangesText}</div>;
+        }
+
+        return (
+            <div className={css("kube-yaml-diff-view", "kube-yaml-diff-content", this.props.className)}>
+                {lines.map((line, index) => (
+                    <div key={index} className={css("kube-yaml-diff-line", KubeYamlDiffView._getLineClassName(line.change))}>
+                        <span className="kube-yaml-diff-marker">{changeMarkers[line.change]}</span>
+                        <span>{line.text}</span>
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    private static _getLineClassName(change: YamlLineChange): string {
+        return "kube-yaml-diff-" + change;
+    }
+}
@@ -0,0 +1,156 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent, css } from "@uifabric/utilities";
+import { Button } from "azure-devops-ui/Button";
+import { Icon } from "azure-devops-ui/Icon";
+import { Toggle } from "azure-devops-ui/Toggle";
+import * as React from "react";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { IYamlLine, YamlUtils } from "../YamlUtils";
+import "./KubeYamlView.scss";
+
+export interface IKubeYamlViewProperties extends IVssComponentProperties {
+    resource: any;
+    // Objects fetched as part of a list do not carry apiVersion and kind, these are used in that case
+    apiVersion: string;
+    kind: string;
+}
+
+export interface IKubeYamlViewState {
+    hideNoisyFields: boolean;
+    collapsedLines: { [lineIndex: number]: boolean };
+}
+
+export class KubeYamlView extends BaseComponent<IKubeYamlViewProperties, IKubeYamlViewState> {
+    constructor(props: IKubeYamlViewProperties) {
+        super(props, {});
+        this.state = {
+            hideNoisyFields: true,
+            collapsedLines: {}
+        };
+    }
+
+    public render(): JSX.Element {
+        const lines = YamlUtils.toYamlLines(this._getResourceToRender());
+        return (
+            <div className="kube-yaml-view flex-column flex-grow">
+                <div className="kube-yaml-toolbar">
+                    <Toggle
+                        className="kube-yaml-toggle"
+                        text={Resources.HideManagedFieldsText}
+                        checked={this.state.hideNoisyFields}
+                        onChange={this._onHideNoisyFieldsToggled}
+                    />
+                    <Button
+                        text={Resources.CopyText}
+                        iconProps={{ iconName: "Copy" }}
+                        subtle={true}
+                        onClick={this._onCopy}
+                    />
+                    <Button
+                        text={Resources.DownloadText}
+                        iconProps={{ iconName: "Download" }}
+                        subtle={true}
+                        onClick={this._onDownload}
+                    />
+                </div>
+                <div className="kube-yaml-content">
+                    {this._getVisibleLines(lines)}
+                </div>
+            </div>
+        );
+    }
+
+    private _getVisibleLines(lines: IYamlLine[]): JSX.Element[] {
+        let visibleLines: JSX.Element[] = [];
+        let collapsedDepth: number = -1;
+        lines.forEach((line, index) => {
+            if (collapsedDepth >= 0) {
+                if (line.depth > collapsedDepth) {
+                    return;
+                }
+
+                collapsedDepth = -1;
+            }
+
+            const isCollapsed = line.foldable && !!this.state.collapsedLines[index];
+            if (isCollapsed) {
+                collapsedDepth = line.depth;
+            }
+
+            visibleLines.push(
+                <div className="kube-yaml-line" key={index}>
+                    <span className="kube-yaml-line-number">{index + 1}</span>
+                    <span className={css("kube-yaml-fold", line.foldable && "foldable")} onClick={line.foldable ? () => this._toggleFold(index) : undefined}>
+                        {line.foldable && <Icon iconName={isCollapsed ? "ChevronRight" : "ChevronDown"} />}
+                    </span>
+                    <span className="kube-yaml-line-text">{line.text}{isCollapsed && <span className="secondary-text">{" ..."}</span>}</span>
+                </div>
+            );
+        });
+
+        return visibleLines;
+    }
+
+    private _toggleFold(lineIndex: number): void {
+        const collapsedLines = { ...this.state.collapsedLines };
+        collapsedLines[lineIndex] = !collapsedLines[lineIndex];
+        this.setState({ collapsedLines: collapsedLines });
+    }
+
+    private _onHideNoisyFieldsToggled = (event: React.SyntheticEvent<HTMLElement>, checked: boolean): void => {
+        // line indices change with the fields shown, so folds are reset
+        this.setState({ hideNoisyFields: checked, collapsedLines: {} });
+    }
+
+    private _onCopy = (): void => {
+        const textArea = document.createElement("textarea");
+        textArea.value = this._getYaml();
+        textArea.style.position = "fixed";
+        textArea.style.opacity = "0";
+        document.body.appendChild(textArea);
+        textArea.select();
+        try {
+            document.execCommand("copy");
+        }
+        finally {
+            document.body.removeChild(textArea);
+        }
+    }
+
+    private _onDownload = (): void => {
+        const metadata = this.props.resource && this.props.resource.metadata;
+        const fileName = (metadata && metadata.name || this.props.kind.toLowerCase()) + ".yaml";
+        const blob = new Blob([this._getYaml()], { type: "text/yaml" });
+        if (window.navigator.msSaveOrOpenBlob) {
+            window.navigator.msSaveOrOpenBlob(blob, fileName);
+            return;
+        }
+
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(blob);
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    }
+
+    private _getYaml(): string {
+        return YamlUtils.toYaml(this._getResourceToRender()) + "\n";
+    }
+
+    private _getResourceToRender(): any {
+        const resource = {
+            ...this.props.resource,
+            apiVersion: this.props.resource.apiVersion || this.props.apiVersion,
+            kind: this.props.resource.kind || this.props.kind
+        };
+
+        return this.state.hideNoisyFields ? YamlUtils.stripNoisyFields(resource) : resource;
+    }
+}
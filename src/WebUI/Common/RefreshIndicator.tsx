@@ -0,0 +1,62 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent, format } from "@uifabric/utilities";
+import { Button } from "azure-devops-ui/Button";
+import * as Date_Utils from "azure-devops-ui/Utilities/Date";
+import * as React from "react";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import "./RefreshIndicator.scss";
+
+const tickIntervalInMs: number = 1000;
+
+export interface IRefreshIndicatorProperties extends IVssComponentProperties {
+    lastUpdated?: Date;
+    isPaused: boolean;
+    onPauseToggled: () => void;
+}
+
+export class RefreshIndicator extends BaseComponent<IRefreshIndicatorProperties> {
+    public componentDidMount(): void {
+        // Re-render every second so that the elapsed time stays current
+        this._tickTimerId = window.setInterval(() => this.forceUpdate(), tickIntervalInMs);
+    }
+
+    public componentWillUnmount(): void {
+        window.clearInterval(this._tickTimerId);
+    }
+
+    public render(): JSX.Element {
+        return (
+            <div className="refresh-indicator">
+                {
+                    this.props.lastUpdated &&
+                    <span className="refresh-indicator-text secondary-text">
+                        {format(Resources.LastUpdatedText, RefreshIndicator._getElapsedText(this.props.lastUpdated))}
+                    </span>
+                }
+                <Button
+                    className="refresh-indicator-toggle"
+                    text={this.props.isPaused ? Resources.ResumeText : Resources.PauseText}
+                    iconProps={{ iconName: this.props.isPaused ? "Play" : "Pause" }}
+                    subtle={true}
+                    onClick={this.props.onPauseToggled}
+                />
+            </div>
+        );
+    }
+
+    private static _getElapsedText(lastUpdated: Date): string {
+        const elapsedSeconds = Math.max(0, Math.floor((Date.now() - lastUpdated.getTime()) / 1000));
+        if (elapsedSeconds < 60) {
+            return format(Resources.SecondsAgoText, elapsedSeconds);
+        }
+
+        return Date_Utils.ago(lastUpdated, Date_Utils.AgoFormat.Compact);
+    }
+
+    private _tickTimerId: number;
+}
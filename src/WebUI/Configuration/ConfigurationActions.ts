@@ -0,0 +1,61 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionsHubBase, Action } from "../FluxCommon/Actions";
+import { V1ConfigMap, V1ConfigMapList, V1PersistentVolumeClaim, V1PersistentVolumeClaimList, V1Secret, V1SecretList } from "@kubernetes/client-node";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { IResourceFetchStatusPayload } from "../Types";
+
+export class ConfigurationActions extends ActionsHubBase {
+    public static getKey(): string {
+        return "configuration-actions";
+    }
+
+    public initialize(): void {
+        this._configMapsFetched = new Action<V1ConfigMapList>();
+        this._configMapWatchEventReceived = new Action<IKubeWatchEvent<V1ConfigMap>>();
+        this._secretsFetched = new Action<V1SecretList>();
+        this._secretWatchEventReceived = new Action<IKubeWatchEvent<V1Secret>>();
+        this._persistentVolumeClaimsFetched = new Action<V1PersistentVolumeClaimList>();
+        this._persistentVolumeClaimWatchEventReceived = new Action<IKubeWatchEvent<V1PersistentVolumeClaim>>();
+        this._fetchStatusChanged = new Action<IResourceFetchStatusPayload>();
+    }
+
+    public get configMapsFetched(): Action<V1ConfigMapList> {
+        return this._configMapsFetched;
+    }
+
+    public get configMapWatchEventReceived(): Action<IKubeWatchEvent<V1ConfigMap>> {
+        return this._configMapWatchEventReceived;
+    }
+
+    public get secretsFetched(): Action<V1SecretList> {
+        return this._secretsFetched;
+    }
+
+    public get secretWatchEventReceived(): Action<IKubeWatchEvent<V1Secret>> {
+        return this._secretWatchEventReceived;
+    }
+
+    public get persistentVolumeClaimsFetched(): Action<V1PersistentVolumeClaimList> {
+        return this._persistentVolumeClaimsFetched;
+    }
+
+    public get persistentVolumeClaimWatchEventReceived(): Action<IKubeWatchEvent<V1PersistentVolumeClaim>> {
+        return this._persistentVolumeClaimWatchEventReceived;
+    }
+
+    public get fetchStatusChanged(): Action<IResourceFetchStatusPayload> {
+        return this._fetchStatusChanged;
+    }
+
+    private _configMapsFetched: Action<V1ConfigMapList>;
+    private _configMapWatchEventReceived: Action<IKubeWatchEvent<V1ConfigMap>>;
+    private _secretsFetched: Action<V1SecretList>;
+    private _secretWatchEventReceived: Action<IKubeWatchEvent<V1Secret>>;
+    private _persistentVolumeClaimsFetched: Action<V1PersistentVolumeClaimList>;
+    private _persistentVolumeClaimWatchEventReceived: Action<IKubeWatchEvent<V1PersistentVolumeClaim>>;
+    private _fetchStatusChanged: Action<IResourceFetchStatusPayload>;
+}
@@ -0,0 +1,84 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionCreatorBase } from "../FluxCommon/Actions";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { ConfigurationActions } from "./ConfigurationActions";
+import { ResourceFetchStatus } from "../Constants";
+import { Utils } from "../Utils";
+
+export class ConfigurationActionsCreator extends ActionCreatorBase {
+    public static getKey(): string {
+        return "configuration-actionscreator";
+    }
+
+    public initialize(instanceId?: string): void {
+        this._actions = ActionsHubManager.GetActionsHub<ConfigurationActions>(ConfigurationActions, instanceId);
+    }
+
+    public getConfigMaps(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getConfigMaps(namespace).then(configMapList => {
+            this._actions.configMapsFetched.invoke(configMapList);
+        }, error => this._onFetchFailed(KubeResourceType.ConfigMaps, error));
+    }
+
+    public getSecrets(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getSecrets(namespace).then(secretList => {
+            this._actions.secretsFetched.invoke(secretList);
+        }, error => this._onFetchFailed(KubeResourceType.Secrets, error));
+    }
+
+    public getPersistentVolumeClaims(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getPersistentVolumeClaims(namespace).then(persistentVolumeClaimList => {
+            this._actions.persistentVolumeClaimsFetched.invoke(persistentVolumeClaimList);
+        }, error => this._onFetchFailed(KubeResourceType.PersistentVolumeClaims, error));
+    }
+
+    /**
+     * Marks the resource kind as loading and fetches it again, used by the retry action of the failed views.
+     */
+    public retry(kubeService: IKubeService, resourceType: KubeResourceType, namespace?: string): void {
+        this._actions.fetchStatusChanged.invoke({ resourceType: resourceType, status: ResourceFetchStatus.Loading });
+        if (resourceType === KubeResourceType.Secrets) {
+            this.getSecrets(kubeService, namespace);
+        }
+        else if (resourceType === KubeResourceType.PersistentVolumeClaims) {
+            this.getPersistentVolumeClaims(kubeService, namespace);
+        }
+        else {
+            this.getConfigMaps(kubeService, namespace);
+        }
+    }
+
+    public watchConfigMaps(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.ConfigMaps, event => {
+            this._actions.configMapWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchSecrets(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.Secrets, event => {
+            this._actions.secretWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchPersistentVolumeClaims(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.PersistentVolumeClaims, event => {
+            this._actions.persistentVolumeClaimWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    private _onFetchFailed(resourceType: KubeResourceType, error: any): void {
+        this._actions.fetchStatusChanged.invoke({
+            resourceType: resourceType,
+            status: ResourceFetchStatus.Failed,
+            errorMessage: Utils.getErrorMessage(error)
+        });
+    }
+
+    private _actions: ConfigurationActions;
+}
@@ -0,0 +1,220 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ConfigMap, V1Pod, V1Secret } from "@kubernetes/client-node";
+import { BaseComponent, format } from "@uifabric/utilities";
+import { Button } from "azure-devops-ui/Button";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as Date_Utils from "azure-devops-ui/Utilities/Date";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { ConfigurationKind, ConfigurationReferences, IConfigurationConsumer } from "../ConfigurationReferences";
+import { PodsEvents } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
+import { PodsStore } from "../Pods/PodsStore";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import "./ConfigurationDetailsView.scss";
+import { ConfigurationTable } from "./ConfigurationTable";
+
+const maskedValue: string = "\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022";
+const colDataClassName: string = "list-col-content";
+
+export interface IConfigurationDetailsViewProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    item: V1ConfigMap | V1Secret;
+    kind: ConfigurationKind;
+    // Offers to show the value of a single key of a secret at a time, the values stay masked otherwise
+    allowSecretReveal?: boolean;
+}
+
+export interface IConfigurationDetailsViewState {
+    pods: V1Pod[];
+    revealedKey?: string;
+}
+
+interface IConfigurationDataItem {
+    key: string;
+    // base64 encoded for secrets and binary data
+    value: string;
+    isBinary: boolean;
+}
+
+/**
+ * Shows the keys of a config map or secret along with the workloads whose pods read it.
+ */
+export class ConfigurationDetailsView extends BaseComponent<IConfigurationDetailsViewProperties, IConfigurationDetailsViewState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IConfigurationDetailsViewProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._podsStore = StoreManager.GetStore<PodsStore>(PodsStore, this.context.fluxInstanceId);
+        this.state = { pods: this._getPods() };
+
+        // The pivots fetch the pods, unless the item was opened from a link
+        if (!this._podsStore.getState().podsList) {
+            const selectedNamespace = StoreManager.GetStore<NamespacesStore>(NamespacesStore, this.context.fluxInstanceId).getState().selectedNamespace;
+            ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId).getPods(this.props.kubeService, undefined, selectedNamespace || undefined);
+        }
+
+        this._podsStore.addListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+    }
+
+    public componentWillUnmount(): void {
+        this._podsStore.removeListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+    }
+
+    public render(): JSX.Element {
+        const metadata = this.props.item.metadata;
+        const created = metadata.creationTimestamp ? Date_Utils.ago(new Date(metadata.creationTimestamp), Date_Utils.AgoFormat.Compact) : "";
+        const typeText = this.props.kind === "Secret" ? Resources.SecretText : Resources.ConfigMapText;
+        return (
+            <div className="configuration-details-view">
+                <div className="content-main-heading">
+                    <h2 className="title-heading">{metadata.name}</h2>
+                    <div className="sub-heading">{format(Resources.ConfigurationCreatedText, typeText, created)}</div>
+                    <div className="sub-heading">{ConfigurationTable.getSizeText(this.props.item, this.props.kind)}</div>
+                </div>
+                {this._getData()}
+                {this._getConsumers()}
+            </div>
+        );
+    }
+
+    private _getData(): JSX.Element {
+        const columns: ITableColumn<IConfigurationDataItem>[] = [
+            { id: "key", name: Resources.KeyText, minWidth: 160, width: -25, renderCell: ConfigurationDetailsView._renderKeyCell },
+            { id: "value", name: Resources.ValueText, minWidth: 300, width: -75, renderCell: this._renderValueCell }
+        ];
+        columns.forEach(column => column.headerClassName = "kube-col-header");
+
+        return (
+            <BaseKubeTable
+                className="configuration-data depth-16"
+                headingText={format(Resources.ConfigurationKeysText, ConfigurationReferences.getKeys(this.props.item).length)}
+                items={this._getDataItems()}
+                columns={columns}
+            />
+        );
+    }
+
+    private _getDataItems(): IConfigurationDataItem[] {
+        const data = this.props.item.data || {};
+        const binaryData = (this.props.item as V1ConfigMap).binaryData || {};
+        return Object.keys(data).map(key => ({ key: key, value: data[key] || "", isBinary: false }))
+            .concat(Object.keys(binaryData).map(key => ({ key: key, value: binaryData[key] || "", isBinary: true })));
+    }
+
+    private static _renderKeyCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IConfigurationDataItem>, item: IConfigurationDataItem): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(item.key, BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // Revealing the value of a key masks the value revealed before
+    private _renderValueCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IConfigurationDataItem>, item: IConfigurationDataItem): JSX.Element => {
+        if (this.props.kind !== "Secret") {
+            const text = item.isBinary ? Resources.BinaryDataText : item.value;
+            return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(text, BaseKubeTable.defaultColumnRenderer, "configuration-value"));
+        }
+
+        const isRevealed = !!this.props.allowSecretReveal && this.state.revealedKey === item.key;
+        const itemToRender = (
+            <div className="configuration-secret-value">
+                {BaseKubeTable.renderColumn(isRevealed ? ConfigurationDetailsView._decode(item.value) : maskedValue, BaseKubeTable.defaultColumnRenderer, "configuration-value")}
+                {
+                    this.props.allowSecretReveal &&
+                    <Button
+                        text={isRevealed ? Resources.HideValueText : Resources.ShowValueText}
+                        iconProps={{ iconName: isRevealed ? "Hide" : "View" }}
+                        subtle={true}
+                        onClick={() => this.setState({ revealedKey: isRevealed ? undefined : item.key })}
+                    />
+                }
+            </div>
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // Values which are not utf-8 text are shown as their decoded bytes
+    private static _decode(value: string): string {
+        let bytes: string;
+        try {
+            bytes = window.atob(value);
+        }
+        catch (e) {
+            return value;
+        }
+
+        try {
+            return decodeURIComponent(escape(bytes));
+        }
+        catch (e) {
+            return bytes;
+        }
+    }
+
+    private _getConsumers(): JSX.Element {
+        const metadata = this.props.item.metadata;
+        const consumers = ConfigurationReferences.getConsumers(this.state.pods, this.props.kind, metadata.namespace, metadata.name);
+        if (consumers.length === 0) {
+            return (
+                <div className="kube-list-content depth-16 configuration-consumers">
+                    <h3 className="heading-title">{Resources.UsedByText}</h3>
+                    <div className="secondary-text">{Resources.NotUsedByPodsText}</div>
+                </div>
+            );
+        }
+
+        const columns: ITableColumn<IConfigurationConsumer>[] = [
+            { id: "name", name: Resources.NameText, minWidth: 200, width: -30, renderCell: ConfigurationDetailsView._renderConsumerNameCell },
+            { id: "kind", name: Resources.KindText, minWidth: 120, width: -20, renderCell: ConfigurationDetailsView._renderConsumerKindCell },
+            { id: "pods", name: Resources.PodsListHeaderText, minWidth: 300, width: -50, renderCell: ConfigurationDetailsView._renderConsumerPodsCell }
+        ];
+        columns.forEach(column => column.headerClassName = "kube-col-header");
+
+        return (
+            <BaseKubeTable
+                className="configuration-consumers depth-16"
+                headingText={Resources.UsedByText}
+                items={consumers}
+                columns={columns}
+            />
+        );
+    }
+
+    private static _renderConsumerNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IConfigurationConsumer>, consumer: IConfigurationConsumer): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(consumer.name, BaseKubeTable.defaultColumnRenderer, colDataClassName));
+    }
+
+    private static _renderConsumerKindCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IConfigurationConsumer>, consumer: IConfigurationConsumer): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(consumer.kind, BaseKubeTable.defaultColumnRenderer, colDataClassName));
+    }
+
+    private static _renderConsumerPodsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IConfigurationConsumer>, consumer: IConfigurationConsumer): JSX.Element {
+        const podNames = consumer.pods.map(pod => pod.metadata.name).join(", ");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(podNames, BaseKubeTable.defaultColumnRenderer, colDataClassName));
+    }
+
+    private _onPodsFetched = (): void => {
+        const pods = this._getPods();
+        if (pods !== this.state.pods) {
+            this.setState({ pods: pods });
+        }
+    }
+
+    private _getPods(): V1Pod[] {
+        const podsList = this._podsStore.getState().podsList;
+        return podsList && podsList.items || [];
+    }
+
+    private _podsStore: PodsStore;
+}
@@ -0,0 +1,52 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent } from "@uifabric/utilities";
+import * as React from "react";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import "../Common/KubeSummary.scss";
+import { Filter } from "azure-devops-ui/Utilities/Filter";
+import { KubeFilterBar } from "../Common/KubeFilterBar";
+import { ObservableValue } from "azure-devops-ui/Core/Observable";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+
+export interface IConfigurationFilterBarProps extends IVssComponentProperties {
+    filter: Filter;
+    filterToggled: ObservableValue<boolean>;
+    namespaceItemsFn?: () => string[];
+}
+
+export class ConfigurationFilterBar extends BaseComponent<IConfigurationFilterBarProps> {
+    public render(): React.ReactNode {
+        return (<KubeFilterBar filter={this.props.filter}
+            keywordPlaceHolder={Resources.PivotConfigurationText}
+            pickListPlaceHolder={Resources.KindText}
+            pickListItemsFn={this._pickListItems}
+            listItemsFn={this._listItems}
+            filterToggled={this.props.filterToggled}
+            namespaceItemsFn={this.props.namespaceItemsFn}
+        />);
+    }
+
+    private _pickListItems = () => {
+        return [KubeResourceType.ConfigMaps, KubeResourceType.Secrets, KubeResourceType.PersistentVolumeClaims];
+    };
+
+    private _listItems = (item: any) => {
+        let name: string = Resources.ConfigMapText;
+        if (item === KubeResourceType.Secrets) {
+            name = Resources.SecretText;
+        }
+        else if (item === KubeResourceType.PersistentVolumeClaims) {
+            name = Resources.PersistentVolumeClaimText;
+        }
+
+        return {
+            key: item.toString(),
+            name: name
+        };
+    };
+}
@@ -0,0 +1,276 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ConfigMapList, V1PersistentVolumeClaimList, V1Pod, V1SecretList } from "@kubernetes/client-node";
+import { BaseComponent } from "@uifabric/utilities";
+import * as React from "react";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import * as Resources from "../Resources";
+import { IVssComponentProperties, IResourceFetchStatus } from "../Types";
+import { Utils } from "../Utils";
+import "../Common/KubeSummary.scss";
+import { KubeZeroData } from "../Common/KubeZeroData";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
+import { Filter, IFilterState, IFilterItemState } from "azure-devops-ui/Utilities/Filter";
+import { ObservableValue } from "azure-devops-ui/Core/Observable";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { ConfigurationEvents, PodsEvents, ResourceFetchStatus } from "../Constants";
+import { NameKey, TypeKey, NamespaceKey } from "../Common/KubeFilterBar";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
+import { PodsStore } from "../Pods/PodsStore";
+import { ConfigurationActionsCreator } from "./ConfigurationActionsCreator";
+import { ConfigurationFilterBar } from "./ConfigurationFilterBar";
+import { ConfigurationStore } from "./ConfigurationStore";
+import { ConfigurationTable } from "./ConfigurationTable";
+import { PersistentVolumeClaimsTable } from "./PersistentVolumeClaimsTable";
+
+export interface IConfigurationPivotState {
+    configMapList?: V1ConfigMapList;
+    configMapsFetchStatus: IResourceFetchStatus;
+    secretList?: V1SecretList;
+    secretsFetchStatus: IResourceFetchStatus;
+    persistentVolumeClaimList?: V1PersistentVolumeClaimList;
+    persistentVolumeClaimsFetchStatus: IResourceFetchStatus;
+    pods: V1Pod[];
+}
+
+export interface IConfigurationPivotProps extends IVssComponentProperties {
+    kubeService: IKubeService;
+    filter: Filter;
+    namespace?: string;
+    filterToggled: ObservableValue<boolean>;
+}
+
+export class ConfigurationPivot extends BaseComponent<IConfigurationPivotProps, IConfigurationPivotState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IConfigurationPivotProps, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<ConfigurationActionsCreator>(ConfigurationActionsCreator, this.context.fluxInstanceId);
+        this._podsActionCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<ConfigurationStore>(ConfigurationStore, this.context.fluxInstanceId);
+        this._podsStore = StoreManager.GetStore<PodsStore>(PodsStore, this.context.fluxInstanceId);
+
+        const storeState = this._store.getState();
+        this.state = {
+            configMapList: storeState.configMapList,
+            configMapsFetchStatus: storeState.configMapsFetchStatus,
+            secretList: storeState.secretList,
+            secretsFetchStatus: storeState.secretsFetchStatus,
+            persistentVolumeClaimList: storeState.persistentVolumeClaimList,
+            persistentVolumeClaimsFetchStatus: storeState.persistentVolumeClaimsFetchStatus,
+            pods: this._getPods()
+        };
+
+        this._actionCreator.getConfigMaps(this.props.kubeService, this.props.namespace);
+        this._actionCreator.getSecrets(this.props.kubeService, this.props.namespace);
+        this._actionCreator.getPersistentVolumeClaims(this.props.kubeService, this.props.namespace);
+        this._configMapsWatch = this._actionCreator.watchConfigMaps(this.props.kubeService, this.props.namespace);
+        this._secretsWatch = this._actionCreator.watchSecrets(this.props.kubeService, this.props.namespace);
+        this._persistentVolumeClaimsWatch = this._actionCreator.watchPersistentVolumeClaims(this.props.kubeService, this.props.namespace);
+
+        // The pods tell which config maps, secrets and claims are used
+        this._podsActionCreator.getPods(this.props.kubeService, undefined, this.props.namespace);
+        this._podsWatch = this._podsActionCreator.watchPods(this.props.kubeService, undefined, this.props.namespace);
+
+        this._store.addListener(ConfigurationEvents.ConfigMapsFetchedEvent, this._onConfigMapsFetched);
+        this._store.addListener(ConfigurationEvents.SecretsFetchedEvent, this._onSecretsFetched);
+        this._store.addListener(ConfigurationEvents.PersistentVolumeClaimsFetchedEvent, this._onPersistentVolumeClaimsFetched);
+        this._podsStore.addListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+    }
+
+    public render(): React.ReactNode {
+        return (
+            <div className="item-padding">
+                {this._getFilterBar()}
+                {this._getContent()}
+            </div>
+        );
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(ConfigurationEvents.ConfigMapsFetchedEvent, this._onConfigMapsFetched);
+        this._store.removeListener(ConfigurationEvents.SecretsFetchedEvent, this._onSecretsFetched);
+        this._store.removeListener(ConfigurationEvents.PersistentVolumeClaimsFetchedEvent, this._onPersistentVolumeClaimsFetched);
+        this._podsStore.removeListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+        [this._configMapsWatch, this._secretsWatch, this._persistentVolumeClaimsWatch, this._podsWatch].forEach(watch => watch && watch.stop());
+    }
+
+    private _onConfigMapsFetched = (): void => {
+        const storeState = this._store.getState();
+        if (storeState.configMapList !== this.state.configMapList || storeState.configMapsFetchStatus !== this.state.configMapsFetchStatus) {
+            this.setState({ configMapList: storeState.configMapList, configMapsFetchStatus: storeState.configMapsFetchStatus });
+        }
+    }
+
+    private _onSecretsFetched = (): void => {
+        const storeState = this._store.getState();
+        if (storeState.secretList !== this.state.secretList || storeState.secretsFetchStatus !== this.state.secretsFetchStatus) {
+            this.setState({ secretList: storeState.secretList, secretsFetchStatus: storeState.secretsFetchStatus });
+        }
+    }
+
+    private _onPersistentVolumeClaimsFetched = (): void => {
+        const storeState = this._store.getState();
+        if (storeState.persistentVolumeClaimList !== this.state.persistentVolumeClaimList
+            || storeState.persistentVolumeClaimsFetchStatus !== this.state.persistentVolumeClaimsFetchStatus) {
+            this.setState({
+                persistentVolumeClaimList: storeState.persistentVolumeClaimList,
+                persistentVolumeClaimsFetchStatus: storeState.persistentVolumeClaimsFetchStatus
+            });
+        }
+    }
+
+    private _onPodsFetched = (): void => {
+        const pods = this._getPods();
+        if (pods !== this.state.pods) {
+            this.setState({ pods: pods });
+        }
+    }
+
+    private _getPods(): V1Pod[] {
+        const podsList = this._podsStore.getState().podsList;
+        return podsList && podsList.items || [];
+    }
+
+    private _onConfigMapsRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.ConfigMaps, this.props.namespace);
+    }
+
+    private _onSecretsRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.Secrets, this.props.namespace);
+    }
+
+    private _onPersistentVolumeClaimsRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.PersistentVolumeClaims, this.props.namespace);
+    }
+
+    private _getContent(): JSX.Element {
+        const configMaps = this.state.configMapList && this.state.configMapList.items || [];
+        const secrets = this.state.secretList && this.state.secretList.items || [];
+        const claims = this.state.persistentVolumeClaimList && this.state.persistentVolumeClaimList.items || [];
+        const isLoaded = this.state.configMapsFetchStatus.status === ResourceFetchStatus.Loaded
+            && this.state.secretsFetchStatus.status === ResourceFetchStatus.Loaded
+            && this.state.persistentVolumeClaimsFetchStatus.status === ResourceFetchStatus.Loaded;
+        if (isLoaded && configMaps.length === 0 && secrets.length === 0 && claims.length === 0) {
+            return KubeZeroData._getDefaultZeroData("https://kubernetes.io/docs/tasks/configure-pod-container/configure-pod-configmap/",
+                Resources.LearnMoreText, Resources.NoConfigurationText, Resources.CreateConfigurationText);
+        }
+
+        return (
+            <div>
+                {
+                    this._showComponent(KubeResourceType.ConfigMaps) &&
+                    <div>
+                        <KubeFetchStatusView
+                            className="top-padding"
+                            fetchStatus={this.state.configMapsFetchStatus}
+                            resourceName={Resources.ConfigMapText}
+                            onRetry={this._onConfigMapsRetry}
+                        />
+                        <ConfigurationTable
+                            kind="ConfigMap"
+                            items={configMaps}
+                            pods={this.state.pods}
+                            nameFilter={this._getNameFilterValue()}
+                            showNamespace={this._isAllNamespaces()}
+                            namespaceSelections={this._getNamespaceFilterValue()}
+                        />
+                    </div>
+                }
+                {
+                    this._showComponent(KubeResourceType.Secrets) &&
+                    <div>
+                        <KubeFetchStatusView
+                            className="top-padding"
+                            fetchStatus={this.state.secretsFetchStatus}
+                            resourceName={Resources.SecretText}
+                            onRetry={this._onSecretsRetry}
+                        />
+                        <ConfigurationTable
+                            kind="Secret"
+                            items={secrets}
+                            pods={this.state.pods}
+                            nameFilter={this._getNameFilterValue()}
+                            showNamespace={this._isAllNamespaces()}
+                            namespaceSelections={this._getNamespaceFilterValue()}
+                        />
+                    </div>
+                }
+                {
+                    this._showComponent(KubeResourceType.PersistentVolumeClaims) &&
+                    <div>
+                        <KubeFetchStatusView
+                            className="top-padding"
+                            fetchStatus={this.state.persistentVolumeClaimsFetchStatus}
+                            resourceName={Resources.PersistentVolumeClaimText}
+                            onRetry={this._onPersistentVolumeClaimsRetry}
+                        />
+                        <PersistentVolumeClaimsTable
+                            kubeService={this.props.kubeService}
+                            claims={claims}
+                            pods={this.state.pods}
+                            nameFilter={this._getNameFilterValue()}
+                            showNamespace={this._isAllNamespaces()}
+                            namespaceSelections={this._getNamespaceFilterValue()}
+                        />
+                    </div>
+                }
+            </div>
+        );
+    }
+
+    private _getFilterBar(): JSX.Element {
+        return (<ConfigurationFilterBar
+            filter={this.props.filter}
+            filterToggled={this.props.filterToggled}
+            namespaceItemsFn={this._isAllNamespaces() ? this._getNamespaceItems : undefined}
+        />);
+    }
+
+    private _isAllNamespaces(): boolean {
+        return Utils.isAllNamespaces(this.props.namespace);
+    }
+
+    private _getNamespaceItems = (): string[] => {
+        return StoreManager.GetStore<NamespacesStore>(NamespacesStore, this.context.fluxInstanceId).getNamespaceNames();
+    }
+
+    private _getNameFilterValue(): string | undefined {
+        const filterState: IFilterState | undefined = this.props.filter.getState();
+        const filterItem: IFilterItemState | null = filterState ? filterState[NameKey] : null;
+        return filterItem ? (filterItem.value as string) : undefined;
+    }
+
+    // The namespace filter only applies while the objects of all namespaces are shown
+    private _getNamespaceFilterValue(): string[] {
+        const filterState: IFilterState | undefined = this.props.filter.getState();
+        const filterItem: IFilterItemState | null = this._isAllNamespaces() && filterState ? filterState[NamespaceKey] : null;
+        return filterItem ? filterItem.value : [];
+    }
+
+    // All kinds are shown until some are picked
+    private _showComponent(resourceType: KubeResourceType): boolean {
+        const filterState: IFilterState | undefined = this.props.filter.getState();
+        const filterItem: IFilterItemState | null = filterState ? filterState[TypeKey] : null;
+        const selections: KubeResourceType[] = filterItem ? filterItem.value : [];
+        return selections.length === 0 || selections.indexOf(resourceType) >= 0;
+    }
+
+    private _store: ConfigurationStore;
+    private _podsStore: PodsStore;
+    private _actionCreator: ConfigurationActionsCreator;
+    private _podsActionCreator: PodsActionsCreator;
+    private _configMapsWatch: IKubeWatch | undefined;
+    private _secretsWatch: IKubeWatch | undefined;
+    private _persistentVolumeClaimsWatch: IKubeWatch | undefined;
+    private _podsWatch: IKubeWatch | undefined;
+}
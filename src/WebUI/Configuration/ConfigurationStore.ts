@@ -0,0 +1,160 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { StoreBase } from "../FluxCommon/Store";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { V1ConfigMap, V1ConfigMapList, V1PersistentVolumeClaim, V1PersistentVolumeClaimList, V1Secret, V1SecretList } from "@kubernetes/client-node";
+import { ConfigurationActions } from "./ConfigurationActions";
+import { NamespacesActions } from "../Namespaces/NamespacesActions";
+import { ConfigurationEvents, ResourceFetchStatus } from "../Constants";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { IResourceFetchStatus, IResourceFetchStatusPayload } from "../Types";
+import { Utils } from "../Utils";
+
+export interface IConfigurationStoreState {
+    configMapList?: V1ConfigMapList;
+    secretList?: V1SecretList;
+    persistentVolumeClaimList?: V1PersistentVolumeClaimList;
+    configMapsFetchStatus: IResourceFetchStatus;
+    secretsFetchStatus: IResourceFetchStatus;
+    persistentVolumeClaimsFetchStatus: IResourceFetchStatus;
+}
+
+export class ConfigurationStore extends StoreBase {
+    public static getKey(): string {
+        return "configuration-store";
+    }
+
+    public initialize(instanceId?: string): void {
+        super.initialize(instanceId);
+
+        this._state = ConfigurationStore._getInitialState();
+
+        this._configurationActions = ActionsHubManager.GetActionsHub<ConfigurationActions>(ConfigurationActions, instanceId);
+        this._namespacesActions = ActionsHubManager.GetActionsHub<NamespacesActions>(NamespacesActions, instanceId);
+
+        this._configurationActions.configMapsFetched.addListener(this._configMapsFetched);
+        this._configurationActions.configMapWatchEventReceived.addListener(this._onConfigMapWatchEvent);
+        this._configurationActions.secretsFetched.addListener(this._secretsFetched);
+        this._configurationActions.secretWatchEventReceived.addListener(this._onSecretWatchEvent);
+        this._configurationActions.persistentVolumeClaimsFetched.addListener(this._persistentVolumeClaimsFetched);
+        this._configurationActions.persistentVolumeClaimWatchEventReceived.addListener(this._onPersistentVolumeClaimWatchEvent);
+        this._configurationActions.fetchStatusChanged.addListener(this._onFetchStatusChanged);
+        this._namespacesActions.namespaceSelected.addListener(this._onNamespaceSelected);
+    }
+
+    public disposeInternal(): void {
+        this._configurationActions.configMapsFetched.removeListener(this._configMapsFetched);
+        this._configurationActions.configMapWatchEventReceived.removeListener(this._onConfigMapWatchEvent);
+        this._configurationActions.secretsFetched.removeListener(this._secretsFetched);
+        this._configurationActions.secretWatchEventReceived.removeListener(this._onSecretWatchEvent);
+        this._configurationActions.persistentVolumeClaimsFetched.removeListener(this._persistentVolumeClaimsFetched);
+        this._configurationActions.persistentVolumeClaimWatchEventReceived.removeListener(this._onPersistentVolumeClaimWatchEvent);
+        this._configurationActions.fetchStatusChanged.removeListener(this._onFetchStatusChanged);
+        this._namespacesActions.namespaceSelected.removeListener(this._onNamespaceSelected);
+    }
+
+    public getState(): IConfigurationStoreState {
+        return this._state;
+    }
+
+    /**
+     * True once the config maps, and the secrets when they are included, are fetched or have failed to.
+     */
+    public isFetchComplete(includeSecrets: boolean): boolean {
+        return this._state.configMapsFetchStatus.status !== ResourceFetchStatus.Loading
+            && (!includeSecrets || this._state.secretsFetchStatus.status !== ResourceFetchStatus.Loading);
+    }
+
+    private _configMapsFetched = (configMapList: V1ConfigMapList): void => {
+        this._state.configMapList = Utils.getUpdatedList(this._state.configMapList, configMapList);
+        this._setConfigMapsFetchStatus({ status: ResourceFetchStatus.Loaded });
+        this.emit(ConfigurationEvents.ConfigMapsFetchedEvent, this);
+    }
+
+    private _secretsFetched = (secretList: V1SecretList): void => {
+        this._state.secretList = Utils.getUpdatedList(this._state.secretList, secretList);
+        this._setSecretsFetchStatus({ status: ResourceFetchStatus.Loaded });
+        this.emit(ConfigurationEvents.SecretsFetchedEvent, this);
+    }
+
+    private _persistentVolumeClaimsFetched = (persistentVolumeClaimList: V1PersistentVolumeClaimList): void => {
+        this._state.persistentVolumeClaimList = Utils.getUpdatedList(this._state.persistentVolumeClaimList, persistentVolumeClaimList);
+        this._setPersistentVolumeClaimsFetchStatus({ status: ResourceFetchStatus.Loaded });
+        this.emit(ConfigurationEvents.PersistentVolumeClaimsFetchedEvent, this);
+    }
+
+    private _onConfigMapWatchEvent = (event: IKubeWatchEvent<V1ConfigMap>): void => {
+        const configMapList = this._state.configMapList || {} as V1ConfigMapList;
+        this._configMapsFetched({ ...configMapList, items: Utils.applyWatchEvent(configMapList.items, event) });
+    }
+
+    private _onSecretWatchEvent = (event: IKubeWatchEvent<V1Secret>): void => {
+        const secretList = this._state.secretList || {} as V1SecretList;
+        this._secretsFetched({ ...secretList, items: Utils.applyWatchEvent(secretList.items, event) });
+    }
+
+    private _onPersistentVolumeClaimWatchEvent = (event: IKubeWatchEvent<V1PersistentVolumeClaim>): void => {
+        const persistentVolumeClaimList = this._state.persistentVolumeClaimList || {} as V1PersistentVolumeClaimList;
+        this._persistentVolumeClaimsFetched({ ...persistentVolumeClaimList, items: Utils.applyWatchEvent(persistentVolumeClaimList.items, event) });
+    }
+
+    private _onFetchStatusChanged = (payload: IResourceFetchStatusPayload): void => {
+        if (payload.resourceType === KubeResourceType.Secrets) {
+            this._setSecretsFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+            this.emit(ConfigurationEvents.SecretsFetchedEvent, this);
+        }
+        else if (payload.resourceType === KubeResourceType.ConfigMaps) {
+            this._setConfigMapsFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+            this.emit(ConfigurationEvents.ConfigMapsFetchedEvent, this);
+        }
+        else if (payload.resourceType === KubeResourceType.PersistentVolumeClaims) {
+            this._setPersistentVolumeClaimsFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+            this.emit(ConfigurationEvents.PersistentVolumeClaimsFetchedEvent, this);
+        }
+    }
+
+    private _onNamespaceSelected = (): void => {
+        this._state = ConfigurationStore._getInitialState();
+        this.emit(ConfigurationEvents.ConfigMapsFetchedEvent, this);
+        this.emit(ConfigurationEvents.SecretsFetchedEvent, this);
+        this.emit(ConfigurationEvents.PersistentVolumeClaimsFetchedEvent, this);
+    }
+
+    private static _getInitialState(): IConfigurationStoreState {
+        return {
+            configMapList: undefined,
+            secretList: undefined,
+            persistentVolumeClaimList: undefined,
+            configMapsFetchStatus: { status: ResourceFetchStatus.Loading },
+            secretsFetchStatus: { status: ResourceFetchStatus.Loading },
+            persistentVolumeClaimsFetchStatus: { status: ResourceFetchStatus.Loading }
+        };
+    }
+
+    // The status objects are only replaced on a change, so that the views can skip rendering unchanged state
+    private _setConfigMapsFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.configMapsFetchStatus, fetchStatus)) {
+            this._state.configMapsFetchStatus = fetchStatus;
+        }
+    }
+
+    private _setSecretsFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.secretsFetchStatus, fetchStatus)) {
+            this._state.secretsFetchStatus = fetchStatus;
+        }
+    }
+
+    private _setPersistentVolumeClaimsFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.persistentVolumeClaimsFetchStatus, fetchStatus)) {
+            this._state.persistentVolumeClaimsFetchStatus = fetchStatus;
+        }
+    }
+
+    private _state: IConfigurationStoreState;
+    private _configurationActions: ConfigurationActions;
+    private _namespacesActions: NamespacesActions;
+}
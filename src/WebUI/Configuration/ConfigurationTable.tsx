@@ -0,0 +1,131 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ConfigMap, V1Pod, V1Secret } from "@kubernetes/client-node";
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { ConfigurationKind, ConfigurationReferences } from "../ConfigurationReferences";
+import { SelectedItemKeys } from "../Constants";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import * as Resources from "../Resources";
+import { ResourceQuantity } from "../ResourceQuantity";
+import { SelectionActions } from "../Selection/SelectionActions";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+
+const nameKey: string = "configuration-name-col";
+const namespaceKey: string = "configuration-namespace-col";
+const keysKey: string = "configuration-keys-col";
+const sizeKey: string = "configuration-size-col";
+const usedByKey: string = "configuration-used-by-col";
+const ageKey: string = "configuration-age-col";
+const colDataClassName: string = "list-col-content";
+
+export interface IConfigurationTableProperties extends IVssComponentProperties {
+    kind: ConfigurationKind;
+    items: (V1ConfigMap | V1Secret)[];
+    // The pods of the listed namespace, the "used by" column is computed from their references
+    pods: V1Pod[];
+    nameFilter?: string;
+    showNamespace?: boolean;
+    namespaceSelections?: string[];
+}
+
+// Lists the keys of config maps or secrets, the values are only shown in the details of an item
+export class ConfigurationTable extends BaseComponent<IConfigurationTableProperties> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    public render(): React.ReactNode {
+        const filteredItems = (this.props.items || []).filter(item => {
+            return Utils.filterByName(item.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(item.metadata.namespace, this.props.namespaceSelections);
+        });
+
+        if (filteredItems.length > 0) {
+            return (
+                <BaseKubeTable
+                    className={css("list-content", "top-padding", "depth-16")}
+                    items={filteredItems}
+                    columns={this._getColumns()}
+                    onItemActivated={this._openItem}
+                />
+            );
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the size of the values, e.g. "1.5KiB".
+     */
+    public static getSizeText(item: V1ConfigMap | V1Secret, kind: ConfigurationKind): string {
+        return format(Resources.SizeInBytesText, ResourceQuantity.formatMemory(ConfigurationReferences.getSize(item, kind)));
+    }
+
+    private _openItem = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: V1ConfigMap | V1Secret) => {
+        if (selectedItem) {
+            const selectedItemType = this.props.kind === "Secret" ? SelectedItemKeys.SecretKey : SelectedItemKeys.ConfigMapKey;
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: selectedItemType });
+        }
+    }
+
+    private _getColumns(): ITableColumn<V1ConfigMap | V1Secret>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<V1ConfigMap | V1Secret>[] = [
+            { id: nameKey, name: this.props.kind === "Secret" ? Resources.SecretText : Resources.ConfigMapText, minWidth: 250, width: -100, renderCell: this._renderNameCell }
+        ];
+
+        if (this.props.showNamespace) {
+            columns.push({ id: namespaceKey, name: Resources.NamespaceText, minWidth: 120, width: -100, renderCell: ConfigurationTable._renderNamespaceCell });
+        }
+
+        columns.push({ id: keysKey, name: Resources.KeysText, minWidth: 200, width: -100, renderCell: ConfigurationTable._renderKeysCell });
+        columns.push({ id: sizeKey, name: Resources.SizeText, minWidth: 80, width: -100, renderCell: this._renderSizeCell });
+        columns.push({ id: usedByKey, name: Resources.UsedByText, minWidth: 200, width: -100, renderCell: this._renderUsedByCell });
+        columns.push({ id: ageKey, name: Resources.AgeText, minWidth: 80, width: -100, renderCell: ConfigurationTable._renderAgeCell });
+
+        columns.forEach(column => column.headerClassName = headerColumnClassName);
+        return columns;
+    }
+
+    // Secrets show their type, e.g. "kubernetes.io/tls", when no pipeline deployed them
+    private _renderNameCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1ConfigMap | V1Secret>, item: V1ConfigMap | V1Secret): JSX.Element => {
+        const subText = Utils.getPipelineText(item.metadata.annotations) || (this.props.kind === "Secret" ? (item as V1Secret).type || "" : "");
+        const itemToRender = BaseKubeTable.renderTwoLineColumn(item.metadata.name, subText, colDataClassName, "primary-text", "secondary-text");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1ConfigMap | V1Secret>, item: V1ConfigMap | V1Secret): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(item.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderKeysCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1ConfigMap | V1Secret>, item: V1ConfigMap | V1Secret): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(ConfigurationReferences.getKeys(item).join(", "), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _renderSizeCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1ConfigMap | V1Secret>, item: V1ConfigMap | V1Secret): JSX.Element => {
+        const itemToRender = BaseKubeTable.renderColumn(ConfigurationTable.getSizeText(item, this.props.kind), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _renderUsedByCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1ConfigMap | V1Secret>, item: V1ConfigMap | V1Secret): JSX.Element => {
+        const consumers = ConfigurationReferences.getConsumers(this.props.pods, this.props.kind, item.metadata.namespace, item.metadata.name);
+        const itemToRender = BaseKubeTable.renderColumn(consumers.map(consumer => consumer.name).join(", "), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAgeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1ConfigMap | V1Secret>, item: V1ConfigMap | V1Secret): JSX.Element {
+        const itemToRender = (<Ago date={new Date(item.metadata.creationTimestamp)} />);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+}
@@ -0,0 +1,177 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1PersistentVolumeClaim, V1Pod } from "@kubernetes/client-node";
+import { BaseComponent, css } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { ContentSize } from "azure-devops-ui/Callout";
+import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
+import { Panel } from "azure-devops-ui/Panel";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { EventsView } from "../Events/EventsView";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import { VolumeClaims } from "../VolumeClaims";
+
+const nameKey: string = "pvc-name-col";
+const namespaceKey: string = "pvc-namespace-col";
+const statusKey: string = "pvc-status-col";
+const capacityKey: string = "pvc-capacity-col";
+const accessModesKey: string = "pvc-access-modes-col";
+const storageClassKey: string = "pvc-storage-class-col";
+const volumeKey: string = "pvc-volume-col";
+const usedByKey: string = "pvc-used-by-col";
+const ageKey: string = "pvc-age-col";
+const colDataClassName: string = "list-col-content";
+
+export interface IPersistentVolumeClaimsTableProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    claims: V1PersistentVolumeClaim[];
+    // The pods of the listed namespace, the "used by" column tells the stateful sets and pods mounting the claims
+    pods: V1Pod[];
+    nameFilter?: string;
+    showNamespace?: boolean;
+    namespaceSelections?: string[];
+}
+
+export interface IPersistentVolumeClaimsTableState {
+    // The events tell why a claim is pending, e.g. a missing storage class
+    eventsClaim?: V1PersistentVolumeClaim;
+}
+
+export class PersistentVolumeClaimsTable extends BaseComponent<IPersistentVolumeClaimsTableProperties, IPersistentVolumeClaimsTableState> {
+    constructor(props: IPersistentVolumeClaimsTableProperties) {
+        super(props, {});
+        this.state = {};
+    }
+
+    public render(): React.ReactNode {
+        const filteredClaims = (this.props.claims || []).filter(claim => {
+            return Utils.filterByName(claim.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(claim.metadata.namespace, this.props.namespaceSelections);
+        });
+
+        if (filteredClaims.length > 0) {
+            return (
+                <div>
+                    <BaseKubeTable
+                        className={css("list-content", "top-padding", "depth-16")}
+                        items={filteredClaims}
+                        columns={this._getColumns()}
+                        onItemActivated={this._showEventsPanel}
+                    />
+                    {this._getEventsPanel()}
+                </div>
+            );
+        }
+
+        return null;
+    }
+
+    private _getEventsPanel(): JSX.Element | null {
+        const claim = this.state.eventsClaim;
+        if (!claim) {
+            return null;
+        }
+
+        return (
+            <Panel
+                onDismiss={this._hideEventsPanel}
+                titleProps={{ text: claim.metadata.name }}
+                description={Resources.EventsText}
+                size={ContentSize.Large}>
+                <EventsView
+                    kubeService={this.props.kubeService}
+                    involvedObjectUid={claim.metadata.uid}
+                    namespace={claim.metadata.namespace}
+                />
+            </Panel>
+        );
+    }
+
+    private _showEventsPanel = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedClaim: V1PersistentVolumeClaim): void => {
+        if (selectedClaim) {
+            this.setState({ eventsClaim: selectedClaim });
+        }
+    }
+
+    private _hideEventsPanel = (): void => {
+        this.setState({ eventsClaim: undefined });
+    }
+
+    private _getColumns(): ITableColumn<V1PersistentVolumeClaim>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<V1PersistentVolumeClaim>[] = [
+            { id: nameKey, name: Resources.PersistentVolumeClaimText, minWidth: 250, width: -100, renderCell: PersistentVolumeClaimsTable._renderNameCell }
+        ];
+
+        if (this.props.showNamespace) {
+            columns.push({ id: namespaceKey, name: Resources.NamespaceText, minWidth: 120, width: -100, renderCell: PersistentVolumeClaimsTable._renderNamespaceCell });
+        }
+
+        columns.push({ id: statusKey, name: Resources.StatusText, minWidth: 120, width: -100, renderCell: PersistentVolumeClaimsTable._renderStatusCell });
+        columns.push({ id: capacityKey, name: Resources.CapacityText, minWidth: 80, width: -100, renderCell: PersistentVolumeClaimsTable._renderCapacityCell });
+        columns.push({ id: accessModesKey, name: Resources.AccessModesText, minWidth: 100, width: -100, renderCell: PersistentVolumeClaimsTable._renderAccessModesCell });
+        columns.push({ id: storageClassKey, name: Resources.StorageClassText, minWidth: 120, width: -100, renderCell: PersistentVolumeClaimsTable._renderStorageClassCell });
+        columns.push({ id: volumeKey, name: Resources.VolumeText, minWidth: 200, width: -100, renderCell: PersistentVolumeClaimsTable._renderVolumeCell });
+        columns.push({ id: usedByKey, name: Resources.UsedByText, minWidth: 160, width: -100, renderCell: this._renderUsedByCell });
+        columns.push({ id: ageKey, name: Resources.AgeText, minWidth: 80, width: -100, renderCell: PersistentVolumeClaimsTable._renderAgeCell });
+
+        columns.forEach(column => column.headerClassName = headerColumnClassName);
+        return columns;
+    }
+
+    private static _renderNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const itemToRender = BaseKubeTable.renderTwoLineColumn(claim.metadata.name, Utils.getPipelineText(claim.metadata.annotations), colDataClassName, "primary-text", "secondary-text");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(claim.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderStatusCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const phase = VolumeClaims.getPhase(claim);
+        const itemToRender = <ResourceStatus statusProps={Utils.generateVolumeClaimStatusProps(phase)} statusDescription={phase} />;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderCapacityCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(VolumeClaims.getStorage(claim), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAccessModesCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(VolumeClaims.getAccessModesText(claim), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderStorageClassCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(claim.spec && claim.spec.storageClassName || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderVolumeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(claim.spec && claim.spec.volumeName || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _renderUsedByCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element => {
+        const consumers = VolumeClaims.getConsumers(this.props.pods, claim);
+        const itemToRender = BaseKubeTable.renderColumn(consumers.map(consumer => consumer.name).join(", "), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAgeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1PersistentVolumeClaim>, claim: V1PersistentVolumeClaim): JSX.Element {
+        const itemToRender = (<Ago date={new Date(claim.metadata.creationTimestamp)} />);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+}
@@ -0,0 +1,128 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ConfigMap, V1Container, V1Pod, V1PodSpec, V1Secret } from "@kubernetes/client-node";
+
+export type ConfigurationKind = "ConfigMap" | "Secret";
+
+export interface IConfigurationReferences {
+    configMaps: string[];
+    secrets: string[];
+}
+
+export interface IConfigurationConsumer {
+    // the object owning the pods, e.g. a replica set, or the pod itself when it has no owner
+    kind: string;
+    name: string;
+    pods: V1Pod[];
+}
+
+export class ConfigurationReferences {
+    /**
+     * Returns the names of the config maps and secrets the pod reads, through the environment of its containers, its volumes and its image pull secrets.
+     */
+    public static getPodReferences(pod: V1Pod): IConfigurationReferences {
+        const references: IConfigurationReferences = { configMaps: [], secrets: [] };
+        const add = (names: string[], name: string | undefined) => {
+            if (name && names.indexOf(name) < 0) {
+                names.push(name);
+            }
+        };
+
+        const spec = pod.spec || {} as V1PodSpec;
+        const containers: V1Container[] = (spec.initContainers || []).concat(spec.containers || []);
+        containers.forEach(container => {
+            (container.envFrom || []).forEach(envFrom => {
+                add(references.configMaps, envFrom.configMapRef && envFrom.configMapRef.name);
+                add(references.secrets, envFrom.secretRef && envFrom.secretRef.name);
+            });
+
+            (container.env || []).forEach(env => {
+                const valueFrom = env.valueFrom;
+                add(references.configMaps, valueFrom && valueFrom.configMapKeyRef && valueFrom.configMapKeyRef.name);
+                add(references.secrets, valueFrom && valueFrom.secretKeyRef && valueFrom.secretKeyRef.name);
+            });
+        });
+
+        (spec.volumes || []).forEach(volume => {
+            add(references.configMaps, volume.configMap && volume.configMap.name);
+            add(references.secrets, volume.secret && volume.secret.secretName);
+            (volume.projected && volume.projected.sources || []).forEach(source => {
+                add(references.configMaps, source.configMap && source.configMap.name);
+                add(references.secrets, source.secret && source.secret.name);
+            });
+        });
+
+        (spec.imagePullSecrets || []).forEach(pullSecret => add(references.secrets, pullSecret.name));
+        return references;
+    }
+
+    /**
+     * Returns the pods reading the config map or secret, grouped by the object owning them. Pods only read objects of their namespace.
+     */
+    public static getConsumers(pods: V1Pod[], kind: ConfigurationKind, namespace: string, name: string): IConfigurationConsumer[] {
+        return ConfigurationReferences.groupByOwner((pods || []).filter(pod => {
+            const references = ConfigurationReferences.getPodReferences(pod);
+            return pod.metadata.namespace === namespace && (kind === "Secret" ? references.secrets : references.configMaps).indexOf(name) >= 0;
+        }));
+    }
+
+    /**
+     * Groups the pods by the object owning them, pods without owner make a group of their own.
+     */
+    public static groupByOwner(pods: V1Pod[]): IConfigurationConsumer[] {
+        const consumers: IConfigurationConsumer[] = [];
+        pods.forEach(pod => {
+            const owner = (pod.metadata.ownerReferences || [])[0];
+            const consumerKind = owner ? owner.kind : "Pod";
+            const consumerName = owner ? owner.name : pod.metadata.name;
+            const consumer = consumers.find(item => item.kind === consumerKind && item.name === consumerName);
+            if (consumer) {
+                consumer.pods.push(pod);
+            }
+            else {
+                consumers.push({ kind: consumerKind, name: consumerName, pods: [pod] });
+            }
+        });
+
+        return consumers;
+    }
+
+    /**
+     * Returns the keys of the data, including the binary data of a config map.
+     */
+    public static getKeys(item: V1ConfigMap | V1Secret): string[] {
+        const binaryData = (item as V1ConfigMap).binaryData;
+        return Object.keys(item.data || {}).concat(Object.keys(binaryData || {}));
+    }
+
+    /**
+     * Returns the size of the values in bytes, as mounted in a volume. The values of secrets and binary data are base64 encoded.
+     */
+    public static getSize(item: V1ConfigMap | V1Secret, kind: ConfigurationKind): number {
+        const data = item.data || {};
+        const binaryData = (item as V1ConfigMap).binaryData || {};
+        const getValueSize = kind === "Secret" ? ConfigurationReferences._getDecodedLength : ConfigurationReferences._getUtf8Length;
+        return Object.keys(data).reduce((size, key) => size + getValueSize(data[key] || ""), 0)
+            + Object.keys(binaryData).reduce((size, key) => size + ConfigurationReferences._getDecodedLength(binaryData[key] || ""), 0);
+    }
+
+    private static _getDecodedLength(base64: string): number {
+        const text = base64.replace(/\s/g, "");
+        const padding = text.length - text.replace(/=+$/, "").length;
+        return Math.max(Math.floor(text.length * 3 / 4) - padding, 0);
+    }
+
+    // A surrogate pair takes four bytes, two for each of its halves
+    private static _getUtf8Length(text: string): number {
+        let length = 0;
+        for (let index = 0; index < text.length; index++) {
+            const code = text.charCodeAt(index);
+            length += code < 0x80 ? 1 : code < 0x800 ? 2 : code >= 0xd800 && code <= 0xdfff ? 2 : 3;
+        }
+
+        return length;
+    }
+}
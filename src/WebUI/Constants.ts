@@ -10,11 +10,18 @@ export const enum PodsRightPanelTabsKeys {
 }
 
 export const enum SelectedItemKeys {
+    DeploymentKey = "deployment",
     ReplicaSetKey = "replica-set",
     DaemonSetKey = "daemon-set",
     StatefulSetKey = "stateful-set",
+    JobKey = "job",
     OrphanPodKey = "orphan-pod",
-    ServiceItemKey = "service-item"
+    ServicePodKey = "service-pod",
+    ServiceItemKey = "service-item",
+    ConfigMapKey = "config-map",
+    SecretKey = "secret",
+    NodeKey = "node",
+    NodePodKey = "node-pod"
 }
 
 export const enum SelectedItemKeys2 {
@@ -22,21 +29,60 @@ export const enum SelectedItemKeys2 {
     ServiceItemKey = "service-item"
 }
 
+export const enum ResourceFetchStatus {
+    Loading = "loading",
+    Loaded = "loaded",
+    Failed = "failed"
+}
+
+// The kinds whose pods are listed under their owner, pods of other owners such as nodes or custom controllers are listed on their own
+export const WorkloadPodOwnerKinds: string[] = ["ReplicaSet", "DaemonSet", "StatefulSet", "Job"];
+
 export namespace WorkloadsEvents {
     export const DeploymentsFetchedEvent: string = "DEPLOYMENTS_FETCHED_EVENT";
     export const ReplicaSetsFetchedEvent: string = "REPLICA_SETS_FETCHED_EVENT";
     export const DaemonSetsFetchedEvent: string = "DAEMON_SETS_FETCHED_EVENT";
     export const StatefulSetsFetchedEvent: string = "STATEFUL_SETS_FETCHED_EVENT";
+    export const JobsFetchedEvent: string = "JOBS_FETCHED_EVENT";
+    export const CronJobsFetchedEvent: string = "CRON_JOBS_FETCHED_EVENT";
     export const WorkloadPodsFetchedEvent: string = "WORKLOAD_PODS_FETCHED_EVENT";
     export const WorkloadsFoundEvent: string = "ZERO_WORKLOADS_FOUND_EVENT";
+    export const WorkloadsFetchStatusChangedEvent: string = "WORKLOADS_FETCH_STATUS_CHANGED_EVENT";
 }
 
 export namespace ServicesEvents {
     export const ServicesFetchedEvent: string = "SERVICES_FETCHED_EVENT";
     export const ServicePodsFetchedEvent: string = "SERVICE_PODS_FETCHED_EVENT";
+    export const IngressesFetchedEvent: string = "INGRESSES_FETCHED_EVENT";
     export const ServicesFoundEvent: string = "ZERO_SERVICES_FOUND_EVENT";
+    export const ServicesFetchStatusChangedEvent: string = "SERVICES_FETCH_STATUS_CHANGED_EVENT";
+}
+
+export namespace ConfigurationEvents {
+    export const ConfigMapsFetchedEvent: string = "CONFIG_MAPS_FETCHED_EVENT";
+    export const SecretsFetchedEvent: string = "SECRETS_FETCHED_EVENT";
+    export const PersistentVolumeClaimsFetchedEvent: string = "PERSISTENT_VOLUME_CLAIMS_FETCHED_EVENT";
 }
 
 export namespace PodsEvents {
     export const PodsFetchedEvent: string = "ALL_PODS_FETCHED_EVENT";
+    export const PodLogFetchedEvent: string = "POD_LOG_FETCHED_EVENT";
+}
+
+export namespace NodesEvents {
+    export const NodesFetchedEvent: string = "NODES_FETCHED_EVENT";
+}
+
+export namespace NamespacesEvents {
+    export const NamespacesFetchedEvent: string = "NAMESPACES_FETCHED_EVENT";
+    export const NamespaceSelectedEvent: string = "NAMESPACE_SELECTED_EVENT";
+}
+
+export namespace MetricsEvents {
+    export const PodMetricsFetchedEvent: string = "POD_METRICS_FETCHED_EVENT";
+}
+
+export namespace EventsEvents {
+    export const EventsFetchedEvent: string = "EVENTS_FETCHED_EVENT";
+    export const EventsRefreshRequestedEvent: string = "EVENTS_REFRESH_REQUESTED_EVENT";
 }
@@ -0,0 +1,46 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionsHubBase, Action } from "../FluxCommon/Actions";
+import { V1EventList } from "@kubernetes/client-node";
+import { IResourceFetchStatus } from "../Types";
+
+export interface IEventsPayload {
+    involvedObjectUid: string;
+    eventList: V1EventList;
+}
+
+export interface IEventsFetchStatusPayload extends IResourceFetchStatus {
+    involvedObjectUid: string;
+}
+
+export class EventsActions extends ActionsHubBase {
+    public static getKey(): string {
+        return "events-actions";
+    }
+
+    public initialize(): void {
+        this._eventsFetched = new Action<IEventsPayload>();
+        this._fetchStatusChanged = new Action<IEventsFetchStatusPayload>();
+        this._refreshRequested = new Action<{}>();
+    }
+
+    public get eventsFetched(): Action<IEventsPayload> {
+        return this._eventsFetched;
+    }
+
+    public get fetchStatusChanged(): Action<IEventsFetchStatusPayload> {
+        return this._fetchStatusChanged;
+    }
+
+    // The events are read by their views, which know the object they are about
+    public get refreshRequested(): Action<{}> {
+        return this._refreshRequested;
+    }
+
+    private _eventsFetched: Action<IEventsPayload>;
+    private _fetchStatusChanged: Action<IEventsFetchStatusPayload>;
+    private _refreshRequested: Action<{}>;
+}
@@ -0,0 +1,48 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { format } from "@uifabric/utilities";
+import { ActionCreatorBase } from "../FluxCommon/Actions";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { IKubeService } from "../../Contracts/Contracts";
+import { EventsActions } from "./EventsActions";
+import { ResourceFetchStatus } from "../Constants";
+import { Utils } from "../Utils";
+
+export class EventsActionsCreator extends ActionCreatorBase {
+    public static getKey(): string {
+        return "events-actionscreator";
+    }
+
+    public initialize(instanceId?: string): void {
+        this._actions = ActionsHubManager.GetActionsHub<EventsActions>(EventsActions, instanceId);
+    }
+
+    public getEvents(kubeService: IKubeService, involvedObjectUid: string, namespace?: string): void {
+        kubeService.getEvents(format("involvedObject.uid={0}", involvedObjectUid), namespace).then(eventList => {
+            this._actions.eventsFetched.invoke({ involvedObjectUid: involvedObjectUid, eventList: eventList });
+        }, error => {
+            this._actions.fetchStatusChanged.invoke({
+                involvedObjectUid: involvedObjectUid,
+                status: ResourceFetchStatus.Failed,
+                errorMessage: Utils.getErrorMessage(error)
+            });
+        });
+    }
+
+    public retryGetEvents(kubeService: IKubeService, involvedObjectUid: string, namespace?: string): void {
+        this._actions.fetchStatusChanged.invoke({ involvedObjectUid: involvedObjectUid, status: ResourceFetchStatus.Loading });
+        this.getEvents(kubeService, involvedObjectUid, namespace);
+    }
+
+    /**
+     * Asks the shown events views to read the events of their objects again.
+     */
+    public refreshEvents(): void {
+        this._actions.refreshRequested.invoke({});
+    }
+
+    private _actions: EventsActions;
+}
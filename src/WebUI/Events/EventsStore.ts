@@ -0,0 +1,84 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { StoreBase } from "../FluxCommon/Store";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { V1Event } from "@kubernetes/client-node";
+import { EventsActions, IEventsPayload, IEventsFetchStatusPayload } from "./EventsActions";
+import { EventsEvents, ResourceFetchStatus } from "../Constants";
+import { IResourceFetchStatus } from "../Types";
+import { Utils } from "../Utils";
+
+export interface IObjectEvents {
+    events: V1Event[];
+    fetchStatus: IResourceFetchStatus;
+}
+
+const emptyObjectEvents: IObjectEvents = { events: [], fetchStatus: { status: ResourceFetchStatus.Loading } };
+
+export interface IEventsStoreState {
+    // Keyed by the uid of the object the events are about
+    objectEvents: { [involvedObjectUid: string]: IObjectEvents };
+}
+
+export class EventsStore extends StoreBase {
+    public static getKey(): string {
+        return "events-store";
+    }
+
+    public initialize(instanceId?: string): void {
+        super.initialize(instanceId);
+
+        this._state = { objectEvents: {} };
+
+        this._actions = ActionsHubManager.GetActionsHub<EventsActions>(EventsActions, instanceId);
+        this._actions.eventsFetched.addListener(this._setEvents);
+        this._actions.fetchStatusChanged.addListener(this._onFetchStatusChanged);
+        this._actions.refreshRequested.addListener(this._onRefreshRequested);
+    }
+
+    public disposeInternal(): void {
+        this._actions.eventsFetched.removeListener(this._setEvents);
+        this._actions.fetchStatusChanged.removeListener(this._onFetchStatusChanged);
+        this._actions.refreshRequested.removeListener(this._onRefreshRequested);
+    }
+
+    public getState(): IEventsStoreState {
+        return this._state;
+    }
+
+    public getObjectEvents(involvedObjectUid: string): IObjectEvents {
+        return this._state.objectEvents[involvedObjectUid] || emptyObjectEvents;
+    }
+
+    private _setEvents = (payload: IEventsPayload): void => {
+        const previous = this.getObjectEvents(payload.involvedObjectUid);
+        const events = Utils.reuseUnchangedItems(previous.events, payload.eventList && payload.eventList.items || []);
+        const fetchStatus = previous.fetchStatus.status === ResourceFetchStatus.Loaded ? previous.fetchStatus : { status: ResourceFetchStatus.Loaded };
+        this._updateObjectEvents(payload.involvedObjectUid, previous, events, fetchStatus);
+    }
+
+    private _onFetchStatusChanged = (payload: IEventsFetchStatusPayload): void => {
+        const previous = this.getObjectEvents(payload.involvedObjectUid);
+        const fetchStatus = { status: payload.status, errorMessage: payload.errorMessage };
+        this._updateObjectEvents(payload.involvedObjectUid, previous, previous.events, Utils.isFetchStatusEqual(previous.fetchStatus, fetchStatus) ? previous.fetchStatus : fetchStatus);
+    }
+
+    private _onRefreshRequested = (): void => {
+        this.emit(EventsEvents.EventsRefreshRequestedEvent, this);
+    }
+
+    // The entry is only replaced on a change, so that the views can skip rendering unchanged events
+    private _updateObjectEvents(involvedObjectUid: string, previous: IObjectEvents, events: V1Event[], fetchStatus: IResourceFetchStatus): void {
+        if (events !== previous.events || fetchStatus !== previous.fetchStatus) {
+            this._state.objectEvents[involvedObjectUid] = { events: events, fetchStatus: fetchStatus };
+        }
+
+        this.emit(EventsEvents.EventsFetchedEvent, this);
+    }
+
+    private _state: IEventsStoreState;
+    private _actions: EventsActions;
+}
@@ -0,0 +1,230 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Event } from "@kubernetes/client-node";
+import { BaseComponent, css } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { Statuses } from "azure-devops-ui/Status";
+import { ColumnSorting, ITableColumn, SortOrder } from "azure-devops-ui/Table";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { EventsEvents, ResourceFetchStatus } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import * as Resources from "../Resources";
+import { IResourceFetchStatus, IVssComponentProperties } from "../Types";
+import { EventsActionsCreator } from "./EventsActionsCreator";
+import { EventsStore } from "./EventsStore";
+import "./EventsView.scss";
+
+const warningEventType: string = "Warning";
+const lastSeenColumnIndex: number = 5;
+const colDataClassName: string = "list-col-content";
+
+export interface IEventsViewProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    // uid and namespace of the object whose events are shown
+    involvedObjectUid: string;
+    namespace?: string;
+}
+
+export interface IEventsViewState {
+    events: V1Event[];
+    fetchStatus: IResourceFetchStatus;
+    sortColumnIndex: number;
+    sortOrder: SortOrder;
+}
+
+export class EventsView extends BaseComponent<IEventsViewProperties, IEventsViewState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IEventsViewProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<EventsActionsCreator>(EventsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<EventsStore>(EventsStore, this.context.fluxInstanceId);
+
+        const objectEvents = this._store.getObjectEvents(this.props.involvedObjectUid);
+        this.state = {
+            events: objectEvents.events,
+            fetchStatus: objectEvents.fetchStatus,
+            // latest events first
+            sortColumnIndex: lastSeenColumnIndex,
+            sortOrder: SortOrder.descending
+        };
+
+        this._actionCreator.getEvents(this.props.kubeService, this.props.involvedObjectUid, this.props.namespace);
+        this._store.addListener(EventsEvents.EventsFetchedEvent, this._onEventsFetched);
+        this._store.addListener(EventsEvents.EventsRefreshRequestedEvent, this._onRefreshRequested);
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(EventsEvents.EventsFetchedEvent, this._onEventsFetched);
+        this._store.removeListener(EventsEvents.EventsRefreshRequestedEvent, this._onRefreshRequested);
+    }
+
+    public render(): JSX.Element {
+        return (
+            <div className={css("events-view", this.props.className)}>
+                <KubeFetchStatusView
+                    fetchStatus={this.state.fetchStatus}
+                    resourceName={Resources.EventText}
+                    onRetry={this._onRetry}
+                />
+                {this.state.fetchStatus.status === ResourceFetchStatus.Loaded && this._getEventsTable()}
+            </div>
+        );
+    }
+
+    private _getEventsTable(): JSX.Element {
+        if (this.state.events.length === 0) {
+            return (
+                <div className="kube-list-content depth-16 events-zero-data">
+                    <h3 className="heading-title">{Resources.EventsText}</h3>
+                    <div className="secondary-text">{Resources.NoEventsText}</div>
+                </div>
+            );
+        }
+
+        return (
+            <BaseKubeTable
+                className="depth-16"
+                headingText={Resources.EventsText}
+                items={this._getSortedEvents()}
+                columns={this._getColumns()}
+                behaviors={[this._sortingBehavior]}
+            />
+        );
+    }
+
+    private _onEventsFetched = (): void => {
+        const objectEvents = this._store.getObjectEvents(this.props.involvedObjectUid);
+        // The store keeps the same entry when a refresh did not change anything
+        if (objectEvents.events !== this.state.events || objectEvents.fetchStatus !== this.state.fetchStatus) {
+            this.setState({
+                events: objectEvents.events,
+                fetchStatus: objectEvents.fetchStatus
+            });
+        }
+    }
+
+    private _onRefreshRequested = (): void => {
+        this._actionCreator.getEvents(this.props.kubeService, this.props.involvedObjectUid, this.props.namespace);
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retryGetEvents(this.props.kubeService, this.props.involvedObjectUid, this.props.namespace);
+    }
+
+    private _onSort = (columnIndex: number, proposedSortOrder: SortOrder): void => {
+        this.setState({ sortColumnIndex: columnIndex, sortOrder: proposedSortOrder });
+    }
+
+    private _getSortedEvents(): V1Event[] {
+        const compare = EventsView._sortFunctions[this.state.sortColumnIndex];
+        const events = this.state.events.slice();
+        if (compare) {
+            events.sort((first, second) => this.state.sortOrder === SortOrder.ascending ? compare(first, second) : compare(second, first));
+        }
+
+        return events;
+    }
+
+    private _getColumns(): ITableColumn<V1Event>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<V1Event>[] = [
+            { id: "type", name: Resources.TypeText, minWidth: 100, width: -10, renderCell: EventsView._renderTypeCell },
+            { id: "reason", name: Resources.ReasonText, minWidth: 120, width: -15, renderCell: EventsView._renderReasonCell },
+            { id: "message", name: Resources.MessageText, minWidth: 250, width: -45, renderCell: EventsView._renderMessageCell },
+            { id: "source", name: Resources.SourceText, minWidth: 100, width: -15, renderCell: EventsView._renderSourceCell },
+            { id: "count", name: Resources.CountText, minWidth: 60, width: -5, renderCell: EventsView._renderCountCell },
+            { id: "lastSeen", name: Resources.LastSeenText, minWidth: 100, width: -10, renderCell: EventsView._renderLastSeenCell }
+        ];
+
+        columns.forEach((column, index) => {
+            column.headerClassName = headerColumnClassName;
+            column.className = colDataClassName;
+            if (EventsView._sortFunctions[index]) {
+                column.sortProps = { sortOrder: index === this.state.sortColumnIndex ? this.state.sortOrder : undefined };
+            }
+        });
+
+        return columns;
+    }
+
+    private static _renderTypeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Event>, event: V1Event): JSX.Element {
+        const itemToRender = (
+            <ResourceStatus
+                statusProps={EventsView._isWarning(event) ? Statuses.Warning : Statuses.Information}
+                statusDescription={event.type || ""}
+            />
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderReasonCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Event>, event: V1Event): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(event.reason || "", BaseKubeTable.defaultColumnRenderer, EventsView._getTextClassName(event));
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderMessageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Event>, event: V1Event): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(event.message || "", BaseKubeTable.defaultColumnRenderer, EventsView._getTextClassName(event));
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderSourceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Event>, event: V1Event): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(EventsView._getSource(event), BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderCountCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Event>, event: V1Event): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(String(event.count || 1), BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderLastSeenCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Event>, event: V1Event): JSX.Element {
+        const lastSeen = EventsView._getLastSeenTime(event);
+        const itemToRender = lastSeen > 0 ? <Ago date={new Date(lastSeen)} /> : null;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _isWarning(event: V1Event): boolean {
+        return event.type === warningEventType;
+    }
+
+    private static _getTextClassName(event: V1Event): string | undefined {
+        return EventsView._isWarning(event) ? "event-warning-text" : undefined;
+    }
+
+    private static _getSource(event: V1Event): string {
+        const source = event.source;
+        return source && source.component || event.reportingComponent || "";
+    }
+
+    private static _getLastSeenTime(event: V1Event): number {
+        // events recorded through the events.k8s.io API only set eventTime
+        const lastSeen = event.lastTimestamp || event.eventTime || event.firstTimestamp || event.metadata && event.metadata.creationTimestamp;
+        return lastSeen ? new Date(lastSeen).getTime() : 0;
+    }
+
+    // One per column, null for columns which cannot be sorted
+    private static _sortFunctions: (((first: V1Event, second: V1Event) => number) | null)[] = [
+        (first, second) => (first.type || "").localeCompare(second.type || ""),
+        (first, second) => (first.reason || "").localeCompare(second.reason || ""),
+        null,
+        (first, second) => EventsView._getSource(first).localeCompare(EventsView._getSource(second)),
+        (first, second) => (first.count || 1) - (second.count || 1),
+        (first, second) => EventsView._getLastSeenTime(first) - EventsView._getLastSeenTime(second)
+    ];
+
+    private _sortingBehavior: ColumnSorting<V1Event> = new ColumnSorting<V1Event>(this._onSort);
+    private _actionCreator: EventsActionsCreator;
+    private _store: EventsStore;
+}
@@ -23,6 +23,13 @@ export class ActionsCreatorManager extends Manager {
         super.getInstance<ActionsCreatorManager>(ActionsCreatorManager).removeObject(actionCreatorClass, instanceId);
     }
 
+    /**
+     * Removes all instances created for the scope, which is used when the component owning the scope unmounts.
+     */
+    public static DisposeScope(scopeId: string): void {
+        super.getInstance<ActionsCreatorManager>(ActionsCreatorManager).removeScope(scopeId);
+    }
+
     public static dispose() {
         return super.getInstance<ActionsCreatorManager>(ActionsCreatorManager).dispose();
     }
@@ -22,6 +22,13 @@ export class ActionsHubManager extends Manager {
         return super.getInstance<ActionsHubManager>(ActionsHubManager).getAllObjects(actionsHubClass) as T[];
     }
 
+    /**
+     * Removes all instances created for the scope, which is used when the component owning the scope unmounts.
+     */
+    public static DisposeScope(scopeId: string): void {
+        super.getInstance<ActionsHubManager>(ActionsHubManager).removeScope(scopeId);
+    }
+
     public static dispose() {
         return super.getInstance<ActionsHubManager>(ActionsHubManager).dispose();
     }
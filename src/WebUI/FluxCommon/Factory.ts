@@ -121,6 +121,20 @@ export abstract class BaseManager<T> extends Singleton {
         this._deleteInstance(instanceKey);
     }
 
+    /**
+     * Removes the objects created for the instance id and for the instance ids nested under it, like "scopeId.clusterName".
+     */
+    protected removeScope(scopeId: string): void {
+        const scopeKey = scopeId.toLowerCase();
+        Object.keys(this._instanceMap).forEach((key: string) => {
+            const separatorIndex = key.indexOf(".");
+            const instanceId = separatorIndex >= 0 ? key.substring(separatorIndex + 1) : "";
+            if (instanceId === scopeKey || instanceId.indexOf(scopeKey + ".") === 0) {
+                this._deleteInstance(key);
+            }
+        });
+    }
+
     protected createObject<U = undefined>(instanceClass: INewable<T>, instanceId: string | null | undefined, args: U | null): T {
         let instanceKey = this._getInstanceKey(instanceClass, instanceId);
         let instance = this._instanceMap[instanceKey];
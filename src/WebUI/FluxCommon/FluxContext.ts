@@ -0,0 +1,41 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionsCreatorManager } from "./ActionsCreatorManager";
+import { ActionsHubManager } from "./ActionsHubManager";
+import { StoreManager } from "./StoreManager";
+
+/**
+ * Context through which a scope owner passes the instance id of its stores, actions hubs and action creators down to the views.
+ * Views rendered outside of a scope get the default instances.
+ */
+export interface IFluxContext {
+    fluxInstanceId?: string;
+}
+
+// Legacy context, as the views get their stores and action creators in the constructor
+export const FluxContextTypes = {
+    fluxInstanceId: (): Error | null => null
+};
+
+export class FluxScope {
+    /**
+     * Returns a scope id which is not used by any other scope on the page.
+     */
+    public static createScopeId(prefix: string): string {
+        return prefix + "-" + (++FluxScope._scopeCounter);
+    }
+
+    /**
+     * Disposes the stores, actions hubs and action creators created for the scope, including those of its nested instance ids.
+     */
+    public static dispose(scopeId: string): void {
+        StoreManager.DisposeScope(scopeId);
+        ActionsCreatorManager.DisposeScope(scopeId);
+        ActionsHubManager.DisposeScope(scopeId);
+    }
+
+    private static _scopeCounter: number = 0;
+}
@@ -82,7 +82,8 @@ export abstract class StoreBase {
         }
     }
 
-    private _dispose(): void {
+    // Invoked by the StoreManager when the store instance is removed
+    private __dispose(): void {
         this.disposeInternal();
         this._instanceId = null;
     }
@@ -22,6 +22,13 @@ export class StoreManager extends Manager {
         super.getInstance<StoreManager>(StoreManager).removeObject(storeClass, instanceId);
     }
 
+    /**
+     * Removes all instances created for the scope, which is used when the component owning the scope unmounts.
+     */
+    public static DisposeScope(scopeId: string): void {
+        super.getInstance<StoreManager>(StoreManager).removeScope(scopeId);
+    }
+
     public static dispose() {
         return super.getInstance<StoreManager>(StoreManager).dispose();
     }
@@ -0,0 +1,92 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1beta1Ingress, V1beta1IngressBackend, V1beta1IngressSpec, V1Service } from "@kubernetes/client-node";
+
+export interface IIngressRoute {
+    ingress: V1beta1Ingress;
+    // empty when the rule applies to any host
+    host: string;
+    // empty for the default backend, which receives the requests no rule matches
+    path: string;
+    serviceName: string;
+    // the number or the name of the service port
+    servicePort: string;
+    isTls: boolean;
+    // e.g. "https://shop.contoso.com/api", empty until a host or a load balancer address is known
+    url: string;
+}
+
+export class IngressRoutes {
+    /**
+     * Returns the paths of the rules and the default backend of the ingress, in the order they are declared.
+     */
+    public static getRoutes(ingress: V1beta1Ingress): IIngressRoute[] {
+        const spec = ingress.spec || {} as V1beta1IngressSpec;
+        const address = IngressRoutes.getAddresses(ingress)[0] || "";
+        const routes: IIngressRoute[] = [];
+        const addRoute = (host: string, path: string, backend: V1beta1IngressBackend) => {
+            const isTls = IngressRoutes._isTlsHost(ingress, host);
+            const urlHost = host || address;
+            routes.push({
+                ingress: ingress,
+                host: host,
+                path: path,
+                serviceName: backend.serviceName,
+                servicePort: backend.servicePort != null ? String(backend.servicePort) : "",
+                isTls: isTls,
+                url: urlHost ? (isTls ? "https://" : "http://") + urlHost + (path || "/") : ""
+            });
+        };
+
+        (spec.rules || []).forEach(rule => {
+            const paths = rule.http && rule.http.paths || [];
+            paths.forEach(path => path.backend && addRoute(rule.host || "", path.path || "", path.backend));
+        });
+
+        if (spec.backend) {
+            addRoute("", "", spec.backend);
+        }
+
+        return routes;
+    }
+
+    /**
+     * Returns the routes of the ingresses which send requests to the service, ingresses only route to services of their namespace.
+     */
+    public static getServiceRoutes(ingresses: V1beta1Ingress[], service: V1Service): IIngressRoute[] {
+        const ports = service.spec && service.spec.ports || [];
+        const isServicePort = (servicePort: string) => !servicePort || ports.length === 0
+            || ports.some(port => String(port.port) === servicePort || port.name === servicePort);
+
+        return (ingresses || [])
+            .filter(ingress => ingress.metadata.namespace === service.metadata.namespace)
+            .reduce((routes, ingress) => routes.concat(IngressRoutes.getRoutes(ingress)), [] as IIngressRoute[])
+            .filter(route => route.serviceName === service.metadata.name && isServicePort(route.servicePort));
+    }
+
+    /**
+     * Returns the ips or host names the ingress controller published, e.g. of its load balancer.
+     */
+    public static getAddresses(ingress: V1beta1Ingress): string[] {
+        const loadBalancer = ingress.status && ingress.status.loadBalancer;
+        return (loadBalancer && loadBalancer.ingress || [])
+            .map(address => address.ip || address.hostname)
+            .filter(address => !!address);
+    }
+
+    // A tls entry without hosts applies to all hosts, "*.contoso.com" matches a single label
+    private static _isTlsHost(ingress: V1beta1Ingress, host: string): boolean {
+        const tls = ingress.spec && ingress.spec.tls || [];
+        return tls.some(entry => !entry.hosts || entry.hosts.length === 0 || entry.hosts.some(tlsHost => {
+            if (tlsHost.indexOf("*.") === 0) {
+                const suffix = tlsHost.substring(1);
+                return host.length > suffix.length && host.substring(host.length - suffix.length) === suffix && host.substring(0, host.length - suffix.length).indexOf(".") < 0;
+            }
+
+            return tlsHost === host;
+        }));
+    }
+}
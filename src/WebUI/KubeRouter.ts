@@ -0,0 +1,203 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ConfigMap, V1DaemonSet, V1Deployment, V1Job, V1Node, V1ObjectMeta, V1Pod, V1ReplicaSet, V1Secret, V1StatefulSet } from "@kubernetes/client-node";
+import { IKubeRouteLocation } from "../Contracts/Contracts";
+import { SelectedItemKeys, WorkloadPodOwnerKinds } from "./Constants";
+import { ISelectionPayload } from "./Selection/SelectionActions";
+import { IServiceItem } from "./Types";
+
+const routeParameterSeparator: string = "&";
+const listValueSeparator: string = ",";
+
+// Short names of the route parameters, as they end up in links
+const routeParameterNames: { [key in keyof IKubeRoute]: string } = {
+    clusterName: "cluster",
+    namespace: "ns",
+    pivotKey: "pivot",
+    nameFilter: "name",
+    typeFilter: "type",
+    selectedItemType: "kind",
+    selectedItemName: "item",
+    selectedItemNamespace: "itemns",
+    podName: "pod",
+    podTab: "tab"
+};
+
+/**
+ * What KubeSummary shows, objects are referred to by name so that the route stays valid when they are recreated.
+ */
+export interface IKubeRoute {
+    clusterName?: string;
+    namespace?: string;
+    pivotKey?: string;
+    nameFilter?: string;
+    typeFilter?: (string | number)[];
+    // One of the SelectedItemKeys
+    selectedItemType?: string;
+    selectedItemName?: string;
+    // Objects of the same name can exist in several namespaces when all namespaces are shown
+    selectedItemNamespace?: string;
+    // The pod to show within the selected workload. Without a selected item, the workload owning the pod is selected.
+    podName?: string;
+    // One of the PodsRightPanelTabsKeys, e.g. "pod-logs"
+    podTab?: string;
+}
+
+// The objects a route is resolved from
+export interface IKubeRouteItems {
+    deployments: V1Deployment[];
+    replicaSets: V1ReplicaSet[];
+    daemonSets: V1DaemonSet[];
+    statefulSets: V1StatefulSet[];
+    jobs: V1Job[];
+    pods: V1Pod[];
+    services: IServiceItem[];
+    configMaps: V1ConfigMap[];
+    secrets: V1Secret[];
+    nodes: V1Node[];
+}
+
+export class KubeRouter {
+    /**
+     * Returns the route as "key=value" pairs, e.g. "ns=default&pod=web-5d8f7&tab=pod-logs".
+     */
+    public static serialize(route: IKubeRoute): string {
+        const parameters: string[] = [];
+        Object.keys(routeParameterNames).forEach(key => {
+            const value = route[key];
+            const text = Array.isArray(value) ? value.join(listValueSeparator) : value;
+            if (text !== undefined && text !== null && text !== "") {
+                parameters.push(routeParameterNames[key] + "=" + encodeURIComponent(String(text)));
+            }
+        });
+
+        return parameters.join(routeParameterSeparator);
+    }
+
+    public static parse(routeText: string): IKubeRoute {
+        const values: { [parameterName: string]: string } = {};
+        (routeText || "").replace(/^[#?]/, "").split(routeParameterSeparator).forEach(parameter => {
+            const separatorIndex = parameter.indexOf("=");
+            if (separatorIndex > 0) {
+                values[parameter.substring(0, separatorIndex)] = KubeRouter._decode(parameter.substring(separatorIndex + 1));
+            }
+        });
+
+        const route: IKubeRoute = {};
+        Object.keys(routeParameterNames).forEach(key => {
+            const value = values[routeParameterNames[key]];
+            if (value) {
+                // workload types are filtered on their KubeResourceType values
+                route[key] = key === "typeFilter" ? value.split(listValueSeparator).map(item => /^\d+$/.test(item) ? Number(item) : item) : value;
+            }
+        });
+
+        return route;
+    }
+
+    /**
+     * Finds the object the route selects, undefined until the objects are known.
+     */
+    public static resolveSelection(route: IKubeRoute, items: IKubeRouteItems): ISelectionPayload | undefined {
+        const payload = KubeRouter._resolveItem(route, items);
+        if (payload) {
+            payload.selectedPodName = route.podName;
+            payload.selectedPodTab = route.podTab;
+        }
+
+        return payload;
+    }
+
+    /**
+     * Keeps the route in the hash of the page url, without adding entries to the browser history.
+     */
+    public static createHashLocation(): IKubeRouteLocation {
+        return {
+            getRoute: () => window.location.hash.substring(1),
+            setRoute: (route: string) => window.history.replaceState(window.history.state, "", "#" + route)
+        };
+    }
+
+    private static _resolveItem(route: IKubeRoute, items: IKubeRouteItems): ISelectionPayload | undefined {
+        const name = route.selectedItemName;
+        const namespace = route.selectedItemNamespace;
+        switch (route.selectedItemType) {
+            case SelectedItemKeys.DeploymentKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.deployments, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.ReplicaSetKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.replicaSets, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.DaemonSetKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.daemonSets, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.StatefulSetKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.statefulSets, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.JobKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.jobs, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.OrphanPodKey:
+            case SelectedItemKeys.ServicePodKey:
+            case SelectedItemKeys.NodePodKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.pods, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.ServiceItemKey:
+                return KubeRouter._getPayload(items.services.find(service => service.package === name && KubeRouter._isInNamespace(KubeRouter._getServiceNamespace(service), namespace)), route.selectedItemType);
+            case SelectedItemKeys.ConfigMapKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.configMaps, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.SecretKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.secrets, name, namespace), route.selectedItemType);
+            case SelectedItemKeys.NodeKey:
+                return KubeRouter._getPayload(KubeRouter._findByName(items.nodes, name, namespace), route.selectedItemType);
+        }
+
+        return route.podName ? KubeRouter._resolvePodOwner(route.podName, items) : undefined;
+    }
+
+    // The pod is shown within the workload owning it, so that its logs can be viewed
+    private static _resolvePodOwner(podName: string, items: IKubeRouteItems): ISelectionPayload | undefined {
+        const pod = KubeRouter._findByName(items.pods, podName, undefined);
+        if (!pod) {
+            return undefined;
+        }
+
+        const owners = pod.metadata.ownerReferences || [];
+        const ownerUids = owners.map(owner => owner.uid);
+        const isOwner = (item: { metadata: V1ObjectMeta }) => ownerUids.indexOf(item.metadata.uid) >= 0;
+        const replicaSet = items.replicaSets.find(isOwner);
+        const daemonSet = items.daemonSets.find(isOwner);
+        const statefulSet = items.statefulSets.find(isOwner);
+        const job = items.jobs.find(isOwner);
+        const isOrphan = !owners.some(owner => WorkloadPodOwnerKinds.indexOf(owner.kind) >= 0);
+        return replicaSet && KubeRouter._getPayload(replicaSet, SelectedItemKeys.ReplicaSetKey)
+            || daemonSet && KubeRouter._getPayload(daemonSet, SelectedItemKeys.DaemonSetKey)
+            || statefulSet && KubeRouter._getPayload(statefulSet, SelectedItemKeys.StatefulSetKey)
+            || job && KubeRouter._getPayload(job, SelectedItemKeys.JobKey)
+            || (isOrphan ? KubeRouter._getPayload(pod, SelectedItemKeys.OrphanPodKey) : undefined);
+    }
+
+    private static _findByName<T extends { metadata: V1ObjectMeta }>(items: T[], name: string | undefined, namespace: string | undefined): T | undefined {
+        return items.find(item => item.metadata.name === name && KubeRouter._isInNamespace(item.metadata.namespace, namespace));
+    }
+
+    private static _getServiceNamespace(serviceItem: IServiceItem): string | undefined {
+        return serviceItem.service && serviceItem.service.metadata.namespace;
+    }
+
+    // Routes without the namespace of the selected object, e.g. those of nodes, match on the name alone
+    private static _isInNamespace(itemNamespace: string | undefined, namespace: string | undefined): boolean {
+        return !namespace || itemNamespace === namespace;
+    }
+
+    private static _getPayload(item: V1Deployment | V1ReplicaSet | V1DaemonSet | V1StatefulSet | V1Job | IServiceItem | V1Pod | V1ConfigMap | V1Secret | V1Node | undefined, selectedItemType: string): ISelectionPayload | undefined {
+        return item ? { item: item, showSelectedItem: true, selectedItemType: selectedItemType } : undefined;
+    }
+
+    // A malformed link should show the default view rather than fail
+    private static _decode(text: string): string {
+        try {
+            return decodeURIComponent(text);
+        }
+        catch (e) {
+            return "";
+        }
+    }
+}
@@ -0,0 +1,27 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionsHubBase, Action } from "../FluxCommon/Actions";
+import { IPodMetricsList } from "../../Contracts/Contracts";
+
+export interface IPodMetricsPayload {
+    podMetricsList: IPodMetricsList;
+}
+
+export class MetricsActions extends ActionsHubBase {
+    public static getKey(): string {
+        return "metrics-actions";
+    }
+
+    public initialize(): void {
+        this._podMetricsFetched = new Action<IPodMetricsPayload>();
+    }
+
+    public get podMetricsFetched(): Action<IPodMetricsPayload> {
+        return this._podMetricsFetched;
+    }
+
+    private _podMetricsFetched: Action<IPodMetricsPayload>;
+}
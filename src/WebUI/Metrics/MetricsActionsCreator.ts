@@ -0,0 +1,36 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionCreatorBase } from "../FluxCommon/Actions";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { IKubeService } from "../../Contracts/Contracts";
+import { MetricsActions } from "./MetricsActions";
+
+export class MetricsActionsCreator extends ActionCreatorBase {
+    public static getKey(): string {
+        return "metrics-actionscreator";
+    }
+
+    public initialize(instanceId?: string): void {
+        this._actions = ActionsHubManager.GetActionsHub<MetricsActions>(MetricsActions, instanceId);
+    }
+
+    /**
+     * Adds a sample of the usage of the pods to the store, nothing is fetched when the host does not implement getPodMetrics.
+     */
+    public getPodMetrics(kubeService: IKubeService, namespace?: string): void {
+        if (!kubeService.getPodMetrics) {
+            return;
+        }
+
+        kubeService.getPodMetrics(undefined, namespace).then(podMetricsList => {
+            this._actions.podMetricsFetched.invoke({ podMetricsList: podMetricsList });
+        }, () => {
+            // Clusters without a metrics server are common, the views then show the requests and limits only
+        });
+    }
+
+    private _actions: MetricsActions;
+}
@@ -0,0 +1,95 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { StoreBase } from "../FluxCommon/Store";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { IPodMetrics } from "../../Contracts/Contracts";
+import { MetricsActions, IPodMetricsPayload } from "./MetricsActions";
+import { MetricsEvents } from "../Constants";
+import { ResourceQuantity } from "../ResourceQuantity";
+
+// Samples kept per container for the sparklines, older ones are dropped
+const maxSamplesCount: number = 30;
+
+export interface IMetricsSample {
+    timestamp: number;
+    cpuMillicores: number;
+    memoryBytes: number;
+}
+
+export interface IPodMetricsHistory {
+    // Keyed by container name, oldest sample first
+    containers: { [containerName: string]: IMetricsSample[] };
+}
+
+export interface IMetricsStoreState {
+    // Keyed by namespace and name of the pod, as metrics are not reported with the uid of the pod
+    podMetrics: { [podKey: string]: IPodMetricsHistory };
+}
+
+export class MetricsStore extends StoreBase {
+    public static getKey(): string {
+        return "metrics-store";
+    }
+
+    public static getPodKey(namespace: string | undefined, podName: string): string {
+        return (namespace || "") + "/" + podName;
+    }
+
+    public initialize(instanceId?: string): void {
+        super.initialize(instanceId);
+
+        this._state = { podMetrics: {} };
+
+        this._actions = ActionsHubManager.GetActionsHub<MetricsActions>(MetricsActions, instanceId);
+        this._actions.podMetricsFetched.addListener(this._addPodMetrics);
+    }
+
+    public disposeInternal(): void {
+        this._actions.podMetricsFetched.removeListener(this._addPodMetrics);
+    }
+
+    public getState(): IMetricsStoreState {
+        return this._state;
+    }
+
+    /**
+     * Returns undefined until a sample of the pod has been fetched.
+     */
+    public getPodMetrics(namespace: string | undefined, podName: string): IPodMetricsHistory | undefined {
+        return this._state.podMetrics[MetricsStore.getPodKey(namespace, podName)];
+    }
+
+    private _addPodMetrics = (payload: IPodMetricsPayload): void => {
+        const podMetrics = { ...this._state.podMetrics };
+        (payload.podMetricsList && payload.podMetricsList.items || []).forEach(item => {
+            const podKey = MetricsStore.getPodKey(item.metadata.namespace, item.metadata.name);
+            podMetrics[podKey] = MetricsStore._addSample(podMetrics[podKey], item);
+        });
+
+        this._state = { podMetrics: podMetrics };
+        this.emit(MetricsEvents.PodMetricsFetchedEvent, this);
+    }
+
+    // The metrics server samples less often than the views refresh, the same sample is only kept once
+    private static _addSample(history: IPodMetricsHistory | undefined, item: IPodMetrics): IPodMetricsHistory {
+        const timestamp = new Date(item.timestamp).getTime();
+        const containers: { [containerName: string]: IMetricsSample[] } = {};
+        (item.containers || []).forEach(container => {
+            const samples = history && history.containers[container.name] || [];
+            const lastSample = samples[samples.length - 1];
+            containers[container.name] = lastSample && lastSample.timestamp >= timestamp ? samples : samples.concat({
+                timestamp: timestamp,
+                cpuMillicores: ResourceQuantity.parseCpuMillicores(container.usage && container.usage.cpu),
+                memoryBytes: ResourceQuantity.parse(container.usage && container.usage.memory)
+            }).slice(-maxSamplesCount);
+        });
+
+        return { containers: containers };
+    }
+
+    private _state: IMetricsStoreState;
+    private _actions: MetricsActions;
+}
@@ -0,0 +1,39 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionsHubBase, Action } from "../FluxCommon/Actions";
+import { V1NamespaceList } from "@kubernetes/client-node";
+import { IResourceFetchStatus } from "../Types";
+
+export class NamespacesActions extends ActionsHubBase {
+    public static getKey(): string {
+        return "namespaces-actions";
+    }
+
+    public initialize(): void {
+        this._namespacesFetched = new Action<V1NamespaceList>();
+        this._fetchStatusChanged = new Action<IResourceFetchStatus>();
+        this._namespaceSelected = new Action<string>();
+    }
+
+    public get namespacesFetched(): Action<V1NamespaceList> {
+        return this._namespacesFetched;
+    }
+
+    public get fetchStatusChanged(): Action<IResourceFetchStatus> {
+        return this._fetchStatusChanged;
+    }
+
+    /**
+     * Stores holding namespaced objects listen to this to reset their state.
+     */
+    public get namespaceSelected(): Action<string> {
+        return this._namespaceSelected;
+    }
+
+    private _namespacesFetched: Action<V1NamespaceList>;
+    private _fetchStatusChanged: Action<IResourceFetchStatus>;
+    private _namespaceSelected: Action<string>;
+}
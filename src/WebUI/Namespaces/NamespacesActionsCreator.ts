@@ -0,0 +1,35 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionCreatorBase } from "../FluxCommon/Actions";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { IKubeService } from "../../Contracts/Contracts";
+import { NamespacesActions } from "./NamespacesActions";
+import { ResourceFetchStatus } from "../Constants";
+import { Utils } from "../Utils";
+
+export class NamespacesActionsCreator extends ActionCreatorBase {
+    public static getKey(): string {
+        return "namespaces-actionscreator";
+    }
+
+    public initialize(instanceId?: string): void {
+        this._actions = ActionsHubManager.GetActionsHub<NamespacesActions>(NamespacesActions, instanceId);
+    }
+
+    public getNamespaces(kubeService: IKubeService): void {
+        kubeService.getNamespaces().then(namespaceList => {
+            this._actions.namespacesFetched.invoke(namespaceList);
+        }, error => {
+            this._actions.fetchStatusChanged.invoke({ status: ResourceFetchStatus.Failed, errorMessage: Utils.getErrorMessage(error) });
+        });
+    }
+
+    public selectNamespace(namespace: string): void {
+        this._actions.namespaceSelected.invoke(namespace);
+    }
+
+    private _actions: NamespacesActions;
+}
@@ -0,0 +1,72 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { StoreBase } from "../FluxCommon/Store";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { V1NamespaceList } from "@kubernetes/client-node";
+import { NamespacesActions } from "./NamespacesActions";
+import { NamespacesEvents, ResourceFetchStatus } from "../Constants";
+import { IResourceFetchStatus } from "../Types";
+import { Utils } from "../Utils";
+
+export interface INamespacesStoreState {
+    namespaceList?: V1NamespaceList;
+    // Empty until a namespace is picked, the views then use the namespace of the host
+    selectedNamespace: string;
+    fetchStatus: IResourceFetchStatus;
+}
+
+export class NamespacesStore extends StoreBase {
+    public static getKey(): string {
+        return "namespaces-store";
+    }
+
+    public initialize(instanceId?: string): void {
+        super.initialize(instanceId);
+
+        this._state = { namespaceList: undefined, selectedNamespace: "", fetchStatus: { status: ResourceFetchStatus.Loading } };
+
+        this._actions = ActionsHubManager.GetActionsHub<NamespacesActions>(NamespacesActions, instanceId);
+        this._actions.namespacesFetched.addListener(this._setNamespaceList);
+        this._actions.fetchStatusChanged.addListener(this._setFetchStatus);
+        this._actions.namespaceSelected.addListener(this._setSelectedNamespace);
+    }
+
+    public disposeInternal(): void {
+        this._actions.namespacesFetched.removeListener(this._setNamespaceList);
+        this._actions.fetchStatusChanged.removeListener(this._setFetchStatus);
+        this._actions.namespaceSelected.removeListener(this._setSelectedNamespace);
+    }
+
+    public getState(): INamespacesStoreState {
+        return this._state;
+    }
+
+    public getNamespaceNames(): string[] {
+        const namespaceList = this._state.namespaceList;
+        return (namespaceList && namespaceList.items || [])
+            .map(namespace => namespace.metadata.name)
+            .sort((first, second) => first.localeCompare(second));
+    }
+
+    private _setNamespaceList = (namespaceList: V1NamespaceList): void => {
+        this._state.namespaceList = Utils.getUpdatedList(this._state.namespaceList, namespaceList);
+        this._state.fetchStatus = { status: ResourceFetchStatus.Loaded };
+        this.emit(NamespacesEvents.NamespacesFetchedEvent, this);
+    }
+
+    private _setFetchStatus = (fetchStatus: IResourceFetchStatus): void => {
+        this._state.fetchStatus = fetchStatus;
+        this.emit(NamespacesEvents.NamespacesFetchedEvent, this);
+    }
+
+    private _setSelectedNamespace = (namespace: string): void => {
+        this._state.selectedNamespace = namespace;
+        this.emit(NamespacesEvents.NamespaceSelectedEvent, this);
+    }
+
+    private _state: INamespacesStoreState;
+    private _actions: NamespacesActions;
+}
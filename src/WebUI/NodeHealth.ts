@@ -0,0 +1,132 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Node, V1NodeCondition, V1Pod, V1Taint } from "@kubernetes/client-node";
+import { ResourceQuantity } from "./ResourceQuantity";
+
+const readyConditionType: string = "Ready";
+const roleLabelPrefix: string = "node-role.kubernetes.io/";
+const roleLabelKey: string = "kubernetes.io/role";
+
+// Conditions which are only reported while they are True, e.g. MemoryPressure or DiskPressure
+const pressureConditionTypes: string[] = ["MemoryPressure", "DiskPressure", "PIDPressure", "NetworkUnavailable"];
+
+export enum NodeHealthStatus {
+    Ready = "Ready",
+    // ready, but a pressure condition is reported, so the kubelet may evict pods
+    Pressure = "Pressure",
+    // the kubelet stopped reporting, the pods on the node are evicted after a while
+    Unknown = "Unknown",
+    NotReady = "NotReady"
+}
+
+export interface INodeHealth {
+    status: NodeHealthStatus;
+    // Reason of the Ready condition when the node is not ready, e.g. "KubeletNotReady"
+    reason: string;
+    message: string;
+    // Types of the pressure conditions which are True
+    pressures: string[];
+    // The node is cordoned, new pods are not scheduled on it
+    schedulingDisabled: boolean;
+}
+
+export interface INodeResources {
+    cpu: string;
+    memory: string;
+    pods: string;
+}
+
+export class NodeHealth {
+    public static getHealth(node: V1Node): INodeHealth {
+        const conditions = node.status && node.status.conditions || [];
+        const readyCondition = conditions.find(condition => condition.type === readyConditionType);
+        const pressures = conditions
+            .filter(condition => pressureConditionTypes.indexOf(condition.type) >= 0 && condition.status === "True")
+            .map(condition => condition.type);
+
+        let status = NodeHealthStatus.Unknown;
+        if (readyCondition && readyCondition.status === "True") {
+            status = pressures.length > 0 ? NodeHealthStatus.Pressure : NodeHealthStatus.Ready;
+        }
+        else if (readyCondition && readyCondition.status === "False") {
+            status = NodeHealthStatus.NotReady;
+        }
+
+        const isReady = status === NodeHealthStatus.Ready || status === NodeHealthStatus.Pressure;
+        return {
+            status: status,
+            reason: !isReady && readyCondition && readyCondition.reason || "",
+            message: !isReady && readyCondition && readyCondition.message || "",
+            pressures: pressures,
+            schedulingDisabled: !!(node.spec && node.spec.unschedulable)
+        };
+    }
+
+    /**
+     * Returns the health a single condition stands for, Ready is healthy while True and the pressure conditions while False.
+     */
+    public static getConditionHealthStatus(condition: V1NodeCondition): NodeHealthStatus {
+        if (condition.status !== "True" && condition.status !== "False") {
+            return NodeHealthStatus.Unknown;
+        }
+
+        if (condition.type === readyConditionType) {
+            return condition.status === "True" ? NodeHealthStatus.Ready : NodeHealthStatus.NotReady;
+        }
+
+        return condition.status === "True" ? NodeHealthStatus.Pressure : NodeHealthStatus.Ready;
+    }
+
+    /**
+     * Returns the roles of the node from its role labels, e.g. ["master"], as kubectl shows them.
+     */
+    public static getRoles(node: V1Node): string[] {
+        const labels = node.metadata.labels || {};
+        const roles = Object.keys(labels)
+            .filter(key => key.indexOf(roleLabelPrefix) === 0 && key.length > roleLabelPrefix.length)
+            .map(key => key.substring(roleLabelPrefix.length));
+
+        if (labels[roleLabelKey] && roles.indexOf(labels[roleLabelKey]) < 0) {
+            roles.push(labels[roleLabelKey]);
+        }
+
+        return roles;
+    }
+
+    /**
+     * Returns the taint as kubectl shows it, e.g. "dedicated=gpu:NoSchedule".
+     */
+    public static getTaintText(taint: V1Taint): string {
+        return (taint.value ? taint.key + "=" + taint.value : taint.key) + ":" + taint.effect;
+    }
+
+    /**
+     * Returns the resources of the node available to pods, e.g. { cpu: "3.92", memory: "14.5Gi", pods: "110" }.
+     */
+    public static getAllocatable(node: V1Node): INodeResources {
+        return NodeHealth._formatResources(node.status && node.status.allocatable);
+    }
+
+    public static getCapacity(node: V1Node): INodeResources {
+        return NodeHealth._formatResources(node.status && node.status.capacity);
+    }
+
+    /**
+     * Returns the pods scheduled on the node, pods which are not scheduled yet have no node.
+     */
+    public static getPods(pods: V1Pod[], nodeName: string): V1Pod[] {
+        return (pods || []).filter(pod => !!nodeName && pod.spec && pod.spec.nodeName === nodeName);
+    }
+
+    private static _formatResources(resources: { [key: string]: string } | undefined): INodeResources {
+        const values = resources || {};
+        return {
+            cpu: values.cpu ? ResourceQuantity.formatCpu(ResourceQuantity.parseCpuMillicores(values.cpu)) : "",
+            memory: values.memory ? ResourceQuantity.formatMemory(ResourceQuantity.parse(values.memory)) : "",
+            pods: values.pods || ""
+        };
+    }
+}
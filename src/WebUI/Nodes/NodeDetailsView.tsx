@@ -0,0 +1,277 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Node, V1NodeCondition, V1Pod } from "@kubernetes/client-node";
+import { BaseComponent, format } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { Card } from "azure-devops-ui/Card";
+import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
+import { ObservableValue } from "azure-devops-ui/Core/Observable";
+import { LabelGroup, WrappingBehavior } from "azure-devops-ui/Label";
+import { ColumnFill, ITableColumn, renderSimpleCell, SimpleTableCell as renderTableCell, Table } from "azure-devops-ui/Table";
+import * as Date_Utils from "azure-devops-ui/Utilities/Date";
+import { ArrayItemProvider } from "azure-devops-ui/Utilities/Provider";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { PodsEvents, SelectedItemKeys } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { NodeHealth } from "../NodeHealth";
+import { PodHealth } from "../PodHealth";
+import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
+import { PodsStore } from "../Pods/PodsStore";
+import * as Resources from "../Resources";
+import { SelectionActions } from "../Selection/SelectionActions";
+import "../Services/ServiceDetailsView.scss";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import { NodesTable } from "./NodesTable";
+
+const colDataClassName: string = "list-col-content";
+
+export interface INodeDetailsViewProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    node: V1Node;
+}
+
+export interface INodeDetailsViewState {
+    pods: V1Pod[];
+}
+
+/**
+ * Shows the conditions, capacity and taints of a node, along with the pods of the selected namespace scheduled on it.
+ */
+export class NodeDetailsView extends BaseComponent<INodeDetailsViewProperties, INodeDetailsViewState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: INodeDetailsViewProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._podsStore = StoreManager.GetStore<PodsStore>(PodsStore, this.context.fluxInstanceId);
+        this._selectedNamespace = StoreManager.GetStore<NamespacesStore>(NamespacesStore, this.context.fluxInstanceId).getState().selectedNamespace;
+        this.state = { pods: this._getPods() };
+
+        // The pivots fetch the pods, unless the node was opened from a link
+        if (!this._podsStore.getState().podsList) {
+            ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId).getPods(this.props.kubeService, undefined, this._selectedNamespace || undefined);
+        }
+
+        this._podsStore.addListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+    }
+
+    public componentWillUnmount(): void {
+        this._podsStore.removeListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+    }
+
+    public render(): JSX.Element {
+        const metadata = this.props.node.metadata;
+        const created = metadata.creationTimestamp ? Date_Utils.ago(new Date(metadata.creationTimestamp), Date_Utils.AgoFormat.Compact) : "";
+        return (
+            <div className="node-details-view">
+                <div className="content-main-heading">
+                    <h2 className="title-heading">{metadata.name}</h2>
+                    <div className="sub-heading">{format(Resources.NodeCreatedText, created)}</div>
+                </div>
+                {this._getSummary()}
+                {this._getConditions()}
+                {this._getPodsList()}
+            </div>
+        );
+    }
+
+    private _getSummary(): JSX.Element {
+        const node = this.props.node;
+        const nodeInfo = node.status && node.status.nodeInfo;
+        const internalAddress = (node.status && node.status.addresses || []).find(address => address.type === "InternalIP");
+        const capacity = NodeHealth.getCapacity(node);
+        const columns: ITableColumn<any>[] = [
+            {
+                id: "key",
+                name: "key",
+                width: new ObservableValue(200),
+                className: "s-key",
+                minWidth: 180,
+                renderCell: renderSimpleCell
+            },
+            {
+                id: "value",
+                name: "value",
+                width: new ObservableValue(500),
+                className: "s-value",
+                minWidth: 400,
+                renderCell: NodeDetailsView._renderValueCell
+            },
+            ColumnFill
+        ];
+        const tableItems = new ArrayItemProvider<any>([
+            { key: Resources.StatusText, value: Utils.getNodeHealthText(NodeHealth.getHealth(node)) },
+            { key: Resources.RolesText, value: NodeHealth.getRoles(node).join(", ") },
+            { key: Resources.LabelsText, value: node.metadata.labels || {} },
+            { key: Resources.TaintsText, value: (node.spec && node.spec.taints || []).map(NodeHealth.getTaintText).join(", ") },
+            { key: Resources.AllocatableText, value: NodesTable.getAllocatableText(node) },
+            { key: Resources.CapacityText, value: capacity.cpu || capacity.memory || capacity.pods ? format(Resources.AllocatableResourcesText, capacity.cpu, capacity.memory, capacity.pods) : "" },
+            { key: Resources.KubeletVersionText, value: nodeInfo && nodeInfo.kubeletVersion || "" },
+            { key: Resources.OsImageText, value: nodeInfo && nodeInfo.osImage || "" },
+            { key: Resources.ContainerRuntimeText, value: nodeInfo && nodeInfo.containerRuntimeVersion || "" },
+            { key: Resources.InternalIPText, value: internalAddress && internalAddress.address || "" }
+        ]);
+
+        return (
+            <Card className="kube-list-content s-details depth-16" title={Resources.SummaryText}>
+                <Table
+                    className="s-full-details"
+                    id={format("s-full-details-{0}", node.metadata.uid)}
+                    showHeader={false}
+                    showLines={false}
+                    singleClickActivation={false}
+                    itemProvider={tableItems}
+                    pageSize={tableItems.getCount()}
+                    columns={columns}
+                />
+            </Card>
+        );
+    }
+
+    private static _renderValueCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<any>, tableItem: any): JSX.Element {
+        if (tableItem.key === Resources.LabelsText) {
+            return renderTableCell({
+                columnIndex: columnIndex,
+                children: <LabelGroup labelProps={Utils.getUILabelModelArray(tableItem.value)} wrappingBehavior={WrappingBehavior.FreeFlow} fadeOutOverflow={true} />,
+                tableColumn: tableColumn
+            });
+        }
+
+        return (<div className="kube-simple-cell">
+            {renderSimpleCell(rowIndex, columnIndex, tableColumn, tableItem)}
+        </div>);
+    }
+
+    private _getConditions(): JSX.Element {
+        const columns: ITableColumn<V1NodeCondition>[] = [
+            { id: "type", name: Resources.TypeText, minWidth: 160, width: -20, renderCell: NodeDetailsView._renderConditionTypeCell },
+            { id: "reason", name: Resources.ReasonText, minWidth: 160, width: -20, renderCell: NodeDetailsView._renderConditionReasonCell },
+            { id: "message", name: Resources.MessageText, minWidth: 300, width: -45, renderCell: NodeDetailsView._renderConditionMessageCell },
+            { id: "lastTransition", name: Resources.LastTransitionText, minWidth: 100, width: -15, renderCell: NodeDetailsView._renderConditionTransitionCell }
+        ];
+        columns.forEach(column => column.headerClassName = "kube-col-header");
+
+        return (
+            <BaseKubeTable
+                className="node-conditions depth-16"
+                headingText={Resources.ConditionsText}
+                items={this.props.node.status && this.props.node.status.conditions || []}
+                columns={columns}
+            />
+        );
+    }
+
+    private static _renderConditionTypeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1NodeCondition>, condition: V1NodeCondition): JSX.Element {
+        const statusProps = Utils.generateNodeStatusProps(NodeHealth.getConditionHealthStatus(condition));
+        const itemToRender = <ResourceStatus statusProps={statusProps} statusDescription={format("{0}: {1}", condition.type, condition.status)} />;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderConditionReasonCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1NodeCondition>, condition: V1NodeCondition): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(condition.reason || "", BaseKubeTable.defaultColumnRenderer, colDataClassName));
+    }
+
+    private static _renderConditionMessageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1NodeCondition>, condition: V1NodeCondition): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(condition.message || "", BaseKubeTable.defaultColumnRenderer, colDataClassName));
+    }
+
+    private static _renderConditionTransitionCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1NodeCondition>, condition: V1NodeCondition): JSX.Element {
+        const itemToRender = condition.lastTransitionTime ? <Ago date={new Date(condition.lastTransitionTime)} /> : null;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _getPodsList(): JSX.Element {
+        const isAllNamespaces = Utils.isAllNamespaces(this._selectedNamespace);
+        const headingText = this._selectedNamespace && !isAllNamespaces ? format(Resources.NodePodsHeadingText, this._selectedNamespace) : Resources.PodsListHeaderText;
+        const pods = NodeHealth.getPods(this.state.pods, this.props.node.metadata.name);
+        if (pods.length === 0) {
+            return (
+                <div className="kube-list-content depth-16 node-pods">
+                    <h3 className="heading-title">{headingText}</h3>
+                    <div className="secondary-text">{Resources.NoNodePodsText}</div>
+                </div>
+            );
+        }
+
+        const columns: ITableColumn<V1Pod>[] = [
+            { id: "name", name: Resources.PodsDetailsText, minWidth: 250, width: -40, renderCell: NodeDetailsView._renderPodNameCell }
+        ];
+
+        if (isAllNamespaces) {
+            columns.push({ id: "namespace", name: Resources.NamespaceText, minWidth: 120, width: -20, renderCell: NodeDetailsView._renderPodNamespaceCell });
+        }
+
+        columns.push({ id: "restarts", name: Resources.RestartsText, minWidth: 80, width: -20, renderCell: NodeDetailsView._renderPodRestartsCell });
+        columns.push({ id: "age", name: Resources.AgeText, minWidth: 80, width: -20, renderCell: NodeDetailsView._renderPodAgeCell });
+        columns.forEach(column => column.headerClassName = "kube-col-header");
+
+        return (
+            <BaseKubeTable
+                className="node-pods depth-16"
+                headingText={headingText}
+                items={pods}
+                columns={columns}
+                onItemActivated={this._openPod}
+            />
+        );
+    }
+
+    private static _renderPodNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
+        const health = PodHealth.getHealth(pod);
+        const itemToRender = (
+            <ResourceStatus
+                statusProps={Utils.generatePodStatusProps(health.status)}
+                statusDescription={pod.metadata.name}
+                toolTipText={Utils.getPodHealthDescription(health)}
+            />
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderPodNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(pod.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName));
+    }
+
+    private static _renderPodRestartsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
+        const restartCount = String(PodHealth.getHealth(pod).restartCount);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(restartCount, BaseKubeTable.defaultColumnRenderer, colDataClassName));
+    }
+
+    private static _renderPodAgeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
+        const itemToRender = pod.metadata.creationTimestamp ? <Ago date={new Date(pod.metadata.creationTimestamp)} /> : null;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _openPod = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedPod: V1Pod): void => {
+        if (selectedPod) {
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedPod, showSelectedItem: true, selectedItemType: SelectedItemKeys.NodePodKey });
+        }
+    }
+
+    private _onPodsFetched = (): void => {
+        const pods = this._getPods();
+        if (pods !== this.state.pods) {
+            this.setState({ pods: pods });
+        }
+    }
+
+    private _getPods(): V1Pod[] {
+        const podsList = this._podsStore.getState().podsList;
+        return podsList && podsList.items || [];
+    }
+
+    private _podsStore: PodsStore;
+    private _selectedNamespace: string;
+}
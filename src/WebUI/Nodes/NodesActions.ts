@@ -0,0 +1,37 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionsHubBase, Action } from "../FluxCommon/Actions";
+import { V1Node, V1NodeList } from "@kubernetes/client-node";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { IResourceFetchStatusPayload } from "../Types";
+
+export class NodesActions extends ActionsHubBase {
+    public static getKey(): string {
+        return "nodes-actions";
+    }
+
+    public initialize(): void {
+        this._nodesFetched = new Action<V1NodeList>();
+        this._nodeWatchEventReceived = new Action<IKubeWatchEvent<V1Node>>();
+        this._fetchStatusChanged = new Action<IResourceFetchStatusPayload>();
+    }
+
+    public get nodesFetched(): Action<V1NodeList> {
+        return this._nodesFetched;
+    }
+
+    public get nodeWatchEventReceived(): Action<IKubeWatchEvent<V1Node>> {
+        return this._nodeWatchEventReceived;
+    }
+
+    public get fetchStatusChanged(): Action<IResourceFetchStatusPayload> {
+        return this._fetchStatusChanged;
+    }
+
+    private _nodesFetched: Action<V1NodeList>;
+    private _nodeWatchEventReceived: Action<IKubeWatchEvent<V1Node>>;
+    private _fetchStatusChanged: Action<IResourceFetchStatusPayload>;
+}
@@ -0,0 +1,50 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { ActionCreatorBase } from "../FluxCommon/Actions";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { NodesActions } from "./NodesActions";
+import { ResourceFetchStatus } from "../Constants";
+import { Utils } from "../Utils";
+
+export class NodesActionsCreator extends ActionCreatorBase {
+    public static getKey(): string {
+        return "nodes-actionscreator";
+    }
+
+    public initialize(instanceId?: string): void {
+        this._actions = ActionsHubManager.GetActionsHub<NodesActions>(NodesActions, instanceId);
+    }
+
+    public getNodes(kubeService: IKubeService): void {
+        kubeService.getNodes().then(nodeList => {
+            this._actions.nodesFetched.invoke(nodeList);
+        }, error => {
+            this._actions.fetchStatusChanged.invoke({
+                resourceType: KubeResourceType.Nodes,
+                status: ResourceFetchStatus.Failed,
+                errorMessage: Utils.getErrorMessage(error)
+            });
+        });
+    }
+
+    /**
+     * Marks the nodes as loading and fetches them again, used by the retry action of the failed view.
+     */
+    public retry(kubeService: IKubeService): void {
+        this._actions.fetchStatusChanged.invoke({ resourceType: KubeResourceType.Nodes, status: ResourceFetchStatus.Loading });
+        this.getNodes(kubeService);
+    }
+
+    public watchNodes(kubeService: IKubeService): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.Nodes, event => {
+            this._actions.nodeWatchEventReceived.invoke(event);
+        });
+    }
+
+    private _actions: NodesActions;
+}
@@ -0,0 +1,43 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { BaseComponent } from "@uifabric/utilities";
+import * as React from "react";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import "../Common/KubeSummary.scss";
+import { Filter } from "azure-devops-ui/Utilities/Filter";
+import { KubeFilterBar } from "../Common/KubeFilterBar";
+import { ObservableValue } from "azure-devops-ui/Core/Observable";
+import { NodeHealthStatus } from "../NodeHealth";
+
+export interface INodesFilterBarProps extends IVssComponentProperties {
+    filter: Filter;
+    filterToggled: ObservableValue<boolean>;
+}
+
+// Nodes are not namespaced, so there is no namespace filter
+export class NodesFilterBar extends BaseComponent<INodesFilterBarProps> {
+    public render(): React.ReactNode {
+        return (<KubeFilterBar filter={this.props.filter}
+            keywordPlaceHolder={Resources.PivotNodesText}
+            pickListPlaceHolder={Resources.StatusText}
+            pickListItemsFn={this._pickListItems}
+            listItemsFn={this._listItems}
+            filterToggled={this.props.filterToggled}
+        />);
+    }
+
+    private _pickListItems = () => {
+        return [NodeHealthStatus.Ready, NodeHealthStatus.Pressure, NodeHealthStatus.NotReady, NodeHealthStatus.Unknown];
+    };
+
+    private _listItems = (item: any) => {
+        return {
+            key: item,
+            name: item === NodeHealthStatus.Pressure ? Resources.UnderPressureText : item
+        };
+    };
+}
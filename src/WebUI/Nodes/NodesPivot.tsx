@@ -0,0 +1,160 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1NodeList, V1Pod } from "@kubernetes/client-node";
+import { BaseComponent } from "@uifabric/utilities";
+import * as React from "react";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import * as Resources from "../Resources";
+import { IVssComponentProperties, IResourceFetchStatus } from "../Types";
+import "../Common/KubeSummary.scss";
+import { KubeZeroData } from "../Common/KubeZeroData";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
+import { Filter, IFilterState, IFilterItemState } from "azure-devops-ui/Utilities/Filter";
+import { ObservableValue } from "azure-devops-ui/Core/Observable";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { NodesEvents, PodsEvents, ResourceFetchStatus } from "../Constants";
+import { NameKey, TypeKey } from "../Common/KubeFilterBar";
+import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
+import { PodsStore } from "../Pods/PodsStore";
+import { NodesActionsCreator } from "./NodesActionsCreator";
+import { NodesFilterBar } from "./NodesFilterBar";
+import { NodesStore } from "./NodesStore";
+import { NodesTable } from "./NodesTable";
+
+export interface INodesPivotState {
+    nodeList?: V1NodeList;
+    nodesFetchStatus: IResourceFetchStatus;
+    pods: V1Pod[];
+}
+
+export interface INodesPivotProps extends IVssComponentProperties {
+    kubeService: IKubeService;
+    filter: Filter;
+    // The namespace whose pods are counted on the nodes
+    namespace?: string;
+    filterToggled: ObservableValue<boolean>;
+}
+
+export class NodesPivot extends BaseComponent<INodesPivotProps, INodesPivotState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: INodesPivotProps, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<NodesActionsCreator>(NodesActionsCreator, this.context.fluxInstanceId);
+        this._podsActionCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<NodesStore>(NodesStore, this.context.fluxInstanceId);
+        this._podsStore = StoreManager.GetStore<PodsStore>(PodsStore, this.context.fluxInstanceId);
+
+        const storeState = this._store.getState();
+        this.state = {
+            nodeList: storeState.nodeList,
+            nodesFetchStatus: storeState.nodesFetchStatus,
+            pods: this._getPods()
+        };
+
+        this._actionCreator.getNodes(this.props.kubeService);
+        this._nodesWatch = this._actionCreator.watchNodes(this.props.kubeService);
+
+        this._podsActionCreator.getPods(this.props.kubeService, undefined, this.props.namespace);
+        this._podsWatch = this._podsActionCreator.watchPods(this.props.kubeService, undefined, this.props.namespace);
+
+        this._store.addListener(NodesEvents.NodesFetchedEvent, this._onNodesFetched);
+        this._podsStore.addListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+    }
+
+    public render(): React.ReactNode {
+        return (
+            <div className="item-padding">
+                {this._getFilterBar()}
+                {this._getContent()}
+            </div>
+        );
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(NodesEvents.NodesFetchedEvent, this._onNodesFetched);
+        this._podsStore.removeListener(PodsEvents.PodsFetchedEvent, this._onPodsFetched);
+        [this._nodesWatch, this._podsWatch].forEach(watch => watch && watch.stop());
+    }
+
+    private _onNodesFetched = (): void => {
+        const storeState = this._store.getState();
+        if (storeState.nodeList !== this.state.nodeList || storeState.nodesFetchStatus !== this.state.nodesFetchStatus) {
+            this.setState({ nodeList: storeState.nodeList, nodesFetchStatus: storeState.nodesFetchStatus });
+        }
+    }
+
+    private _onPodsFetched = (): void => {
+        const pods = this._getPods();
+        if (pods !== this.state.pods) {
+            this.setState({ pods: pods });
+        }
+    }
+
+    private _getPods(): V1Pod[] {
+        const podsList = this._podsStore.getState().podsList;
+        return podsList && podsList.items || [];
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService);
+    }
+
+    private _getContent(): JSX.Element {
+        const nodes = this.state.nodeList && this.state.nodeList.items || [];
+        if (this.state.nodesFetchStatus.status === ResourceFetchStatus.Loaded && nodes.length === 0) {
+            return KubeZeroData._getDefaultZeroData("https://kubernetes.io/docs/concepts/architecture/nodes/",
+                Resources.LearnMoreText, Resources.NoNodesText, Resources.AddNodesText);
+        }
+
+        return (
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.nodesFetchStatus}
+                    resourceName={Resources.NodeText}
+                    onRetry={this._onRetry}
+                />
+                <NodesTable
+                    nodes={nodes}
+                    pods={this.state.pods}
+                    nameFilter={this._getNameFilterValue()}
+                    statusSelections={this._getStatusFilterValue()}
+                />
+            </div>
+        );
+    }
+
+    private _getFilterBar(): JSX.Element {
+        return (<NodesFilterBar
+            filter={this.props.filter}
+            filterToggled={this.props.filterToggled}
+        />);
+    }
+
+    private _getNameFilterValue(): string | undefined {
+        const filterState: IFilterState | undefined = this.props.filter.getState();
+        const filterItem: IFilterItemState | null = filterState ? filterState[NameKey] : null;
+        return filterItem ? (filterItem.value as string) : undefined;
+    }
+
+    private _getStatusFilterValue(): string[] {
+        const filterState: IFilterState | undefined = this.props.filter.getState();
+        const filterItem: IFilterItemState | null = filterState ? filterState[TypeKey] : null;
+        return filterItem ? filterItem.value : [];
+    }
+
+    private _store: NodesStore;
+    private _podsStore: PodsStore;
+    private _actionCreator: NodesActionsCreator;
+    private _podsActionCreator: PodsActionsCreator;
+    private _nodesWatch: IKubeWatch | undefined;
+    private _podsWatch: IKubeWatch | undefined;
+}
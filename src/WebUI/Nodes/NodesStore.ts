@@ -0,0 +1,81 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { StoreBase } from "../FluxCommon/Store";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { V1Node, V1NodeList } from "@kubernetes/client-node";
+import { NodesActions } from "./NodesActions";
+import { NodesEvents, ResourceFetchStatus } from "../Constants";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { IResourceFetchStatus, IResourceFetchStatusPayload } from "../Types";
+import { Utils } from "../Utils";
+
+export interface INodesStoreState {
+    nodeList?: V1NodeList;
+    nodesFetchStatus: IResourceFetchStatus;
+}
+
+// Nodes are not namespaced, so unlike the other stores this one keeps its nodes when another namespace is selected
+export class NodesStore extends StoreBase {
+    public static getKey(): string {
+        return "nodes-store";
+    }
+
+    public initialize(instanceId?: string): void {
+        super.initialize(instanceId);
+
+        this._state = { nodeList: undefined, nodesFetchStatus: { status: ResourceFetchStatus.Loading } };
+
+        this._nodesActions = ActionsHubManager.GetActionsHub<NodesActions>(NodesActions, instanceId);
+        this._nodesActions.nodesFetched.addListener(this._nodesFetched);
+        this._nodesActions.nodeWatchEventReceived.addListener(this._onNodeWatchEvent);
+        this._nodesActions.fetchStatusChanged.addListener(this._onFetchStatusChanged);
+    }
+
+    public disposeInternal(): void {
+        this._nodesActions.nodesFetched.removeListener(this._nodesFetched);
+        this._nodesActions.nodeWatchEventReceived.removeListener(this._onNodeWatchEvent);
+        this._nodesActions.fetchStatusChanged.removeListener(this._onFetchStatusChanged);
+    }
+
+    public getState(): INodesStoreState {
+        return this._state;
+    }
+
+    public getNode(nodeName: string | undefined): V1Node | undefined {
+        const nodeList = this._state.nodeList;
+        return nodeName && nodeList && nodeList.items ? nodeList.items.find(node => node.metadata.name === nodeName) : undefined;
+    }
+
+    public isFetchComplete(): boolean {
+        return this._state.nodesFetchStatus.status !== ResourceFetchStatus.Loading;
+    }
+
+    private _nodesFetched = (nodeList: V1NodeList): void => {
+        this._state.nodeList = Utils.getUpdatedList(this._state.nodeList, nodeList);
+        this._setNodesFetchStatus({ status: ResourceFetchStatus.Loaded });
+        this.emit(NodesEvents.NodesFetchedEvent, this);
+    }
+
+    private _onNodeWatchEvent = (event: IKubeWatchEvent<V1Node>): void => {
+        const nodeList = this._state.nodeList || {} as V1NodeList;
+        this._nodesFetched({ ...nodeList, items: Utils.applyWatchEvent(nodeList.items, event) });
+    }
+
+    private _onFetchStatusChanged = (payload: IResourceFetchStatusPayload): void => {
+        this._setNodesFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+        this.emit(NodesEvents.NodesFetchedEvent, this);
+    }
+
+    // The status object is only replaced on a change, so that the views can skip rendering unchanged state
+    private _setNodesFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.nodesFetchStatus, fetchStatus)) {
+            this._state.nodesFetchStatus = fetchStatus;
+        }
+    }
+
+    private _state: INodesStoreState;
+    private _nodesActions: NodesActions;
+}
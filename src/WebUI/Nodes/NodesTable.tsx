@@ -0,0 +1,139 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Node, V1Pod } from "@kubernetes/client-node";
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { SelectedItemKeys } from "../Constants";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { NodeHealth } from "../NodeHealth";
+import * as Resources from "../Resources";
+import { SelectionActions } from "../Selection/SelectionActions";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+
+const nameKey: string = "node-name-col";
+const statusKey: string = "node-status-col";
+const allocatableKey: string = "node-allocatable-col";
+const taintsKey: string = "node-taints-col";
+const kubeletVersionKey: string = "node-kubelet-version-col";
+const podsKey: string = "node-pods-col";
+const ageKey: string = "node-age-col";
+const colDataClassName: string = "list-col-content";
+
+export interface INodesTableProperties extends IVssComponentProperties {
+    nodes: V1Node[];
+    // The pods of the selected namespace, counted per node
+    pods: V1Pod[];
+    nameFilter?: string;
+    // NodeHealthStatus values, all nodes are shown when empty
+    statusSelections?: string[];
+}
+
+export class NodesTable extends BaseComponent<INodesTableProperties> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    public render(): React.ReactNode {
+        const statusSelections = this.props.statusSelections || [];
+        const filteredNodes = (this.props.nodes || []).filter(node => {
+            return Utils.filterByName(node.metadata.name, this.props.nameFilter)
+                && (statusSelections.length === 0 || statusSelections.indexOf(NodeHealth.getHealth(node).status) >= 0);
+        });
+
+        if (filteredNodes.length > 0) {
+            return (
+                <BaseKubeTable
+                    className={css("list-content", "top-padding", "depth-16")}
+                    items={filteredNodes}
+                    columns={this._getColumns()}
+                    onItemActivated={this._openNode}
+                />
+            );
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the resources of the node available to pods, e.g. "3.92 CPU, 14.5Gi memory, 110 pods".
+     */
+    public static getAllocatableText(node: V1Node): string {
+        const allocatable = NodeHealth.getAllocatable(node);
+        return allocatable.cpu || allocatable.memory || allocatable.pods ? format(Resources.AllocatableResourcesText, allocatable.cpu, allocatable.memory, allocatable.pods) : "";
+    }
+
+    private _openNode = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedNode: V1Node) => {
+        if (selectedNode) {
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedNode, showSelectedItem: true, selectedItemType: SelectedItemKeys.NodeKey });
+        }
+    }
+
+    private _getColumns(): ITableColumn<V1Node>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<V1Node>[] = [
+            { id: nameKey, name: Resources.NodeText, minWidth: 250, width: -100, renderCell: NodesTable._renderNameCell },
+            { id: statusKey, name: Resources.StatusText, minWidth: 160, width: -100, renderCell: NodesTable._renderStatusCell },
+            { id: allocatableKey, name: Resources.AllocatableText, minWidth: 240, width: -100, renderCell: NodesTable._renderAllocatableCell },
+            { id: taintsKey, name: Resources.TaintsText, minWidth: 200, width: -100, renderCell: NodesTable._renderTaintsCell },
+            { id: kubeletVersionKey, name: Resources.KubeletVersionText, minWidth: 120, width: -100, renderCell: NodesTable._renderKubeletVersionCell },
+            { id: podsKey, name: Resources.PodsListHeaderText, minWidth: 80, width: -100, renderCell: this._renderPodsCell },
+            { id: ageKey, name: Resources.AgeText, minWidth: 80, width: -100, renderCell: NodesTable._renderAgeCell }
+        ];
+
+        columns.forEach(column => column.headerClassName = headerColumnClassName);
+        return columns;
+    }
+
+    private static _renderNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Node>, node: V1Node): JSX.Element {
+        const itemToRender = BaseKubeTable.renderTwoLineColumn(node.metadata.name, NodeHealth.getRoles(node).join(", "), colDataClassName, "primary-text", "secondary-text");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderStatusCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Node>, node: V1Node): JSX.Element {
+        const health = NodeHealth.getHealth(node);
+        const itemToRender = (
+            <ResourceStatus
+                statusProps={Utils.generateNodeStatusProps(health.status)}
+                statusDescription={Utils.getNodeHealthText(health)}
+                toolTipText={health.message}
+            />
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAllocatableCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Node>, node: V1Node): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(NodesTable.getAllocatableText(node), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderTaintsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Node>, node: V1Node): JSX.Element {
+        const taints = node.spec && node.spec.taints || [];
+        const itemToRender = BaseKubeTable.renderColumn(taints.map(NodeHealth.getTaintText).join(", "), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderKubeletVersionCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Node>, node: V1Node): JSX.Element {
+        const nodeInfo = node.status && node.status.nodeInfo;
+        const itemToRender = BaseKubeTable.renderColumn(nodeInfo && nodeInfo.kubeletVersion || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _renderPodsCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Node>, node: V1Node): JSX.Element => {
+        const itemToRender = BaseKubeTable.renderColumn(String(NodeHealth.getPods(this.props.pods, node.metadata.name).length), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAgeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Node>, node: V1Node): JSX.Element {
+        const itemToRender = (<Ago date={new Date(node.metadata.creationTimestamp)} />);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+}
@@ -0,0 +1,193 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ContainerState, V1ContainerStatus, V1Pod, V1PodCondition, V1PodStatus } from "@kubernetes/client-node";
+
+// Pods restarting more often than this are shown as a warning even when they are running
+const restartWarningThreshold: number = 3;
+
+// Waiting reasons after which the container does not start without a change to the pod or the cluster
+const failedWaitingReasons: string[] = [
+    "CrashLoopBackOff",
+    "ImagePullBackOff",
+    "ErrImagePull",
+    "ErrImageNeverPull",
+    "InvalidImageName",
+    "CreateContainerConfigError",
+    "CreateContainerError",
+    "RunContainerError"
+];
+
+export enum PodHealthStatus {
+    Succeeded = "Succeeded",
+    Healthy = "Healthy",
+    Terminating = "Terminating",
+    Pending = "Pending",
+    NotReady = "NotReady",
+    Unknown = "Unknown",
+    Warning = "Warning",
+    Failed = "Failed"
+}
+
+// From the best to the worst health
+const severityOrder: PodHealthStatus[] = [
+    PodHealthStatus.Succeeded,
+    PodHealthStatus.Healthy,
+    PodHealthStatus.Terminating,
+    PodHealthStatus.Pending,
+    PodHealthStatus.NotReady,
+    PodHealthStatus.Unknown,
+    PodHealthStatus.Warning,
+    PodHealthStatus.Failed
+];
+
+export interface IPodHealth {
+    status: PodHealthStatus;
+    // Short reason as kubectl shows it, e.g. "CrashLoopBackOff" or "Init:ErrImagePull"
+    reason: string;
+    // Explanation from the container or the pod, empty when there is none
+    message: string;
+    readyContainers: number;
+    totalContainers: number;
+    restartCount: number;
+    // Reason a container was last restarted for, e.g. "OOMKilled"
+    lastTerminationReason: string;
+}
+
+export interface IPodHealthSummary {
+    // pods which are running and ready, or completed
+    healthyCount: number;
+    totalCount: number;
+    // worst health of the pods, undefined without pods
+    status?: PodHealthStatus;
+}
+
+export class PodHealth {
+    public static getHealth(pod: V1Pod): IPodHealth {
+        const status = pod.status || {} as V1PodStatus;
+        const containerStatuses: V1ContainerStatus[] = status.containerStatuses || [];
+        const totalContainers = pod.spec && pod.spec.containers ? pod.spec.containers.length : containerStatuses.length;
+        const health: IPodHealth = {
+            status: PodHealthStatus.Unknown,
+            reason: status.reason || status.phase || "",
+            message: status.message || "",
+            readyContainers: containerStatuses.filter(container => container.ready).length,
+            totalContainers: totalContainers,
+            restartCount: containerStatuses.reduce((count, container) => count + (container.restartCount || 0), 0),
+            lastTerminationReason: containerStatuses.map(PodHealth._getLastTerminationReason).find(reason => !!reason) || ""
+        };
+
+        return PodHealth._getHealthFromPhase(pod, health)
+            || PodHealth._getHealthFromContainers(status.initContainerStatuses || [], true, health)
+            || PodHealth._getHealthFromContainers(containerStatuses, false, health)
+            || PodHealth._getHealthFromConditions(pod, health);
+    }
+
+    /**
+     * Counts the healthy pods and finds the worst health among them.
+     */
+    public static getSummary(pods: V1Pod[]): IPodHealthSummary {
+        const summary: IPodHealthSummary = { healthyCount: 0, totalCount: (pods || []).length };
+        (pods || []).forEach(pod => {
+            const health = PodHealth.getHealth(pod);
+            if (PodHealth.isHealthy(health.status)) {
+                summary.healthyCount++;
+            }
+
+            if (!summary.status || PodHealth.compareSeverity(health.status, summary.status) > 0) {
+                summary.status = health.status;
+            }
+        });
+
+        return summary;
+    }
+
+    /**
+     * Returns true for waiting reasons such as CrashLoopBackOff, after which the container does not start by itself.
+     */
+    public static isFailedWaitingReason(reason: string | undefined): boolean {
+        return !!reason && failedWaitingReasons.indexOf(reason) >= 0;
+    }
+
+    public static isHealthy(status: PodHealthStatus): boolean {
+        return status === PodHealthStatus.Healthy || status === PodHealthStatus.Succeeded;
+    }
+
+    public static compareSeverity(first: PodHealthStatus, second: PodHealthStatus): number {
+        return severityOrder.indexOf(first) - severityOrder.indexOf(second);
+    }
+
+    private static _getHealthFromPhase(pod: V1Pod, health: IPodHealth): IPodHealth | undefined {
+        if (pod.metadata && pod.metadata.deletionTimestamp) {
+            return { ...health, status: PodHealthStatus.Terminating, reason: "Terminating" };
+        }
+
+        switch (pod.status && pod.status.phase) {
+            case "Succeeded":
+                return { ...health, status: PodHealthStatus.Succeeded, reason: pod.status.reason || "Completed" };
+            case "Failed":
+                // e.g. Evicted, along with the message of the kubelet
+                return { ...health, status: PodHealthStatus.Failed, reason: pod.status.reason || "Failed" };
+            case "Pending":
+            case "Running":
+                return undefined;
+        }
+
+        return { ...health, status: PodHealthStatus.Unknown, reason: pod.status && pod.status.reason || "Unknown" };
+    }
+
+    private static _getHealthFromContainers(containerStatuses: V1ContainerStatus[], isInit: boolean, health: IPodHealth): IPodHealth | undefined {
+        const prefix = isInit ? "Init:" : "";
+        let pendingHealth: IPodHealth | undefined;
+        for (const container of containerStatuses) {
+            const state = container.state || {} as V1ContainerState;
+            if (state.waiting && PodHealth.isFailedWaitingReason(state.waiting.reason)) {
+                return { ...health, status: PodHealthStatus.Failed, reason: prefix + state.waiting.reason, message: state.waiting.message || "" };
+            }
+
+            if (state.terminated && state.terminated.exitCode !== 0) {
+                return { ...health, status: PodHealthStatus.Failed, reason: prefix + (state.terminated.reason || "Error"), message: state.terminated.message || "" };
+            }
+
+            // init containers run one after the other, so the first one which has not completed is the one to report
+            const isInitRunning = isInit && !state.terminated;
+            if (!pendingHealth && (state.waiting || isInitRunning)) {
+                const reason = state.waiting && state.waiting.reason || (isInit ? "Running" : "Waiting");
+                pendingHealth = { ...health, status: PodHealthStatus.Pending, reason: prefix + reason, message: state.waiting && state.waiting.message || "" };
+            }
+        }
+
+        return pendingHealth;
+    }
+
+    private static _getHealthFromConditions(pod: V1Pod, health: IPodHealth): IPodHealth {
+        const conditions: V1PodCondition[] = pod.status.conditions || [];
+        const scheduled = conditions.find(condition => condition.type === "PodScheduled");
+        if (scheduled && scheduled.status === "False") {
+            return { ...health, status: PodHealthStatus.Warning, reason: scheduled.reason || "Unschedulable", message: scheduled.message || "" };
+        }
+
+        if (pod.status.phase === "Pending") {
+            return { ...health, status: PodHealthStatus.Pending };
+        }
+
+        const ready = conditions.find(condition => condition.type === "Ready");
+        if (health.readyContainers < health.totalContainers || ready && ready.status === "False") {
+            return { ...health, status: PodHealthStatus.NotReady, reason: "NotReady", message: ready && ready.message || "" };
+        }
+
+        if (health.restartCount > restartWarningThreshold) {
+            return { ...health, status: PodHealthStatus.Warning, reason: health.lastTerminationReason || "Restarting", message: "" };
+        }
+
+        return { ...health, status: PodHealthStatus.Healthy, reason: "Running", message: "" };
+    }
+
+    // e.g. "OOMKilled", the reason the container was last restarted
+    private static _getLastTerminationReason(container: V1ContainerStatus): string {
+        const terminated = container.lastState && container.lastState.terminated;
+        return terminated && terminated.reason || "";
+    }
+}
@@ -0,0 +1,98 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1PodTemplateSpec } from "@kubernetes/client-node";
+
+const podTemplateHashLabelPath: string = "metadata.labels.pod-template-hash";
+
+// In the order the categories are shown
+export enum TemplateChangeCategory {
+    Images = "images",
+    Environment = "environment",
+    Resources = "resources",
+    Probes = "probes",
+    Volumes = "volumes",
+    Labels = "labels",
+    Other = "other"
+}
+
+export interface ITemplateChange {
+    category: TemplateChangeCategory;
+    // e.g. "spec.containers[web].env[LOG_LEVEL].value"
+    path: string;
+    // undefined when the field is added or removed
+    oldValue?: string;
+    newValue?: string;
+}
+
+export class PodTemplateDiff {
+    /**
+     * Returns the fields that differ between the pod templates, ordered by category and path.
+     * List items with a name, such as containers, env vars and volumes, are matched on their name rather than their position.
+     */
+    public static getChanges(oldTemplate: V1PodTemplateSpec, newTemplate: V1PodTemplateSpec): ITemplateChange[] {
+        const oldFields = PodTemplateDiff.getFields(oldTemplate);
+        const newFields = PodTemplateDiff.getFields(newTemplate);
+        const paths = Object.keys(oldFields).concat(Object.keys(newFields).filter(path => !oldFields.hasOwnProperty(path)));
+
+        const categories = Object.keys(TemplateChangeCategory).map(key => TemplateChangeCategory[key]);
+        return paths
+            .filter(path => oldFields[path] !== newFields[path] && path !== podTemplateHashLabelPath)
+            .map(path => ({ category: PodTemplateDiff.getCategory(path), path: path, oldValue: oldFields[path], newValue: newFields[path] }))
+            .sort((first, second) => (categories.indexOf(first.category) - categories.indexOf(second.category)) || first.path.localeCompare(second.path));
+    }
+
+    /**
+     * Flattens the object to the paths of its scalar fields.
+     */
+    public static getFields(obj: any): { [path: string]: string } {
+        let fields: { [path: string]: string } = {};
+        PodTemplateDiff._appendFields(obj, "", fields);
+        return fields;
+    }
+
+    public static getCategory(path: string): TemplateChangeCategory {
+        if (/\.image$/.test(path)) {
+            return TemplateChangeCategory.Images;
+        }
+
+        if (/\.(env|envFrom)\[/.test(path)) {
+            return TemplateChangeCategory.Environment;
+        }
+
+        if (/\.resources\./.test(path)) {
+            return TemplateChangeCategory.Resources;
+        }
+
+        if (/\.(livenessProbe|readinessProbe|startupProbe)\./.test(path)) {
+            return TemplateChangeCategory.Probes;
+        }
+
+        if (/^spec\.volumes\[|\.volumeMounts\[/.test(path)) {
+            return TemplateChangeCategory.Volumes;
+        }
+
+        if (/^metadata\.labels\./.test(path)) {
+            return TemplateChangeCategory.Labels;
+        }
+
+        return TemplateChangeCategory.Other;
+    }
+
+    private static _appendFields(value: any, path: string, fields: { [path: string]: string }): void {
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => {
+                const key = item && typeof item === "object" && typeof item.name === "string" ? item.name : String(index);
+                PodTemplateDiff._appendFields(item, path + "[" + key + "]", fields);
+            });
+        }
+        else if (value && typeof value === "object" && !(value instanceof Date)) {
+            Object.keys(value).forEach(key => PodTemplateDiff._appendFields(value[key], path ? path + "." + key : key, fields));
+        }
+        else if (value !== undefined && value !== null && path) {
+            fields[path] = value instanceof Date ? value.toISOString() : String(value);
+        }
+    }
+}
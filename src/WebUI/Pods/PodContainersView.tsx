@@ -0,0 +1,168 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Container, V1ContainerState, V1ContainerStatus, V1Pod, V1PodSpec, V1PodStatus } from "@kubernetes/client-node";
+import { BaseComponent, format } from "@uifabric/utilities";
+import { IStatusProps, Statuses } from "azure-devops-ui/Status";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { PodHealth } from "../PodHealth";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+
+const colDataClassName: string = "list-col-content";
+const digestSeparator: string = "@";
+
+export interface IPodContainersViewProperties extends IVssComponentProperties {
+    pod: V1Pod;
+}
+
+interface IContainerItem {
+    container: V1Container;
+    // undefined until the kubelet reports the container
+    status?: V1ContainerStatus;
+    isInitContainer: boolean;
+}
+
+export class PodContainersView extends BaseComponent<IPodContainersViewProperties> {
+    public render(): JSX.Element {
+        return (
+            <BaseKubeTable
+                className="pod-containers-view depth-16"
+                headingText={Resources.ContainersText}
+                items={PodContainersView._getContainerItems(this.props.pod)}
+                columns={PodContainersView._getColumns()}
+            />
+        );
+    }
+
+    // Init containers first, in the order they run
+    private static _getContainerItems(pod: V1Pod): IContainerItem[] {
+        const spec = pod.spec || {} as V1PodSpec;
+        const status = pod.status || {} as V1PodStatus;
+        const getItems = (containers: V1Container[], statuses: V1ContainerStatus[], isInitContainer: boolean): IContainerItem[] => {
+            return (containers || []).map(container => ({
+                container: container,
+                status: (statuses || []).find(containerStatus => containerStatus.name === container.name),
+                isInitContainer: isInitContainer
+            }));
+        };
+
+        return getItems(spec.initContainers, status.initContainerStatuses, true).concat(getItems(spec.containers, status.containerStatuses, false));
+    }
+
+    private static _getColumns(): ITableColumn<IContainerItem>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<IContainerItem>[] = [
+            { id: "name", name: Resources.NameText, minWidth: 140, width: -15, renderCell: PodContainersView._renderNameCell },
+            { id: "image", name: Resources.ImageText, minWidth: 200, width: -30, renderCell: PodContainersView._renderImageCell },
+            { id: "state", name: Resources.StateText, minWidth: 160, width: -20, renderCell: PodContainersView._renderStateCell },
+            { id: "lastState", name: Resources.LastTerminationText, minWidth: 140, width: -15, renderCell: PodContainersView._renderLastStateCell },
+            { id: "restarts", name: Resources.RestartsText, minWidth: 70, width: -5, renderCell: PodContainersView._renderRestartsCell },
+            { id: "ports", name: Resources.PortsText, minWidth: 100, width: -15, renderCell: PodContainersView._renderPortsCell }
+        ];
+
+        columns.forEach(column => {
+            column.headerClassName = headerColumnClassName;
+            column.className = colDataClassName;
+        });
+
+        return columns;
+    }
+
+    private static _renderNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerItem>, item: IContainerItem): JSX.Element {
+        const subText = item.isInitContainer ? Resources.InitContainerText : (item.status && item.status.ready ? Resources.ContainerReadyText : Resources.ContainerNotReadyText);
+        const itemToRender = BaseKubeTable.renderTwoLineColumn(item.container.name, subText);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderImageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerItem>, item: IContainerItem): JSX.Element {
+        const digest = PodContainersView._getImageDigest(item.status);
+        const itemToRender = digest
+            ? BaseKubeTable.renderTwoLineColumn(item.container.image || "", digest)
+            : BaseKubeTable.renderColumn(item.container.image || "", BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderStateCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerItem>, item: IContainerItem): JSX.Element {
+        const state = item.status && item.status.state;
+        const itemToRender = (
+            <ResourceStatus
+                statusProps={PodContainersView._getStateStatusProps(item)}
+                statusDescription={PodContainersView._getStateText(state) || Resources.ContainerWaitingText}
+                toolTipText={PodContainersView._getStateMessage(state)}
+            />
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderLastStateCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerItem>, item: IContainerItem): JSX.Element {
+        const lastState = item.status && item.status.lastState;
+        const itemToRender = BaseKubeTable.renderColumn(PodContainersView._getStateText(lastState), BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderRestartsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerItem>, item: IContainerItem): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(String(item.status && item.status.restartCount || 0), BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderPortsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerItem>, item: IContainerItem): JSX.Element {
+        const ports = (item.container.ports || []).map(port => format("{0}/{1}", port.containerPort, port.protocol || "TCP"));
+        const itemToRender = BaseKubeTable.renderColumn(ports.join(", "), BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // e.g. "sha256:4a5d..." from "docker-pullable://nginx@sha256:4a5d...", empty when the image is not pulled yet
+    private static _getImageDigest(status: V1ContainerStatus | undefined): string {
+        const imageId = status && status.imageID || "";
+        const separatorIndex = imageId.lastIndexOf(digestSeparator);
+        return separatorIndex >= 0 ? imageId.substring(separatorIndex + 1) : "";
+    }
+
+    // e.g. "Running", "Waiting: CrashLoopBackOff" or "Terminated: Error (exit code 1)"
+    private static _getStateText(state: V1ContainerState | undefined): string {
+        if (state && state.running) {
+            return Resources.ContainerRunningText;
+        }
+
+        if (state && state.waiting) {
+            return state.waiting.reason ? format("{0}: {1}", Resources.ContainerWaitingText, state.waiting.reason) : Resources.ContainerWaitingText;
+        }
+
+        if (state && state.terminated) {
+            const reason = state.terminated.reason ? format("{0}: {1}", Resources.ContainerTerminatedText, state.terminated.reason) : Resources.ContainerTerminatedText;
+            return format(Resources.ExitCodeText, reason, state.terminated.exitCode);
+        }
+
+        return "";
+    }
+
+    private static _getStateMessage(state: V1ContainerState | undefined): string | undefined {
+        const message = state && (state.waiting && state.waiting.message || state.terminated && state.terminated.message);
+        return message || undefined;
+    }
+
+    private static _getStateStatusProps(item: IContainerItem): IStatusProps {
+        const status = item.status;
+        const state = status && status.state;
+        if (!status || !state) {
+            return Statuses.Waiting;
+        }
+
+        if (state.terminated) {
+            return state.terminated.exitCode === 0 ? Statuses.Success : Statuses.Failed;
+        }
+
+        if (state.running) {
+            // init containers are not probed for readiness
+            return item.isInitContainer || status.ready ? Statuses.Success : Statuses.Running;
+        }
+
+        return state.waiting && PodHealth.isFailedWaitingReason(state.waiting.reason) ? Statuses.Failed : Statuses.Waiting;
+    }
+}
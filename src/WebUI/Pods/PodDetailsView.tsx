@@ -3,10 +3,11 @@
     Licensed under the MIT license.
 */
 
-import { V1Pod } from "@kubernetes/client-node";
+import { V1Node, V1NodeList, V1Pod } from "@kubernetes/client-node";
 import { BaseComponent, format } from "@uifabric/utilities";
 import { Duration } from "azure-devops-ui/Duration";
 import { LabelGroup, WrappingBehavior } from "azure-devops-ui/Label";
+import { Link } from "azure-devops-ui/Link";
 import { ObservableValue } from "azure-devops-ui/Core/Observable";
 import { ArrayItemProvider } from "azure-devops-ui/Utilities/Provider";
 import * as React from "react";
@@ -15,13 +16,56 @@ import { Utils } from "../Utils";
 import { ColumnFill, ITableColumn, renderSimpleCell, SimpleTableCell as renderTableCell, Table } from "azure-devops-ui/Table";
 import { Card } from "azure-devops-ui/Card";
 import "../Services/ServiceDetailsView.scss";
-import { IPodRightPanelProps } from "./PodsRightPanel";
+import { IVssComponentProperties } from "../Types";
+import { IKubeService } from "../../Contracts/Contracts";
+import { EventsView } from "../Events/EventsView";
+import { PodContainersView } from "./PodContainersView";
+import { PodResourcesView } from "./PodResourcesView";
+import { NodesEvents, SelectedItemKeys } from "../Constants";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { NodesActionsCreator } from "../Nodes/NodesActionsCreator";
+import { NodesStore } from "../Nodes/NodesStore";
+import { SelectionActions } from "../Selection/SelectionActions";
 
-export interface IPodDetailsProps extends IPodRightPanelProps { }
+export interface IPodDetailsProps extends IVssComponentProperties {
+    pod: V1Pod;
+    // When provided, the events of the pod are shown below its summary
+    kubeService?: IKubeService;
+}
+
+export interface IPodDetailsState {
+    // The node of the pod is linked once the nodes are fetched
+    nodeList?: V1NodeList;
+}
+
+export class PodDetailsView extends BaseComponent<IPodDetailsProps, IPodDetailsState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IPodDetailsProps, context: IFluxContext) {
+        super(props, context);
+
+        this._nodesStore = StoreManager.GetStore<NodesStore>(NodesStore, this.context.fluxInstanceId);
+        this.state = { nodeList: this._nodesStore.getState().nodeList };
+
+        // The nodes are fetched by the nodes pivot, unless it was not opened yet
+        if (this.props.kubeService && !this._nodesStore.getState().nodeList) {
+            ActionsCreatorManager.GetActionCreator<NodesActionsCreator>(NodesActionsCreator, this.context.fluxInstanceId).getNodes(this.props.kubeService);
+        }
+
+        this._nodesStore.addListener(NodesEvents.NodesFetchedEvent, this._onNodesFetched);
+    }
+
+    public componentWillUnmount(): void {
+        this._nodesStore.removeListener(NodesEvents.NodesFetchedEvent, this._onNodesFetched);
+    }
 
-export class PodDetailsView extends BaseComponent<IPodDetailsProps> {
     public render(): JSX.Element {
         const pod: V1Pod = this.props.pod;
+        const node = this._nodesStore.getNode(pod.spec.nodeName);
         const columns: ITableColumn<any>[] = [
             {
                 id: "key",
@@ -49,23 +93,36 @@ export class PodDetailsView extends BaseComponent<IPodDetailsProps> {
             { key: Resources.AnnotationsText, value: pod.metadata.annotations || {} },
             { key: Resources.RestartPolicyText, value: pod.spec.restartPolicy || "" },
             { key: Resources.QoSClassText, value: pod.status.qosClass || "" },
-            { key: Resources.NodeText, value: pod.spec.nodeName || "" },
+            { key: Resources.NodeText, value: pod.spec.nodeName || "", onClick: node ? () => this._openNode(node) : undefined },
             { key: Resources.ClusterIPText, value: "" }
         ]);
 
         return (
-            <Card className="kube-list-content s-details depth-16" title={Resources.SummaryText}>
-                <Table
-                    className="s-full-details"
-                    id={format("s-full-details-{0}", pod.metadata.uid)}
-                    showHeader={false}
-                    showLines={false}
-                    singleClickActivation={false}
-                    itemProvider={tableItems}
-                    pageSize={tableItems.getCount()}
-                    columns={columns}
-                />
-            </Card>
+            <div>
+                <Card className="kube-list-content s-details depth-16" title={Resources.SummaryText}>
+                    <Table
+                        className="s-full-details"
+                        id={format("s-full-details-{0}", pod.metadata.uid)}
+                        showHeader={false}
+                        showLines={false}
+                        singleClickActivation={false}
+                        itemProvider={tableItems}
+                        pageSize={tableItems.getCount()}
+                        columns={columns}
+                    />
+                </Card>
+                <PodContainersView pod={pod} />
+                <PodResourcesView key={pod.metadata.uid} pod={pod} kubeService={this.props.kubeService} />
+                {
+                    this.props.kubeService &&
+                    <EventsView
+                        key={pod.metadata.uid}
+                        kubeService={this.props.kubeService}
+                        involvedObjectUid={pod.metadata.uid}
+                        namespace={pod.metadata.namespace}
+                    />
+                }
+            </div>
         );
     }
 
@@ -75,6 +132,14 @@ export class PodDetailsView extends BaseComponent<IPodDetailsProps> {
         tableColumn: ITableColumn<any>,
         tableItem: any): JSX.Element {
         const { key, value } = tableItem;
+        if (key === Resources.NodeText && tableItem.onClick) {
+            return renderTableCell({
+                columnIndex: columnIndex,
+                children: <Link className="pod-details-node-link" onClick={tableItem.onClick}>{value}</Link>,
+                tableColumn: tableColumn
+            });
+        }
+
         switch (key) {
             case Resources.Created:
                 let props = {
@@ -109,4 +174,14 @@ export class PodDetailsView extends BaseComponent<IPodDetailsProps> {
                 </div>);
         }
     }
+
+    private _onNodesFetched = (): void => {
+        this.setState({ nodeList: this._nodesStore.getState().nodeList });
+    }
+
+    private _openNode(node: V1Node): void {
+        ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: node, showSelectedItem: true, selectedItemType: SelectedItemKeys.NodeKey });
+    }
+
+    private _nodesStore: NodesStore;
 }
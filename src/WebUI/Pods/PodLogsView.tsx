@@ -0,0 +1,236 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Pod, V1ContainerStatus } from "@kubernetes/client-node";
+import { BaseComponent, format } from "@uifabric/utilities";
+import { Button } from "azure-devops-ui/Button";
+import { IMenuItem, MenuButton } from "azure-devops-ui/Menu";
+import { MessageCard, MessageCardSeverity } from "azure-devops-ui/MessageCard";
+import { Spinner, SpinnerSize } from "azure-devops-ui/Spinner";
+import { Toggle } from "azure-devops-ui/Toggle";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { PodsEvents } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { PodsActionsCreator } from "./PodsActionsCreator";
+import { PodsStore } from "./PodsStore";
+import "./PodLogsView.scss";
+
+const defaultTailLines: number = 1000;
+
+export interface IPodLogsViewProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    pod: V1Pod;
+}
+
+export interface IPodLogsViewState {
+    selectedContainer: string;
+    showPrevious: boolean;
+    showTimestamps: boolean;
+    isLoading: boolean;
+    logs: string;
+    errorMessage?: string;
+}
+
+export class PodLogsView extends BaseComponent<IPodLogsViewProperties, IPodLogsViewState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IPodLogsViewProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<PodsStore>(PodsStore, this.context.fluxInstanceId);
+
+        const containers = PodLogsView._getContainerNames(this.props.pod);
+        this.state = {
+            selectedContainer: this._getDefaultContainer(containers),
+            showPrevious: false,
+            showTimestamps: false,
+            isLoading: true,
+            logs: ""
+        };
+
+        this._store.addListener(PodsEvents.PodLogFetchedEvent, this._onPodLogFetched);
+    }
+
+    public componentDidMount(): void {
+        this._fetchLogs(this.state.selectedContainer, this.state.showPrevious, this.state.showTimestamps);
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(PodsEvents.PodLogFetchedEvent, this._onPodLogFetched);
+    }
+
+    public render(): JSX.Element {
+        return (
+            <div className="pod-logs-view flex-column flex-grow">
+                {this._getToolbar()}
+                {this._getLogsContent()}
+            </div>
+        );
+    }
+
+    private _getToolbar(): JSX.Element {
+        const containers = PodLogsView._getContainerNames(this.props.pod);
+        const containerStatus = this._getContainerStatus(this.state.selectedContainer);
+        const hasPreviousContainer = !!containerStatus && containerStatus.restartCount > 0;
+        const menuItems: IMenuItem[] = containers.map(container => {
+            return {
+                id: container,
+                text: container,
+                checked: container === this.state.selectedContainer
+            };
+        });
+
+        return (
+            <div className="pod-logs-toolbar">
+                {
+                    containers.length > 1 &&
+                    <MenuButton
+                        className="pod-logs-container-picker"
+                        text={format(Resources.ContainerNameText, this.state.selectedContainer)}
+                        contextualMenuProps={{
+                            menuProps: {
+                                id: format("pod-logs-containers-{0}", this.props.pod.metadata.uid),
+                                items: menuItems,
+                                onActivate: this._onContainerChanged
+                            }
+                        }}
+                    />
+                }
+                <Toggle
+                    className="pod-logs-toggle"
+                    text={Resources.PreviousContainerText}
+                    checked={this.state.showPrevious}
+                    disabled={!hasPreviousContainer && !this.state.showPrevious}
+                    onChange={this._onPreviousToggled}
+                />
+                <Toggle
+                    className="pod-logs-toggle"
+                    text={Resources.TimestampsText}
+                    checked={this.state.showTimestamps}
+                    onChange={this._onTimestampsToggled}
+                />
+                <Button
+                    className="pod-logs-refresh"
+                    text={Resources.RefreshText}
+                    iconProps={{ iconName: "Refresh" }}
+                    subtle={true}
+                    onClick={this._onRefresh}
+                />
+            </div>
+        );
+    }
+
+    private _getLogsContent(): JSX.Element {
+        if (this.state.isLoading) {
+            return <Spinner className="pod-logs-spinner" size={SpinnerSize.large} label={Resources.LoadingLogsText} />;
+        }
+
+        if (this.state.errorMessage) {
+            return (
+                <MessageCard className="pod-logs-error" severity={MessageCardSeverity.Error}>
+                    {format(Resources.LogsFetchFailedText, this.state.errorMessage)}
+                </MessageCard>
+            );
+        }
+
+        const logs = this.state.logs.replace(/\n$/, "");
+        if (!logs) {
+            return <div className="pod-logs-empty secondary-text">{Resources.NoLogsText}</div>;
+        }
+
+        return (
+            <div className="pod-logs-content">
+                {
+                    logs.split("\n").map((line, index) => {
+                        return (
+                            <div className="pod-log-line" key={index}>
+                                <span className="pod-log-line-number">{index + 1}</span>
+                                <span className="pod-log-line-text">{line}</span>
+                            </div>
+                        );
+                    })
+                }
+            </div>
+        );
+    }
+
+    private _onContainerChanged = (menuItem: IMenuItem): void => {
+        if (menuItem.id !== this.state.selectedContainer) {
+            this.setState({ selectedContainer: menuItem.id, showPrevious: false });
+            this._fetchLogs(menuItem.id, false, this.state.showTimestamps);
+        }
+    }
+
+    private _onPreviousToggled = (event: React.SyntheticEvent<HTMLElement>, checked: boolean): void => {
+        this.setState({ showPrevious: checked });
+        this._fetchLogs(this.state.selectedContainer, checked, this.state.showTimestamps);
+    }
+
+    private _onTimestampsToggled = (event: React.SyntheticEvent<HTMLElement>, checked: boolean): void => {
+        this.setState({ showTimestamps: checked });
+        this._fetchLogs(this.state.selectedContainer, this.state.showPrevious, checked);
+    }
+
+    private _onRefresh = (): void => {
+        this._fetchLogs(this.state.selectedContainer, this.state.showPrevious, this.state.showTimestamps);
+    }
+
+    private _fetchLogs(container: string, previous: boolean, timestamps: boolean): void {
+        this.setState({ isLoading: true, errorMessage: undefined });
+        this._actionCreator.getPodLog(this.props.kubeService, this.props.pod, {
+            container: container,
+            previous: previous,
+            timestamps: timestamps,
+            tailLines: defaultTailLines
+        });
+    }
+
+    private _onPodLogFetched = (): void => {
+        const podLog = this._store.getState().podLog;
+        // Ignore responses of earlier requests made for a different pod, container, instance or timestamps option
+        if (podLog
+            && podLog.podUid === this.props.pod.metadata.uid
+            && podLog.containerName === this.state.selectedContainer
+            && podLog.previous === this.state.showPrevious
+            && podLog.timestamps === this.state.showTimestamps) {
+            this.setState({
+                isLoading: false,
+                logs: podLog.logs,
+                errorMessage: podLog.errorMessage
+            });
+        }
+    }
+
+    private _getDefaultContainer(containers: string[]): string {
+        const spec = this.props.pod.spec;
+        if (spec && spec.containers && spec.containers.length > 0) {
+            return spec.containers[0].name;
+        }
+
+        return containers.length > 0 ? containers[0] : "";
+    }
+
+    private _getContainerStatus(containerName: string): V1ContainerStatus | undefined {
+        const status = this.props.pod.status;
+        const containerStatuses = (status && status.initContainerStatuses || []).concat(status && status.containerStatuses || []);
+        return containerStatuses.find(containerStatus => containerStatus.name === containerName);
+    }
+
+    private static _getContainerNames(pod: V1Pod): string[] {
+        const spec = pod.spec;
+        const containers = (spec && spec.initContainers || []).concat(spec && spec.containers || []);
+        return containers.map(container => container.name);
+    }
+
+    private _store: PodsStore;
+    private _actionCreator: PodsActionsCreator;
+}
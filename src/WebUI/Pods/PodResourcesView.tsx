@@ -0,0 +1,194 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Container, V1Pod } from "@kubernetes/client-node";
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { KubeSparkline } from "../Common/KubeSparkline";
+import { MetricsEvents } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { IMetricsSample, IPodMetricsHistory, MetricsStore } from "../Metrics/MetricsStore";
+import { MetricsActionsCreator } from "../Metrics/MetricsActionsCreator";
+import * as Resources from "../Resources";
+import { ResourceQuantity } from "../ResourceQuantity";
+import { IVssComponentProperties } from "../Types";
+import "./PodResourcesView.scss";
+
+const colDataClassName: string = "list-col-content";
+
+export interface IPodResourcesViewProperties extends IVssComponentProperties {
+    pod: V1Pod;
+    // When it implements getPodMetrics, the usage of the containers is shown along with their requests and limits
+    kubeService?: IKubeService;
+}
+
+export interface IPodResourcesViewState {
+    metrics?: IPodMetricsHistory;
+}
+
+interface IContainerResourcesItem {
+    container: V1Container;
+    samples: IMetricsSample[];
+}
+
+// How a resource is read from the container spec and the samples, and how its quantities are shown
+interface IResourceDescriptor {
+    name: string;
+    parse: (quantity: string | undefined) => number;
+    format: (value: number) => string;
+    getUsage: (sample: IMetricsSample) => number;
+}
+
+const cpuDescriptor: IResourceDescriptor = {
+    name: "cpu",
+    parse: ResourceQuantity.parseCpuMillicores,
+    format: ResourceQuantity.formatCpu,
+    getUsage: sample => sample.cpuMillicores
+};
+
+const memoryDescriptor: IResourceDescriptor = {
+    name: "memory",
+    parse: ResourceQuantity.parse,
+    format: ResourceQuantity.formatMemory,
+    getUsage: sample => sample.memoryBytes
+};
+
+export class PodResourcesView extends BaseComponent<IPodResourcesViewProperties, IPodResourcesViewState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IPodResourcesViewProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._store = StoreManager.GetStore<MetricsStore>(MetricsStore, this.context.fluxInstanceId);
+        this.state = { metrics: this._getPodMetrics() };
+
+        // Later samples are added when KubeSummary refreshes
+        if (!this.state.metrics && this._hasMetrics()) {
+            const actionCreator = ActionsCreatorManager.GetActionCreator<MetricsActionsCreator>(MetricsActionsCreator, this.context.fluxInstanceId);
+            actionCreator.getPodMetrics(this.props.kubeService!, this.props.pod.metadata.namespace);
+        }
+
+        this._store.addListener(MetricsEvents.PodMetricsFetchedEvent, this._onMetricsFetched);
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(MetricsEvents.PodMetricsFetchedEvent, this._onMetricsFetched);
+    }
+
+    public render(): JSX.Element {
+        return (
+            <BaseKubeTable
+                className="pod-resources-view depth-16"
+                headingText={Resources.ResourcesText}
+                items={this._getItems()}
+                columns={this._getColumns()}
+            />
+        );
+    }
+
+    private _getItems(): IContainerResourcesItem[] {
+        const containers = this.props.pod.spec && this.props.pod.spec.containers || [];
+        return containers.map(container => ({
+            container: container,
+            samples: this.state.metrics && this.state.metrics.containers[container.name] || []
+        }));
+    }
+
+    private _getColumns(): ITableColumn<IContainerResourcesItem>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<IContainerResourcesItem>[] = [
+            { id: "name", name: Resources.NameText, minWidth: 140, width: -20, renderCell: PodResourcesView._renderNameCell }
+        ];
+
+        [
+            { descriptor: cpuDescriptor, usageText: Resources.CpuUsageText, requestText: Resources.CpuRequestText, limitText: Resources.CpuLimitText },
+            { descriptor: memoryDescriptor, usageText: Resources.MemoryUsageText, requestText: Resources.MemoryRequestText, limitText: Resources.MemoryLimitText }
+        ].forEach(resource => {
+            const descriptor = resource.descriptor;
+            if (this._hasMetrics()) {
+                columns.push({ id: descriptor.name + "-usage", name: resource.usageText, minWidth: 180, width: -20, renderCell: (rowIndex, columnIndex, tableColumn, item) => PodResourcesView._renderUsageCell(rowIndex, columnIndex, tableColumn, item, descriptor) });
+            }
+
+            columns.push({ id: descriptor.name + "-request", name: resource.requestText, minWidth: 90, width: -10, renderCell: (rowIndex, columnIndex, tableColumn, item) => PodResourcesView._renderQuantityCell(rowIndex, columnIndex, tableColumn, item, descriptor, "requests") });
+            columns.push({ id: descriptor.name + "-limit", name: resource.limitText, minWidth: 90, width: -10, renderCell: (rowIndex, columnIndex, tableColumn, item) => PodResourcesView._renderQuantityCell(rowIndex, columnIndex, tableColumn, item, descriptor, "limits") });
+        });
+
+        columns.forEach(column => {
+            column.headerClassName = headerColumnClassName;
+            column.className = colDataClassName;
+        });
+
+        return columns;
+    }
+
+    private _hasMetrics(): boolean {
+        return !!this.props.kubeService && !!this.props.kubeService.getPodMetrics;
+    }
+
+    private _getPodMetrics(): IPodMetricsHistory | undefined {
+        return this._store.getPodMetrics(this.props.pod.metadata.namespace, this.props.pod.metadata.name);
+    }
+
+    private _onMetricsFetched = (): void => {
+        const metrics = this._getPodMetrics();
+        if (metrics !== this.state.metrics) {
+            this.setState({ metrics: metrics });
+        }
+    }
+
+    private static _renderNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerResourcesItem>, item: IContainerResourcesItem): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(item.container.name, BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // Containers without a limit can use all of the node, which is highlighted
+    private static _renderQuantityCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerResourcesItem>, item: IContainerResourcesItem, descriptor: IResourceDescriptor, kind: "requests" | "limits"): JSX.Element {
+        const value = PodResourcesView._getQuantity(item.container, descriptor, kind);
+        const text = isNaN(value) ? Resources.NotSetText : descriptor.format(value);
+        const className = isNaN(value) && kind === "limits" ? "pod-resources-warning" : undefined;
+        const itemToRender = BaseKubeTable.renderColumn(text, BaseKubeTable.defaultColumnRenderer, className);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // The usage is compared to the limit, or to the request when there is no limit
+    private static _renderUsageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IContainerResourcesItem>, item: IContainerResourcesItem, descriptor: IResourceDescriptor): JSX.Element {
+        const values = item.samples.map(descriptor.getUsage);
+        if (values.length === 0) {
+            return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, null);
+        }
+
+        const usage = values[values.length - 1];
+        const limit = PodResourcesView._getQuantity(item.container, descriptor, "limits");
+        const request = PodResourcesView._getQuantity(item.container, descriptor, "requests");
+        const reference = isNaN(limit) ? request : limit;
+        const percentage = reference > 0 ? Math.round(usage * 100 / reference) : NaN;
+        const itemToRender = (
+            <div className="pod-resources-usage">
+                <span className="pod-resources-usage-value">{descriptor.format(usage)}</span>
+                <KubeSparkline values={values} maxValue={isNaN(limit) ? undefined : limit} />
+                {
+                    !isNaN(percentage) &&
+                    <span className={css("secondary-text", !isNaN(limit) && usage >= limit ? "pod-resources-warning" : "")}>
+                        {format(isNaN(limit) ? Resources.PercentOfRequestText : Resources.PercentOfLimitText, percentage)}
+                    </span>
+                }
+            </div>
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _getQuantity(container: V1Container, descriptor: IResourceDescriptor, kind: "requests" | "limits"): number {
+        const quantities = container.resources && container.resources[kind];
+        return descriptor.parse(quantities && quantities[descriptor.name]);
+    }
+
+    private _store: MetricsStore;
+}
@@ -4,7 +4,18 @@
 */
 
 import { ActionsHubBase, Action } from "../FluxCommon/Actions";
-import { V1PodList } from "@kubernetes/client-node";
+import { V1Pod, V1PodList } from "@kubernetes/client-node";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { IListFetchedPayload, IResourceFetchStatusPayload } from "../Types";
+
+export interface IPodLogPayload {
+    podUid: string;
+    containerName: string;
+    previous: boolean;
+    timestamps: boolean;
+    logs: string;
+    errorMessage?: string;
+}
 
 export class PodsActions extends ActionsHubBase {
     public static getKey(): string {
@@ -12,18 +23,42 @@ export class PodsActions extends ActionsHubBase {
     }
 
     public initialize(): void {
-        this._podsFetched = new Action<V1PodList>();
-        this._podsFetchedByLabel = new Action<V1PodList>();
+        this._podsFetched = new Action<IListFetchedPayload<V1PodList>>();
+        this._podsFetchedByLabel = new Action<IListFetchedPayload<V1PodList>>();
+        this._podLogFetched = new Action<IPodLogPayload>();
+        this._podWatchEventReceived = new Action<IKubeWatchEvent<V1Pod>>();
+        this._podByLabelWatchEventReceived = new Action<IKubeWatchEvent<V1Pod>>();
+        this._fetchStatusChanged = new Action<IResourceFetchStatusPayload>();
     }
 
-    public get podsFetched(): Action<V1PodList> {
+    public get podsFetched(): Action<IListFetchedPayload<V1PodList>> {
         return this._podsFetched;
     }
 
-    public get podsFetchedByLabel(): Action<V1PodList> {
+    public get podsFetchedByLabel(): Action<IListFetchedPayload<V1PodList>> {
         return this._podsFetchedByLabel;
     }
 
-    private _podsFetched: Action<V1PodList>;
-    private _podsFetchedByLabel: Action<V1PodList>;
+    public get podLogFetched(): Action<IPodLogPayload> {
+        return this._podLogFetched;
+    }
+
+    public get podWatchEventReceived(): Action<IKubeWatchEvent<V1Pod>> {
+        return this._podWatchEventReceived;
+    }
+
+    public get podByLabelWatchEventReceived(): Action<IKubeWatchEvent<V1Pod>> {
+        return this._podByLabelWatchEventReceived;
+    }
+
+    public get fetchStatusChanged(): Action<IResourceFetchStatusPayload> {
+        return this._fetchStatusChanged;
+    }
+
+    private _podsFetched: Action<IListFetchedPayload<V1PodList>>;
+    private _podsFetchedByLabel: Action<IListFetchedPayload<V1PodList>>;
+    private _podLogFetched: Action<IPodLogPayload>;
+    private _podWatchEventReceived: Action<IKubeWatchEvent<V1Pod>>;
+    private _podByLabelWatchEventReceived: Action<IKubeWatchEvent<V1Pod>>;
+    private _fetchStatusChanged: Action<IResourceFetchStatusPayload>;
 }
@@ -5,8 +5,13 @@
 
 import { ActionCreatorBase, Action } from "../FluxCommon/Actions";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch, IPodLogOptions } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { V1Pod } from "@kubernetes/client-node";
 import { PodsActions } from "./PodsActions";
+import { ResourceFetchStatus } from "../Constants";
+import { Utils } from "../Utils";
+import * as Resources from "../Resources";
 
 export class PodsActionsCreator extends ActionCreatorBase {
     public static getKey(): string {
@@ -14,22 +19,81 @@ export class PodsActionsCreator extends ActionCreatorBase {
     }
 
     public initialize(instanceId?: string): void {
-        this._actions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions);
+        this._actions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions, instanceId);
     }
 
-    public getPods(kubeService: IKubeService, labelSelector?: string): void {
+    public getPods(kubeService: IKubeService, labelSelector?: string, namespace?: string): void {
         if (labelSelector) {
-            kubeService.getPods(labelSelector).then(podsList => {
-                this._actions.podsFetchedByLabel.invoke(podsList);
-            });
+            kubeService.getPods(labelSelector, namespace).then(podsList => {
+                this._actions.podsFetchedByLabel.invoke({ list: podsList, namespace: namespace });
+            }, error => this._onFetchFailed(error, labelSelector));
         }
         else {
-            kubeService.getPods().then(podsList => {
-                this._actions.podsFetched.invoke(podsList);
-            });
+            kubeService.getPods(undefined, namespace).then(podsList => {
+                this._actions.podsFetched.invoke({ list: podsList, namespace: namespace });
+            }, error => this._onFetchFailed(error));
         }
     }
 
+    /**
+     * Deletes the pod, then fetches the pods of the listed namespace again.
+     * The returned promise is rejected with the error of the host, so that the caller can show it.
+     */
+    public deletePod(kubeService: IKubeService, pod: V1Pod, namespace?: string): Promise<void> {
+        if (!kubeService.deletePod) {
+            return Promise.reject(new Error(Resources.CommandNotSupportedText));
+        }
+
+        return kubeService.deletePod(pod.metadata.namespace, pod.metadata.name).then(() => {
+            this.getPods(kubeService, undefined, namespace);
+        });
+    }
+
+    public retryGetPods(kubeService: IKubeService, labelSelector?: string, namespace?: string): void {
+        this._actions.fetchStatusChanged.invoke({ resourceType: KubeResourceType.Pods, status: ResourceFetchStatus.Loading, labelSelector: labelSelector });
+        this.getPods(kubeService, labelSelector, namespace);
+    }
+
+    public watchPods(kubeService: IKubeService, labelSelector?: string, namespace?: string): IKubeWatch | undefined {
+        if (!kubeService.watch) {
+            return undefined;
+        }
+
+        if (labelSelector) {
+            return kubeService.watch(KubeResourceType.Pods, event => {
+                this._actions.podByLabelWatchEventReceived.invoke(event);
+            }, labelSelector, namespace);
+        }
+
+        return kubeService.watch(KubeResourceType.Pods, event => {
+            this._actions.podWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public getPodLog(kubeService: IKubeService, pod: V1Pod, options: IPodLogOptions): void {
+        const payload = {
+            podUid: pod.metadata.uid,
+            containerName: options.container || "",
+            previous: !!options.previous,
+            timestamps: !!options.timestamps
+        };
+
+        kubeService.getPodLog(pod.metadata.namespace, pod.metadata.name, options).then(logs => {
+            this._actions.podLogFetched.invoke({ ...payload, logs: logs || "" });
+        }, error => {
+            this._actions.podLogFetched.invoke({ ...payload, logs: "", errorMessage: Utils.getErrorMessage(error) });
+        });
+    }
+
+    private _onFetchFailed(error: any, labelSelector?: string): void {
+        this._actions.fetchStatusChanged.invoke({
+            resourceType: KubeResourceType.Pods,
+            status: ResourceFetchStatus.Failed,
+            errorMessage: Utils.getErrorMessage(error),
+            labelSelector: labelSelector
+        });
+    }
+
     private _actions: PodsActions;
 }
 
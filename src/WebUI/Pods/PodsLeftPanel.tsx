@@ -3,15 +3,18 @@
     Licensed under the MIT license.
 */
 
-import { V1Pod, V1ObjectMeta, V1PodTemplateSpec } from "@kubernetes/client-node";
+import { V1Pod, V1ObjectMeta, V1PodTemplateSpec, V1ReplicaSet, V1DaemonSet, V1StatefulSet, V1Job, V1PersistentVolumeClaim } from "@kubernetes/client-node";
 import { autobind, BaseComponent, css, format } from "@uifabric/utilities";
 import { Duration } from "azure-devops-ui/Duration";
 import { LabelGroup, WrappingBehavior } from "azure-devops-ui/Label";
-import { IStatusProps, Status, Statuses, StatusSize } from "azure-devops-ui/Status";
+import { Status, StatusSize } from "azure-devops-ui/Status";
 import * as React from "react";
 import * as Resources from "../Resources";
 import { IVssComponentProperties } from "../Types";
 import { Utils } from "../Utils";
+import { PodHealth } from "../PodHealth";
+import { WorkloadHealth } from "../WorkloadHealth";
+import { IPodVolumeClaim, VolumeClaims } from "../VolumeClaims";
 import { BaseKubeTable } from "../Common/BaseKubeTable";
 import { ITableColumn, SimpleTableCell, Table, renderSimpleCell } from "azure-devops-ui/Table";
 import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
@@ -19,41 +22,157 @@ import { ArrayItemProvider } from "azure-devops-ui/Utilities/Provider";
 import { Card } from "azure-devops-ui/Card";
 import "./PodsLeftPanel.scss";
 import { ResourceStatus } from "../Common/ResourceStatus";
-
-const podStatusDic: { [index: string]: IStatusProps } = {
-    "Running": Statuses.Success,
-    "Pending": Statuses.Waiting,
-    "Succeeded": Statuses.Success,
-    "Failed": Statuses.Failed,
-};
+import { KubeYamlView } from "../Common/KubeYamlView";
+import { Button } from "azure-devops-ui/Button";
+import { Panel } from "azure-devops-ui/Panel";
+import { ContentSize } from "azure-devops-ui/Callout";
+import { IKubeService } from "../../Contracts/Contracts";
+import { EventsView } from "../Events/EventsView";
+import { KubeConfirmDialog } from "../Common/KubeConfirmDialog";
 
 const podStatusKey = "pods-list-status-col";
+const volumeClaimKey = "pods-volume-claims-col";
 const colDataClassName: string = "list-col-content";
 
 export interface IPodsLeftPanelProperties extends IVssComponentProperties {
     parentMetaData: V1ObjectMeta;
     podTemplate: V1PodTemplateSpec;
     parentKind: string;
+    parentResource?: V1ReplicaSet | V1DaemonSet | V1StatefulSet | V1Job;
+    // When provided, the events of the parent can be viewed from the summary
+    kubeService?: IKubeService;
     pods: V1Pod[];
+    // The claims of the namespace, undefined until fetched. The claims mounted by the pods are listed when provided.
+    volumeClaims?: V1PersistentVolumeClaim[];
+    selectedPod?: V1Pod | null;
     onSelectionChange?: (event: React.SyntheticEvent<HTMLElement>, selectedItem: V1Pod) => void;
+    // When provided, the selected pod can be deleted, the returned promise is rejected when the pod could not be deleted
+    onDeletePod?: (pod: V1Pod) => Promise<void>;
+}
+
+export interface IPodsLeftPanelState {
+    showYamlPanel: boolean;
+    showEventsPanel: boolean;
+    showDeletePodDialog: boolean;
 }
 
-export class PodsLeftPanel extends BaseComponent<IPodsLeftPanelProperties> {
+export class PodsLeftPanel extends BaseComponent<IPodsLeftPanelProperties, IPodsLeftPanelState> {
+    constructor(props: IPodsLeftPanelProperties) {
+        super(props, {});
+        this.state = {
+            showYamlPanel: false,
+            showEventsPanel: false,
+            showDeletePodDialog: false
+        };
+    }
+
     public render(): JSX.Element {
         return (
             <div className="pods-left-panel-container">
                 {this._getPanelHeaderContent()}
                 {this._getPodsList()}
+                {this._getVolumeClaimsList()}
+                {this._getYamlPanel()}
+                {this._getEventsPanel()}
+                {this._getDeletePodDialog()}
             </div>
         );
     }
 
+    private _getYamlPanel(): JSX.Element | null {
+        if (!this.state.showYamlPanel || !this.props.parentResource) {
+            return null;
+        }
+
+        return (
+            <Panel
+                onDismiss={this._hideYamlPanel}
+                titleProps={{ text: this.props.parentMetaData.name }}
+                description={Resources.YamlText}
+                size={ContentSize.Large}>
+                <KubeYamlView
+                    resource={this.props.parentResource}
+                    apiVersion={this.props.parentKind === "Job" ? "batch/v1" : "apps/v1"}
+                    kind={this.props.parentKind}
+                />
+            </Panel>
+        );
+    }
+
+    private _getEventsPanel(): JSX.Element | null {
+        if (!this.state.showEventsPanel || !this.props.kubeService) {
+            return null;
+        }
+
+        return (
+            <Panel
+                onDismiss={this._hideEventsPanel}
+                titleProps={{ text: this.props.parentMetaData.name }}
+                description={Resources.EventsText}
+                size={ContentSize.Large}>
+                <EventsView
+                    kubeService={this.props.kubeService}
+                    involvedObjectUid={this.props.parentMetaData.uid}
+                    namespace={this.props.parentMetaData.namespace}
+                />
+            </Panel>
+        );
+    }
+
+    private _getDeletePodDialog(): JSX.Element | null {
+        const selectedPod = this.props.selectedPod;
+        const onDeletePod = this.props.onDeletePod;
+        if (!this.state.showDeletePodDialog || !selectedPod || !onDeletePod) {
+            return null;
+        }
+
+        return (
+            <KubeConfirmDialog
+                title={Resources.DeletePodText}
+                description={format(Resources.DeletePodDescriptionText, selectedPod.metadata.name)}
+                confirmText={Resources.DeletePodText}
+                onConfirm={() => onDeletePod(selectedPod)}
+                onDismiss={this._hideDeletePodDialog}
+            />
+        );
+    }
+
+    private _showDeletePodDialog = (): void => {
+        this.setState({ showDeletePodDialog: true });
+    }
+
+    private _hideDeletePodDialog = (): void => {
+        this.setState({ showDeletePodDialog: false });
+    }
+
+    private _showEventsPanel = (): void => {
+        this.setState({ showEventsPanel: true });
+    }
+
+    private _hideEventsPanel = (): void => {
+        this.setState({ showEventsPanel: false });
+    }
+
+    private _showYamlPanel = (): void => {
+        this.setState({ showYamlPanel: true });
+    }
+
+    private _hideYamlPanel = (): void => {
+        this.setState({ showYamlPanel: false });
+    }
+
     private _onSelectionChange = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>) => {
         if (this.props.onSelectionChange) {
             this.props.onSelectionChange(event, this.props.pods[tableRow.index]);
         }
     }
 
+    private _onVolumeClaimSelectionChange = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>) => {
+        if (this.props.onSelectionChange) {
+            this.props.onSelectionChange(event, VolumeClaims.getPodVolumeClaims(this.props.pods, this.props.volumeClaims)[tableRow.index].pod);
+        }
+    }
+
     private _getPanelHeaderContent(): JSX.Element {
         const metadata: V1ObjectMeta = this.props.parentMetaData;
         const columns: ITableColumn<any>[] = [
@@ -66,12 +185,24 @@ export class PodsLeftPanel extends BaseComponent<IPodsLeftPanelProperties> {
                 renderCell: PodsLeftPanel._renderValueCell
             }
         ];
-        const tableItems = new ArrayItemProvider<any>([
+        const items: any[] = [
             { key: Resources.KindText, value: this.props.parentKind },
             { key: Resources.Created, value: metadata.creationTimestamp ? new Date(metadata.creationTimestamp) : new Date().getTime() },
             { key: Resources.LabelsText, value: metadata.labels || {} },
             { key: Resources.ImageText, value: Utils.getPodImageName(this.props.podTemplate) }
-        ]);
+        ];
+
+        // Each pod of a stateful set gets a claim of its own from the templates, e.g. "data (10Gi, RWO)"
+        const claimTemplates = this.props.parentKind === "StatefulSet" ? VolumeClaims.getVolumeClaimTemplates(this.props.parentResource as V1StatefulSet) : [];
+        if (claimTemplates.length > 0) {
+            const templatesText = claimTemplates.map(template => {
+                const details = [VolumeClaims.getStorage(template), VolumeClaims.getAccessModesText(template)].filter(detail => !!detail);
+                return details.length > 0 ? format("{0} ({1})", template.metadata.name, details.join(", ")) : template.metadata.name;
+            }).join(", ");
+            items.push({ key: Resources.VolumeClaimTemplatesText, value: templatesText });
+        }
+
+        const tableItems = new ArrayItemProvider<any>(items);
 
         return (
             <Card className="pods-left-pane-header-table" title={Resources.SummaryText}>
@@ -85,6 +216,26 @@ export class PodsLeftPanel extends BaseComponent<IPodsLeftPanelProperties> {
                     pageSize={tableItems.getCount()}
                     columns={columns}
                 />
+                {
+                    this.props.parentResource &&
+                    <Button
+                        className="pods-left-panel-view-yaml"
+                        text={Resources.ViewYamlText}
+                        iconProps={{ iconName: "FileCode" }}
+                        subtle={true}
+                        onClick={this._showYamlPanel}
+                    />
+                }
+                {
+                    this.props.kubeService &&
+                    <Button
+                        className="pods-left-panel-view-events"
+                        text={Resources.ViewEventsText}
+                        iconProps={{ iconName: "History" }}
+                        subtle={true}
+                        onClick={this._showEventsPanel}
+                    />
+                }
             </Card>
         );
     }
@@ -102,8 +253,28 @@ export class PodsLeftPanel extends BaseComponent<IPodsLeftPanelProperties> {
             renderCell: PodsLeftPanel._renderPodNameCell
         });
 
+        const summary = PodHealth.getSummary(this.props.pods);
+        // the workload also knows about pods which could not be created or are being rolled out
+        const workloadHealth = this.props.parentResource && WorkloadHealth.getHealth(this.props.parentKind, this.props.parentResource, this.props.pods);
         return (this.props.pods && this.props.pods.length > 0 ?
             <Card className="left-panel-pods-list">
+                <div className="left-panel-pods-header">
+                    <ResourceStatus
+                        statusProps={workloadHealth ? Utils.generateWorkloadStatusProps(workloadHealth.status) : summary.status && Utils.generatePodStatusProps(summary.status)}
+                        statusSize={StatusSize.s}
+                        statusDescription={format(Resources.PodsHealthSummaryText, summary.healthyCount, summary.totalCount)}
+                        toolTipText={workloadHealth && Utils.getWorkloadHealthDescription(workloadHealth, this.props.parentKind)}
+                    />
+                    {
+                        this.props.onDeletePod && this.props.selectedPod &&
+                        <Button
+                            text={Resources.DeletePodText}
+                            iconProps={{ iconName: "Delete" }}
+                            subtle={true}
+                            onClick={this._showDeletePodDialog}
+                        />
+                    }
+                </div>
                 <Table
                     itemProvider={new ArrayItemProvider<V1Pod>(this.props.pods)}
                     columns={columns}
@@ -116,6 +287,65 @@ export class PodsLeftPanel extends BaseComponent<IPodsLeftPanelProperties> {
         );
     }
 
+    private _getVolumeClaimsList(): JSX.Element | null {
+        const podVolumeClaims = VolumeClaims.getPodVolumeClaims(this.props.pods, this.props.volumeClaims);
+        if (podVolumeClaims.length === 0) {
+            return null;
+        }
+
+        const columns: ITableColumn<IPodVolumeClaim>[] = [{
+            id: volumeClaimKey,
+            name: Resources.VolumeClaimsText,
+            minWidth: 250,
+            width: -100,
+            headerClassName: "kube-col-header",
+            className: colDataClassName,
+            renderCell: this._renderVolumeClaimCell
+        }];
+
+        return (
+            <Card className="left-panel-volume-claims">
+                <Table
+                    itemProvider={new ArrayItemProvider<IPodVolumeClaim>(podVolumeClaims)}
+                    columns={columns}
+                    showHeader={true}
+                    showLines={false}
+                    singleClickActivation={false}
+                    onSelect={this._onVolumeClaimSelectionChange}
+                />
+            </Card>
+        );
+    }
+
+    // The pods of a pending claim are not scheduled, which holds up the rollout of a stateful set
+    private _renderVolumeClaimCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IPodVolumeClaim>, podVolumeClaim: IPodVolumeClaim): JSX.Element => {
+        const claim = podVolumeClaim.claim;
+        const phase = claim && VolumeClaims.getPhase(claim);
+        let details: string[] = [podVolumeClaim.pod.metadata.name];
+        if (claim) {
+            details = details.concat(VolumeClaims.getStorage(claim), VolumeClaims.getAccessModesText(claim));
+        }
+        else if (this.props.volumeClaims) {
+            details.push(Resources.ClaimNotFoundText);
+        }
+
+        if (podVolumeClaim.readOnly) {
+            details.push(Resources.ReadOnlyText);
+        }
+
+        const itemToRender = (
+            <div className="pods-left-panel-volume-claim">
+                <ResourceStatus
+                    statusProps={phase ? Utils.generateVolumeClaimStatusProps(phase) : undefined}
+                    statusDescription={podVolumeClaim.claimName}
+                    toolTipText={phase}
+                />
+                <div className="secondary-text overflow-ellipsis">{details.filter(detail => !!detail).join(", ")}</div>
+            </div>
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
     private static _renderValueCell(
         rowIndex: number,
         columnIndex: number,
@@ -146,10 +376,12 @@ export class PodsLeftPanel extends BaseComponent<IPodsLeftPanelProperties> {
     }
 
     private static _renderPodNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
+        const health = PodHealth.getHealth(pod);
         const itemToRender = (
             <ResourceStatus
-                statusProps={podStatusDic[pod.status.phase]}
+                statusProps={Utils.generatePodStatusProps(health.status)}
                 statusDescription={pod.metadata.name}
+                toolTipText={Utils.getPodHealthDescription(health)}
             />
         );
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
@@ -12,9 +12,16 @@ import { PodsRightPanelTabsKeys } from "../Constants";
 import { IVssComponentProperties } from "../Types";
 import "./PodsRightPanel.scss";
 import { PodDetailsView } from "./PodDetailsView";
+import { PodLogsView } from "./PodLogsView";
+import { KubeYamlView } from "../Common/KubeYamlView";
+import { IKubeService } from "../../Contracts/Contracts";
 
 export interface IPodRightPanelProps extends IVssComponentProperties {
+    kubeService: IKubeService;
     pod: V1Pod;
+    // Tab selected when the panel is mounted, one of the PodsRightPanelTabsKeys
+    selectedTab?: string;
+    onSelectedTabChanged?: (selectedTab: string) => void;
 }
 
 export interface IPodsRightPanelState {
@@ -25,7 +32,7 @@ export class PodsRightPanel extends BaseComponent<IPodRightPanelProps, IPodsRigh
     constructor(props: IPodRightPanelProps) {
         super(props, {});
         this.state = {
-            selectedTab: ""
+            selectedTab: props.selectedTab || ""
         };
     }
 
@@ -66,21 +73,35 @@ export class PodsRightPanel extends BaseComponent<IPodRightPanelProps, IPodsRigh
         this.setState({
             selectedTab: selectedTab
         });
+
+        if (this.props.onSelectedTabChanged) {
+            this.props.onSelectedTabChanged(selectedTab);
+        }
     }
 
     private _getTabContent(): React.ReactNode {
         const selectedTab = this.state.selectedTab;
         switch (selectedTab) {
             case PodsRightPanelTabsKeys.PodsLogsKey: return (
-                <span>{"Pods Logs View coming soon..."}</span>
+                <PodLogsView
+                    key={this.props.pod.metadata.uid}
+                    kubeService={this.props.kubeService}
+                    pod={this.props.pod}
+                />
             );
 
             case PodsRightPanelTabsKeys.PodsYamlKey: return (
-                <span>{"Pods YAML View coming soon..."}</span>
+                <KubeYamlView
+                    key={this.props.pod.metadata.uid}
+                    resource={this.props.pod}
+                    apiVersion="v1"
+                    kind="Pod"
+                />
             );
 
             default: return (<PodDetailsView
                 pod={this.props.pod}
+                kubeService={this.props.kubeService}
             />);
 
         }
@@ -4,13 +4,21 @@
 */
 
 import { StoreBase } from "../FluxCommon/Store";
+import { StoreManager } from "../FluxCommon/StoreManager";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
 import { V1PodList, V1Pod } from "@kubernetes/client-node";
-import { PodsActions } from "./PodsActions";
-import { PodsEvents } from "../Constants";
+import { PodsActions, IPodLogPayload } from "./PodsActions";
+import { NamespacesActions } from "../Namespaces/NamespacesActions";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { PodsEvents, ResourceFetchStatus } from "../Constants";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { IListFetchedPayload, IResourceFetchStatus, IResourceFetchStatusPayload } from "../Types";
+import { Utils } from "../Utils";
 
 export interface IPodsStoreState {
     podsList?: V1PodList;
+    podLog?: IPodLogPayload;
+    podsFetchStatus: IResourceFetchStatus;
 }
 
 export class PodsStore extends StoreBase {
@@ -21,26 +29,81 @@ export class PodsStore extends StoreBase {
     public initialize(instanceId?: string): void {
         super.initialize(instanceId);
 
-        this._state = { podsList: undefined };
+        this._state = PodsStore._getInitialState();
 
-        this._actions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions);
-        this._actions.podsFetched.addListener(this._setPodsList);
+        this._actions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions, instanceId);
+        this._actions.podsFetched.addListener(this._onPodsFetched);
+        this._actions.podLogFetched.addListener(this._setPodLog);
+        this._actions.podWatchEventReceived.addListener(this._onPodWatchEvent);
+        this._actions.fetchStatusChanged.addListener(this._onFetchStatusChanged);
+
+        this._namespacesActions = ActionsHubManager.GetActionsHub<NamespacesActions>(NamespacesActions, instanceId);
+        this._namespacesActions.namespaceSelected.addListener(this._onNamespaceSelected);
+        this._namespacesStore = StoreManager.GetStore<NamespacesStore>(NamespacesStore, instanceId);
     }
 
     public disposeInternal(): void {
-        this._actions.podsFetched.removeListener(this._setPodsList);
+        this._actions.podsFetched.removeListener(this._onPodsFetched);
+        this._actions.podLogFetched.removeListener(this._setPodLog);
+        this._actions.podWatchEventReceived.removeListener(this._onPodWatchEvent);
+        this._actions.fetchStatusChanged.removeListener(this._onFetchStatusChanged);
+        this._namespacesActions.namespaceSelected.removeListener(this._onNamespaceSelected);
     }
 
     public getState(): IPodsStoreState {
         return this._state;
     }
 
+    // Pods requested before another namespace was selected may still arrive once the store was reset
+    private _onPodsFetched = (payload: IListFetchedPayload<V1PodList>): void => {
+        if (Utils.isSelectedNamespace(payload.namespace, this._namespacesStore.getState().selectedNamespace)) {
+            this._setPodsList(payload.list);
+        }
+    }
+
     private _setPodsList = (podsList: V1PodList): void => {
-        this._state.podsList = podsList;
+        this._state.podsList = Utils.getUpdatedList(this._state.podsList, podsList);
+        this._setPodsFetchStatus({ status: ResourceFetchStatus.Loaded });
         this.emit(PodsEvents.PodsFetchedEvent, this);
     }
 
+    private _setPodLog = (podLog: IPodLogPayload): void => {
+        this._state.podLog = podLog;
+        this.emit(PodsEvents.PodLogFetchedEvent, this);
+    }
+
+    // The watch can start before the list arrives, the pods stay loading until the list is fetched
+    private _onPodWatchEvent = (event: IKubeWatchEvent<V1Pod>): void => {
+        const podsList = this._state.podsList || {} as V1PodList;
+        this._state.podsList = { ...podsList, items: Utils.applyWatchEvent(podsList.items, event) };
+        this.emit(PodsEvents.PodsFetchedEvent, this);
+    }
+
+    private _onFetchStatusChanged = (payload: IResourceFetchStatusPayload): void => {
+        if (!payload.labelSelector) {
+            this._setPodsFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+            this.emit(PodsEvents.PodsFetchedEvent, this);
+        }
+    }
+
+    private _onNamespaceSelected = (): void => {
+        this._state = PodsStore._getInitialState();
+        this.emit(PodsEvents.PodsFetchedEvent, this);
+    }
+
+    private static _getInitialState(): IPodsStoreState {
+        return { podsList: undefined, podLog: undefined, podsFetchStatus: { status: ResourceFetchStatus.Loading } };
+    }
+
+    private _setPodsFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.podsFetchStatus, fetchStatus)) {
+            this._state.podsFetchStatus = fetchStatus;
+        }
+    }
+
     private _state: IPodsStoreState;
     private _actions: PodsActions;
+    private _namespacesActions: NamespacesActions;
+    private _namespacesStore: NamespacesStore;
 }
 
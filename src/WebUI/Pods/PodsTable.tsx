@@ -7,12 +7,14 @@ import { IVssComponentProperties } from "../Types";
 import "./PodsTable.scss";
 import { V1Pod } from "@kubernetes/client-node";
 import { Utils } from "../Utils";
+import { PodHealth } from "../PodHealth";
 import { Status } from "azure-devops-ui/Status";
 import { Tooltip } from "azure-devops-ui/TooltipEx";
 import { ITableColumn } from "azure-devops-ui/Table";
 import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
 import { ResourceStatus } from "../Common/ResourceStatus";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { SelectionActions } from "../Selection/SelectionActions";
 import { SelectedItemKeys } from "../Constants";
 
@@ -20,18 +22,27 @@ const podNameKey: string = "pl-name-key";
 const podImageKey: string = "pl-image-key";
 const podStatusKey: string = "pl-status-key";
 const podAgeKey: string = "pl-age-key";
+const podNamespaceKey: string = "pl-namespace-key";
 const colDataClassName: string = "list-col-content";
 
 export interface IPodsTableProperties extends IVssComponentProperties {
     podsToRender: V1Pod[];
     headingText?: string;
     nameFilter?: string;
+    showNamespace?: boolean;
+    namespaceSelections?: string[];
+    // Replaces showing the pod as an orphan pod when one is activated
+    onItemActivated?: (event: React.SyntheticEvent<HTMLElement>, pod: V1Pod) => void;
 }
 
 export class PodsTable extends BaseComponent<IPodsTableProperties> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
     public render(): React.ReactNode {
         const filteredPods: V1Pod[] = this.props.podsToRender.filter((pod) => {
-            return Utils.filterByName(pod.metadata.name, this.props.nameFilter);
+            return Utils.filterByName(pod.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(pod.metadata.namespace, this.props.namespaceSelections);
         });
 
         if (filteredPods.length > 0) {
@@ -39,8 +50,8 @@ export class PodsTable extends BaseComponent<IPodsTableProperties> {
                 <BaseKubeTable
                     headingText={this.props.headingText}
                     className={css("list-content", "pl-details", "depth-16")}
-                    items={this.props.podsToRender}
-                    columns={PodsTable._getColumns()}
+                    items={filteredPods}
+                    columns={PodsTable._getColumns(!!this.props.showNamespace)}
                     onItemActivated={this._showPodDetails}
                 />
             );
@@ -49,7 +60,7 @@ export class PodsTable extends BaseComponent<IPodsTableProperties> {
         return null;
     }
 
-    private static _getColumns(): ITableColumn<V1Pod>[] {
+    private static _getColumns(showNamespace: boolean): ITableColumn<V1Pod>[] {
         let columns: ITableColumn<V1Pod>[] = [];
         const headerColumnClassName: string = "kube-col-header";
         const columnContentClassName: string = css("list-col-content");
@@ -64,6 +75,18 @@ export class PodsTable extends BaseComponent<IPodsTableProperties> {
             renderCell: PodsTable._renderPodNameCell
         });
 
+        if (showNamespace) {
+            columns.push({
+                id: podNamespaceKey,
+                name: Resources.NamespaceText,
+                minWidth: 120,
+                width: -100,
+                headerClassName: headerColumnClassName,
+                className: columnContentClassName,
+                renderCell: PodsTable._renderPodNamespaceCell
+            });
+        }
+
         columns.push({
             id: podImageKey,
             name: Resources.ImageText,
@@ -98,8 +121,11 @@ export class PodsTable extends BaseComponent<IPodsTableProperties> {
     }
 
     private _showPodDetails = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: V1Pod) => {
-        if (selectedItem) {
-            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.OrphanPodKey });
+        if (selectedItem && this.props.onItemActivated) {
+            this.props.onItemActivated(event, selectedItem);
+        }
+        else if (selectedItem) {
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.OrphanPodKey });
         }
     }
 
@@ -110,6 +136,11 @@ export class PodsTable extends BaseComponent<IPodsTableProperties> {
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
     }
 
+    private static _renderPodNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(pod.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
     private static _renderPodImageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
         const textToRender = pod.spec.containers[0].image;
         const itemToRender = BaseKubeTable.renderColumn(textToRender || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
@@ -117,21 +148,11 @@ export class PodsTable extends BaseComponent<IPodsTableProperties> {
     }
 
     private static _renderPodStatusCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Pod>, pod: V1Pod): JSX.Element {
-        let statusDescription: string = "";
-        let customDescription: React.ReactNode = null;
-
-        if (pod.status.message) {
-            customDescription = <Tooltip showOnFocus={true} text={pod.status.message}>{pod.status.reason}</Tooltip>;
-        }
-        else {
-            statusDescription = pod.status.phase;
-        }
-
+        const health = PodHealth.getHealth(pod);
         const itemToRender = (
             <ResourceStatus
-                statusProps={Utils.generatePodStatusProps(pod.status)}
-                statusDescription={statusDescription}
-                customDescription={customDescription}
+                statusProps={Utils.generatePodStatusProps(health.status)}
+                customDescription={<Tooltip showOnFocus={true} text={Utils.getPodHealthDescription(health)}><span className="kube-status-desc">{health.reason}</span></Tooltip>}
             />
         );
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
@@ -0,0 +1,94 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+const visibilityChangeEvent: string = "visibilitychange";
+// While the page is hidden the interval is doubled on every refresh, up to this many times the configured interval
+const maxHiddenBackoffFactor: number = 16;
+
+/**
+ * Re-invokes the refresh callback on a fixed interval for hosts whose IKubeService cannot stream changes.
+ * Refreshes back off while the page is hidden and catch up as soon as it becomes visible again.
+ */
+export class RefreshScheduler {
+    constructor(intervalInSeconds: number, onRefresh: () => void) {
+        this._intervalInMs = intervalInSeconds * 1000;
+        this._onRefresh = onRefresh;
+    }
+
+    public start(): void {
+        if (this._isStarted) {
+            return;
+        }
+
+        this._isStarted = true;
+        document.addEventListener(visibilityChangeEvent, this._onVisibilityChanged);
+        this._schedule();
+    }
+
+    public stop(): void {
+        this._isStarted = false;
+        this._clearTimer();
+        document.removeEventListener(visibilityChangeEvent, this._onVisibilityChanged);
+    }
+
+    public pause(): void {
+        this._isPaused = true;
+        this._clearTimer();
+    }
+
+    public resume(): void {
+        if (this._isPaused) {
+            this._isPaused = false;
+            this.refresh();
+        }
+    }
+
+    /**
+     * Refreshes right away and restarts the interval from now.
+     */
+    public refresh(): void {
+        this._clearTimer();
+        this._backoffFactor = 1;
+        this._onRefresh();
+        this._schedule();
+    }
+
+    public isPaused(): boolean {
+        return this._isPaused;
+    }
+
+    private _schedule(): void {
+        if (this._isStarted && !this._isPaused) {
+            this._timerId = window.setTimeout(this._onTimerElapsed, this._intervalInMs * this._backoffFactor);
+        }
+    }
+
+    private _clearTimer(): void {
+        if (this._timerId !== undefined) {
+            window.clearTimeout(this._timerId);
+            this._timerId = undefined;
+        }
+    }
+
+    private _onTimerElapsed = (): void => {
+        this._timerId = undefined;
+        this._onRefresh();
+        this._backoffFactor = document.hidden ? Math.min(this._backoffFactor * 2, maxHiddenBackoffFactor) : 1;
+        this._schedule();
+    }
+
+    private _onVisibilityChanged = (): void => {
+        if (!document.hidden && this._backoffFactor > 1 && !this._isPaused) {
+            this.refresh();
+        }
+    }
+
+    private _intervalInMs: number;
+    private _onRefresh: () => void;
+    private _isStarted: boolean = false;
+    private _isPaused: boolean = false;
+    private _backoffFactor: number = 1;
+    private _timerId: number | undefined;
+}
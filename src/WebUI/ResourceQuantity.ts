@@ -0,0 +1,75 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+// https://kubernetes.io/docs/reference/kubernetes-api/common-definitions/quantity/
+const suffixMultipliers: { [suffix: string]: number } = {
+    "n": 1e-9,
+    "u": 1e-6,
+    "m": 1e-3,
+    "": 1,
+    "k": 1e3,
+    "M": 1e6,
+    "G": 1e9,
+    "T": 1e12,
+    "P": 1e15,
+    "E": 1e18,
+    "Ki": Math.pow(2, 10),
+    "Mi": Math.pow(2, 20),
+    "Gi": Math.pow(2, 30),
+    "Ti": Math.pow(2, 40),
+    "Pi": Math.pow(2, 50),
+    "Ei": Math.pow(2, 60)
+};
+
+const quantityPattern: RegExp = /^([+-]?[0-9.]+(?:[eE][+-]?[0-9]+)?)([a-zA-Z]*)$/;
+const memoryUnits: string[] = ["Ki", "Mi", "Gi", "Ti", "Pi", "Ei"];
+
+export class ResourceQuantity {
+    /**
+     * Returns the value of a quantity such as "500m", "2" or "128Mi" in base units, NaN when it is not a quantity.
+     */
+    public static parse(quantity: string | number | undefined): number {
+        if (typeof quantity === "number") {
+            return quantity;
+        }
+
+        const match = quantityPattern.exec((quantity || "").trim());
+        const multiplier = match ? suffixMultipliers[match[2]] : undefined;
+        return match && multiplier !== undefined ? parseFloat(match[1]) * multiplier : NaN;
+    }
+
+    public static parseCpuMillicores(quantity: string | number | undefined): number {
+        return ResourceQuantity.parse(quantity) * 1000;
+    }
+
+    // e.g. "250m" below a core and "1.5" above
+    public static formatCpu(millicores: number): string {
+        if (isNaN(millicores)) {
+            return "";
+        }
+
+        return millicores < 1000 ? Math.round(millicores) + "m" : ResourceQuantity._round(millicores / 1000);
+    }
+
+    // e.g. "512Ki", "64Mi" or "1.5Gi"
+    public static formatMemory(bytes: number): string {
+        if (isNaN(bytes)) {
+            return "";
+        }
+
+        let value = bytes;
+        let unit = "";
+        for (let index = 0; index < memoryUnits.length && value >= 1024; index++) {
+            value = value / 1024;
+            unit = memoryUnits[index];
+        }
+
+        return ResourceQuantity._round(value) + unit;
+    }
+
+    private static _round(value: number): string {
+        return String(Math.round(value * 100) / 100);
+    }
+}
@@ -59,3 +59,164 @@ export declare const LogsText: string;
 export declare const YamlText: string;
 export declare const Ago: string;
 export declare const NoPodsFoundText: string;
+export declare const ContainerNameText: string;
+export declare const PreviousContainerText: string;
+export declare const TimestampsText: string;
+export declare const RefreshText: string;
+export declare const LoadingLogsText: string;
+export declare const NoLogsText: string;
+export declare const LogsFetchFailedText: string;
+export declare const HideManagedFieldsText: string;
+export declare const CopyText: string;
+export declare const DownloadText: string;
+export declare const ViewYamlText: string;
+export declare const LastUpdatedText: string;
+export declare const SecondsAgoText: string;
+export declare const PauseText: string;
+export declare const ResumeText: string;
+export declare const RetryText: string;
+export declare const FetchFailedText: string;
+export declare const ServiceText: string;
+export declare const EventsText: string;
+export declare const EventText: string;
+export declare const ReasonText: string;
+export declare const MessageText: string;
+export declare const SourceText: string;
+export declare const CountText: string;
+export declare const LastSeenText: string;
+export declare const NoEventsText: string;
+export declare const ViewEventsText: string;
+export declare const NamespaceText: string;
+export declare const SelectNamespaceText: string;
+export declare const AllNamespacesText: string;
+export declare const ClusterText: string;
+export declare const BackText: string;
+export declare const ForwardText: string;
+export declare const BreadcrumbAriaLabel: string;
+export declare const CommandNotSupportedText: string;
+export declare const ScaleText: string;
+export declare const RestartText: string;
+export declare const DeletePodText: string;
+export declare const CancelText: string;
+export declare const ReplicasText: string;
+export declare const ScaleTitleText: string;
+export declare const ScaleDescriptionText: string;
+export declare const InvalidReplicasText: string;
+export declare const RestartTitleText: string;
+export declare const RestartDescriptionText: string;
+export declare const DeletePodDescriptionText: string;
+export declare const CommandInProgressText: string;
+export declare const CommandFailedText: string;
+export declare const CommandsText: string;
+export declare const RollbackText: string;
+export declare const RollbackTitleText: string;
+export declare const RollbackDescriptionText: string;
+export declare const RevisionText: string;
+export declare const NoTemplateChangesText: string;
+export declare const CompareRevisionsText: string;
+export declare const FromRevisionText: string;
+export declare const ToRevisionText: string;
+export declare const RevisionOptionText: string;
+export declare const FieldText: string;
+export declare const OldValueText: string;
+export declare const NewValueText: string;
+export declare const ImagesText: string;
+export declare const EnvironmentText: string;
+export declare const ResourcesText: string;
+export declare const ProbesText: string;
+export declare const VolumesText: string;
+export declare const OtherChangesText: string;
+export declare const RolloutHistoryText: string;
+export declare const CurrentRevisionText: string;
+export declare const DeploymentCreatedText: string;
+export declare const NoRevisionsText: string;
+export declare const ReplicasStatusText: string;
+export declare const ViewPipelineRunText: string;
+export declare const ContainersReadyText: string;
+export declare const RestartsCountText: string;
+export declare const LastTerminationReasonText: string;
+export declare const PodsHealthSummaryText: string;
+export declare const ContainersText: string;
+export declare const StateText: string;
+export declare const LastTerminationText: string;
+export declare const RestartsText: string;
+export declare const PortsText: string;
+export declare const InitContainerText: string;
+export declare const ContainerReadyText: string;
+export declare const ContainerNotReadyText: string;
+export declare const ContainerRunningText: string;
+export declare const ContainerWaitingText: string;
+export declare const ContainerTerminatedText: string;
+export declare const ExitCodeText: string;
+export declare const CpuUsageText: string;
+export declare const CpuRequestText: string;
+export declare const CpuLimitText: string;
+export declare const MemoryUsageText: string;
+export declare const MemoryRequestText: string;
+export declare const MemoryLimitText: string;
+export declare const NotSetText: string;
+export declare const PercentOfLimitText: string;
+export declare const PercentOfRequestText: string;
+export declare const JobText: string;
+export declare const CronJobText: string;
+export declare const CompletionsText: string;
+export declare const DurationText: string;
+export declare const ScheduleText: string;
+export declare const LastScheduleText: string;
+export declare const ActiveJobsText: string;
+export declare const SuspendedText: string;
+export declare const CompletionsStatusText: string;
+export declare const IngressText: string;
+export declare const RulesText: string;
+export declare const TlsText: string;
+export declare const AddressText: string;
+export declare const RoutedByText: string;
+export declare const HostText: string;
+export declare const PathText: string;
+export declare const UrlText: string;
+export declare const AnyHostText: string;
+export declare const DefaultBackendText: string;
+export declare const PivotConfigurationText: string;
+export declare const ConfigMapText: string;
+export declare const SecretText: string;
+export declare const KeysText: string;
+export declare const SizeText: string;
+export declare const SizeInBytesText: string;
+export declare const UsedByText: string;
+export declare const NoConfigurationText: string;
+export declare const CreateConfigurationText: string;
+export declare const ConfigurationCreatedText: string;
+export declare const ConfigurationKeysText: string;
+export declare const KeyText: string;
+export declare const ValueText: string;
+export declare const BinaryDataText: string;
+export declare const ShowValueText: string;
+export declare const HideValueText: string;
+export declare const NotUsedByPodsText: string;
+export declare const PersistentVolumeClaimText: string;
+export declare const VolumeClaimsText: string;
+export declare const VolumeClaimTemplatesText: string;
+export declare const CapacityText: string;
+export declare const AccessModesText: string;
+export declare const StorageClassText: string;
+export declare const VolumeText: string;
+export declare const ClaimNotFoundText: string;
+export declare const ReadOnlyText: string;
+export declare const PivotNodesText: string;
+export declare const RolesText: string;
+export declare const AllocatableText: string;
+export declare const AllocatableResourcesText: string;
+export declare const TaintsText: string;
+export declare const KubeletVersionText: string;
+export declare const OsImageText: string;
+export declare const ContainerRuntimeText: string;
+export declare const InternalIPText: string;
+export declare const ConditionsText: string;
+export declare const LastTransitionText: string;
+export declare const SchedulingDisabledText: string;
+export declare const UnderPressureText: string;
+export declare const NodeCreatedText: string;
+export declare const NodePodsHeadingText: string;
+export declare const NoNodePodsText: string;
+export declare const NoNodesText: string;
+export declare const AddNodesText: string;
@@ -60,4 +60,165 @@ define("Environments/Providers/Kubernetes/Resources", ["require", "exports"], fu
     exports.YamlText = "YAML";
     exports.Ago = " ago";
     exports.NoPodsFoundText = "No pods are detected in this Kubernetes workload";
+    exports.ContainerNameText = "Container: {0}";
+    exports.PreviousContainerText = "Previous container";
+    exports.TimestampsText = "Timestamps";
+    exports.RefreshText = "Refresh";
+    exports.LoadingLogsText = "Loading logs...";
+    exports.NoLogsText = "No logs are available for this container";
+    exports.LogsFetchFailedText = "Failed to fetch logs: {0}";
+    exports.HideManagedFieldsText = "Hide managed fields";
+    exports.CopyText = "Copy";
+    exports.DownloadText = "Download";
+    exports.ViewYamlText = "View YAML";
+    exports.LastUpdatedText = "Last updated {0}";
+    exports.SecondsAgoText = "{0} seconds ago";
+    exports.PauseText = "Pause";
+    exports.ResumeText = "Resume";
+    exports.RetryText = "Retry";
+    exports.FetchFailedText = "Failed to load {0} objects: {1}";
+    exports.ServiceText = "Service";
+    exports.EventsText = "Events";
+    exports.EventText = "Event";
+    exports.ReasonText = "Reason";
+    exports.MessageText = "Message";
+    exports.SourceText = "Source";
+    exports.CountText = "Count";
+    exports.LastSeenText = "Last seen";
+    exports.NoEventsText = "No events are available for this object";
+    exports.ViewEventsText = "View events";
+    exports.NamespaceText = "Namespace";
+    exports.SelectNamespaceText = "Select a namespace";
+    exports.AllNamespacesText = "All namespaces";
+    exports.ClusterText = "Cluster";
+    exports.BackText = "Back";
+    exports.ForwardText = "Forward";
+    exports.BreadcrumbAriaLabel = "Navigation path";
+    exports.CommandNotSupportedText = "The cluster connection does not support this command";
+    exports.ScaleText = "Scale";
+    exports.RestartText = "Restart";
+    exports.DeletePodText = "Delete pod";
+    exports.CancelText = "Cancel";
+    exports.ReplicasText = "Replicas";
+    exports.ScaleTitleText = "Scale {0}";
+    exports.ScaleDescriptionText = "Set the number of pods {0} {1} runs.";
+    exports.InvalidReplicasText = "Enter a whole number of 0 or more";
+    exports.RestartTitleText = "Restart {0}";
+    exports.RestartDescriptionText = "A new rollout replaces all pods of {0} {1}. Do you want to restart it?";
+    exports.DeletePodDescriptionText = "Pod {0} is deleted, its owner replaces it with a new pod. Do you want to delete it?";
+    exports.CommandInProgressText = "Applying the change";
+    exports.CommandFailedText = "The change could not be applied: {0}";
+    exports.CommandsText = "Commands";
+    exports.RollbackText = "Roll back";
+    exports.RollbackTitleText = "Roll back {0} to revision {1}";
+    exports.RollbackDescriptionText = "The pods of {0} are replaced by pods with the template of replica set {1}. The pod template changes as follows.";
+    exports.RevisionText = "Revision {0}";
+    exports.NoTemplateChangesText = "The pod template does not change";
+    exports.CompareRevisionsText = "Compare revisions";
+    exports.FromRevisionText = "From";
+    exports.ToRevisionText = "To";
+    exports.RevisionOptionText = "Revision {0} - {1}";
+    exports.FieldText = "Field";
+    exports.OldValueText = "From value";
+    exports.NewValueText = "To value";
+    exports.ImagesText = "Images";
+    exports.EnvironmentText = "Environment variables";
+    exports.ResourcesText = "Resources";
+    exports.ProbesText = "Probes";
+    exports.VolumesText = "Volumes";
+    exports.OtherChangesText = "Other changes";
+    exports.RolloutHistoryText = "Rollout history";
+    exports.CurrentRevisionText = "Current";
+    exports.DeploymentCreatedText = "Deployment created {0}";
+    exports.NoRevisionsText = "No replica sets are available for this deployment";
+    exports.ReplicasStatusText = "{0}/{1} pods ready";
+    exports.ViewPipelineRunText = "View pipeline run";
+    exports.ContainersReadyText = "{0}/{1} containers ready";
+    exports.RestartsCountText = "Restarts: {0}";
+    exports.LastTerminationReasonText = "Last terminated: {0}";
+    exports.PodsHealthSummaryText = "{0}/{1} pods healthy";
+    exports.ContainersText = "Containers";
+    exports.StateText = "State";
+    exports.LastTerminationText = "Last termination";
+    exports.RestartsText = "Restarts";
+    exports.PortsText = "Ports";
+    exports.InitContainerText = "Init container";
+    exports.ContainerReadyText = "Ready";
+    exports.ContainerNotReadyText = "Not ready";
+    exports.ContainerRunningText = "Running";
+    exports.ContainerWaitingText = "Waiting";
+    exports.ContainerTerminatedText = "Terminated";
+    exports.ExitCodeText = "{0} (exit code {1})";
+    exports.CpuUsageText = "CPU usage";
+    exports.CpuRequestText = "CPU request";
+    exports.CpuLimitText = "CPU limit";
+    exports.MemoryUsageText = "Memory usage";
+    exports.MemoryRequestText = "Memory request";
+    exports.MemoryLimitText = "Memory limit";
+    exports.NotSetText = "Not set";
+    exports.PercentOfLimitText = "{0}% of limit";
+    exports.PercentOfRequestText = "{0}% of request";
+    exports.JobText = "Job";
+    exports.CronJobText = "CronJob";
+    exports.CompletionsText = "Completions";
+    exports.DurationText = "Duration";
+    exports.ScheduleText = "Schedule";
+    exports.LastScheduleText = "Last schedule";
+    exports.ActiveJobsText = "Active jobs";
+    exports.SuspendedText = "Suspended";
+    exports.CompletionsStatusText = "{0}/{1} completions succeeded";
+    exports.IngressText = "Ingress";
+    exports.RulesText = "Rules";
+    exports.TlsText = "TLS";
+    exports.AddressText = "Address";
+    exports.RoutedByText = "Routed by";
+    exports.HostText = "Host";
+    exports.PathText = "Path";
+    exports.UrlText = "URL";
+    exports.AnyHostText = "Any host";
+    exports.DefaultBackendText = "Default backend";
+    exports.PivotConfigurationText = "Config and storage";
+    exports.ConfigMapText = "ConfigMap";
+    exports.SecretText = "Secret";
+    exports.KeysText = "Keys";
+    exports.SizeText = "Size";
+    exports.SizeInBytesText = "{0}B";
+    exports.UsedByText = "Used by";
+    exports.NoConfigurationText = "No config maps, secrets or volume claims are detected in this Kubernetes namespace";
+    exports.CreateConfigurationText = "about how configuration can be added to the namespace";
+    exports.ConfigurationCreatedText = "{0} created {1}";
+    exports.ConfigurationKeysText = "Data ({0})";
+    exports.KeyText = "Key";
+    exports.ValueText = "Value";
+    exports.BinaryDataText = "Binary data";
+    exports.ShowValueText = "Show value";
+    exports.HideValueText = "Hide value";
+    exports.NotUsedByPodsText = "No pod of the namespace uses it";
+    exports.PersistentVolumeClaimText = "PersistentVolumeClaim";
+    exports.VolumeClaimsText = "Volume claims";
+    exports.VolumeClaimTemplatesText = "Volume claim templates";
+    exports.CapacityText = "Capacity";
+    exports.AccessModesText = "Access modes";
+    exports.StorageClassText = "Storage class";
+    exports.VolumeText = "Volume";
+    exports.ClaimNotFoundText = "Claim not found";
+    exports.ReadOnlyText = "read-only";
+    exports.PivotNodesText = "Nodes";
+    exports.RolesText = "Roles";
+    exports.AllocatableText = "Allocatable";
+    exports.AllocatableResourcesText = "{0} CPU, {1} memory, {2} pods";
+    exports.TaintsText = "Taints";
+    exports.KubeletVersionText = "Kubelet version";
+    exports.OsImageText = "OS image";
+    exports.ContainerRuntimeText = "Container runtime";
+    exports.InternalIPText = "Internal IP";
+    exports.ConditionsText = "Conditions";
+    exports.LastTransitionText = "Last transition";
+    exports.SchedulingDisabledText = "SchedulingDisabled";
+    exports.UnderPressureText = "Under pressure";
+    exports.NodeCreatedText = "Node created {0}";
+    exports.NodePodsHeadingText = "Pods of {0} on the node";
+    exports.NoNodePodsText = "No pods of this namespace are scheduled on the node";
+    exports.NoNodesText = "No nodes are detected in this Kubernetes cluster";
+    exports.AddNodesText = "about how nodes are added to a Kubernetes cluster";
 });
\ No newline at end of file
@@ -3,14 +3,27 @@
     Licensed under the MIT license.
 */
 
-import { ActionsHubBase, Action } from "../FluxCommon/Actions";
-import { V1ReplicaSet, V1Pod, V1DaemonSet, V1StatefulSet } from "@kubernetes/client-node";
+import { ActionsHubBase, Action, IEmptyActionPayload } from "../FluxCommon/Actions";
+import { V1Deployment, V1ReplicaSet, V1Pod, V1DaemonSet, V1StatefulSet, V1Job, V1ConfigMap, V1Secret, V1Node } from "@kubernetes/client-node";
+import { IFilterState } from "azure-devops-ui/Utilities/Filter";
 import { IServiceItem } from "../Types";
 
+// The objects which can be selected, the selectedItemType tells which one it is
+export type SelectedItem = V1Deployment | V1ReplicaSet | V1DaemonSet | V1StatefulSet | V1Job | IServiceItem | V1Pod | V1ConfigMap | V1Secret | V1Node;
+
 export interface ISelectionPayload {
-    item: V1ReplicaSet | V1DaemonSet | V1StatefulSet | IServiceItem | V1Pod;
+    item: SelectedItem;
     showSelectedItem: boolean;
     selectedItemType: string;
+    // Pod and right panel tab to show within the selected workload
+    selectedPodName?: string;
+    selectedPodTab?: string;
+}
+
+// What is shown on the main view, restored when navigating back to it
+export interface ISelectionViewState {
+    selectedPivotKey?: string;
+    filterStates?: { [pivotKey: string]: IFilterState };
 }
 
 export class SelectionActions extends ActionsHubBase {
@@ -20,6 +33,10 @@ export class SelectionActions extends ActionsHubBase {
 
     public initialize(): void {
         this._selectItem = new Action<ISelectionPayload>();
+        this._navigateBack = new Action<IEmptyActionPayload>();
+        this._navigateForward = new Action<IEmptyActionPayload>();
+        this._navigateTo = new Action<number>();
+        this._saveViewState = new Action<ISelectionViewState>();
     }
 
 
@@ -27,5 +44,26 @@ export class SelectionActions extends ActionsHubBase {
         return this._selectItem;
     }
 
+    public get navigateBack(): Action<IEmptyActionPayload> {
+        return this._navigateBack;
+    }
+
+    public get navigateForward(): Action<IEmptyActionPayload> {
+        return this._navigateForward;
+    }
+
+    // Payload is the index of the navigation history entry to show
+    public get navigateTo(): Action<number> {
+        return this._navigateTo;
+    }
+
+    public get saveViewState(): Action<ISelectionViewState> {
+        return this._saveViewState;
+    }
+
     private _selectItem: Action<ISelectionPayload>;
+    private _navigateBack: Action<IEmptyActionPayload>;
+    private _navigateForward: Action<IEmptyActionPayload>;
+    private _navigateTo: Action<number>;
+    private _saveViewState: Action<ISelectionViewState>;
 }
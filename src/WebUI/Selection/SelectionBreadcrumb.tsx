@@ -0,0 +1,165 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ObjectMeta, V1OwnerReference } from "@kubernetes/client-node";
+import { BaseComponent, css } from "@uifabric/utilities";
+import { Breadcrumb, IBreadcrumbItem } from "azure-devops-ui/Breadcrumb";
+import { Button } from "azure-devops-ui/Button";
+import * as React from "react";
+import { SelectedItemKeys } from "../Constants";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import * as Resources from "../Resources";
+import { IServiceItem, IVssComponentProperties } from "../Types";
+import { SelectionActions } from "./SelectionActions";
+import { ISelectionHistoryEntry, SelectionStore } from "./SelectionStore";
+import "./SelectionBreadcrumb.scss";
+
+const deploymentKind: string = "Deployment";
+
+export interface ISelectionBreadcrumbProperties extends IVssComponentProperties {
+    // Name of the pod shown within the selected item, added as the last breadcrumb
+    podName?: string;
+}
+
+export interface ISelectionBreadcrumbState {
+    history: ISelectionHistoryEntry[];
+    historyIndex: number;
+}
+
+/**
+ * Back and forward buttons over the selection history, followed by the path from the namespace to the selected item.
+ */
+export class SelectionBreadcrumb extends BaseComponent<ISelectionBreadcrumbProperties, ISelectionBreadcrumbState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: ISelectionBreadcrumbProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._store = StoreManager.GetStore<SelectionStore>(SelectionStore, this.context.fluxInstanceId);
+        this._actions = ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId);
+
+        const storeState = this._store.getState();
+        this.state = { history: storeState.history, historyIndex: storeState.historyIndex };
+    }
+
+    public componentDidMount(): void {
+        this._store.addChangedListener(this._onSelectionChanged);
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeChangedListener(this._onSelectionChanged);
+    }
+
+    public render(): JSX.Element {
+        return (
+            <div className={css("selection-breadcrumb", this.props.className)}>
+                <Button
+                    className="selection-breadcrumb-back"
+                    ariaLabel={Resources.BackText}
+                    iconProps={{ iconName: "Back" }}
+                    subtle={true}
+                    disabled={!this._store.canNavigateBack()}
+                    onClick={this._onBack}
+                />
+                <Button
+                    className="selection-breadcrumb-forward"
+                    ariaLabel={Resources.ForwardText}
+                    iconProps={{ iconName: "Forward" }}
+                    subtle={true}
+                    disabled={!this._store.canNavigateForward()}
+                    onClick={this._onForward}
+                />
+                <Breadcrumb
+                    className="selection-breadcrumb-path"
+                    ariaLabel={Resources.BreadcrumbAriaLabel}
+                    items={this._getItems()}
+                />
+            </div>
+        );
+    }
+
+    // The path holds the selections made since the main view was last shown, the objects in between link back to their entries
+    private _getItems(): IBreadcrumbItem[] {
+        const history = this.state.history;
+        const historyIndex = this.state.historyIndex;
+        let mainViewIndex = historyIndex;
+        while (mainViewIndex > 0 && history[mainViewIndex].showSelectedItem) {
+            mainViewIndex--;
+        }
+
+        const items: IBreadcrumbItem[] = [];
+        const onMainViewClick = () => this._actions.navigateTo.invoke(mainViewIndex);
+        for (let index = mainViewIndex + 1; index <= historyIndex; index++) {
+            const entry = history[index];
+            const metadata = SelectionBreadcrumb._getMetadata(entry);
+            if (items.length === 0) {
+                // nodes are not namespaced, they are listed on the nodes pivot
+                const mainViewText = entry.selectedItemType === SelectedItemKeys.NodeKey ? Resources.PivotNodesText : metadata && metadata.namespace || "";
+                items.push({ key: "namespace", text: mainViewText, onClick: onMainViewClick });
+            }
+
+            // Deployments are listed on the main view along with their replica sets, unless the replica set was opened from the deployment view
+            const deploymentOwner = entry.selectedItemType === SelectedItemKeys.ReplicaSetKey ? SelectionBreadcrumb._getDeploymentOwner(metadata) : undefined;
+            const previousMetadata = index > mainViewIndex + 1 ? SelectionBreadcrumb._getMetadata(history[index - 1]) : undefined;
+            if (deploymentOwner && !(previousMetadata && previousMetadata.uid === deploymentOwner.uid)) {
+                items.push({ key: "deployment-" + deploymentOwner.uid, text: deploymentOwner.name, onClick: onMainViewClick });
+            }
+
+            const isCurrentEntry = index === historyIndex;
+            items.push({
+                key: "entry-" + index,
+                text: SelectionBreadcrumb._getName(entry, metadata),
+                onClick: isCurrentEntry ? undefined : () => this._actions.navigateTo.invoke(index)
+            });
+        }
+
+        if (this.props.podName) {
+            items.push({ key: "pod", text: this.props.podName });
+        }
+
+        return items;
+    }
+
+    private _onSelectionChanged = (): void => {
+        const storeState = this._store.getState();
+        this.setState({ history: storeState.history, historyIndex: storeState.historyIndex });
+    }
+
+    private _onBack = (): void => {
+        this._actions.navigateBack.invoke({});
+    }
+
+    private _onForward = (): void => {
+        this._actions.navigateForward.invoke({});
+    }
+
+    private static _getMetadata(entry: ISelectionHistoryEntry): V1ObjectMeta | undefined {
+        const item: any = entry.selectedItem;
+        if (entry.selectedItemType === SelectedItemKeys.ServiceItemKey) {
+            const service = (item as IServiceItem).service;
+            return service && service.metadata;
+        }
+
+        return item && item.metadata;
+    }
+
+    private static _getName(entry: ISelectionHistoryEntry, metadata: V1ObjectMeta | undefined): string {
+        if (entry.selectedItemType === SelectedItemKeys.ServiceItemKey) {
+            return (entry.selectedItem as IServiceItem).package;
+        }
+
+        return metadata && metadata.name || "";
+    }
+
+    private static _getDeploymentOwner(metadata: V1ObjectMeta | undefined): V1OwnerReference | undefined {
+        return (metadata && metadata.ownerReferences || []).find(owner => owner.kind === deploymentKind);
+    }
+
+    private _store: SelectionStore;
+    private _actions: SelectionActions;
+}
@@ -6,14 +6,21 @@
 import { StoreBase } from "../FluxCommon/Store";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
-import { V1DeploymentList, V1ReplicaSet, V1Pod, V1DaemonSet, V1StatefulSet } from "@kubernetes/client-node";
-import { SelectionActions, ISelectionPayload } from "./SelectionActions";
-import { IServiceItem } from "../Types";
+import { SelectionActions, ISelectionPayload, ISelectionViewState, SelectedItem } from "./SelectionActions";
 
-export interface ISelectionStoreState {
-    selectedItem: V1ReplicaSet | V1DaemonSet | V1StatefulSet | IServiceItem | V1Pod | undefined;
+export interface ISelectionHistoryEntry {
+    selectedItem: SelectedItem | undefined;
     showSelectedItem: boolean;
     selectedItemType: string;
+    selectedPodName?: string;
+    selectedPodTab?: string;
+    viewState: ISelectionViewState;
+}
+
+export interface ISelectionStoreState extends ISelectionHistoryEntry {
+    // Every selection made, starting with the main view. The entries after historyIndex are the ones to navigate forward to.
+    history: ISelectionHistoryEntry[];
+    historyIndex: number;
 }
 
 export class SelectionStore extends StoreBase {
@@ -24,28 +31,90 @@ export class SelectionStore extends StoreBase {
     public initialize(instanceId?: string): void {
         super.initialize(instanceId);
 
-        this._state = { selectedItem: undefined, showSelectedItem: false, selectedItemType: "" };
+        const mainViewEntry: ISelectionHistoryEntry = { selectedItem: undefined, showSelectedItem: false, selectedItemType: "", viewState: {} };
+        this._state = { ...mainViewEntry, history: [mainViewEntry], historyIndex: 0 };
 
-        this._actions = ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions);
+        this._actions = ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, instanceId);
         this._actions.selectItem.addListener(this._select);
+        this._actions.navigateBack.addListener(this._navigateBack);
+        this._actions.navigateForward.addListener(this._navigateForward);
+        this._actions.navigateTo.addListener(this._navigateTo);
+        this._actions.saveViewState.addListener(this._saveViewState);
     }
 
     public disposeInternal(): void {
         this._actions.selectItem.removeListener(this._select);
+        this._actions.navigateBack.removeListener(this._navigateBack);
+        this._actions.navigateForward.removeListener(this._navigateForward);
+        this._actions.navigateTo.removeListener(this._navigateTo);
+        this._actions.saveViewState.removeListener(this._saveViewState);
     }
 
     public getState(): ISelectionStoreState {
         return this._state;
     }
 
+    public canNavigateBack(): boolean {
+        return this._state.historyIndex > 0;
+    }
+
+    public canNavigateForward(): boolean {
+        return this._state.historyIndex < this._state.history.length - 1;
+    }
+
     private _select = (payload: ISelectionPayload): void => {
-        this._state.selectedItem = payload.item;
-        this._state.showSelectedItem = payload.showSelectedItem;
-        this._state.selectedItemType = payload.selectedItemType;
+        // A new selection drops the entries to navigate forward to, like in a browser
+        const history = this._state.history.slice(0, this._state.historyIndex + 1);
+        history.push({
+            selectedItem: payload.item,
+            showSelectedItem: payload.showSelectedItem,
+            selectedItemType: payload.selectedItemType,
+            selectedPodName: payload.selectedPodName,
+            selectedPodTab: payload.selectedPodTab,
+            viewState: this._state.viewState
+        });
+
+        this._state.history = history;
+        this._showHistoryEntry(history.length - 1);
+    }
+
+    private _navigateBack = (): void => {
+        if (this.canNavigateBack()) {
+            this._showHistoryEntry(this._state.historyIndex - 1);
+        }
+    }
+
+    private _navigateForward = (): void => {
+        if (this.canNavigateForward()) {
+            this._showHistoryEntry(this._state.historyIndex + 1);
+        }
+    }
+
+    private _navigateTo = (historyIndex: number): void => {
+        if (historyIndex >= 0 && historyIndex < this._state.history.length && historyIndex !== this._state.historyIndex) {
+            this._showHistoryEntry(historyIndex);
+        }
+    }
+
+    // The view state is not a navigation, it is only kept with the current entry
+    private _saveViewState = (viewState: ISelectionViewState): void => {
+        const entry = this._state.history[this._state.historyIndex];
+        entry.viewState = { ...entry.viewState, ...viewState };
+        this._state.viewState = entry.viewState;
+    }
+
+    private _showHistoryEntry(historyIndex: number): void {
+        const entry = this._state.history[historyIndex];
+        this._state.historyIndex = historyIndex;
+        this._state.selectedItem = entry.selectedItem;
+        this._state.showSelectedItem = entry.showSelectedItem;
+        this._state.selectedItemType = entry.selectedItemType;
+        this._state.selectedPodName = entry.selectedPodName;
+        this._state.selectedPodTab = entry.selectedPodTab;
+        this._state.viewState = entry.viewState;
         this.emitChanged();
     }
 
     private _state: ISelectionStoreState;
     private _actions: SelectionActions;
 }
-
@@ -0,0 +1,117 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1beta1Ingress, V1beta1IngressList } from "@kubernetes/client-node";
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { IngressRoutes } from "../IngressRoutes";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import "./IngressTable.scss";
+
+const nameKey: string = "ingress-name-col";
+const namespaceKey: string = "ingress-namespace-col";
+const rulesKey: string = "ingress-rules-col";
+const tlsKey: string = "ingress-tls-col";
+const addressKey: string = "ingress-address-col";
+const ageKey: string = "ingress-age-col";
+const colDataClassName: string = "list-col-content";
+
+// Picked in the type filter of the services pivot along with the service types
+export const ingressTypeKey: string = "Ingress";
+
+export interface IIngressTableProperties extends IVssComponentProperties {
+    ingressList: V1beta1IngressList;
+    nameFilter?: string;
+    showNamespace?: boolean;
+    namespaceSelections?: string[];
+}
+
+export class IngressTable extends BaseComponent<IIngressTableProperties> {
+    public render(): React.ReactNode {
+        const filteredIngresses: V1beta1Ingress[] = (this.props.ingressList && this.props.ingressList.items || []).filter(ingress => {
+            return Utils.filterByName(ingress.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(ingress.metadata.namespace, this.props.namespaceSelections);
+        });
+
+        if (filteredIngresses.length > 0) {
+            return (
+                <BaseKubeTable
+                    className={css("list-content", "top-padding", "depth-16", "ingress-table")}
+                    items={filteredIngresses}
+                    columns={IngressTable._getColumns(!!this.props.showNamespace)}
+                />
+            );
+        }
+
+        return null;
+    }
+
+    private static _getColumns(showNamespace: boolean): ITableColumn<V1beta1Ingress>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<V1beta1Ingress>[] = [
+            { id: nameKey, name: Resources.IngressText, minWidth: 200, width: -100, renderCell: IngressTable._renderNameCell }
+        ];
+
+        if (showNamespace) {
+            columns.push({ id: namespaceKey, name: Resources.NamespaceText, minWidth: 120, width: -100, renderCell: IngressTable._renderNamespaceCell });
+        }
+
+        columns.push({ id: rulesKey, name: Resources.RulesText, minWidth: 360, width: -100, renderCell: IngressTable._renderRulesCell });
+        columns.push({ id: tlsKey, name: Resources.TlsText, minWidth: 120, width: -100, renderCell: IngressTable._renderTlsCell });
+        columns.push({ id: addressKey, name: Resources.AddressText, minWidth: 120, width: -100, renderCell: IngressTable._renderAddressCell });
+        columns.push({ id: ageKey, name: Resources.AgeText, minWidth: 80, width: -100, renderCell: IngressTable._renderAgeCell });
+
+        columns.forEach(column => column.headerClassName = headerColumnClassName);
+        return columns;
+    }
+
+    private static _renderNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1Ingress>, ingress: V1beta1Ingress): JSX.Element {
+        const itemToRender = BaseKubeTable.renderTwoLineColumn(ingress.metadata.name, Utils.getPipelineText(ingress.metadata.annotations), colDataClassName, "primary-text", "secondary-text");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1Ingress>, ingress: V1beta1Ingress): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(ingress.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // One line per path, e.g. "shop.contoso.com/api -> api:80"
+    private static _renderRulesCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1Ingress>, ingress: V1beta1Ingress): JSX.Element {
+        const itemToRender = (
+            <div className={css(colDataClassName, "ingress-rules")}>
+                {
+                    IngressRoutes.getRoutes(ingress).map((route, index) => (
+                        <div key={index} className="ingress-rule">
+                            <span className="primary-text">{route.path || route.host ? (route.host || Resources.AnyHostText) + route.path : Resources.DefaultBackendText}</span>
+                            <span className="secondary-text">{format(" \u2192 {0}:{1}", route.serviceName, route.servicePort)}</span>
+                        </div>
+                    ))
+                }
+            </div>
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderTlsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1Ingress>, ingress: V1beta1Ingress): JSX.Element {
+        const secretNames = (ingress.spec && ingress.spec.tls || []).map(tls => tls.secretName).filter(secretName => !!secretName);
+        const itemToRender = BaseKubeTable.renderColumn(secretNames.join(", "), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAddressCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1Ingress>, ingress: V1beta1Ingress): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(IngressRoutes.getAddresses(ingress).join(", "), BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAgeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1Ingress>, ingress: V1beta1Ingress): JSX.Element {
+        const itemToRender = (<Ago date={new Date(ingress.metadata.creationTimestamp)} />);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+}
@@ -12,23 +12,34 @@ import * as Date_Utils from "azure-devops-ui/Utilities/Date";
 import { ArrayItemProvider } from "azure-devops-ui/Utilities/Provider";
 import * as React from "react";
 import * as Resources from "../Resources";
-import { IServiceItem, IVssComponentProperties } from "../Types";
+import { IServiceItem, IVssComponentProperties, IResourceFetchStatus } from "../Types";
 import { Utils } from "../Utils";
 import "./ServiceDetailsView.scss";
-import { V1Pod } from "@kubernetes/client-node";
+import { V1Pod, V1beta1IngressList } from "@kubernetes/client-node";
 import { PodsTable } from "../Pods/PodsTable";
-import { PodDetailsView } from "../Pods/PodDetailsView";
 import { KubeZeroData } from "../Common/KubeZeroData";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
 import { ResourceStatus } from "../Common/ResourceStatus";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { SelectionStore } from "../Selection/SelectionStore";
 import { SelectionActions } from "../Selection/SelectionActions";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
 import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
-import { ServicesEvents } from "../Constants";
+import { ServicesEvents, ResourceFetchStatus, SelectedItemKeys } from "../Constants";
 import { ServicesStore } from "./ServicesStore";
+import { ServicesActionsCreator } from "./ServicesActionsCreator";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { IIngressRoute, IngressRoutes } from "../IngressRoutes";
+import { Link } from "azure-devops-ui/Link";
+import { KubeYamlView } from "../Common/KubeYamlView";
+import { EventsView } from "../Events/EventsView";
+import { Button } from "azure-devops-ui/Button";
+import { Panel } from "azure-devops-ui/Panel";
+import { ContentSize } from "azure-devops-ui/Callout";
 
 export interface IServiceDetailsViewProperties extends IVssComponentProperties {
     kubeService: IKubeService;
@@ -37,46 +48,62 @@ export interface IServiceDetailsViewProperties extends IVssComponentProperties {
 
 export interface IServiceDetailsViewState {
     pods: Array<V1Pod>;
-    selectedPod: V1Pod | null;
-    showSelectedPod: boolean;
+    podsFetchStatus: IResourceFetchStatus;
+    showYamlPanel: boolean;
+    ingressList?: V1beta1IngressList;
 }
 
 export class ServiceDetailsView extends BaseComponent<IServiceDetailsViewProperties, IServiceDetailsViewState> {
-    constructor(props: IServiceDetailsViewProperties) {
-        super(props, {});
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IServiceDetailsViewProperties, context: IFluxContext) {
+        super(props, context);
+        this._servicesStore = StoreManager.GetStore<ServicesStore>(ServicesStore, this.context.fluxInstanceId);
         this.state = {
             pods: [],
-            selectedPod: null,
-            showSelectedPod: false
+            podsFetchStatus: { status: ResourceFetchStatus.Loading },
+            showYamlPanel: false,
+            ingressList: this._servicesStore.getState().ingressList
         };
-        this._servicesStore = StoreManager.GetStore<ServicesStore>(ServicesStore);
-        this._podsActionsCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator);
+        this._podsActionsCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId);
 
         const svc = this.props.service && this.props.service.service;
         //service currently only supports equals with "and" operator. The generator generates that condition.
-        const labelSelector: string = Utils.generateEqualsConditionLabelSelector(svc && svc.spec && svc.spec.selector || {});
-        this._podsActionsCreator.getPods(this.props.kubeService, labelSelector);
+        this._labelSelector = Utils.generateEqualsConditionLabelSelector(svc && svc.spec && svc.spec.selector || {});
+        this._namespace = svc && svc.metadata && svc.metadata.namespace;
+        this._podsActionsCreator.getPods(this.props.kubeService, this._labelSelector, this._namespace);
+        this._watch = this._podsActionsCreator.watchPods(this.props.kubeService, this._labelSelector, this._namespace);
         this._servicesStore.addListener(ServicesEvents.ServicePodsFetchedEvent, this._onPodsFetched);
-    }
 
-    public render(): JSX.Element {
-        if (this.state.selectedPod && this.state.showSelectedPod) {
-            return (<PodDetailsView
-                pod={this.state.selectedPod}
-            />);
+        // The services pivot fetches the ingresses, unless the service was opened from a link
+        if (!this.state.ingressList) {
+            const selectedNamespace = StoreManager.GetStore<NamespacesStore>(NamespacesStore, this.context.fluxInstanceId).getState().selectedNamespace;
+            ActionsCreatorManager.GetActionCreator<ServicesActionsCreator>(ServicesActionsCreator, this.context.fluxInstanceId).getIngresses(this.props.kubeService, selectedNamespace || undefined);
         }
 
+        this._servicesStore.addListener(ServicesEvents.IngressesFetchedEvent, this._onIngressesFetched);
+    }
+
+    public render(): JSX.Element {
         return (
             <div className="service-main-content">
                 {this._getMainHeading()}
                 {this._getServiceDetails()}
+                {this._getIngressRoutes()}
+                {this._getServiceEvents()}
                 {this._getAssociatedPods()}
+                {this._getYamlPanel()}
             </div>
         );
     }
 
     public componentWillUnmount(): void {
         this._servicesStore.removeListener(ServicesEvents.ServicePodsFetchedEvent, this._onPodsFetched);
+        this._servicesStore.removeListener(ServicesEvents.IngressesFetchedEvent, this._onIngressesFetched);
+        if (this._watch) {
+            this._watch.stop();
+        }
     }
 
     private _getMainHeading(): JSX.Element | null {
@@ -89,6 +116,16 @@ export class ServiceDetailsView extends BaseComponent<IServiceDetailsViewPropert
                     <div className="sub-heading">
                         {localeFormat(Resources.ServiceCreatedText, agoTime)}
                     </div>
+                    {
+                        item.service &&
+                        <Button
+                            className="s-view-yaml"
+                            text={Resources.ViewYamlText}
+                            iconProps={{ iconName: "FileCode" }}
+                            subtle={true}
+                            onClick={this._showYamlPanel}
+                        />
+                    }
                 </div>
             );
         }
@@ -96,6 +133,35 @@ export class ServiceDetailsView extends BaseComponent<IServiceDetailsViewPropert
         return null;
     }
 
+    private _getYamlPanel(): JSX.Element | null {
+        const item = this.props.service;
+        if (!this.state.showYamlPanel || !item || !item.service) {
+            return null;
+        }
+
+        return (
+            <Panel
+                onDismiss={this._hideYamlPanel}
+                titleProps={{ text: item.package }}
+                description={Resources.YamlText}
+                size={ContentSize.Large}>
+                <KubeYamlView
+                    resource={item.service}
+                    apiVersion="v1"
+                    kind={item.kind || "Service"}
+                />
+            </Panel>
+        );
+    }
+
+    private _showYamlPanel = (): void => {
+        this.setState({ showYamlPanel: true });
+    }
+
+    private _hideYamlPanel = (): void => {
+        this.setState({ showYamlPanel: false });
+    }
+
     private _getServiceDetails(): JSX.Element | null {
         const item = this.props.service;
         if (item && item.service) {
@@ -148,6 +214,74 @@ export class ServiceDetailsView extends BaseComponent<IServiceDetailsViewPropert
         return null;
     }
 
+    // The public urls which reach the service
+    private _getIngressRoutes(): JSX.Element | null {
+        const service = this.props.service && this.props.service.service;
+        const routes = service ? IngressRoutes.getServiceRoutes(this.state.ingressList && this.state.ingressList.items || [], service) : [];
+        if (routes.length === 0) {
+            return null;
+        }
+
+        const columns: ITableColumn<IIngressRoute>[] = [
+            { id: "ingress", name: Resources.IngressText, minWidth: 160, width: -20, renderCell: ServiceDetailsView._renderIngressCell },
+            { id: "host", name: Resources.HostText, minWidth: 160, width: -20, renderCell: ServiceDetailsView._renderHostCell },
+            { id: "path", name: Resources.PathText, minWidth: 100, width: -15, renderCell: ServiceDetailsView._renderPathCell },
+            { id: "port", name: Resources.PortText, minWidth: 80, width: -10, renderCell: ServiceDetailsView._renderPortCell },
+            { id: "url", name: Resources.UrlText, minWidth: 200, width: -35, renderCell: ServiceDetailsView._renderUrlCell }
+        ];
+        columns.forEach(column => {
+            column.headerClassName = "kube-col-header";
+            column.className = "list-col-content";
+        });
+
+        return (
+            <BaseKubeTable
+                className="s-routes depth-16"
+                headingText={Resources.RoutedByText}
+                items={routes}
+                columns={columns}
+            />
+        );
+    }
+
+    private static _renderIngressCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IIngressRoute>, route: IIngressRoute): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(route.ingress.metadata.name, BaseKubeTable.defaultColumnRenderer));
+    }
+
+    private static _renderHostCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IIngressRoute>, route: IIngressRoute): JSX.Element {
+        const host = route.path || route.host ? route.host || Resources.AnyHostText : Resources.DefaultBackendText;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(host, BaseKubeTable.defaultColumnRenderer));
+    }
+
+    private static _renderPathCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IIngressRoute>, route: IIngressRoute): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(route.path, BaseKubeTable.defaultColumnRenderer));
+    }
+
+    private static _renderPortCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IIngressRoute>, route: IIngressRoute): JSX.Element {
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, BaseKubeTable.renderColumn(route.servicePort, BaseKubeTable.defaultColumnRenderer));
+    }
+
+    private static _renderUrlCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IIngressRoute>, route: IIngressRoute): JSX.Element {
+        const itemToRender = route.url ? <Link href={route.url} target="_blank" rel="noopener noreferrer">{route.url}</Link> : null;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _getServiceEvents(): JSX.Element | null {
+        const item = this.props.service;
+        if (item && item.service) {
+            return (
+                <EventsView
+                    key={item.uid}
+                    kubeService={this.props.kubeService}
+                    involvedObjectUid={item.service.metadata.uid}
+                    namespace={item.service.metadata.namespace}
+                />
+            );
+        }
+
+        return null;
+    }
+
     private static _renderValueCell(
         rowIndex: number,
         columnIndex: number,
@@ -176,13 +310,37 @@ export class ServiceDetailsView extends BaseComponent<IServiceDetailsViewPropert
     }
 
     private _onPodsFetched = (): void => {
-        const pods = this._servicesStore.getState().podsList;
-        this.setState({
-            pods: pods || []
-        });
+        const storeState = this._servicesStore.getState();
+        if (storeState.podsList !== this.state.pods || storeState.podsFetchStatus !== this.state.podsFetchStatus) {
+            this.setState({
+                pods: storeState.podsList || [],
+                podsFetchStatus: storeState.podsFetchStatus
+            });
+        }
+    }
+
+    private _onIngressesFetched = (): void => {
+        const ingressList = this._servicesStore.getState().ingressList;
+        if (ingressList !== this.state.ingressList) {
+            this.setState({ ingressList: ingressList });
+        }
+    }
+
+    private _onPodsRetry = (): void => {
+        this._podsActionsCreator.retryGetPods(this.props.kubeService, this._labelSelector, this._namespace);
     }
 
     private _getAssociatedPods(): JSX.Element | null {
+        if (this.state.podsFetchStatus.status !== ResourceFetchStatus.Loaded) {
+            return (
+                <KubeFetchStatusView
+                    fetchStatus={this.state.podsFetchStatus}
+                    resourceName={Resources.PodsDetailsText}
+                    onRetry={this._onPodsRetry}
+                />
+            );
+        }
+
         if (this.state.pods.length === 0) {
             return KubeZeroData._getDefaultZeroData("https://kubernetes.io/docs/concepts/overview/working-with-objects/labels/",
                 Resources.LearnMoreText, Resources.NoPodsForSvcText,
@@ -197,13 +355,14 @@ export class ServiceDetailsView extends BaseComponent<IServiceDetailsViewPropert
         );
     }
 
+    // The pod is shown as a selection of its own, so that navigating back returns to the service
     private _onSelectedPodInvoked = (event: React.SyntheticEvent<HTMLElement>, pod: V1Pod) => {
-        this.setState({
-            showSelectedPod: true,
-            selectedPod: pod
-        });
+        ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: pod, showSelectedItem: true, selectedItemType: SelectedItemKeys.ServicePodKey });
     }
 
     private _servicesStore: ServicesStore;
-    private _podsActionsCreator: PodsActionsCreator
+    private _podsActionsCreator: PodsActionsCreator;
+    private _watch: IKubeWatch | undefined;
+    private _labelSelector: string;
+    private _namespace: string | undefined;
 }
\ No newline at end of file
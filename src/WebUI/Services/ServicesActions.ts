@@ -4,7 +4,9 @@
 */
 
 import { ActionsHubBase, Action } from "../FluxCommon/Actions";
-import { V1ServiceList } from "@kubernetes/client-node";
+import { V1Service, V1ServiceList, V1beta1Ingress, V1beta1IngressList } from "@kubernetes/client-node";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { IListFetchedPayload, IResourceFetchStatusPayload } from "../Types";
 
 export class ServicesActions extends ActionsHubBase {
     public static getKey(): string {
@@ -12,12 +14,36 @@ export class ServicesActions extends ActionsHubBase {
     }
 
     public initialize(): void {
-        this._servicesFetched = new Action<V1ServiceList>();
+        this._servicesFetched = new Action<IListFetchedPayload<V1ServiceList>>();
+        this._serviceWatchEventReceived = new Action<IKubeWatchEvent<V1Service>>();
+        this._ingressesFetched = new Action<IListFetchedPayload<V1beta1IngressList>>();
+        this._ingressWatchEventReceived = new Action<IKubeWatchEvent<V1beta1Ingress>>();
+        this._fetchStatusChanged = new Action<IResourceFetchStatusPayload>();
     }
 
-    public get servicesFetched(): Action<V1ServiceList> {
+    public get servicesFetched(): Action<IListFetchedPayload<V1ServiceList>> {
         return this._servicesFetched;
     }
 
-    private _servicesFetched: Action<V1ServiceList>;
+    public get serviceWatchEventReceived(): Action<IKubeWatchEvent<V1Service>> {
+        return this._serviceWatchEventReceived;
+    }
+
+    public get ingressesFetched(): Action<IListFetchedPayload<V1beta1IngressList>> {
+        return this._ingressesFetched;
+    }
+
+    public get ingressWatchEventReceived(): Action<IKubeWatchEvent<V1beta1Ingress>> {
+        return this._ingressWatchEventReceived;
+    }
+
+    public get fetchStatusChanged(): Action<IResourceFetchStatusPayload> {
+        return this._fetchStatusChanged;
+    }
+
+    private _servicesFetched: Action<IListFetchedPayload<V1ServiceList>>;
+    private _serviceWatchEventReceived: Action<IKubeWatchEvent<V1Service>>;
+    private _ingressesFetched: Action<IListFetchedPayload<V1beta1IngressList>>;
+    private _ingressWatchEventReceived: Action<IKubeWatchEvent<V1beta1Ingress>>;
+    private _fetchStatusChanged: Action<IResourceFetchStatusPayload>;
 }
@@ -5,8 +5,11 @@
 
 import { ActionCreatorBase, Action } from "../FluxCommon/Actions";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
 import { ServicesActions } from "./ServicesActions";
+import { ResourceFetchStatus } from "../Constants";
+import { Utils } from "../Utils";
 
 export class ServicesActionsCreator extends ActionCreatorBase {
     public static getKey(): string {
@@ -14,15 +17,55 @@ export class ServicesActionsCreator extends ActionCreatorBase {
     }
 
     public initialize(instanceId?: string): void {
-        this._actions = ActionsHubManager.GetActionsHub<ServicesActions>(ServicesActions);
+        this._actions = ActionsHubManager.GetActionsHub<ServicesActions>(ServicesActions, instanceId);
     }
 
-    public getServices(kubeService: IKubeService): void {
-        kubeService.getServices().then(servicesList => {
-            this._actions.servicesFetched.invoke(servicesList);
+    public getServices(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getServices(namespace).then(servicesList => {
+            this._actions.servicesFetched.invoke({ list: servicesList, namespace: namespace });
+        }, error => {
+            this._actions.fetchStatusChanged.invoke({
+                resourceType: KubeResourceType.Services,
+                status: ResourceFetchStatus.Failed,
+                errorMessage: Utils.getErrorMessage(error)
+            });
         });
     }
 
+    public retryGetServices(kubeService: IKubeService, namespace?: string): void {
+        this._actions.fetchStatusChanged.invoke({ resourceType: KubeResourceType.Services, status: ResourceFetchStatus.Loading });
+        this.getServices(kubeService, namespace);
+    }
+
+    public getIngresses(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getIngresses(namespace).then(ingressList => {
+            this._actions.ingressesFetched.invoke({ list: ingressList, namespace: namespace });
+        }, error => {
+            this._actions.fetchStatusChanged.invoke({
+                resourceType: KubeResourceType.Ingresses,
+                status: ResourceFetchStatus.Failed,
+                errorMessage: Utils.getErrorMessage(error)
+            });
+        });
+    }
+
+    public retryGetIngresses(kubeService: IKubeService, namespace?: string): void {
+        this._actions.fetchStatusChanged.invoke({ resourceType: KubeResourceType.Ingresses, status: ResourceFetchStatus.Loading });
+        this.getIngresses(kubeService, namespace);
+    }
+
+    public watchServices(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.Services, event => {
+            this._actions.serviceWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchIngresses(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.Ingresses, event => {
+            this._actions.ingressWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
     private _actions: ServicesActions;
 }
 
@@ -16,11 +16,15 @@ import "azure-devops-ui/Label.scss";
 import { Filter, IFilterState, FILTER_CHANGE_EVENT, IFilterItemState } from "azure-devops-ui/Utilities/Filter";
 import { KubeFilterBar, NameKey, TypeKey } from "../Common/KubeFilterBar";
 import { ObservableValue } from "azure-devops-ui/Core/Observable";
+import { ingressTypeKey } from "./IngressTable";
 
 export interface IWorkloadsFilterBarProps extends IVssComponentProperties {
     filter: Filter;
     filterToggled: ObservableValue<boolean>;
     serviceList: V1ServiceList;
+    // Adds the ingresses to the types which can be picked
+    showIngressType?: boolean;
+    namespaceItemsFn?: () => string[];
 }
 
 export class ServicesFilterBar extends BaseComponent<IWorkloadsFilterBarProps> {
@@ -29,11 +33,12 @@ export class ServicesFilterBar extends BaseComponent<IWorkloadsFilterBarProps> {
             pickListPlaceHolder={Resources.TypeText}
             keywordPlaceHolder={Resources.PivotServiceText}
             filterToggled={this.props.filterToggled}
+            namespaceItemsFn={this.props.namespaceItemsFn}
             pickListItemsFn={() => this._generateSvcTypes()}
             listItemsFn={(item: any) => {
                 return {
                     key: item,
-                    name: item
+                    name: item === ingressTypeKey ? Resources.IngressText : item
                 };
             }}
         />);
@@ -47,6 +52,10 @@ export class ServicesFilterBar extends BaseComponent<IWorkloadsFilterBarProps> {
             }
         });
 
+        if (this.props.showIngressType) {
+            svcTypes.push(ingressTypeKey);
+        }
+
         return svcTypes;
     }
 }
\ No newline at end of file
@@ -3,30 +3,37 @@
     Licensed under the MIT license.
 */
 
-import { V1ServiceList, V1Service } from "@kubernetes/client-node";
+import { V1ServiceList, V1Service, V1beta1IngressList } from "@kubernetes/client-node";
 import { BaseComponent, format } from "@uifabric/utilities";
 import * as React from "react";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
 import * as Resources from "../Resources";
-import { IVssComponentProperties, IServiceItem } from "../Types";
+import { IVssComponentProperties, IServiceItem, IResourceFetchStatus } from "../Types";
 import { Utils } from "../Utils";
 import "../Common/KubeSummary.scss";
 import { ServicesTable } from "../Services/ServicesTable";
+import { IngressTable, ingressTypeKey } from "./IngressTable";
 // todo :: work around till this issue is fixed in devops ui
 import "azure-devops-ui/Label.scss";
 import { KubeZeroData } from "../Common//KubeZeroData";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
 import { Filter, IFilterState, IFilterItemState } from "azure-devops-ui/Utilities/Filter";
 import { ServicesFilterBar } from "./ServicesFilterBar";
 import { ObservableValue } from "azure-devops-ui/Core/Observable";
 import { ServicesActionsCreator } from "./ServicesActionsCreator";
 import { ServicesStore } from "./ServicesStore";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
-import { ServicesEvents } from "../Constants";
-import { NameKey, TypeKey } from "../Common/KubeFilterBar";
+import { ServicesEvents, ResourceFetchStatus } from "../Constants";
+import { NameKey, TypeKey, NamespaceKey } from "../Common/KubeFilterBar";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
 
 export interface IServicesPivotState {
     serviceList?: V1ServiceList;
+    fetchStatus: IResourceFetchStatus;
+    ingressList?: V1beta1IngressList;
+    ingressesFetchStatus: IResourceFetchStatus;
 }
 
 export interface IServicesPivotProps extends IVssComponentProperties {
@@ -37,18 +44,28 @@ export interface IServicesPivotProps extends IVssComponentProperties {
 }
 
 export class ServicesPivot extends BaseComponent<IServicesPivotProps, IServicesPivotState> {
-    constructor(props: IServicesPivotProps) {
-        super(props, {});
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
 
-        this._actionCreator = ActionsCreatorManager.GetActionCreator<ServicesActionsCreator>(ServicesActionsCreator);
-        this._store = StoreManager.GetStore<ServicesStore>(ServicesStore);
+    constructor(props: IServicesPivotProps, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<ServicesActionsCreator>(ServicesActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<ServicesStore>(ServicesStore, this.context.fluxInstanceId);
 
         this.state = {
-            serviceList: undefined
+            serviceList: this._store.getState().serviceList,
+            fetchStatus: this._store.getState().servicesFetchStatus,
+            ingressList: this._store.getState().ingressList,
+            ingressesFetchStatus: this._store.getState().ingressesFetchStatus
         };
 
-        this._actionCreator.getServices(this.props.kubeService);
+        this._actionCreator.getServices(this.props.kubeService, this.props.namespace);
+        this._actionCreator.getIngresses(this.props.kubeService, this.props.namespace);
+        this._watch = this._actionCreator.watchServices(this.props.kubeService, this.props.namespace);
+        this._ingressesWatch = this._actionCreator.watchIngresses(this.props.kubeService, this.props.namespace);
         this._store.addListener(ServicesEvents.ServicesFetchedEvent, this._onServicesFetched);
+        this._store.addListener(ServicesEvents.IngressesFetchedEvent, this._onIngressesFetched);
     }
 
     public render(): React.ReactNode {
@@ -62,34 +79,111 @@ export class ServicesPivot extends BaseComponent<IServicesPivotProps, IServicesP
 
     public componentWillUnmount(): void {
         this._store.removeListener(ServicesEvents.ServicesFetchedEvent, this._onServicesFetched);
+        this._store.removeListener(ServicesEvents.IngressesFetchedEvent, this._onIngressesFetched);
+        if (this._watch) {
+            this._watch.stop();
+        }
+
+        if (this._ingressesWatch) {
+            this._ingressesWatch.stop();
+        }
     }
 
     private _onServicesFetched = (): void => {
         const storeState = this._store.getState();
-        this.setState({ serviceList: storeState.serviceList });
+        if (storeState.serviceList !== this.state.serviceList || storeState.servicesFetchStatus !== this.state.fetchStatus) {
+            this.setState({ serviceList: storeState.serviceList, fetchStatus: storeState.servicesFetchStatus });
+        }
+    }
+
+    private _onIngressesFetched = (): void => {
+        const storeState = this._store.getState();
+        if (storeState.ingressList !== this.state.ingressList || storeState.ingressesFetchStatus !== this.state.ingressesFetchStatus) {
+            this.setState({ ingressList: storeState.ingressList, ingressesFetchStatus: storeState.ingressesFetchStatus });
+        }
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retryGetServices(this.props.kubeService, this.props.namespace);
+    }
+
+    private _onIngressesRetry = (): void => {
+        this._actionCreator.retryGetIngresses(this.props.kubeService, this.props.namespace);
     }
 
     private _getContent(): JSX.Element {
         const serivceSize: number = this.state.serviceList && this.state.serviceList.items ? this.state.serviceList.items.length : 0;
-        return (serivceSize === 0 ?
+        return (serivceSize === 0 && this.state.fetchStatus.status === ResourceFetchStatus.Loaded ?
             KubeZeroData._getDefaultZeroData("https://kubernetes.io/docs/concepts/services-networking/service/",
                 Resources.LearnMoreText, Resources.NoServicesText, Resources.CreateServiceText)
             :
-            <ServicesTable
-                serviceList={this.state.serviceList || {} as V1ServiceList}
-                nameFilter={this._getNameFilterValue()}
-                typeSelections={this._getTypeFilterValue()}
-            />);
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.fetchStatus}
+                    resourceName={Resources.ServiceText}
+                    onRetry={this._onRetry}
+                />
+                {
+                    serivceSize > 0 &&
+                    <ServicesTable
+                        serviceList={this.state.serviceList || {} as V1ServiceList}
+                        nameFilter={this._getNameFilterValue()}
+                        typeSelections={this._getTypeFilterValue()}
+                        showNamespace={this._isAllNamespaces()}
+                        namespaceSelections={this._getNamespaceFilterValue()}
+                    />
+                }
+                {this._showIngresses() && this._getIngresses()}
+            </div>);
+    }
+
+    private _getIngresses(): JSX.Element {
+        return (
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.ingressesFetchStatus}
+                    resourceName={Resources.IngressText}
+                    onRetry={this._onIngressesRetry}
+                />
+                {
+                    this.state.ingressList &&
+                    <IngressTable
+                        ingressList={this.state.ingressList}
+                        nameFilter={this._getNameFilterValue()}
+                        showNamespace={this._isAllNamespaces()}
+                        namespaceSelections={this._getNamespaceFilterValue()}
+                    />
+                }
+            </div>
+        );
+    }
+
+    // Ingresses are listed along with the services, unless only some service types are picked
+    private _showIngresses(): boolean {
+        const selections = this._getTypeFilterValue();
+        return selections.length === 0 || selections.indexOf(ingressTypeKey) >= 0;
     }
 
     private _getFilterBar(): JSX.Element {
         return (<ServicesFilterBar
             serviceList={this.state.serviceList || {} as V1ServiceList}
+            showIngressType={!!this.state.ingressList && this.state.ingressList.items.length > 0}
             filter={this.props.filter}
             filterToggled={this.props.filterToggled}
+            namespaceItemsFn={this._isAllNamespaces() ? this._getNamespaceItems : undefined}
         />);
     }
 
+    private _isAllNamespaces(): boolean {
+        return Utils.isAllNamespaces(this.props.namespace);
+    }
+
+    private _getNamespaceItems = (): string[] => {
+        return StoreManager.GetStore<NamespacesStore>(NamespacesStore, this.context.fluxInstanceId).getNamespaceNames();
+    }
+
     private _getNameFilterValue(): string | undefined {
         const filterState: IFilterState | undefined = this.props.filter.getState();
         const filterItem: IFilterItemState | null = filterState ? filterState[NameKey] : null;
@@ -103,6 +197,15 @@ export class ServicesPivot extends BaseComponent<IServicesPivotProps, IServicesP
         return selections;
     }
 
+    // The namespace filter only applies while the objects of all namespaces are shown
+    private _getNamespaceFilterValue(): string[] {
+        const filterState: IFilterState | undefined = this.props.filter.getState();
+        const filterItem: IFilterItemState | null = this._isAllNamespaces() && filterState ? filterState[NamespaceKey] : null;
+        return filterItem ? filterItem.value : [];
+    }
+
     private _store: ServicesStore;
     private _actionCreator: ServicesActionsCreator;
+    private _watch: IKubeWatch | undefined;
+    private _ingressesWatch: IKubeWatch | undefined;
 }
\ No newline at end of file
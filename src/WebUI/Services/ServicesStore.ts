@@ -5,14 +5,25 @@
 
 import { StoreBase } from "../FluxCommon/Store";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
-import { V1ServiceList, V1PodList, V1Pod } from "@kubernetes/client-node";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import { V1Service, V1ServiceList, V1PodList, V1Pod, V1beta1Ingress, V1beta1IngressList } from "@kubernetes/client-node";
 import { ServicesActions } from "./ServicesActions";
 import { PodsActions } from "../Pods/PodsActions";
-import { ServicesEvents } from "../Constants";
+import { NamespacesActions } from "../Namespaces/NamespacesActions";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { ServicesEvents, ResourceFetchStatus } from "../Constants";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { IListFetchedPayload, IResourceFetchStatus, IResourceFetchStatusPayload } from "../Types";
+import { Utils } from "../Utils";
 
 export interface IServicesStoreState {
     serviceList?: V1ServiceList
+    ingressList?: V1beta1IngressList;
     podsList?: V1Pod[];
+    servicesFetchStatus: IResourceFetchStatus;
+    ingressesFetchStatus: IResourceFetchStatus;
+    podsFetchStatus: IResourceFetchStatus;
 }
 
 export class ServicesStore extends StoreBase {
@@ -23,18 +34,34 @@ export class ServicesStore extends StoreBase {
     public initialize(instanceId?: string): void {
         super.initialize(instanceId);
 
-        this._state = { serviceList: undefined, podsList: [] };
+        this._state = ServicesStore._getInitialState();
 
-        this._servicesActions = ActionsHubManager.GetActionsHub<ServicesActions>(ServicesActions);
-        this._podsActions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions);
+        this._servicesActions = ActionsHubManager.GetActionsHub<ServicesActions>(ServicesActions, instanceId);
+        this._podsActions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions, instanceId);
+        this._namespacesActions = ActionsHubManager.GetActionsHub<NamespacesActions>(NamespacesActions, instanceId);
+        this._namespacesStore = StoreManager.GetStore<NamespacesStore>(NamespacesStore, instanceId);
 
-        this._servicesActions.servicesFetched.addListener(this._servicesFetched);
-        this._podsActions.podsFetchedByLabel.addListener(this._setAssociatedPodsList);
+        this._servicesActions.servicesFetched.addListener(this._onServicesFetched);
+        this._podsActions.podsFetchedByLabel.addListener(this._onAssociatedPodsFetched);
+        this._servicesActions.serviceWatchEventReceived.addListener(this._onServiceWatchEvent);
+        this._servicesActions.ingressesFetched.addListener(this._onIngressesFetched);
+        this._servicesActions.ingressWatchEventReceived.addListener(this._onIngressWatchEvent);
+        this._podsActions.podByLabelWatchEventReceived.addListener(this._onAssociatedPodWatchEvent);
+        this._servicesActions.fetchStatusChanged.addListener(this._onServicesFetchStatusChanged);
+        this._podsActions.fetchStatusChanged.addListener(this._onAssociatedPodsFetchStatusChanged);
+        this._namespacesActions.namespaceSelected.addListener(this._onNamespaceSelected);
     }
 
     public disposeInternal(): void {
-        this._servicesActions.servicesFetched.removeListener(this._servicesFetched);
-        this._podsActions.podsFetchedByLabel.removeListener(this._setAssociatedPodsList);
+        this._servicesActions.servicesFetched.removeListener(this._onServicesFetched);
+        this._podsActions.podsFetchedByLabel.removeListener(this._onAssociatedPodsFetched);
+        this._servicesActions.serviceWatchEventReceived.removeListener(this._onServiceWatchEvent);
+        this._servicesActions.ingressesFetched.removeListener(this._onIngressesFetched);
+        this._servicesActions.ingressWatchEventReceived.removeListener(this._onIngressWatchEvent);
+        this._podsActions.podByLabelWatchEventReceived.removeListener(this._onAssociatedPodWatchEvent);
+        this._servicesActions.fetchStatusChanged.removeListener(this._onServicesFetchStatusChanged);
+        this._podsActions.fetchStatusChanged.removeListener(this._onAssociatedPodsFetchStatusChanged);
+        this._namespacesActions.namespaceSelected.removeListener(this._onNamespaceSelected);
     }
 
     public getState(): IServicesStoreState {
@@ -45,21 +72,127 @@ export class ServicesStore extends StoreBase {
         return this._state.serviceList && this._state.serviceList.items ? this._state.serviceList.items.length : 0;
     }
 
+    private _onServicesFetched = (payload: IListFetchedPayload<V1ServiceList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._servicesFetched(payload.list);
+        }
+    }
+
+    private _onIngressesFetched = (payload: IListFetchedPayload<V1beta1IngressList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._ingressesFetched(payload.list);
+        }
+    }
+
+    // The pods of a service are fetched in the namespace of the service, which is any namespace when all namespaces are selected
+    private _onAssociatedPodsFetched = (payload: IListFetchedPayload<V1PodList>): void => {
+        if (Utils.isAllNamespaces(this._namespacesStore.getState().selectedNamespace) || this._isSelectedNamespace(payload.namespace)) {
+            this._setAssociatedPodsList(payload.list);
+        }
+    }
+
     private _servicesFetched = (serviceList: V1ServiceList): void => {
-        this._state.serviceList = serviceList;
+        this._state.serviceList = Utils.getUpdatedList(this._state.serviceList, serviceList);
+        this._setServicesFetchStatus({ status: ResourceFetchStatus.Loaded });
         this.emit(ServicesEvents.ServicesFetchedEvent, this);
         if (this._state.serviceList && this._state.serviceList.items && this._state.serviceList.items.length > 0) {
             this.emit(ServicesEvents.ServicesFoundEvent, this);
         }
     }
 
+    private _ingressesFetched = (ingressList: V1beta1IngressList): void => {
+        this._state.ingressList = Utils.getUpdatedList(this._state.ingressList, ingressList);
+        this._setIngressesFetchStatus({ status: ResourceFetchStatus.Loaded });
+        this.emit(ServicesEvents.IngressesFetchedEvent, this);
+    }
+
     private _setAssociatedPodsList = (podsList: V1PodList): void => {
-        this._state.podsList = podsList && podsList.items;
+        this._state.podsList = Utils.reuseUnchangedItems(this._state.podsList, podsList && podsList.items);
+        this._setPodsFetchStatus({ status: ResourceFetchStatus.Loaded });
         this.emit(ServicesEvents.ServicePodsFetchedEvent, this);
     }
 
+    private _onServiceWatchEvent = (event: IKubeWatchEvent<V1Service>): void => {
+        const serviceList = this._state.serviceList || {} as V1ServiceList;
+        this._servicesFetched({ ...serviceList, items: Utils.applyWatchEvent(serviceList.items, event) });
+    }
+
+    private _onIngressWatchEvent = (event: IKubeWatchEvent<V1beta1Ingress>): void => {
+        const ingressList = this._state.ingressList || {} as V1beta1IngressList;
+        this._ingressesFetched({ ...ingressList, items: Utils.applyWatchEvent(ingressList.items, event) });
+    }
+
+    private _onAssociatedPodWatchEvent = (event: IKubeWatchEvent<V1Pod>): void => {
+        this._state.podsList = Utils.applyWatchEvent(this._state.podsList || [], event);
+        this.emit(ServicesEvents.ServicePodsFetchedEvent, this);
+    }
+
+    private _onServicesFetchStatusChanged = (payload: IResourceFetchStatusPayload): void => {
+        if (payload.resourceType === KubeResourceType.Ingresses) {
+            this._setIngressesFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+            this.emit(ServicesEvents.IngressesFetchedEvent, this);
+            return;
+        }
+
+        this._setServicesFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+        this.emit(ServicesEvents.ServicesFetchedEvent, this);
+    }
+
+    private _onAssociatedPodsFetchStatusChanged = (payload: IResourceFetchStatusPayload): void => {
+        if (payload.labelSelector) {
+            this._setPodsFetchStatus({ status: payload.status, errorMessage: payload.errorMessage });
+            this.emit(ServicesEvents.ServicePodsFetchedEvent, this);
+        }
+    }
+
+    // Requests made before another namespace was selected may still arrive once the store was reset
+    private _isSelectedNamespace(namespace: string | undefined): boolean {
+        return Utils.isSelectedNamespace(namespace, this._namespacesStore.getState().selectedNamespace);
+    }
+
+    private _onNamespaceSelected = (): void => {
+        this._state = ServicesStore._getInitialState();
+        this.emit(ServicesEvents.ServicesFetchedEvent, this);
+        this.emit(ServicesEvents.ServicePodsFetchedEvent, this);
+        this.emit(ServicesEvents.IngressesFetchedEvent, this);
+        this.emit(ServicesEvents.ServicesFetchStatusChangedEvent, this);
+    }
+
+    private static _getInitialState(): IServicesStoreState {
+        return {
+            serviceList: undefined,
+            ingressList: undefined,
+            podsList: [],
+            servicesFetchStatus: { status: ResourceFetchStatus.Loading },
+            ingressesFetchStatus: { status: ResourceFetchStatus.Loading },
+            podsFetchStatus: { status: ResourceFetchStatus.Loading }
+        };
+    }
+
+    // The status objects are only replaced on a change, so that the views can skip rendering unchanged state
+    private _setServicesFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.servicesFetchStatus, fetchStatus)) {
+            this._state.servicesFetchStatus = fetchStatus;
+            this.emit(ServicesEvents.ServicesFetchStatusChangedEvent, this);
+        }
+    }
+
+    private _setIngressesFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.ingressesFetchStatus, fetchStatus)) {
+            this._state.ingressesFetchStatus = fetchStatus;
+        }
+    }
+
+    private _setPodsFetchStatus(fetchStatus: IResourceFetchStatus): void {
+        if (!Utils.isFetchStatusEqual(this._state.podsFetchStatus, fetchStatus)) {
+            this._state.podsFetchStatus = fetchStatus;
+        }
+    }
+
     private _state: IServicesStoreState;
     private _servicesActions: ServicesActions;
     private _podsActions: PodsActions;
+    private _namespacesActions: NamespacesActions;
+    private _namespacesStore: NamespacesStore;
 }
 
@@ -19,6 +19,7 @@ import { ResourceStatus } from "../Common/ResourceStatus";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
 import { SelectionActions } from "../Selection/SelectionActions";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { ServicesEvents, SelectedItemKeys } from "../Constants";
 import { ServicesStore } from "./ServicesStore";
@@ -30,6 +31,7 @@ const clusterIPKey: string = "cluster-ip-col";
 const externalIPKey: string = "external-ip-col";
 const portKey: string = "port-col";
 const ageKey: string = "age-col";
+const namespaceKey: string = "namespace-col";
 const loadBalancerKey: string = "LoadBalancer";
 const colDataClassName: string = "sc-col-data";
 
@@ -37,9 +39,14 @@ export interface IServicesComponentProperties extends IVssComponentProperties {
     typeSelections: string[];
     serviceList: V1ServiceList;
     nameFilter?: string;
+    showNamespace?: boolean;
+    namespaceSelections?: string[];
 }
 
 export class ServicesTable extends BaseComponent<IServicesComponentProperties> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
     public render(): React.ReactNode {
         const filteredSvc: V1Service[] = (this.props.serviceList && this.props.serviceList.items || [])
             .filter((svc) => {
@@ -51,8 +58,8 @@ export class ServicesTable extends BaseComponent<IServicesComponentProperties> {
                 <div>{
                     <BaseKubeTable
                         className={css("list-content", "depth-16")}
-                        items={ServicesTable._getServiceItems(filteredSvc)}
-                        columns={ServicesTable._getColumns()}
+                        items={ServicesTable.getServiceItems(filteredSvc)}
+                        columns={ServicesTable._getColumns(!!this.props.showNamespace)}
                         onItemActivated={this._openServiceItem}
                     />
                 }
@@ -65,11 +72,11 @@ export class ServicesTable extends BaseComponent<IServicesComponentProperties> {
 
     private _openServiceItem = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: IServiceItem) => {
         if (selectedItem) {
-            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.ServiceItemKey });
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.ServiceItemKey });
         }
     }
 
-    private static _getServiceItems(serviceList: V1Service[]): IServiceItem[] {
+    public static getServiceItems(serviceList: V1Service[]): IServiceItem[] {
         let items: IServiceItem[] = [];
         serviceList.forEach(service => {
             items.push({
@@ -115,7 +122,7 @@ export class ServicesTable extends BaseComponent<IServicesComponentProperties> {
         return format("{0}{1}/{2}", servicePort.port, nodePort, servicePort.protocol);
     }
 
-    private static _getColumns(): ITableColumn<IServiceItem>[] {
+    private static _getColumns(showNamespace: boolean): ITableColumn<IServiceItem>[] {
         let columns: ITableColumn<IServiceItem>[] = [];
         const headerColumnClassName: string = "kube-col-header";
         const columnContentClassName: string = "list-col-content";
@@ -131,6 +138,18 @@ export class ServicesTable extends BaseComponent<IServicesComponentProperties> {
             renderCell: ServicesTable._renderPackageKeyCell
         });
 
+        if (showNamespace) {
+            columns.push({
+                id: namespaceKey,
+                name: Resources.NamespaceText,
+                minWidth: 120,
+                width: -100,
+                headerClassName: headerColumnClassName,
+                className: columnContentClassName,
+                renderCell: ServicesTable._renderNamespaceCell
+            });
+        }
+
         columns.push({
             id: typeKey,
             name: Resources.TypeText,
@@ -189,6 +208,12 @@ export class ServicesTable extends BaseComponent<IServicesComponentProperties> {
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
     }
 
+    private static _renderNamespaceCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IServiceItem>, service: IServiceItem): JSX.Element => {
+        const textToRender = service.service && service.service.metadata.namespace;
+        const itemToRender = BaseKubeTable.renderColumn(textToRender || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
     private static _renderTypeCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IServiceItem>, service: IServiceItem): JSX.Element => {
         const textToRender = service.type;
         const itemToRender = BaseKubeTable.renderColumn(textToRender || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
@@ -241,8 +266,9 @@ export class ServicesTable extends BaseComponent<IServicesComponentProperties> {
     private _filterService(svc: V1Service): boolean {
         const nameMatches: boolean = Utils.filterByName(svc.metadata.name, this.props.nameFilter);
         const typeMatches: boolean = this.props.typeSelections.length > 0 ? this.props.typeSelections.indexOf(svc.spec.type) >= 0 : true;
+        const namespaceMatches: boolean = Utils.filterByNamespace(svc.metadata.namespace, this.props.namespaceSelections);
 
-        return nameMatches && typeMatches;
+        return nameMatches && typeMatches && namespaceMatches;
     }
 
     private _store: ServicesStore;
@@ -6,6 +6,8 @@ import { V1Deployment, V1DeploymentList, V1PodList, V1ReplicaSetList, V1Service,
 import { IObservable } from "azure-devops-ui/Core/Observable";
 import { IStatusProps } from "azure-devops-ui/Status";
 import { IBaseProps } from "office-ui-fabric-react/lib/Utilities";
+import { KubeResourceType } from "../Contracts/KubeServiceBase";
+import { ResourceFetchStatus } from "./Constants";
 
 export interface IKubernetesSummary {
     namespace?: string;
@@ -25,11 +27,14 @@ export interface IDeploymentReplicaSetItem {
     pipeline?: string;
     pods?: string;
     statusProps?: IStatusProps;
+    statusDescription?: string;
     showRowBorder?: boolean;
     deployment?: V1Deployment;
     image: string;
     creationTimeStamp: Date;
     kind?: string;
+    revision?: string;
+    isCurrentRevision?: boolean;
 }
 
 export interface IServiceItem {
@@ -51,6 +56,23 @@ export interface IDeploymentReplicaSetMap {
     replicaSets:V1ReplicaSet[];
 }
 
+export interface IResourceFetchStatus {
+    status: ResourceFetchStatus;
+    errorMessage?: string;
+}
+
+export interface IResourceFetchStatusPayload extends IResourceFetchStatus {
+    resourceType: KubeResourceType;
+    // Set when the status is for pods fetched by a service's label selector
+    labelSelector?: string;
+}
+
+export interface IListFetchedPayload<T> {
+    list: T;
+    // The namespace the list was requested for, lists which arrive after another namespace was selected are dropped
+    namespace?: string;
+}
+
 export interface IVssComponentProperties extends IBaseProps {
     /**
      * Components may specify a css classe list that should be applied to the primary
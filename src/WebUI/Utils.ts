@@ -3,25 +3,58 @@
     Licensed under the MIT license.
 */
 
-import { V1ObjectMeta, V1PodStatus, V1PodTemplateSpec } from "@kubernetes/client-node";
+import { V1ObjectMeta, V1PodTemplateSpec, V1ReplicaSet } from "@kubernetes/client-node";
 import { format } from "@uifabric/utilities/lib";
 import { ObservableArray } from "azure-devops-ui/Core/Observable";
 import { ILabelModel } from "azure-devops-ui/Label";
 import { IStatusProps, Statuses } from "azure-devops-ui/Status";
+import { AllNamespaces, IKubeWatchEvent } from "../Contracts/Contracts";
+import { INodeHealth, NodeHealthStatus } from "./NodeHealth";
+import { IPodHealth, PodHealth, PodHealthStatus } from "./PodHealth";
+import * as Resources from "./Resources";
+import { IWorkloadHealth, WorkloadHealthStatus } from "./WorkloadHealth";
+import { IResourceFetchStatus } from "./Types";
 
 const pipelineNameAnnotationKey: string = "pipeline-name";
 const pipelineIdAnnotationKey: string = "pipeline-id";
+const pipelineRunUrlAnnotationKey: string = "pipeline-run-url";
+const revisionAnnotationKey: string = "deployment.kubernetes.io/revision";
+const podTemplateHashLabelKey: string = "pod-template-hash";
 
-/**
- * https://kubernetes.io/docs/concepts/workloads/pods/pod-lifecycle/#pod-phase
- */
-enum PodPhase {
-    Pending = "Pending",
-    Running = "Running",
-    Succeeded = "Succeeded",
-    Failed = "Failed",
-    Unknown = "Unknown"
-}
+const podHealthStatusProps: { [status: string]: IStatusProps } = {
+    [PodHealthStatus.Succeeded]: Statuses.Success,
+    [PodHealthStatus.Healthy]: Statuses.Success,
+    [PodHealthStatus.Terminating]: Statuses.Canceled,
+    [PodHealthStatus.Pending]: Statuses.Waiting,
+    [PodHealthStatus.NotReady]: Statuses.Running,
+    [PodHealthStatus.Unknown]: Statuses.Warning,
+    [PodHealthStatus.Warning]: Statuses.Warning,
+    [PodHealthStatus.Failed]: Statuses.Failed
+};
+
+// Workloads without desired pods have no status
+const workloadHealthStatusProps: { [status: string]: IStatusProps } = {
+    [WorkloadHealthStatus.Healthy]: Statuses.Success,
+    [WorkloadHealthStatus.Progressing]: Statuses.Running,
+    [WorkloadHealthStatus.Degraded]: Statuses.Warning,
+    [WorkloadHealthStatus.Failed]: Statuses.Failed
+};
+
+// Nodes without a Ready condition have not reported yet, or have stopped reporting
+const nodeHealthStatusProps: { [status: string]: IStatusProps } = {
+    [NodeHealthStatus.Ready]: Statuses.Success,
+    [NodeHealthStatus.Pressure]: Statuses.Warning,
+    [NodeHealthStatus.Unknown]: Statuses.Warning,
+    [NodeHealthStatus.NotReady]: Statuses.Failed
+};
+
+// A claim stays pending until a volume is provisioned or bound, the pods mounting it are not scheduled meanwhile
+const volumeClaimPhaseStatusProps: { [phase: string]: IStatusProps } = {
+    "Bound": Statuses.Success,
+    "Pending": Statuses.Waiting,
+    "Terminating": Statuses.Canceled,
+    "Lost": Statuses.Failed
+};
 
 export class Utils {
     public static isOwnerMatched(objectMeta: V1ObjectMeta, ownerUIdLowerCase: string): boolean {
@@ -59,13 +92,25 @@ export class Utils {
         return pipelineName && pipelineId ? format("{0} / {1}", pipelineName, pipelineId) : "";
     }
 
-    public static _getPodsStatusProps(currentScheduledPods: number, desiredPods: number): IStatusProps | undefined {
-        //todo modify logic to base on pod events so that we can distinguish between pending/failed pods
-        if (desiredPods != null && currentScheduledPods != null && desiredPods > 0) {
-            return currentScheduledPods < desiredPods ? Statuses.Failed : Statuses.Success;
+    public static generateWorkloadStatusProps(status: WorkloadHealthStatus): IStatusProps | undefined {
+        return workloadHealthStatusProps[status];
+    }
+
+    /**
+     * Returns the ready pods of the workload, e.g. "2/3", empty when no pods are desired.
+     */
+    public static getWorkloadPodsText(health: IWorkloadHealth): string {
+        return health.status !== WorkloadHealthStatus.ScaledDown ? format("{0}/{1}", health.readyCount, health.desiredCount) : "";
+    }
+
+    // The counts of a job are its completions rather than ready pods
+    public static getWorkloadHealthDescription(health: IWorkloadHealth, kind?: string): string {
+        if (health.status === WorkloadHealthStatus.ScaledDown) {
+            return "";
         }
 
-        return undefined;
+        const readyText = format(kind === "Job" ? Resources.CompletionsStatusText : Resources.ReplicasStatusText, health.readyCount, health.desiredCount);
+        return health.reason ? format("{0}, {1}", health.message ? format("{0}: {1}", health.reason, health.message) : health.reason, readyText) : readyText;
     }
     public static generateEqualsConditionLabelSelector(labels: { [key: string]: string }): string {
         console.log(labels);
@@ -80,11 +125,49 @@ export class Utils {
         return labelSelector;
     }
 
-    public static generatePodStatusProps(status:V1PodStatus): IStatusProps {
-        if(status.phase === PodPhase.Running|| status.phase === PodPhase.Succeeded){
-                return Statuses.Success;
-        } 
-        return Statuses.Failed;
+    public static generatePodStatusProps(status: PodHealthStatus): IStatusProps {
+        return podHealthStatusProps[status] || Statuses.Warning;
+    }
+
+    public static generateNodeStatusProps(status: NodeHealthStatus): IStatusProps {
+        return nodeHealthStatusProps[status] || Statuses.Warning;
+    }
+
+    /**
+     * Returns the text of the node health in the terms of kubectl, e.g. "Ready, MemoryPressure, SchedulingDisabled" or "NotReady: KubeletNotReady".
+     */
+    public static getNodeHealthText(health: INodeHealth): string {
+        const statusText = health.status === NodeHealthStatus.Pressure ? NodeHealthStatus.Ready : health.status;
+        const details: string[] = [health.reason ? format("{0}: {1}", statusText, health.reason) : statusText].concat(health.pressures);
+        if (health.schedulingDisabled) {
+            details.push(Resources.SchedulingDisabledText);
+        }
+
+        return details.join(", ");
+    }
+
+    public static generateVolumeClaimStatusProps(phase: string): IStatusProps {
+        return volumeClaimPhaseStatusProps[phase] || Statuses.Warning;
+    }
+
+    /**
+     * Returns the tooltip text of the pod health, e.g. "CrashLoopBackOff: back-off 5m0s restarting failed container, Restarts: 7".
+     */
+    public static getPodHealthDescription(health: IPodHealth): string {
+        const details: string[] = [health.message ? format("{0}: {1}", health.reason, health.message) : health.reason];
+        if (health.totalContainers > 0 && health.readyContainers < health.totalContainers && !PodHealth.isHealthy(health.status)) {
+            details.push(format(Resources.ContainersReadyText, health.readyContainers, health.totalContainers));
+        }
+
+        if (health.restartCount > 0) {
+            details.push(format(Resources.RestartsCountText, health.restartCount));
+        }
+
+        if (health.lastTerminationReason) {
+            details.push(format(Resources.LastTerminationReasonText, health.lastTerminationReason));
+        }
+
+        return details.filter(detail => !!detail).join(", ");
     }
 
     public static filterByName(objectName: string, filterKey?: string): boolean {
@@ -93,7 +176,144 @@ export class Utils {
         }
         return true;
     }
+
+    public static filterByNamespace(namespace: string, selectedNamespaces?: string[]): boolean {
+        if (selectedNamespaces && selectedNamespaces.length > 0) {
+            return selectedNamespaces.indexOf(namespace) >= 0;
+        }
+        return true;
+    }
+
+    /**
+     * False for a list requested for another namespace than the selected one, which arrived after the stores were reset.
+     * Until a namespace is picked the views list the namespace of the host, so every list is kept.
+     */
+    public static isSelectedNamespace(namespace: string | undefined, selectedNamespace: string): boolean {
+        return !selectedNamespace || namespace === selectedNamespace;
+    }
+
+    public static isAllNamespaces(namespace?: string): boolean {
+        return namespace === AllNamespaces;
+    }
     
+    /**
+     * Returns a new array with the watch event applied, objects are matched on uid.
+     * Modified objects keep their position and added objects are appended.
+     */
+    public static applyWatchEvent<T extends { metadata: V1ObjectMeta }>(items: T[], event: IKubeWatchEvent<T>): T[] {
+        const currentItems = items || [];
+        const object = event && event.object;
+        if (!object || !object.metadata) {
+            return currentItems;
+        }
+
+        const index = currentItems.findIndex(item => !!item.metadata && item.metadata.uid === object.metadata.uid);
+        if (event.type === "DELETED") {
+            return index >= 0 ? currentItems.filter((item, itemIndex) => itemIndex !== index) : currentItems;
+        }
+
+        if (index >= 0) {
+            return currentItems.map((item, itemIndex) => itemIndex === index ? object : item);
+        }
+
+        return currentItems.concat([object]);
+    }
+
+    /**
+     * Returns the new items with the objects whose resourceVersion did not change replaced by their previous instances.
+     * The previous array itself is returned when nothing changed, so unchanged lists and rows are not rendered again.
+     */
+    public static reuseUnchangedItems<T extends { metadata: V1ObjectMeta }>(previousItems: T[] | undefined, newItems: T[]): T[] {
+        if (!previousItems || !newItems) {
+            return newItems;
+        }
+
+        let previousItemsMap: { [uid: string]: T } = {};
+        previousItems.forEach(item => {
+            if (item && item.metadata) {
+                previousItemsMap[item.metadata.uid] = item;
+            }
+        });
+
+        let isChanged = previousItems.length !== newItems.length;
+        const items = newItems.map((item, index) => {
+            const previousItem = item && item.metadata && previousItemsMap[item.metadata.uid];
+            const isUnchanged = !!previousItem && !!item.metadata.resourceVersion && previousItem.metadata.resourceVersion === item.metadata.resourceVersion;
+            isChanged = isChanged || !isUnchanged || previousItems[index] !== previousItem;
+            return isUnchanged && previousItem ? previousItem : item;
+        });
+
+        return isChanged ? items : previousItems;
+    }
+
+    /**
+     * Returns the previous list when the new list has the same objects, otherwise the new list with unchanged items reused.
+     */
+    public static getUpdatedList<T extends { items: U[] }, U extends { metadata: V1ObjectMeta }>(previousList: T | undefined, newList: T): T {
+        if (!previousList || !newList) {
+            return newList;
+        }
+
+        const items = Utils.reuseUnchangedItems<U>(previousList.items, newList.items);
+        return items === previousList.items ? previousList : Object.assign({}, newList, { items: items });
+    }
+
+    /**
+     * Returns a displayable message for a rejection from IKubeService, which may be an Error or an http response.
+     */
+    public static getErrorMessage(error: any): string {
+        if (!error) {
+            return "";
+        }
+
+        const body = error.body || (error.response && error.response.body);
+        if (body && typeof body.message === "string" && body.message) {
+            return body.message;
+        }
+
+        return error.message || error.statusMessage || String(error);
+    }
+
+    public static isFetchStatusEqual(first: IResourceFetchStatus | undefined, second: IResourceFetchStatus | undefined): boolean {
+        if (!first || !second) {
+            return first === second;
+        }
+
+        return first.status === second.status && first.errorMessage === second.errorMessage;
+    }
+
+    /**
+     * Returns the url of the pipeline run which deployed the object, empty when the pipeline did not annotate it
+     * or the annotation is not an absolute http or https url, as anyone able to annotate the object could set it.
+     */
+    public static getPipelineRunUrl(annotations: { [key: string]: string }): string {
+        const key = annotations && Object.keys(annotations).find(annotationKey => annotationKey.toLowerCase() === pipelineRunUrlAnnotationKey);
+        return key && Utils._isHttpUrl(annotations[key]) ? annotations[key] : "";
+    }
+
+    /**
+     * Returns the rollout revision of a deployment or of one of its replica sets, empty when it is not known.
+     */
+    public static getRevision(metadata: V1ObjectMeta): string {
+        return metadata && metadata.annotations && metadata.annotations[revisionAnnotationKey] || "";
+    }
+
+    /**
+     * Returns the pod template the deployment is rolled back to, i.e. the template of the replica set
+     * without the pod-template-hash label the deployment controller adds to it, as "kubectl rollout undo" does.
+     */
+    public static getRollbackTemplate(replicaSet: V1ReplicaSet): V1PodTemplateSpec {
+        const template = replicaSet.spec.template;
+        const labels = template.metadata && template.metadata.labels;
+        if (!labels || !labels.hasOwnProperty(podTemplateHashLabelKey)) {
+            return template;
+        }
+
+        let templateLabels = { ...labels };
+        delete templateLabels[podTemplateHashLabelKey];
+        return { ...template, metadata: { ...template.metadata, labels: templateLabels } };
+    }
+
     public static getPodImageName(podTemplate: V1PodTemplateSpec): string | null {
         if (podTemplate
             && podTemplate.spec
@@ -104,4 +324,15 @@ export class Utils {
 
         return null;
     }
+
+    // Rejects relative urls and schemes such as javascript:, which would run in the page when the link is opened
+    private static _isHttpUrl(text: string): boolean {
+        try {
+            const protocol = new URL(text).protocol;
+            return protocol === "http:" || protocol === "https:";
+        }
+        catch (e) {
+            return false;
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1PersistentVolumeClaim, V1Pod, V1PodSpec, V1StatefulSet } from "@kubernetes/client-node";
+import { ConfigurationReferences, IConfigurationConsumer } from "./ConfigurationReferences";
+
+export interface IPodVolumeClaim {
+    pod: V1Pod;
+    // the name of the volume in the pod spec
+    volumeName: string;
+    claimName: string;
+    readOnly: boolean;
+    // undefined until the claims are fetched, or when the claim does not exist
+    claim?: V1PersistentVolumeClaim;
+}
+
+const accessModeAbbreviations: { [accessMode: string]: string } = {
+    "ReadWriteOnce": "RWO",
+    "ReadOnlyMany": "ROX",
+    "ReadWriteMany": "RWX",
+    "ReadWriteOncePod": "RWOP"
+};
+
+export class VolumeClaims {
+    /**
+     * Returns the claims mounted by the pods, in the order of the pods and their volumes. The claims of a stateful set are named "<template>-<pod>".
+     */
+    public static getPodVolumeClaims(pods: V1Pod[], claims?: V1PersistentVolumeClaim[]): IPodVolumeClaim[] {
+        const podVolumeClaims: IPodVolumeClaim[] = [];
+        (pods || []).forEach(pod => {
+            VolumeClaims._getClaimVolumes(pod.spec).forEach(volume => {
+                const claimName = volume.persistentVolumeClaim.claimName;
+                podVolumeClaims.push({
+                    pod: pod,
+                    volumeName: volume.name,
+                    claimName: claimName,
+                    readOnly: !!volume.persistentVolumeClaim.readOnly,
+                    claim: (claims || []).find(claim => claim.metadata.name === claimName && claim.metadata.namespace === pod.metadata.namespace)
+                });
+            });
+        });
+
+        return podVolumeClaims;
+    }
+
+    /**
+     * True when pods created from the spec, or by the stateful set, mount claims.
+     */
+    public static hasVolumeClaims(podSpec: V1PodSpec | undefined, statefulSet?: V1StatefulSet): boolean {
+        return VolumeClaims._getClaimVolumes(podSpec).length > 0 || VolumeClaims.getVolumeClaimTemplates(statefulSet).length > 0;
+    }
+
+    public static getVolumeClaimTemplates(statefulSet: V1StatefulSet | undefined): V1PersistentVolumeClaim[] {
+        return statefulSet && statefulSet.spec && statefulSet.spec.volumeClaimTemplates || [];
+    }
+
+    /**
+     * Returns the pods mounting the claim, grouped by the object owning them.
+     */
+    public static getConsumers(pods: V1Pod[], claim: V1PersistentVolumeClaim): IConfigurationConsumer[] {
+        const claimPods = (pods || []).filter(pod => {
+            return pod.metadata.namespace === claim.metadata.namespace
+                && VolumeClaims._getClaimVolumes(pod.spec).some(volume => volume.persistentVolumeClaim.claimName === claim.metadata.name);
+        });
+
+        return ConfigurationReferences.groupByOwner(claimPods);
+    }
+
+    /**
+     * Returns the size of the bound volume, or the requested size while the claim is not bound, e.g. "10Gi".
+     */
+    public static getStorage(claim: V1PersistentVolumeClaim): string {
+        const capacity = claim.status && claim.status.capacity;
+        const requests = claim.spec && claim.spec.resources && claim.spec.resources.requests;
+        return capacity && capacity.storage || requests && requests.storage || "";
+    }
+
+    /**
+     * Returns the access modes in the short form of kubectl, e.g. "RWO, ROX". The modes of the bound volume are used once known.
+     */
+    public static getAccessModesText(claim: V1PersistentVolumeClaim): string {
+        const statusModes = claim.status && claim.status.accessModes;
+        const accessModes = statusModes && statusModes.length > 0 ? statusModes : claim.spec && claim.spec.accessModes || [];
+        return accessModes.map(accessMode => accessModeAbbreviations[accessMode] || accessMode).join(", ");
+    }
+
+    /**
+     * Returns the phase of the claim: Pending, Bound or Lost. Claims being deleted are Terminating, as in kubectl.
+     */
+    public static getPhase(claim: V1PersistentVolumeClaim): string {
+        if (claim.metadata.deletionTimestamp) {
+            return "Terminating";
+        }
+
+        return claim.status && claim.status.phase || "Pending";
+    }
+
+    private static _getClaimVolumes(podSpec: V1PodSpec | undefined) {
+        return (podSpec && podSpec.volumes || []).filter(volume => !!volume.persistentVolumeClaim);
+    }
+}
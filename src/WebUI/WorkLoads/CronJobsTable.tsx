@@ -0,0 +1,174 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1beta1CronJob, V1beta1CronJobList } from "@kubernetes/client-node";
+import { BaseComponent, css } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { Statuses } from "azure-devops-ui/Status";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { WorkloadsEvents } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import * as Resources from "../Resources";
+import { IResourceFetchStatus, IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
+import { WorkloadsStore } from "./WorkloadsStore";
+
+const cronJobNameKey = "cronjob-name-key";
+const namespaceKey = "cronjob-namespace-key";
+const scheduleKey = "cronjob-schedule-key";
+const lastScheduleKey = "cronjob-last-schedule-key";
+const activeJobsKey = "cronjob-active-jobs-key";
+const ageKey = "cronjob-age-key";
+const colDataClassName: string = "list-col-content";
+
+export interface ICronJobsTableProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    namespace?: string;
+    nameFilter?: string;
+    namespaceSelections?: string[];
+}
+
+export interface ICronJobsTableState {
+    cronJobList?: V1beta1CronJobList;
+    fetchStatus: IResourceFetchStatus;
+}
+
+// The jobs a cron job creates are listed in the jobs table, where their pods can be viewed
+export class CronJobsTable extends BaseComponent<ICronJobsTableProperties, ICronJobsTableState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: ICronJobsTableProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, this.context.fluxInstanceId);
+
+        this._actionCreator.getCronJobs(this.props.kubeService, this.props.namespace);
+        this._watch = this._actionCreator.watchCronJobs(this.props.kubeService, this.props.namespace);
+
+        this.state = { cronJobList: this._store.getState().cronJobList, fetchStatus: this._store.getFetchStatus(KubeResourceType.CronJobs) };
+
+        this._store.addListener(WorkloadsEvents.CronJobsFetchedEvent, this._onCronJobsFetched);
+    }
+
+    public render(): React.ReactNode {
+        const filteredItems: V1beta1CronJob[] = (this.state.cronJobList && this.state.cronJobList.items || []).filter(cronJob => {
+            return Utils.filterByName(cronJob.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(cronJob.metadata.namespace, this.props.namespaceSelections);
+        });
+        return (
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.fetchStatus}
+                    resourceName={Resources.CronJobText}
+                    onRetry={this._onRetry}
+                />
+                {
+                    filteredItems.length > 0 &&
+                    <BaseKubeTable
+                        className={css("list-content", "top-padding", "depth-16")}
+                        items={filteredItems}
+                        columns={CronJobsTable._getColumns(Utils.isAllNamespaces(this.props.namespace))}
+                    />
+                }
+            </div>
+        );
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(WorkloadsEvents.CronJobsFetchedEvent, this._onCronJobsFetched);
+        if (this._watch) {
+            this._watch.stop();
+        }
+    }
+
+    private _onCronJobsFetched = (): void => {
+        const storeState = this._store.getState();
+        const fetchStatus = this._store.getFetchStatus(KubeResourceType.CronJobs);
+        // The store keeps the same list and status when a refresh did not change anything
+        if (storeState.cronJobList !== this.state.cronJobList || fetchStatus !== this.state.fetchStatus) {
+            this.setState({
+                cronJobList: storeState.cronJobList,
+                fetchStatus: fetchStatus
+            });
+        }
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.CronJobs, this.props.namespace);
+    }
+
+    private static _getColumns(showNamespace: boolean): ITableColumn<V1beta1CronJob>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<V1beta1CronJob>[] = [
+            { id: cronJobNameKey, name: Resources.CronJobText, minWidth: 250, width: -100, renderCell: CronJobsTable._renderCronJobNameCell }
+        ];
+
+        if (showNamespace) {
+            columns.push({ id: namespaceKey, name: Resources.NamespaceText, minWidth: 120, width: -100, renderCell: CronJobsTable._renderNamespaceCell });
+        }
+
+        columns.push({ id: scheduleKey, name: Resources.ScheduleText, minWidth: 140, width: -100, renderCell: CronJobsTable._renderScheduleCell });
+        columns.push({ id: lastScheduleKey, name: Resources.LastScheduleText, minWidth: 100, width: -100, renderCell: CronJobsTable._renderLastScheduleCell });
+        columns.push({ id: activeJobsKey, name: Resources.ActiveJobsText, minWidth: 100, width: -100, renderCell: CronJobsTable._renderActiveJobsCell });
+        columns.push({ id: ageKey, name: Resources.AgeText, minWidth: 80, width: -100, renderCell: CronJobsTable._renderAgeCell });
+
+        columns.forEach(column => column.headerClassName = headerColumnClassName);
+        return columns;
+    }
+
+    private static _renderCronJobNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1CronJob>, cronJob: V1beta1CronJob): JSX.Element {
+        const itemToRender = BaseKubeTable.renderTwoLineColumn(cronJob.metadata.name, Utils.getPipelineText(cronJob.metadata.annotations), colDataClassName, "primary-text", "secondary-text");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1CronJob>, cronJob: V1beta1CronJob): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(cronJob.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // e.g. "*/5 * * * *", with a note when no further jobs are scheduled
+    private static _renderScheduleCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1CronJob>, cronJob: V1beta1CronJob): JSX.Element {
+        const schedule = cronJob.spec && cronJob.spec.schedule || "";
+        const itemToRender = cronJob.spec && cronJob.spec.suspend
+            ? BaseKubeTable.renderTwoLineColumn(schedule, Resources.SuspendedText, colDataClassName, "primary-text", "secondary-text")
+            : BaseKubeTable.renderColumn(schedule, BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderLastScheduleCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1CronJob>, cronJob: V1beta1CronJob): JSX.Element {
+        const lastScheduleTime = cronJob.status && cronJob.status.lastScheduleTime;
+        const itemToRender = lastScheduleTime ? <Ago date={new Date(lastScheduleTime)} /> : null;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderActiveJobsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1CronJob>, cronJob: V1beta1CronJob): JSX.Element {
+        const activeJobs = cronJob.status && cronJob.status.active || [];
+        const itemToRender = activeJobs.length > 0
+            ? <ResourceStatus statusProps={Statuses.Running} statusDescription={String(activeJobs.length)} toolTipText={activeJobs.map(job => job.name).join(", ")} />
+            : BaseKubeTable.renderColumn("0", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAgeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1beta1CronJob>, cronJob: V1beta1CronJob): JSX.Element {
+        const itemToRender = (<Ago date={new Date(cronJob.metadata.creationTimestamp)} />);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _store: WorkloadsStore;
+    private _actionCreator: WorkloadsActionsCreator;
+    private _watch: IKubeWatch | undefined;
+}
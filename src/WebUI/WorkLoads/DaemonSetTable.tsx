@@ -4,18 +4,22 @@ import { IStatusProps, Status, Statuses, StatusSize } from "azure-devops-ui/Stat
 import * as React from "react";
 import * as Resources from "../Resources";
 import { BaseKubeTable } from "../Common/BaseKubeTable";
-import { IVssComponentProperties } from "../Types";
+import { IVssComponentProperties, IResourceFetchStatus } from "../Types";
 import { Ago } from "azure-devops-ui/Ago";
 import { ITableColumn, SimpleTableCell } from "azure-devops-ui/Table";
 import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
 import { Utils } from "../Utils";
+import { WorkloadHealth } from "../WorkloadHealth";
 import { ResourceStatus } from "../Common/ResourceStatus";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
 import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
 import { WorkloadsStore } from "./WorkloadsStore";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { WorkloadsEvents, SelectedItemKeys } from "../Constants";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
 import { SelectionStore } from "../Selection/SelectionStore";
 import { SelectionActions } from "../Selection/SelectionActions";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
@@ -24,66 +28,95 @@ const setNameKey = "set-name-key";
 const imageKey = "image-key";
 const podsKey = "pods-key";
 const ageKey = "age-key";
+const namespaceKey = "namespace-key";
 const colDataClassName: string = "list-col-content";
 
 export interface IDaemonSetComponentProperties extends IVssComponentProperties {
     kubeService: IKubeService;
+    namespace?: string;
     nameFilter?: string;
+    namespaceSelections?: string[];
 }
 
 export interface IDeploymentsTableState {
     daemonSetList?: V1DaemonSetList;
+    fetchStatus: IResourceFetchStatus;
 }
 
 export class DaemonSetTable extends BaseComponent<IDaemonSetComponentProperties, IDeploymentsTableState> {
-    constructor(props: IDaemonSetComponentProperties) {
-        super(props, {});
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
 
-        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator);
-        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore);
+    constructor(props: IDaemonSetComponentProperties, context: IFluxContext) {
+        super(props, context);
 
-        this._actionCreator.getDaemonSets(this.props.kubeService);
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, this.context.fluxInstanceId);
 
-        this.state = { daemonSetList: undefined };
+        this._actionCreator.getDaemonSets(this.props.kubeService, this.props.namespace);
+        this._watch = this._actionCreator.watchDaemonSets(this.props.kubeService, this.props.namespace);
+
+        this.state = { daemonSetList: this._store.getState().daemonSetList, fetchStatus: this._store.getFetchStatus(KubeResourceType.DaemonSets) };
 
         this._store.addListener(WorkloadsEvents.DaemonSetsFetchedEvent, this._onDaemonSetsFetched);
     }
 
     public render(): React.ReactNode {
         const filteredItems: V1DaemonSet[] = (this.state.daemonSetList && this.state.daemonSetList.items || []).filter((item) => {
-            return Utils.filterByName(item.metadata.name, this.props.nameFilter);
+            return Utils.filterByName(item.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(item.metadata.namespace, this.props.namespaceSelections);
         });
-        if (filteredItems.length > 0) {
-            return (
-                <BaseKubeTable
-                    className={css("list-content", "top-padding", "depth-16")}
-                    items={filteredItems}
-                    columns={DaemonSetTable._getColumns()}
-                    onItemActivated={this._openDaemonSetItem}
+        return (
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.fetchStatus}
+                    resourceName={Resources.DaemonSetText}
+                    onRetry={this._onRetry}
                 />
-            );
-        }
-        return null;
+                {
+                    filteredItems.length > 0 &&
+                    <BaseKubeTable
+                        className={css("list-content", "top-padding", "depth-16")}
+                        items={filteredItems}
+                        columns={DaemonSetTable._getColumns(Utils.isAllNamespaces(this.props.namespace))}
+                        onItemActivated={this._openDaemonSetItem}
+                    />
+                }
+            </div>
+        );
     }
 
     public componentWillUnmount(): void {
         this._store.removeListener(WorkloadsEvents.DaemonSetsFetchedEvent, this._onDaemonSetsFetched);
+        if (this._watch) {
+            this._watch.stop();
+        }
     }
 
     private _onDaemonSetsFetched = (): void => {
         const storeState = this._store.getState();
-        this.setState({
-            daemonSetList: storeState.daemonSetList
-        });
+        const fetchStatus = this._store.getFetchStatus(KubeResourceType.DaemonSets);
+        // The store keeps the same list and status when a refresh did not change anything
+        if (storeState.daemonSetList !== this.state.daemonSetList || fetchStatus !== this.state.fetchStatus) {
+            this.setState({
+                daemonSetList: storeState.daemonSetList,
+                fetchStatus: fetchStatus
+            });
+        }
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.DaemonSets, this.props.namespace);
     }
 
     private _openDaemonSetItem = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: V1DaemonSet) => {
         if (selectedItem) {
-            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.DaemonSetKey });
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.DaemonSetKey });
         }
     }
 
-    private static _getColumns(): ITableColumn<V1DaemonSet>[] {
+    private static _getColumns(showNamespace: boolean): ITableColumn<V1DaemonSet>[] {
         let columns: ITableColumn<V1DaemonSet>[] = [];
         const headerColumnClassName: string = "kube-col-header";
 
@@ -96,6 +129,17 @@ export class DaemonSetTable extends BaseComponent<IDaemonSetComponentProperties,
             renderCell: DaemonSetTable._renderDaemonSetNameCell
         });
 
+        if (showNamespace) {
+            columns.push({
+                id: namespaceKey,
+                name: Resources.NamespaceText,
+                minWidth: 120,
+                width: -100,
+                headerClassName: headerColumnClassName,
+                renderCell: DaemonSetTable._renderNamespaceCell
+            });
+        }
+
         columns.push({
             id: imageKey,
             name: Resources.ImageText,
@@ -131,6 +175,11 @@ export class DaemonSetTable extends BaseComponent<IDaemonSetComponentProperties,
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
     }
 
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1DaemonSet>, daemonSet: V1DaemonSet): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(daemonSet.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
     private static _renderImageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1DaemonSet>, daemonSet: V1DaemonSet): JSX.Element {
         const textToRender = daemonSet.spec.template.spec.containers[0].image;
         const itemToRender = BaseKubeTable.renderColumn(textToRender || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
@@ -138,17 +187,13 @@ export class DaemonSetTable extends BaseComponent<IDaemonSetComponentProperties,
     }
 
     private static _renderPodsCountCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1DaemonSet>, daemonSet: V1DaemonSet): JSX.Element {
-        let statusProps: IStatusProps | undefined;
-        let podString: string = "";
-        if (daemonSet.status.desiredNumberScheduled > 0) {
-            statusProps = Utils._getPodsStatusProps(daemonSet.status.currentNumberScheduled, daemonSet.status.desiredNumberScheduled);
-            podString = format("{0}/{1}", daemonSet.status.currentNumberScheduled, daemonSet.status.desiredNumberScheduled);
-        }
+        const health = WorkloadHealth.getDaemonSetHealth(daemonSet);
 
         const itemToRender = (
             <ResourceStatus
-                statusProps={statusProps}
-                statusDescription={podString}
+                statusProps={Utils.generateWorkloadStatusProps(health.status)}
+                statusDescription={Utils.getWorkloadPodsText(health)}
+                toolTipText={Utils.getWorkloadHealthDescription(health)}
             />
         );
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
@@ -163,4 +208,5 @@ export class DaemonSetTable extends BaseComponent<IDaemonSetComponentProperties,
 
     private _store: WorkloadsStore;
     private _actionCreator: WorkloadsActionsCreator;
+    private _watch: IKubeWatch | undefined;
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Deployment, V1ReplicaSet } from "@kubernetes/client-node";
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { Link } from "azure-devops-ui/Link";
+import * as Date_Utils from "azure-devops-ui/Utilities/Date";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { ResourceFetchStatus, SelectedItemKeys, WorkloadsEvents } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import * as Resources from "../Resources";
+import { SelectionActions } from "../Selection/SelectionActions";
+import { IResourceFetchStatus, IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import { WorkloadHealth } from "../WorkloadHealth";
+import "./DeploymentDetailsView.scss";
+import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
+import { WorkloadsStore } from "./WorkloadsStore";
+
+export interface IDeploymentDetailsViewProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    deployment: V1Deployment;
+}
+
+export interface IDeploymentDetailsViewState {
+    deployment: V1Deployment;
+    // The replica sets of the deployment, latest revision first
+    replicaSets: V1ReplicaSet[];
+    replicaSetsFetchStatus: IResourceFetchStatus;
+}
+
+/**
+ * Shows the rollout history of a deployment, one entry per revision along with the pipeline run which rolled it out.
+ */
+export class DeploymentDetailsView extends BaseComponent<IDeploymentDetailsViewProperties, IDeploymentDetailsViewState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IDeploymentDetailsViewProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, this.context.fluxInstanceId);
+        this.state = this._getStateFromStore();
+
+        this._store.addListener(WorkloadsEvents.ReplicaSetsFetchedEvent, this._onWorkloadsFetched);
+        this._store.addListener(WorkloadsEvents.DeploymentsFetchedEvent, this._onWorkloadsFetched);
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(WorkloadsEvents.ReplicaSetsFetchedEvent, this._onWorkloadsFetched);
+        this._store.removeListener(WorkloadsEvents.DeploymentsFetchedEvent, this._onWorkloadsFetched);
+    }
+
+    public render(): JSX.Element {
+        const metadata = this.state.deployment.metadata;
+        const created = metadata.creationTimestamp ? Date_Utils.ago(new Date(metadata.creationTimestamp), Date_Utils.AgoFormat.Compact) : "";
+        const health = WorkloadHealth.getDeploymentHealth(this.state.deployment);
+        return (
+            <div className="deployment-details-view">
+                <div className="content-main-heading">
+                    <h2 className="title-heading">{metadata.name}</h2>
+                    <div className="sub-heading">{format(Resources.DeploymentCreatedText, created)}</div>
+                    <ResourceStatus
+                        statusProps={Utils.generateWorkloadStatusProps(health.status)}
+                        statusDescription={Utils.getWorkloadHealthDescription(health)}
+                    />
+                </div>
+                <div className="kube-list-content depth-16 deployment-rollout-history">
+                    <h3 className="heading-title">{Resources.RolloutHistoryText}</h3>
+                    <KubeFetchStatusView
+                        fetchStatus={this.state.replicaSetsFetchStatus}
+                        resourceName={Resources.ReplicaSetText}
+                        onRetry={this._onRetry}
+                    />
+                    {this._getTimeline()}
+                </div>
+            </div>
+        );
+    }
+
+    private _getTimeline(): JSX.Element | null {
+        if (this.state.replicaSetsFetchStatus.status !== ResourceFetchStatus.Loaded) {
+            return null;
+        }
+
+        if (this.state.replicaSets.length === 0) {
+            return <div className="secondary-text">{Resources.NoRevisionsText}</div>;
+        }
+
+        const currentRevision = Utils.getRevision(this.state.deployment.metadata);
+        return (
+            <ol className="deployment-timeline">
+                {this.state.replicaSets.map(replicaSet => this._getTimelineEntry(replicaSet, Utils.getRevision(replicaSet.metadata) === currentRevision))}
+            </ol>
+        );
+    }
+
+    private _getTimelineEntry(replicaSet: V1ReplicaSet, isCurrent: boolean): JSX.Element {
+        const metadata = replicaSet.metadata;
+        // The deployment is annotated by the pipeline run which rolled out its current revision
+        const annotations = isCurrent && !Utils.getPipelineText(metadata.annotations) ? this.state.deployment.metadata.annotations : metadata.annotations;
+        const pipelineText = Utils.getPipelineText(annotations);
+        const pipelineRunUrl = Utils.getPipelineRunUrl(annotations);
+        const containers = replicaSet.spec.template.spec && replicaSet.spec.template.spec.containers || [];
+        const health = WorkloadHealth.getReplicaSetHealth(replicaSet);
+        return (
+            <li key={metadata.uid} className={css("deployment-timeline-entry", isCurrent ? "current" : "")}>
+                <div className="deployment-timeline-marker" />
+                <div className="deployment-timeline-content">
+                    <div className="deployment-timeline-heading">
+                        <span className="primary-text">{format(Resources.RevisionText, Utils.getRevision(metadata))}</span>
+                        {isCurrent && <span className="deployment-timeline-current">{Resources.CurrentRevisionText}</span>}
+                        {metadata.creationTimestamp && <span className="secondary-text"><Ago date={new Date(metadata.creationTimestamp)} /></span>}
+                    </div>
+                    <Link className="deployment-timeline-replica-set" onClick={() => this._openReplicaSet(replicaSet)}>{metadata.name}</Link>
+                    <div className="secondary-text">{containers.map(container => container.image).join(", ")}</div>
+                    <ResourceStatus
+                        statusProps={Utils.generateWorkloadStatusProps(health.status)}
+                        statusDescription={format(Resources.ReplicasStatusText, health.readyCount, health.desiredCount)}
+                        toolTipText={Utils.getWorkloadHealthDescription(health)}
+                    />
+                    {
+                        pipelineText &&
+                        <div className="deployment-timeline-pipeline">
+                            <span>{pipelineText}</span>
+                            {pipelineRunUrl && <Link href={pipelineRunUrl} target="_blank" rel="noopener noreferrer">{Resources.ViewPipelineRunText}</Link>}
+                        </div>
+                    }
+                </div>
+            </li>
+        );
+    }
+
+    private _openReplicaSet(replicaSet: V1ReplicaSet): void {
+        ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: replicaSet, showSelectedItem: true, selectedItemType: SelectedItemKeys.ReplicaSetKey });
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.ReplicaSets, this.state.deployment.metadata.namespace);
+    }
+
+    private _onWorkloadsFetched = (): void => {
+        const state = this._getStateFromStore();
+        // The store keeps the same lists when a refresh did not change anything
+        if (state.deployment !== this.state.deployment
+            || state.replicaSetsFetchStatus !== this.state.replicaSetsFetchStatus
+            || state.replicaSets.length !== this.state.replicaSets.length
+            || state.replicaSets.some((replicaSet, index) => replicaSet !== this.state.replicaSets[index])) {
+            this.setState(state);
+        }
+    }
+
+    // The deployment is taken from the store, so that the current revision follows rollouts and rollbacks
+    private _getStateFromStore(): IDeploymentDetailsViewState {
+        const storeState = this._store.getState();
+        const uid = this.props.deployment.metadata.uid;
+        const deployment = (storeState.deploymentList && storeState.deploymentList.items || []).find(item => item.metadata.uid === uid) || this.props.deployment;
+        const replicaSets = (storeState.replicaSetList && storeState.replicaSetList.items || []).filter(replicaSet => Utils.isOwnerMatched(replicaSet.metadata, uid.toLowerCase()));
+        replicaSets.sort((first, second) => DeploymentDetailsView._getRevisionNumber(second) - DeploymentDetailsView._getRevisionNumber(first));
+        return {
+            deployment: deployment,
+            replicaSets: replicaSets,
+            replicaSetsFetchStatus: this._store.getFetchStatus(KubeResourceType.ReplicaSets)
+        };
+    }
+
+    private static _getRevisionNumber(replicaSet: V1ReplicaSet): number {
+        return parseInt(Utils.getRevision(replicaSet.metadata), 10) || 0;
+    }
+
+    private _actionCreator: WorkloadsActionsCreator;
+    private _store: WorkloadsStore;
+}
@@ -8,7 +8,7 @@ import { BaseComponent, css, format } from "@uifabric/utilities";
 import { IStatusProps, Status, Statuses, StatusSize } from "azure-devops-ui/Status";
 import * as React from "react";
 import * as Resources from "../Resources";
-import { IDeploymentReplicaSetItem, IVssComponentProperties, IDeploymentReplicaSetMap } from "../Types";
+import { IDeploymentReplicaSetItem, IVssComponentProperties, IDeploymentReplicaSetMap, IResourceFetchStatus } from "../Types";
 import "./DeploymentsTable.scss";
 import { BaseKubeTable } from "../Common/BaseKubeTable";
 import { LabelGroup, WrappingBehavior } from "azure-devops-ui/Label";
@@ -16,84 +16,162 @@ import { Ago } from "azure-devops-ui/Ago";
 import { ITableColumn, SimpleTableCell } from "azure-devops-ui/Table";
 import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
 import { Utils } from "../Utils";
+import { WorkloadHealth } from "../WorkloadHealth";
 import { ResourceStatus } from "../Common/ResourceStatus";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
 import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
 import { WorkloadsStore } from "./WorkloadsStore";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { WorkloadsEvents, SelectedItemKeys } from "../Constants";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
 import { SelectionStore } from "../Selection/SelectionStore";
 import { SelectionActions } from "../Selection/SelectionActions";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { Button } from "azure-devops-ui/Button";
+import { Link } from "azure-devops-ui/Link";
+import { WorkloadCommand, WorkloadCommandDialog } from "./WorkloadCommandDialog";
+import { RollbackDialog } from "./RollbackDialog";
+import { ReplicaSetDiffPanel } from "./ReplicaSetDiffPanel";
 
 const replicaSetNameKey: string = "replicaSet-col";
 const podsKey: string = "pods-col";
 const imageKey: string = "image-col";
 const ageKey: string = "age-key";
+const namespaceKey: string = "namespace-col";
+const commandsKey: string = "commands-col";
 const colDataClassName: string = "dc-col-data";
 
 export interface IDeploymentsTableProperties extends IVssComponentProperties {
     kubeService: IKubeService;
+    namespace?: string;
     nameFilter?: string;
+    namespaceSelections?: string[];
+    // Offers the commands of the kube service which change the deployments
+    allowMutations?: boolean;
 }
 
 export interface IDeploymentsTableState {
     deploymentList?: V1DeploymentList;
     replicaSetList?: V1ReplicaSetList;
+    deploymentsFetchStatus: IResourceFetchStatus;
+    replicaSetsFetchStatus: IResourceFetchStatus;
+    // The command whose dialog is open, and the deployment it applies to
+    command?: WorkloadCommand;
+    commandDeployment?: V1Deployment;
+    // The replica set whose revision the rollback dialog is open for
+    rollbackReplicaSet?: V1ReplicaSet;
+    // The deployment whose revisions are compared
+    diffDeployment?: V1Deployment;
 }
 
 export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties, IDeploymentsTableState> {
-    constructor(props: IDeploymentsTableProperties) {
-        super(props, {});
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
 
-        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator);
-        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore);
+    constructor(props: IDeploymentsTableProperties, context: IFluxContext) {
+        super(props, context);
 
-        this._actionCreator.getReplicaSets(this.props.kubeService);
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, this.context.fluxInstanceId);
 
-        this.state = { deploymentList: undefined, replicaSetList: undefined };
+        this._actionCreator.getReplicaSets(this.props.kubeService, this.props.namespace);
+        this._watch = this._actionCreator.watchReplicaSets(this.props.kubeService, this.props.namespace);
+
+        // Objects already in the store are shown right away, e.g. when switching back to a cluster
+        const storeState = this._store.getState();
+        this.state = {
+            deploymentList: storeState.deploymentList,
+            replicaSetList: storeState.replicaSetList,
+            deploymentsFetchStatus: this._store.getFetchStatus(KubeResourceType.Deployments),
+            replicaSetsFetchStatus: this._store.getFetchStatus(KubeResourceType.ReplicaSets)
+        };
 
         this._store.addListener(WorkloadsEvents.ReplicaSetsFetchedEvent, this._onReplicaSetsFetched);
+        // Deployments are fetched by the parent component, changes to them arrive later through watch events
+        this._store.addListener(WorkloadsEvents.DeploymentsFetchedEvent, this._onReplicaSetsFetched);
     }
 
     public componentWillUnmount(): void {
         this._store.removeListener(WorkloadsEvents.ReplicaSetsFetchedEvent, this._onReplicaSetsFetched);
+        this._store.removeListener(WorkloadsEvents.DeploymentsFetchedEvent, this._onReplicaSetsFetched);
+        if (this._watch) {
+            this._watch.stop();
+        }
     }
 
     public render(): React.ReactNode {
         const filteredDeployments: V1Deployment[] = (this.state.deploymentList && this.state.deploymentList.items || []).filter((deployment) => {
-            return Utils.filterByName(deployment.metadata.name, this.props.nameFilter);
+            return Utils.filterByName(deployment.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(deployment.metadata.namespace, this.props.namespaceSelections);
         });
 
-        if (filteredDeployments.length > 0) {
-            return (
-                <div>{this._getDeploymentListView(filteredDeployments)}</div>
-            );
-        }
-
-        return null;
+        return (
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.deploymentsFetchStatus}
+                    resourceName={Resources.DeploymentText}
+                    onRetry={this._onRetryDeployments}
+                />
+                {
+                    // replica sets are listed under their deployments, so their status is only relevant once deployments are loaded
+                    filteredDeployments.length > 0 &&
+                    <KubeFetchStatusView
+                        className="top-padding"
+                        fetchStatus={this.state.replicaSetsFetchStatus}
+                        resourceName={Resources.ReplicaSetText}
+                        onRetry={this._onRetryReplicaSets}
+                    />
+                }
+                {filteredDeployments.length > 0 && this._getDeploymentListView(filteredDeployments)}
+                {this._getCommandDialog()}
+                {this._getRollbackDialog()}
+                {this._getDiffPanel(filteredDeployments)}
+            </div>
+        );
     }
 
     // Deployments have already been populated in store by KubeSummary parent component
     private _onReplicaSetsFetched = (): void => {
         const storeState = this._store.getState();
-        this.setState({
-            deploymentList: storeState.deploymentList,
-            replicaSetList: storeState.replicaSetList
-        });
+        const deploymentsFetchStatus = this._store.getFetchStatus(KubeResourceType.Deployments);
+        const replicaSetsFetchStatus = this._store.getFetchStatus(KubeResourceType.ReplicaSets);
+        // The store keeps the same lists and statuses when a refresh did not change anything
+        if (storeState.deploymentList !== this.state.deploymentList
+            || storeState.replicaSetList !== this.state.replicaSetList
+            || deploymentsFetchStatus !== this.state.deploymentsFetchStatus
+            || replicaSetsFetchStatus !== this.state.replicaSetsFetchStatus) {
+            this.setState({
+                deploymentList: storeState.deploymentList,
+                replicaSetList: storeState.replicaSetList,
+                deploymentsFetchStatus: deploymentsFetchStatus,
+                replicaSetsFetchStatus: replicaSetsFetchStatus
+            });
+        }
+    }
+
+    private _onRetryDeployments = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.Deployments, this.props.namespace);
+    }
+
+    private _onRetryReplicaSets = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.ReplicaSets, this.props.namespace);
     }
 
     private _getDeploymentListView(filteredDeployments: V1Deployment[]) {
         let renderList: JSX.Element[] = [];
+        const columns = this._getColumns();
         DeploymentsTable._generateDeploymentReplicaSetMap(filteredDeployments, this.state.replicaSetList).forEach((entry, index) => {
             let columnClassName = css("list-content", "depth-16", index > 0 ? "replica-with-pod-list" : "");
             renderList.push(<BaseKubeTable
                 key={format("dep-{0}", index)}
                 className={columnClassName}
-                headingContent={DeploymentsTable._getHeadingContent(entry.deployment)}
+                headingContent={this._getHeadingContent(entry.deployment, entry.replicaSets)}
                 items={DeploymentsTable._getDeploymentReplicaSetItems(entry.deployment, entry.replicaSets)}
-                columns={DeploymentsTable._getColumns()}
+                columns={columns}
                 onItemActivated={this._openDeploymentItem}
             />);
         });
@@ -136,6 +214,9 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
         const annotations: {
             [key: string]: string;
         } = index === 0 ? deployment.metadata.annotations : replica.metadata.annotations;
+        const isCurrentRevision = Utils.getRevision(replica.metadata) === Utils.getRevision(deployment.metadata);
+        // the rollout conditions of the deployment are about its current replica set
+        const health = isCurrentRevision ? WorkloadHealth.getDeploymentHealth(deployment) : WorkloadHealth.getReplicaSetHealth(replica);
 
         return {
             name: index > 0 ? "" : deployment.metadata.name,
@@ -143,15 +224,18 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
             replicaSetId: replica.metadata.uid,
             replicaSetName: replica.metadata.name,
             pipeline: Utils.getPipelineText(annotations),
-            // todo :: how to find error in replicaSet
-            pods: DeploymentsTable._getPodsText(replica.status.availableReplicas, replica.status.replicas),
-            statusProps: DeploymentsTable._getPodsStatusProps(replica.status.availableReplicas, replica.status.replicas),
+            pods: Utils.getWorkloadPodsText(health),
+            statusProps: Utils.generateWorkloadStatusProps(health.status),
+            statusDescription: Utils.getWorkloadHealthDescription(health),
             showRowBorder: (replicaSetLength === (index + 1)),
             deployment: deployment,
             //todo :: should we show all images of all containers in a replica set?
             image: replica.spec.template.spec.containers[0].image,
             creationTimeStamp: replica.metadata.creationTimestamp,
-            kind: replica.kind || "ReplicaSet"
+            kind: replica.kind || "ReplicaSet",
+            revision: Utils.getRevision(replica.metadata),
+            // the current replica set has the revision of its deployment, which is not necessarily the newest one after a rollback
+            isCurrentRevision: isCurrentRevision
         };
     }
 
@@ -166,24 +250,43 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
             && replica.metadata.ownerReferences[0].uid.toLowerCase() === deployment.metadata.uid.toLowerCase();
     }
 
-    private static _getPodsText(availableReplicas: number, replicas: number): string {
-        if (replicas != null && availableReplicas != null && replicas > 0) {
-            return format("{0}/{1}", availableReplicas, replicas);
-        }
 
-        return "";
-    }
 
-    private static _getPodsStatusProps(availableReplicas: number, replicas: number): IStatusProps | undefined {
-        if (replicas != null && availableReplicas != null && replicas > 0) {
-            return availableReplicas < replicas ? Statuses.Running : Statuses.Success;
+    private _getColumns(): ITableColumn<IDeploymentReplicaSetItem>[] {
+        const columns = DeploymentsTable._getDataColumns(Utils.isAllNamespaces(this.props.namespace));
+        if (this.props.allowMutations && this.props.kubeService.rollbackDeployment) {
+            columns.push({
+                id: commandsKey,
+                name: Resources.CommandsText,
+                minWidth: 120,
+                width: -60,
+                headerClassName: "kube-col-header",
+                className: "list-col-content",
+                renderCell: this._renderCommandsCell
+            });
         }
 
-        return undefined;
+        return columns;
     }
 
+    // Only the earlier revisions can be rolled back to
+    private _renderCommandsCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IDeploymentReplicaSetItem>, item: IDeploymentReplicaSetItem): JSX.Element => {
+        const itemToRender = item.revision && !item.isCurrentRevision ?
+            <Button
+                text={Resources.RollbackText}
+                tooltipProps={{ text: format(Resources.RevisionText, item.revision) }}
+                iconProps={{ iconName: "Undo" }}
+                subtle={true}
+                onClick={(event: React.SyntheticEvent<HTMLElement>) => {
+                    // The row is not activated by the command
+                    event.stopPropagation();
+                    this.setState({ rollbackReplicaSet: this._getSelectedReplicaSet(item) || undefined });
+                }}
+            /> : null;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
 
-    private static _getColumns(): ITableColumn<IDeploymentReplicaSetItem>[] {
+    private static _getDataColumns(showNamespace: boolean): ITableColumn<IDeploymentReplicaSetItem>[] {
         let columns: ITableColumn<IDeploymentReplicaSetItem>[] = [];
         const headerColumnClassName: string = "kube-col-header";
         const columnContentClassname: string = "list-col-content";
@@ -196,6 +299,17 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
             className: columnContentClassname,
             renderCell: DeploymentsTable._renderReplicaSetNameCell
         });
+        if (showNamespace) {
+            columns.push({
+                id: namespaceKey,
+                name: Resources.NamespaceText,
+                minWidth: 120,
+                width: -100,
+                headerClassName: headerColumnClassName,
+                className: columnContentClassname,
+                renderCell: DeploymentsTable._renderNamespaceCell
+            });
+        }
         columns.push({
             id: imageKey,
             name: Resources.ImageText,
@@ -233,11 +347,18 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
     }
 
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IDeploymentReplicaSetItem>, deployment: IDeploymentReplicaSetItem): JSX.Element {
+        const textToRender: string | undefined = deployment.deployment && deployment.deployment.metadata.namespace;
+        const itemToRender = BaseKubeTable.renderColumn(textToRender || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
     private static _renderPodsCountCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<IDeploymentReplicaSetItem>, deployment: IDeploymentReplicaSetItem): JSX.Element {
         const itemToRender = (
             <ResourceStatus
                 statusProps={deployment.statusProps}
                 statusDescription={deployment.pods}
+                toolTipText={deployment.statusDescription}
             />);
 
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
@@ -255,10 +376,40 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
     }
 
-    private static _getHeadingContent(deployment: V1Deployment): JSX.Element {
+    private _getHeadingContent(deployment: V1Deployment, replicaSets: V1ReplicaSet[]): JSX.Element {
+        const commands = WorkloadCommandDialog.getCommands(this.props.kubeService, this.props.allowMutations);
+        // revisions can be compared once the deployment has rolled out more than one replica set
+        const canCompare = replicaSets.length > 1;
         return (
             <div>
-                <h3>{deployment.metadata.name}</h3>
+                <div className="kube-flex-row deployment-heading-row">
+                    <h3>
+                        <Link className="deployment-name-link" onClick={() => this._openDeployment(deployment)}>{deployment.metadata.name}</Link>
+                    </h3>
+                    {
+                        (commands.length > 0 || canCompare) &&
+                        <div className="deployment-commands">
+                            {
+                                canCompare &&
+                                <Button
+                                    text={Resources.CompareRevisionsText}
+                                    iconProps={{ iconName: "BranchCompare" }}
+                                    subtle={true}
+                                    onClick={() => this.setState({ diffDeployment: deployment })}
+                                />
+                            }
+                            {commands.map(command => (
+                                <Button
+                                    key={command}
+                                    text={WorkloadCommandDialog.getCommandText(command)}
+                                    iconProps={{ iconName: WorkloadCommandDialog.getCommandIconName(command) }}
+                                    subtle={true}
+                                    onClick={() => this.setState({ command: command, commandDeployment: deployment })}
+                                />
+                            ))}
+                        </div>
+                    }
+                </div>
                 <div className="kube-flex-row">
                     <span className="secondary-text kind-tag"> {Resources.DeploymentText} </span>
                     <LabelGroup labelProps={Utils.getUILabelModelArray(deployment.metadata.labels)}
@@ -270,10 +421,83 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
         );
     }
 
+    private _getCommandDialog(): JSX.Element | null {
+        const deployment = this.state.commandDeployment;
+        if (!this.state.command || !deployment) {
+            return null;
+        }
+
+        return (
+            <WorkloadCommandDialog
+                kubeService={this.props.kubeService}
+                command={this.state.command}
+                resourceType={KubeResourceType.Deployments}
+                kind={Resources.DeploymentText}
+                metadata={deployment.metadata}
+                replicas={deployment.spec.replicas}
+                namespace={this.props.namespace}
+                onDismiss={this._onCommandDialogDismissed}
+            />
+        );
+    }
+
+    private _getRollbackDialog(): JSX.Element | null {
+        const replicaSet = this.state.rollbackReplicaSet;
+        const deployments = this.state.deploymentList && this.state.deploymentList.items || [];
+        const deployment = replicaSet && deployments.find(item => DeploymentsTable._isReplicaSetForDeployment(item, replicaSet));
+        if (!replicaSet || !deployment) {
+            return null;
+        }
+
+        return (
+            <RollbackDialog
+                kubeService={this.props.kubeService}
+                deployment={deployment}
+                replicaSet={replicaSet}
+                namespace={this.props.namespace}
+                onDismiss={this._onRollbackDialogDismissed}
+            />
+        );
+    }
+
+    private _getDiffPanel(filteredDeployments: V1Deployment[]): JSX.Element | null {
+        const diffDeployment = this.state.diffDeployment;
+        const entry = diffDeployment && DeploymentsTable._generateDeploymentReplicaSetMap(filteredDeployments, this.state.replicaSetList)
+            .find(item => item.deployment.metadata.uid === diffDeployment.metadata.uid);
+        if (!entry) {
+            return null;
+        }
+
+        return (
+            <ReplicaSetDiffPanel
+                deployment={entry.deployment}
+                replicaSets={entry.replicaSets}
+                onDismiss={this._onDiffPanelDismissed}
+            />
+        );
+    }
+
+    private _onDiffPanelDismissed = (): void => {
+        this.setState({ diffDeployment: undefined });
+    }
+
+    private _onRollbackDialogDismissed = (): void => {
+        this.setState({ rollbackReplicaSet: undefined });
+    }
+
+    private _onCommandDialogDismissed = (): void => {
+        this.setState({ command: undefined, commandDeployment: undefined });
+    }
+
+    // The deployment view shows the rollout history, the replica set rows show the pods of a revision
+    private _openDeployment(deployment: V1Deployment): void {
+        ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: deployment, showSelectedItem: true, selectedItemType: SelectedItemKeys.DeploymentKey });
+    }
+
     private _openDeploymentItem = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: IDeploymentReplicaSetItem) => {
         const selectedReplicaSet = this._getSelectedReplicaSet(selectedItem);
         if (selectedReplicaSet) {
-            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions).selectItem.invoke({ item: selectedReplicaSet, showSelectedItem: true, selectedItemType: SelectedItemKeys.ReplicaSetKey });
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedReplicaSet, showSelectedItem: true, selectedItemType: SelectedItemKeys.ReplicaSetKey });
         }
     }
 
@@ -295,4 +519,5 @@ export class DeploymentsTable extends BaseComponent<IDeploymentsTableProperties,
 
     private _store: WorkloadsStore;
     private _actionCreator: WorkloadsActionsCreator;
+    private _watch: IKubeWatch | undefined;
 }
@@ -0,0 +1,190 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Job, V1JobList, V1JobStatus } from "@kubernetes/client-node";
+import { BaseComponent, css, format } from "@uifabric/utilities";
+import { Ago } from "azure-devops-ui/Ago";
+import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
+import { Duration } from "azure-devops-ui/Duration";
+import { ITableColumn } from "azure-devops-ui/Table";
+import * as React from "react";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
+import { ResourceStatus } from "../Common/ResourceStatus";
+import { SelectedItemKeys, WorkloadsEvents } from "../Constants";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import { StoreManager } from "../FluxCommon/StoreManager";
+import * as Resources from "../Resources";
+import { SelectionActions } from "../Selection/SelectionActions";
+import { IResourceFetchStatus, IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import { WorkloadHealth } from "../WorkloadHealth";
+import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
+import { WorkloadsStore } from "./WorkloadsStore";
+
+const jobNameKey = "job-name-key";
+const namespaceKey = "job-namespace-key";
+const imageKey = "job-image-key";
+const completionsKey = "job-completions-key";
+const durationKey = "job-duration-key";
+const ageKey = "job-age-key";
+const colDataClassName: string = "list-col-content";
+
+export interface IJobsTableProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    namespace?: string;
+    nameFilter?: string;
+    namespaceSelections?: string[];
+}
+
+export interface IJobsTableState {
+    jobList?: V1JobList;
+    fetchStatus: IResourceFetchStatus;
+}
+
+export class JobsTable extends BaseComponent<IJobsTableProperties, IJobsTableState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IJobsTableProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, this.context.fluxInstanceId);
+
+        this._actionCreator.getJobs(this.props.kubeService, this.props.namespace);
+        this._watch = this._actionCreator.watchJobs(this.props.kubeService, this.props.namespace);
+
+        this.state = { jobList: this._store.getState().jobList, fetchStatus: this._store.getFetchStatus(KubeResourceType.Jobs) };
+
+        this._store.addListener(WorkloadsEvents.JobsFetchedEvent, this._onJobsFetched);
+    }
+
+    public render(): React.ReactNode {
+        const filteredItems: V1Job[] = (this.state.jobList && this.state.jobList.items || []).filter(job => {
+            return Utils.filterByName(job.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(job.metadata.namespace, this.props.namespaceSelections);
+        });
+        return (
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.fetchStatus}
+                    resourceName={Resources.JobText}
+                    onRetry={this._onRetry}
+                />
+                {
+                    filteredItems.length > 0 &&
+                    <BaseKubeTable
+                        className={css("list-content", "top-padding", "depth-16")}
+                        items={filteredItems}
+                        columns={JobsTable._getColumns(Utils.isAllNamespaces(this.props.namespace))}
+                        onItemActivated={this._openJob}
+                    />
+                }
+            </div>
+        );
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(WorkloadsEvents.JobsFetchedEvent, this._onJobsFetched);
+        if (this._watch) {
+            this._watch.stop();
+        }
+    }
+
+    private _onJobsFetched = (): void => {
+        const storeState = this._store.getState();
+        const fetchStatus = this._store.getFetchStatus(KubeResourceType.Jobs);
+        // The store keeps the same list and status when a refresh did not change anything
+        if (storeState.jobList !== this.state.jobList || fetchStatus !== this.state.fetchStatus) {
+            this.setState({
+                jobList: storeState.jobList,
+                fetchStatus: fetchStatus
+            });
+        }
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.Jobs, this.props.namespace);
+    }
+
+    private _openJob = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: V1Job) => {
+        if (selectedItem) {
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.JobKey });
+        }
+    }
+
+    private static _getColumns(showNamespace: boolean): ITableColumn<V1Job>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columns: ITableColumn<V1Job>[] = [
+            { id: jobNameKey, name: Resources.JobText, minWidth: 250, width: -100, renderCell: JobsTable._renderJobNameCell }
+        ];
+
+        if (showNamespace) {
+            columns.push({ id: namespaceKey, name: Resources.NamespaceText, minWidth: 120, width: -100, renderCell: JobsTable._renderNamespaceCell });
+        }
+
+        columns.push({ id: imageKey, name: Resources.ImageText, minWidth: 250, width: -100, renderCell: JobsTable._renderImageCell });
+        columns.push({ id: completionsKey, name: Resources.CompletionsText, minWidth: 100, width: -100, renderCell: JobsTable._renderCompletionsCell });
+        columns.push({ id: durationKey, name: Resources.DurationText, minWidth: 80, width: -100, renderCell: JobsTable._renderDurationCell });
+        columns.push({ id: ageKey, name: Resources.AgeText, minWidth: 80, width: -100, renderCell: JobsTable._renderAgeCell });
+
+        columns.forEach(column => column.headerClassName = headerColumnClassName);
+        return columns;
+    }
+
+    // Jobs created by a cron job are named after it, which is shown when no pipeline deployed the job
+    private static _renderJobNameCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Job>, job: V1Job): JSX.Element {
+        const cronJob = (job.metadata.ownerReferences || []).find(owner => owner.kind === "CronJob");
+        const subText = Utils.getPipelineText(job.metadata.annotations) || (cronJob ? format("{0}: {1}", Resources.CronJobText, cronJob.name) : "");
+        const itemToRender = BaseKubeTable.renderTwoLineColumn(job.metadata.name, subText, colDataClassName, "primary-text", "secondary-text");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Job>, job: V1Job): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(job.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderImageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Job>, job: V1Job): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(Utils.getPodImageName(job.spec.template) || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderCompletionsCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Job>, job: V1Job): JSX.Element {
+        const health = WorkloadHealth.getJobHealth(job);
+        const itemToRender = (
+            <ResourceStatus
+                statusProps={Utils.generateWorkloadStatusProps(health.status)}
+                statusDescription={Utils.getWorkloadPodsText(health)}
+                toolTipText={Utils.getWorkloadHealthDescription(health, "Job")}
+            />
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    // A running job counts up to now, a failed job has no completion time and ends when it was marked as failed
+    private static _renderDurationCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Job>, job: V1Job): JSX.Element {
+        const status = job.status || {} as V1JobStatus;
+        const failed = (status.conditions || []).find(condition => condition.type === "Failed" && condition.status === "True");
+        const endTime = status.completionTime || failed && failed.lastTransitionTime;
+        const itemToRender = status.startTime ? <Duration startDate={new Date(status.startTime)} endDate={endTime ? new Date(endTime) : undefined} /> : null;
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderAgeCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1Job>, job: V1Job): JSX.Element {
+        const itemToRender = (<Ago date={new Date(job.metadata.creationTimestamp)} />);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _store: WorkloadsStore;
+    private _actionCreator: WorkloadsActionsCreator;
+    private _watch: IKubeWatch | undefined;
+}
@@ -0,0 +1,154 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Deployment, V1ReplicaSet } from "@kubernetes/client-node";
+import { BaseComponent, format } from "@uifabric/utilities";
+import { ContentSize } from "azure-devops-ui/Callout";
+import { Panel } from "azure-devops-ui/Panel";
+import { ITableColumn } from "azure-devops-ui/Table";
+import { Dropdown, IDropdownOption } from "office-ui-fabric-react/lib/Dropdown";
+import * as React from "react";
+import { BaseKubeTable } from "../Common/BaseKubeTable";
+import { ITemplateChange, PodTemplateDiff, TemplateChangeCategory } from "../PodTemplateDiff";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import "./ReplicaSetDiffPanel.scss";
+
+const categoryNames: { [category: string]: string } = {
+    [TemplateChangeCategory.Images]: Resources.ImagesText,
+    [TemplateChangeCategory.Environment]: Resources.EnvironmentText,
+    [TemplateChangeCategory.Resources]: Resources.ResourcesText,
+    [TemplateChangeCategory.Probes]: Resources.ProbesText,
+    [TemplateChangeCategory.Volumes]: Resources.VolumesText,
+    [TemplateChangeCategory.Labels]: Resources.LabelsText,
+    [TemplateChangeCategory.Other]: Resources.OtherChangesText
+};
+
+export interface IReplicaSetDiffPanelProperties extends IVssComponentProperties {
+    deployment: V1Deployment;
+    // The replica sets of the deployment, newest first
+    replicaSets: V1ReplicaSet[];
+    onDismiss: () => void;
+}
+
+export interface IReplicaSetDiffPanelState {
+    oldReplicaSetUid: string;
+    newReplicaSetUid: string;
+}
+
+/**
+ * Shows the changes to the pod template between two revisions of a deployment, by default those of its two latest replica sets.
+ */
+export class ReplicaSetDiffPanel extends BaseComponent<IReplicaSetDiffPanelProperties, IReplicaSetDiffPanelState> {
+    constructor(props: IReplicaSetDiffPanelProperties) {
+        super(props, {});
+
+        const replicaSets = this.props.replicaSets;
+        this.state = {
+            oldReplicaSetUid: replicaSets.length > 1 ? replicaSets[1].metadata.uid : "",
+            newReplicaSetUid: replicaSets.length > 0 ? replicaSets[0].metadata.uid : ""
+        };
+    }
+
+    public render(): JSX.Element {
+        const options: IDropdownOption[] = this.props.replicaSets.map(replicaSet => ({
+            key: replicaSet.metadata.uid,
+            text: format(Resources.RevisionOptionText, Utils.getRevision(replicaSet.metadata), replicaSet.metadata.name)
+        }));
+
+        return (
+            <Panel
+                onDismiss={this.props.onDismiss}
+                titleProps={{ text: this.props.deployment.metadata.name }}
+                description={Resources.CompareRevisionsText}
+                size={ContentSize.Large}>
+                <div className="replica-set-diff-panel">
+                    <div className="replica-set-diff-pickers">
+                        <Dropdown
+                            className="replica-set-diff-picker"
+                            label={Resources.FromRevisionText}
+                            options={options}
+                            selectedKey={this.state.oldReplicaSetUid}
+                            onChanged={this._onOldReplicaSetChanged}
+                        />
+                        <Dropdown
+                            className="replica-set-diff-picker"
+                            label={Resources.ToRevisionText}
+                            options={options}
+                            selectedKey={this.state.newReplicaSetUid}
+                            onChanged={this._onNewReplicaSetChanged}
+                        />
+                    </div>
+                    {this._getChanges()}
+                </div>
+            </Panel>
+        );
+    }
+
+    private _getChanges(): JSX.Element | JSX.Element[] | null {
+        const oldReplicaSet = this._findReplicaSet(this.state.oldReplicaSetUid);
+        const newReplicaSet = this._findReplicaSet(this.state.newReplicaSetUid);
+        if (!oldReplicaSet || !newReplicaSet) {
+            return null;
+        }
+
+        const changes = PodTemplateDiff.getChanges(oldReplicaSet.spec.template, newReplicaSet.spec.template);
+        if (changes.length === 0) {
+            return <div className="secondary-text">{Resources.NoTemplateChangesText}</div>;
+        }
+
+        const columns = ReplicaSetDiffPanel._getColumns();
+        return Object.keys(categoryNames)
+            .map(category => ({ category: category, changes: changes.filter(change => change.category === category) }))
+            .filter(group => group.changes.length > 0)
+            .map(group => (
+                <BaseKubeTable
+                    key={group.category}
+                    className="replica-set-diff-category depth-16"
+                    headingText={categoryNames[group.category]}
+                    items={group.changes}
+                    columns={columns}
+                />
+            ));
+    }
+
+    private _findReplicaSet(uid: string): V1ReplicaSet | undefined {
+        return this.props.replicaSets.find(replicaSet => replicaSet.metadata.uid === uid);
+    }
+
+    private _onOldReplicaSetChanged = (option: IDropdownOption): void => {
+        this.setState({ oldReplicaSetUid: option.key as string });
+    }
+
+    private _onNewReplicaSetChanged = (option: IDropdownOption): void => {
+        this.setState({ newReplicaSetUid: option.key as string });
+    }
+
+    private static _getColumns(): ITableColumn<ITemplateChange>[] {
+        const headerColumnClassName: string = "kube-col-header";
+        const columnContentClassname: string = "list-col-content";
+        return [
+            { id: "field", name: Resources.FieldText, minWidth: 200, width: -40, renderCell: ReplicaSetDiffPanel._renderPathCell },
+            { id: "old", name: Resources.OldValueText, minWidth: 150, width: -30, renderCell: ReplicaSetDiffPanel._renderOldValueCell },
+            { id: "new", name: Resources.NewValueText, minWidth: 150, width: -30, renderCell: ReplicaSetDiffPanel._renderNewValueCell }
+        ].map(column => ({ ...column, headerClassName: headerColumnClassName, className: columnContentClassname }));
+    }
+
+    private static _renderPathCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<ITemplateChange>, change: ITemplateChange): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(change.path, BaseKubeTable.defaultColumnRenderer);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderOldValueCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<ITemplateChange>, change: ITemplateChange): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(change.oldValue || "", BaseKubeTable.defaultColumnRenderer, "replica-set-diff-removed");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private static _renderNewValueCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<ITemplateChange>, change: ITemplateChange): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(change.newValue || "", BaseKubeTable.defaultColumnRenderer, "replica-set-diff-added");
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+}
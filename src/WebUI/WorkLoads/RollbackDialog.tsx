@@ -0,0 +1,65 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1Deployment, V1ReplicaSet } from "@kubernetes/client-node";
+import { BaseComponent, format } from "@uifabric/utilities";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { KubeConfirmDialog } from "../Common/KubeConfirmDialog";
+import { KubeYamlDiffView } from "../Common/KubeYamlDiffView";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { Utils } from "../Utils";
+import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
+
+export interface IRollbackDialogProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    deployment: V1Deployment;
+    // The replica set of the revision the deployment is rolled back to
+    replicaSet: V1ReplicaSet;
+    // The namespace whose deployments are listed, they are fetched again once rolled back
+    namespace?: string;
+    onDismiss: () => void;
+}
+
+/**
+ * Previews the change of the pod template before the deployment is rolled back.
+ */
+export class RollbackDialog extends BaseComponent<IRollbackDialogProperties> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IRollbackDialogProperties, context: IFluxContext) {
+        super(props, context);
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+    }
+
+    public render(): JSX.Element {
+        const deploymentName = this.props.deployment.metadata.name;
+        const replicaSetName = this.props.replicaSet.metadata.name;
+        return (
+            <KubeConfirmDialog
+                title={format(Resources.RollbackTitleText, deploymentName, Utils.getRevision(this.props.replicaSet.metadata))}
+                description={format(Resources.RollbackDescriptionText, deploymentName, replicaSetName)}
+                confirmText={Resources.RollbackText}
+                isWide={true}
+                onConfirm={this._onRollback}
+                onDismiss={this.props.onDismiss}>
+                <KubeYamlDiffView
+                    oldObject={this.props.deployment.spec.template}
+                    newObject={Utils.getRollbackTemplate(this.props.replicaSet)}
+                />
+            </KubeConfirmDialog>
+        );
+    }
+
+    private _onRollback = (): Promise<void> => {
+        return this._actionCreator.rollbackDeployment(this.props.kubeService, this.props.deployment, this.props.replicaSet, this.props.namespace);
+    }
+
+    private _actionCreator: WorkloadsActionsCreator;
+}
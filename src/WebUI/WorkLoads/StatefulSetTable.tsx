@@ -4,86 +4,190 @@ import { IStatusProps, Status, Statuses, StatusSize } from "azure-devops-ui/Stat
 import * as React from "react";
 import * as Resources from "../Resources";
 import { BaseKubeTable } from "../Common/BaseKubeTable";
-import { IVssComponentProperties } from "../Types";
+import { IVssComponentProperties, IResourceFetchStatus } from "../Types";
 import { Ago } from "azure-devops-ui/Ago";
 import { ITableColumn, SimpleTableCell } from "azure-devops-ui/Table";
 import { ITableRow } from "azure-devops-ui/Components/Table/Table.Props";
 import { Utils } from "../Utils";
+import { WorkloadHealth } from "../WorkloadHealth";
 import { ResourceStatus } from "../Common/ResourceStatus";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
 import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
 import { WorkloadsStore } from "./WorkloadsStore";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { WorkloadsEvents, SelectedItemKeys } from "../Constants";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
 import { SelectionStore } from "../Selection/SelectionStore";
 import { SelectionActions } from "../Selection/SelectionActions";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
+import { Button } from "azure-devops-ui/Button";
+import { WorkloadCommand, WorkloadCommandDialog } from "./WorkloadCommandDialog";
 
 const setNameKey = "statefulset-name-key";
 const imageKey = "statefulset-image-key";
 const podsKey = "statefulset-pods-key";
 const ageKey = "statefulset-age-key";
+const namespaceKey = "statefulset-namespace-key";
+const commandsKey = "statefulset-commands-key";
 const colDataClassName: string = "list-col-content";
 
 export interface IStatefulSetTableProperties extends IVssComponentProperties {
     kubeService: IKubeService;
+    namespace?: string;
     nameFilter?: string;
+    namespaceSelections?: string[];
+    // Offers the commands of the kube service which change the stateful sets
+    allowMutations?: boolean;
 }
 
 export interface IStatefulSetTableState {
     statefulSetList?: V1StatefulSetList;
+    fetchStatus: IResourceFetchStatus;
+    // The command whose dialog is open, and the stateful set it applies to
+    command?: WorkloadCommand;
+    commandStatefulSet?: V1StatefulSet;
 }
 
 export class StatefulSetTable extends BaseComponent<IStatefulSetTableProperties, IStatefulSetTableState> {
-    constructor(props: IStatefulSetTableProperties) {
-        super(props, {});
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
 
-        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator);
-        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore);
+    constructor(props: IStatefulSetTableProperties, context: IFluxContext) {
+        super(props, context);
 
-        this._actionCreator.getStatefulSets(this.props.kubeService);
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+        this._store = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, this.context.fluxInstanceId);
 
-        this.state = { statefulSetList: undefined };
+        this._actionCreator.getStatefulSets(this.props.kubeService, this.props.namespace);
+        this._watch = this._actionCreator.watchStatefulSets(this.props.kubeService, this.props.namespace);
+
+        this.state = { statefulSetList: this._store.getState().statefulSetList, fetchStatus: this._store.getFetchStatus(KubeResourceType.StatefulSets) };
 
         this._store.addListener(WorkloadsEvents.StatefulSetsFetchedEvent, this._onStatefulSetsFetched);
     }
 
     public render(): React.ReactNode {
         const filteredSet: V1StatefulSet[] = (this.state.statefulSetList && this.state.statefulSetList.items || []).filter((set) => {
-            return Utils.filterByName(set.metadata.name, this.props.nameFilter);
+            return Utils.filterByName(set.metadata.name, this.props.nameFilter)
+                && Utils.filterByNamespace(set.metadata.namespace, this.props.namespaceSelections);
         });
-        if (filteredSet.length > 0) {
-            return (
-                <BaseKubeTable
-                    className={css("list-content", "top-padding", "depth-16")}
-                    items={filteredSet}
-                    columns={StatefulSetTable._getColumns()}
-                    onItemActivated={this._openStatefulSetItem}
+        return (
+            <div>
+                <KubeFetchStatusView
+                    className="top-padding"
+                    fetchStatus={this.state.fetchStatus}
+                    resourceName={Resources.StatefulSetText}
+                    onRetry={this._onRetry}
                 />
-            );
-        }
-        return null;
+                {
+                    filteredSet.length > 0 &&
+                    <BaseKubeTable
+                        className={css("list-content", "top-padding", "depth-16")}
+                        items={filteredSet}
+                        columns={this._getColumns()}
+                        onItemActivated={this._openStatefulSetItem}
+                    />
+                }
+                {this._getCommandDialog()}
+            </div>
+        );
     }
 
     public componentWillUnmount(): void {
         this._store.removeListener(WorkloadsEvents.StatefulSetsFetchedEvent, this._onStatefulSetsFetched);
+        if (this._watch) {
+            this._watch.stop();
+        }
     }
 
     private _onStatefulSetsFetched = (): void => {
         const storeState = this._store.getState();
-        this.setState({
-            statefulSetList: storeState.statefulSetList
-        });
+        const fetchStatus = this._store.getFetchStatus(KubeResourceType.StatefulSets);
+        // The store keeps the same list and status when a refresh did not change anything
+        if (storeState.statefulSetList !== this.state.statefulSetList || fetchStatus !== this.state.fetchStatus) {
+            this.setState({
+                statefulSetList: storeState.statefulSetList,
+                fetchStatus: fetchStatus
+            });
+        }
+    }
+
+    private _onRetry = (): void => {
+        this._actionCreator.retry(this.props.kubeService, KubeResourceType.StatefulSets, this.props.namespace);
     }
 
     private _openStatefulSetItem = (event: React.SyntheticEvent<HTMLElement>, tableRow: ITableRow<any>, selectedItem: V1StatefulSet) => {
         if (selectedItem) {
-            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.StatefulSetKey });
+            ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions, this.context.fluxInstanceId).selectItem.invoke({ item: selectedItem, showSelectedItem: true, selectedItemType: SelectedItemKeys.StatefulSetKey });
+        }
+    }
+
+    private _getCommandDialog(): JSX.Element | null {
+        const statefulSet = this.state.commandStatefulSet;
+        if (!this.state.command || !statefulSet) {
+            return null;
+        }
+
+        return (
+            <WorkloadCommandDialog
+                kubeService={this.props.kubeService}
+                command={this.state.command}
+                resourceType={KubeResourceType.StatefulSets}
+                kind={Resources.StatefulSetText}
+                metadata={statefulSet.metadata}
+                replicas={statefulSet.spec.replicas}
+                namespace={this.props.namespace}
+                onDismiss={this._onCommandDialogDismissed}
+            />
+        );
+    }
+
+    private _onCommandDialogDismissed = (): void => {
+        this.setState({ command: undefined, commandStatefulSet: undefined });
+    }
+
+    private _renderCommandsCell = (rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1StatefulSet>, statefulSet: V1StatefulSet): JSX.Element => {
+        const itemToRender = (
+            <div className="kube-flex-row">
+                {WorkloadCommandDialog.getCommands(this.props.kubeService, this.props.allowMutations).map(command => (
+                    <Button
+                        key={command}
+                        ariaLabel={WorkloadCommandDialog.getCommandText(command)}
+                        tooltipProps={{ text: WorkloadCommandDialog.getCommandText(command) }}
+                        iconProps={{ iconName: WorkloadCommandDialog.getCommandIconName(command) }}
+                        subtle={true}
+                        onClick={(event: React.SyntheticEvent<HTMLElement>) => {
+                            // The row is not activated by the command
+                            event.stopPropagation();
+                            this.setState({ command: command, commandStatefulSet: statefulSet });
+                        }}
+                    />
+                ))}
+            </div>
+        );
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
+    private _getColumns(): ITableColumn<V1StatefulSet>[] {
+        const columns = StatefulSetTable._getDataColumns(Utils.isAllNamespaces(this.props.namespace));
+        if (WorkloadCommandDialog.getCommands(this.props.kubeService, this.props.allowMutations).length > 0) {
+            columns.push({
+                id: commandsKey,
+                name: Resources.CommandsText,
+                minWidth: 100,
+                width: -50,
+                headerClassName: "kube-col-header",
+                renderCell: this._renderCommandsCell
+            });
         }
+
+        return columns;
     }
 
-    private static _getColumns(): ITableColumn<V1StatefulSet>[] {
+    private static _getDataColumns(showNamespace: boolean): ITableColumn<V1StatefulSet>[] {
         let columns: ITableColumn<V1StatefulSet>[] = [];
         const headerColumnClassName: string = "kube-col-header";
 
@@ -96,6 +200,17 @@ export class StatefulSetTable extends BaseComponent<IStatefulSetTableProperties,
             renderCell: StatefulSetTable._renderSetNameCell
         });
 
+        if (showNamespace) {
+            columns.push({
+                id: namespaceKey,
+                name: Resources.NamespaceText,
+                minWidth: 120,
+                width: -100,
+                headerClassName: headerColumnClassName,
+                renderCell: StatefulSetTable._renderNamespaceCell
+            });
+        }
+
         columns.push({
             id: imageKey,
             name: Resources.ImageText,
@@ -131,6 +246,11 @@ export class StatefulSetTable extends BaseComponent<IStatefulSetTableProperties,
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
     }
 
+    private static _renderNamespaceCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1StatefulSet>, statefulSet: V1StatefulSet): JSX.Element {
+        const itemToRender = BaseKubeTable.renderColumn(statefulSet.metadata.namespace || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
+        return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
+    }
+
     private static _renderImageCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1StatefulSet>, statefulSet: V1StatefulSet): JSX.Element {
         const textToRender = statefulSet.spec.template.spec.containers[0].image;
         const itemToRender = BaseKubeTable.renderColumn(textToRender || "", BaseKubeTable.defaultColumnRenderer, colDataClassName);
@@ -138,17 +258,13 @@ export class StatefulSetTable extends BaseComponent<IStatefulSetTableProperties,
     }
 
     private static _renderPodsCountCell(rowIndex: number, columnIndex: number, tableColumn: ITableColumn<V1StatefulSet>, statefulSet: V1StatefulSet): JSX.Element {
-        let statusProps: IStatusProps | undefined;
-        let podString: string = "";
-        if (statefulSet.status.replicas > 0) {
-            statusProps = Utils._getPodsStatusProps(statefulSet.status.currentReplicas, statefulSet.status.replicas);
-            podString = format("{0}/{1}", statefulSet.status.currentReplicas, statefulSet.status.replicas);
-        }
+        const health = WorkloadHealth.getStatefulSetHealth(statefulSet);
 
         const itemToRender = (
             <ResourceStatus
-                statusProps={statusProps}
-                statusDescription={podString}
+                statusProps={Utils.generateWorkloadStatusProps(health.status)}
+                statusDescription={Utils.getWorkloadPodsText(health)}
+                toolTipText={Utils.getWorkloadHealthDescription(health)}
             />
         );
         return BaseKubeTable.renderTableCell(rowIndex, columnIndex, tableColumn, itemToRender);
@@ -161,4 +277,5 @@ export class StatefulSetTable extends BaseComponent<IStatefulSetTableProperties,
 
     private _store: WorkloadsStore;
     private _actionCreator: WorkloadsActionsCreator;
+    private _watch: IKubeWatch | undefined;
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1ObjectMeta } from "@kubernetes/client-node";
+import { BaseComponent, format } from "@uifabric/utilities";
+import { TextField } from "azure-devops-ui/TextField";
+import * as React from "react";
+import { IKubeService } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { KubeConfirmDialog } from "../Common/KubeConfirmDialog";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
+import * as Resources from "../Resources";
+import { IVssComponentProperties } from "../Types";
+import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
+
+export type WorkloadCommand = "scale" | "restart";
+
+export interface IWorkloadCommandDialogProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
+    command: WorkloadCommand;
+    // Deployments or StatefulSets
+    resourceType: KubeResourceType;
+    // Displayed in the description, e.g. "Deployment"
+    kind: string;
+    metadata: V1ObjectMeta;
+    replicas: number;
+    // The namespace whose workloads are listed, they are fetched again once the change is applied
+    namespace?: string;
+    onDismiss: () => void;
+}
+
+export interface IWorkloadCommandDialogState {
+    replicasText: string;
+}
+
+export class WorkloadCommandDialog extends BaseComponent<IWorkloadCommandDialogProperties, IWorkloadCommandDialogState> {
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IWorkloadCommandDialogProperties, context: IFluxContext) {
+        super(props, context);
+
+        this._actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, this.context.fluxInstanceId);
+        this.state = { replicasText: String(this.props.replicas || 0) };
+    }
+
+    /**
+     * Returns the commands the host implements, none when the host does not allow changes to the cluster.
+     */
+    public static getCommands(kubeService: IKubeService, allowMutations?: boolean): WorkloadCommand[] {
+        const commands: WorkloadCommand[] = [];
+        if (allowMutations && kubeService.scaleWorkload) {
+            commands.push("scale");
+        }
+
+        if (allowMutations && kubeService.restartWorkload) {
+            commands.push("restart");
+        }
+
+        return commands;
+    }
+
+    public static getCommandText(command: WorkloadCommand): string {
+        return command === "scale" ? Resources.ScaleText : Resources.RestartText;
+    }
+
+    public static getCommandIconName(command: WorkloadCommand): string {
+        return command === "scale" ? "ScaleUp" : "Refresh";
+    }
+
+    public render(): JSX.Element {
+        const name = this.props.metadata.name;
+        if (this.props.command === "restart") {
+            return (
+                <KubeConfirmDialog
+                    title={format(Resources.RestartTitleText, name)}
+                    description={format(Resources.RestartDescriptionText, this.props.kind, name)}
+                    confirmText={Resources.RestartText}
+                    onConfirm={this._onRestart}
+                    onDismiss={this.props.onDismiss}
+                />
+            );
+        }
+
+        const isValid = this._getReplicas() >= 0;
+        return (
+            <KubeConfirmDialog
+                title={format(Resources.ScaleTitleText, name)}
+                description={format(Resources.ScaleDescriptionText, this.props.kind, name)}
+                confirmText={Resources.ScaleText}
+                confirmDisabled={!isValid}
+                onConfirm={this._onScale}
+                onDismiss={this.props.onDismiss}>
+                <TextField
+                    label={Resources.ReplicasText}
+                    inputType="number"
+                    autoFocus={true}
+                    value={this.state.replicasText}
+                    onChange={this._onReplicasChanged}
+                />
+                {!isValid && <div className="secondary-text">{Resources.InvalidReplicasText}</div>}
+            </KubeConfirmDialog>
+        );
+    }
+
+    private _onReplicasChanged = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>, value: string): void => {
+        this.setState({ replicasText: value });
+    }
+
+    // -1 when the text is not a whole number
+    private _getReplicas(): number {
+        const text = this.state.replicasText.trim();
+        return /^\d+$/.test(text) ? parseInt(text, 10) : -1;
+    }
+
+    private _onScale = (): Promise<void> => {
+        return this._actionCreator.scaleWorkload(this.props.kubeService, this.props.resourceType, this.props.metadata, this._getReplicas(), this.props.namespace);
+    }
+
+    private _onRestart = (): Promise<void> => {
+        return this._actionCreator.restartWorkload(this.props.kubeService, this.props.resourceType, this.props.metadata, this.props.namespace);
+    }
+
+    private _actionCreator: WorkloadsActionsCreator;
+}
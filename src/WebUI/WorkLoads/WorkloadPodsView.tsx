@@ -3,38 +3,66 @@
     Licensed under the MIT license.
 */
 
-import { V1Pod, V1PodList, V1ObjectMeta, V1PodTemplateSpec } from "@kubernetes/client-node";
+import { V1Pod, V1PodList, V1ObjectMeta, V1PodTemplateSpec, V1ReplicaSet, V1DaemonSet, V1StatefulSet, V1Job, V1PersistentVolumeClaim } from "@kubernetes/client-node";
 import { BaseComponent } from "@uifabric/utilities";
 import { SplitterElementPosition, Splitter } from "azure-devops-ui/Splitter";
 import * as React from "react";
 import * as Resources from "../Resources";
-import { IVssComponentProperties } from "../Types";
+import { IVssComponentProperties, IResourceFetchStatus } from "../Types";
 import { Utils } from "../Utils";
 import { PodsLeftPanel } from "../Pods/PodsLeftPanel";
 import { PodsRightPanel } from "../Pods/PodsRightPanel";
 import "./WorkloadPodsView.scss";
 import { PodsStore } from "../Pods/PodsStore";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
+import { ConfigurationEvents, PodsEvents, ResourceFetchStatus } from "../Constants";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
+import { ConfigurationActionsCreator } from "../Configuration/ConfigurationActionsCreator";
+import { ConfigurationStore } from "../Configuration/ConfigurationStore";
+import { VolumeClaims } from "../VolumeClaims";
 
 export interface IWorkloadPodsViewProperties extends IVssComponentProperties {
+    kubeService: IKubeService;
     parentMetaData: V1ObjectMeta;
     podTemplate: V1PodTemplateSpec;
     parentKind: string;
+    parentResource?: V1ReplicaSet | V1DaemonSet | V1StatefulSet | V1Job;
+    // Pod shown when the view is mounted instead of the first one
+    initialPodName?: string;
+    onSelectedPodChanged?: (selectedPod: V1Pod | null) => void;
+    selectedPodTab?: string;
+    onSelectedPodTabChanged?: (selectedTab: string) => void;
+    // Offers the commands of the kube service which change the pods
+    allowMutations?: boolean;
 }
 
 export interface IWorkloadPodsViewState {
     pods: V1Pod[];
     selectedPod: V1Pod | null;
+    podsFetchStatus: IResourceFetchStatus;
+    // undefined until fetched, and for workloads whose pods mount no claims
+    volumeClaims?: V1PersistentVolumeClaim[];
 }
 
 export class WorkloadPodsView extends BaseComponent<IWorkloadPodsViewProperties, IWorkloadPodsViewState> {
-    constructor(props: IWorkloadPodsViewProperties) {
-        super(props, {});
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
+
+    constructor(props: IWorkloadPodsViewProperties, context: IFluxContext) {
+        super(props, context);
+        this._store = StoreManager.GetStore<PodsStore>(PodsStore, this.context.fluxInstanceId);
         this.state = {
             pods: [],
-            selectedPod: null
+            selectedPod: null,
+            podsFetchStatus: this._store.getState().podsFetchStatus
         };
-        this._store = StoreManager.GetStore<PodsStore>(PodsStore);
+        this._podsActionCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId);
+        this._configurationStore = StoreManager.GetStore<ConfigurationStore>(ConfigurationStore, this.context.fluxInstanceId);
     }
 
     public render(): JSX.Element {
@@ -48,14 +76,22 @@ export class WorkloadPodsView extends BaseComponent<IWorkloadPodsViewProperties,
                 parentMetaData={this.props.parentMetaData}
                 podTemplate={this.props.podTemplate}
                 parentKind={this.props.parentKind}
+                parentResource={this.props.parentResource}
+                kubeService={this.props.kubeService}
                 pods={this.state.pods}
+                volumeClaims={this.state.volumeClaims}
+                selectedPod={selectedPod}
+                onDeletePod={this.props.allowMutations && this.props.kubeService.deletePod ? this._onDeletePod : undefined}
                 onSelectionChange={this._onPodSelectionChange} />
         );
 
         const rightPanel = (selectedPod ?
             <PodsRightPanel
-                pod={selectedPod} />
-            : <div className="zero-pods-text-container">{Resources.NoPodsFoundText}</div>);
+                kubeService={this.props.kubeService}
+                pod={selectedPod}
+                selectedTab={this.props.selectedPodTab}
+                onSelectedTabChanged={this.props.onSelectedPodTabChanged} />
+            : this._getNoSelectedPodContent());
 
         return (
             <Splitter
@@ -67,14 +103,107 @@ export class WorkloadPodsView extends BaseComponent<IWorkloadPodsViewProperties,
     }
 
     public componentDidMount(): void {
-        const podList = this._store.getState().podsList;
-        let pods: V1Pod[] = (podList && podList.items || []).filter(pod => {
-            return Utils.isOwnerMatched(pod.metadata, this.props.parentMetaData.uid);
+        const pods = this._getOwnedPods();
+        const initialPod = pods.find(pod => pod.metadata.name === this.props.initialPodName);
+        this.setState({
+            pods: pods,
+            selectedPod: initialPod || pods[0]
         });
 
+        this._store.addListener(PodsEvents.PodsFetchedEvent, this._onPodsUpdated);
+        this._watch = this._podsActionCreator.watchPods(this.props.kubeService, undefined, this.props.parentMetaData.namespace);
+
+        const statefulSet = this.props.parentKind === "StatefulSet" ? this.props.parentResource as V1StatefulSet : undefined;
+        if (VolumeClaims.hasVolumeClaims(this.props.podTemplate.spec, statefulSet)) {
+            this._watchVolumeClaims();
+        }
+    }
+
+    public componentDidUpdate(prevProps: IWorkloadPodsViewProperties, prevState: IWorkloadPodsViewState): void {
+        if (this.props.onSelectedPodChanged && this.state.selectedPod !== prevState.selectedPod) {
+            this.props.onSelectedPodChanged(this.state.selectedPod);
+        }
+    }
+
+    public componentWillUnmount(): void {
+        this._store.removeListener(PodsEvents.PodsFetchedEvent, this._onPodsUpdated);
+        this._configurationStore.removeListener(ConfigurationEvents.PersistentVolumeClaimsFetchedEvent, this._onVolumeClaimsUpdated);
+        [this._watch, this._volumeClaimsWatch].forEach(watch => watch && watch.stop());
+    }
+
+    // The claims are shared with the storage pivot, they are only fetched when the pivot has not done so
+    private _watchVolumeClaims(): void {
+        const configurationActionCreator = ActionsCreatorManager.GetActionCreator<ConfigurationActionsCreator>(ConfigurationActionsCreator, this.context.fluxInstanceId);
+        if (!this._configurationStore.getState().persistentVolumeClaimList) {
+            configurationActionCreator.getPersistentVolumeClaims(this.props.kubeService, this._getPodsNamespace());
+        }
+
+        this._onVolumeClaimsUpdated();
+        this._configurationStore.addListener(ConfigurationEvents.PersistentVolumeClaimsFetchedEvent, this._onVolumeClaimsUpdated);
+        this._volumeClaimsWatch = configurationActionCreator.watchPersistentVolumeClaims(this.props.kubeService, this.props.parentMetaData.namespace);
+    }
+
+    private _onVolumeClaimsUpdated = (): void => {
+        const claimList = this._configurationStore.getState().persistentVolumeClaimList;
+        const volumeClaims = claimList ? claimList.items || [] : undefined;
+        if (volumeClaims !== this.state.volumeClaims) {
+            this.setState({ volumeClaims: volumeClaims });
+        }
+    }
+
+    private _getNoSelectedPodContent(): JSX.Element {
+        if (this.state.podsFetchStatus.status !== ResourceFetchStatus.Loaded) {
+            return (
+                <KubeFetchStatusView
+                    className="item-padding"
+                    fetchStatus={this.state.podsFetchStatus}
+                    resourceName={Resources.PodsDetailsText}
+                    onRetry={this._onPodsRetry}
+                />
+            );
+        }
+
+        return <div className="zero-pods-text-container">{Resources.NoPodsFoundText}</div>;
+    }
+
+    private _onPodsRetry = (): void => {
+        this._podsActionCreator.retryGetPods(this.props.kubeService, undefined, this._getPodsNamespace());
+    }
+
+    private _onDeletePod = (pod: V1Pod): Promise<void> => {
+        return this._podsActionCreator.deletePod(this.props.kubeService, pod, this._getPodsNamespace());
+    }
+
+    // The pods list is shared with the orphan pods, so it is refetched across the cluster while all namespaces are shown
+    private _getPodsNamespace(): string {
+        const selectedNamespace = StoreManager.GetStore<NamespacesStore>(NamespacesStore, this.context.fluxInstanceId).getState().selectedNamespace;
+        return Utils.isAllNamespaces(selectedNamespace) ? selectedNamespace : this.props.parentMetaData.namespace;
+    }
+
+    private _onPodsUpdated = (): void => {
+        const podsFetchStatus = this._store.getState().podsFetchStatus;
+        if (podsFetchStatus !== this.state.podsFetchStatus) {
+            this.setState({ podsFetchStatus: podsFetchStatus });
+        }
+
+        const pods = Utils.reuseUnchangedItems(this.state.pods, this._getOwnedPods());
+        if (pods === this.state.pods) {
+            return;
+        }
+
+        const selectedPod = this.state.selectedPod;
+        // Keep showing the selected pod with its latest state, fall back to the first pod once it is deleted
+        const updatedSelectedPod = selectedPod && pods.find(pod => pod.metadata.uid === selectedPod.metadata.uid);
         this.setState({
             pods: pods,
-            selectedPod: pods[0]
+            selectedPod: updatedSelectedPod || pods[0] || null
+        });
+    }
+
+    private _getOwnedPods(): V1Pod[] {
+        const podList = this._store.getState().podsList;
+        return (podList && podList.items || []).filter(pod => {
+            return Utils.isOwnerMatched(pod.metadata, this.props.parentMetaData.uid);
         });
     }
 
@@ -87,4 +216,8 @@ export class WorkloadPodsView extends BaseComponent<IWorkloadPodsViewProperties,
     private _havePodsUpdated: boolean = false;
     private _initialFixedSize: number = 320;
     private _store: PodsStore;
+    private _podsActionCreator: PodsActionsCreator;
+    private _configurationStore: ConfigurationStore;
+    private _watch: IKubeWatch | undefined;
+    private _volumeClaimsWatch: IKubeWatch | undefined;
 }
\ No newline at end of file
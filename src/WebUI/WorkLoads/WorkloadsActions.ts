@@ -4,7 +4,9 @@
 */
 
 import { ActionsHubBase, Action } from "../FluxCommon/Actions";
-import { V1DeploymentList, V1ReplicaSet, V1ReplicaSetList, V1DaemonSetList, V1StatefulSetList, V1PodList, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta } from "@kubernetes/client-node";
+import { V1Deployment, V1DeploymentList, V1ReplicaSet, V1ReplicaSetList, V1DaemonSetList, V1StatefulSetList, V1PodList, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta, V1Job, V1JobList, V1beta1CronJob, V1beta1CronJobList } from "@kubernetes/client-node";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { IListFetchedPayload, IResourceFetchStatusPayload } from "../Types";
 
 export class WorkloadsActions extends ActionsHubBase {
     public static getKey(): string {
@@ -12,36 +14,90 @@ export class WorkloadsActions extends ActionsHubBase {
     }
 
     public initialize(): void {
-        this._deploymentsFetched = new Action<V1DeploymentList>();
-        this._replicaSetsFetched = new Action<V1ReplicaSetList>();
-        this._daemonSetsFetched = new Action<V1DaemonSetList>();
-        this._statefulSetsFetched = new Action<V1StatefulSetList>();
-        this._podsFetched = new Action<V1PodList>();
+        this._deploymentsFetched = new Action<IListFetchedPayload<V1DeploymentList>>();
+        this._replicaSetsFetched = new Action<IListFetchedPayload<V1ReplicaSetList>>();
+        this._daemonSetsFetched = new Action<IListFetchedPayload<V1DaemonSetList>>();
+        this._statefulSetsFetched = new Action<IListFetchedPayload<V1StatefulSetList>>();
+        this._jobsFetched = new Action<IListFetchedPayload<V1JobList>>();
+        this._cronJobsFetched = new Action<IListFetchedPayload<V1beta1CronJobList>>();
+        this._podsFetched = new Action<IListFetchedPayload<V1PodList>>();
+        this._deploymentWatchEventReceived = new Action<IKubeWatchEvent<V1Deployment>>();
+        this._replicaSetWatchEventReceived = new Action<IKubeWatchEvent<V1ReplicaSet>>();
+        this._daemonSetWatchEventReceived = new Action<IKubeWatchEvent<V1DaemonSet>>();
+        this._statefulSetWatchEventReceived = new Action<IKubeWatchEvent<V1StatefulSet>>();
+        this._jobWatchEventReceived = new Action<IKubeWatchEvent<V1Job>>();
+        this._cronJobWatchEventReceived = new Action<IKubeWatchEvent<V1beta1CronJob>>();
+        this._fetchStatusChanged = new Action<IResourceFetchStatusPayload>();
     }
 
-    public get deploymentsFetched(): Action<V1DeploymentList> {
+    public get deploymentsFetched(): Action<IListFetchedPayload<V1DeploymentList>> {
         return this._deploymentsFetched;
     }
 
-    public get replicaSetsFetched(): Action<V1ReplicaSetList> {
+    public get replicaSetsFetched(): Action<IListFetchedPayload<V1ReplicaSetList>> {
         return this._replicaSetsFetched;
     }
 
-    public get daemonSetsFetched(): Action<V1DaemonSetList> {
+    public get daemonSetsFetched(): Action<IListFetchedPayload<V1DaemonSetList>> {
         return this._daemonSetsFetched;
     }
 
-    public get statefulSetsFetched(): Action<V1StatefulSetList> {
+    public get statefulSetsFetched(): Action<IListFetchedPayload<V1StatefulSetList>> {
         return this._statefulSetsFetched;
     }
 
-    public get podsFetched(): Action<V1PodList> {
+    public get jobsFetched(): Action<IListFetchedPayload<V1JobList>> {
+        return this._jobsFetched;
+    }
+
+    public get cronJobsFetched(): Action<IListFetchedPayload<V1beta1CronJobList>> {
+        return this._cronJobsFetched;
+    }
+
+    public get podsFetched(): Action<IListFetchedPayload<V1PodList>> {
         return this._podsFetched;
     }
 
-    private _deploymentsFetched: Action<V1DeploymentList>;
-    private _replicaSetsFetched: Action<V1ReplicaSetList>;
-    private _daemonSetsFetched: Action<V1DaemonSetList>;
-    private _statefulSetsFetched: Action<V1StatefulSetList>;
-    private _podsFetched: Action<V1PodList>;
+    public get deploymentWatchEventReceived(): Action<IKubeWatchEvent<V1Deployment>> {
+        return this._deploymentWatchEventReceived;
+    }
+
+    public get replicaSetWatchEventReceived(): Action<IKubeWatchEvent<V1ReplicaSet>> {
+        return this._replicaSetWatchEventReceived;
+    }
+
+    public get daemonSetWatchEventReceived(): Action<IKubeWatchEvent<V1DaemonSet>> {
+        return this._daemonSetWatchEventReceived;
+    }
+
+    public get statefulSetWatchEventReceived(): Action<IKubeWatchEvent<V1StatefulSet>> {
+        return this._statefulSetWatchEventReceived;
+    }
+
+    public get jobWatchEventReceived(): Action<IKubeWatchEvent<V1Job>> {
+        return this._jobWatchEventReceived;
+    }
+
+    public get cronJobWatchEventReceived(): Action<IKubeWatchEvent<V1beta1CronJob>> {
+        return this._cronJobWatchEventReceived;
+    }
+
+    public get fetchStatusChanged(): Action<IResourceFetchStatusPayload> {
+        return this._fetchStatusChanged;
+    }
+
+    private _deploymentsFetched: Action<IListFetchedPayload<V1DeploymentList>>;
+    private _replicaSetsFetched: Action<IListFetchedPayload<V1ReplicaSetList>>;
+    private _daemonSetsFetched: Action<IListFetchedPayload<V1DaemonSetList>>;
+    private _statefulSetsFetched: Action<IListFetchedPayload<V1StatefulSetList>>;
+    private _jobsFetched: Action<IListFetchedPayload<V1JobList>>;
+    private _cronJobsFetched: Action<IListFetchedPayload<V1beta1CronJobList>>;
+    private _podsFetched: Action<IListFetchedPayload<V1PodList>>;
+    private _deploymentWatchEventReceived: Action<IKubeWatchEvent<V1Deployment>>;
+    private _replicaSetWatchEventReceived: Action<IKubeWatchEvent<V1ReplicaSet>>;
+    private _daemonSetWatchEventReceived: Action<IKubeWatchEvent<V1DaemonSet>>;
+    private _statefulSetWatchEventReceived: Action<IKubeWatchEvent<V1StatefulSet>>;
+    private _jobWatchEventReceived: Action<IKubeWatchEvent<V1Job>>;
+    private _cronJobWatchEventReceived: Action<IKubeWatchEvent<V1beta1CronJob>>;
+    private _fetchStatusChanged: Action<IResourceFetchStatusPayload>;
 }
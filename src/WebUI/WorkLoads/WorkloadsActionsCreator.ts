@@ -5,9 +5,13 @@
 
 import { ActionCreatorBase, Action } from "../FluxCommon/Actions";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
-import { IKubeService } from "../../Contracts/Contracts";
-import { V1DeploymentList, V1ReplicaSet, V1ReplicaSetList, V1DaemonSetList, V1StatefulSetList, V1PodList, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta } from "@kubernetes/client-node";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { V1Deployment, V1DeploymentList, V1ReplicaSet, V1ReplicaSetList, V1DaemonSetList, V1StatefulSetList, V1PodList, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta } from "@kubernetes/client-node";
 import { WorkloadsActions } from "./WorkloadsActions";
+import { ResourceFetchStatus } from "../Constants";
+import { Utils } from "../Utils";
+import * as Resources from "../Resources";
 
 export class WorkloadsActionsCreator extends ActionCreatorBase {
     public static getKey(): string {
@@ -15,36 +19,167 @@ export class WorkloadsActionsCreator extends ActionCreatorBase {
     }
 
     public initialize(instanceId?: string): void {
-        this._actions = ActionsHubManager.GetActionsHub<WorkloadsActions>(WorkloadsActions);
+        this._actions = ActionsHubManager.GetActionsHub<WorkloadsActions>(WorkloadsActions, instanceId);
     }
 
-    public getDeployments(kubeService: IKubeService): void {
-        kubeService.getDeployments().then(deploymentList => {
-            this._actions.deploymentsFetched.invoke(deploymentList);
-        });
+    public getDeployments(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getDeployments(namespace).then(deploymentList => {
+            this._actions.deploymentsFetched.invoke({ list: deploymentList, namespace: namespace });
+        }, error => this._onFetchFailed(KubeResourceType.Deployments, error));
+    }
+
+    public getReplicaSets(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getReplicaSets(namespace).then(replicaSetsList => {
+            this._actions.replicaSetsFetched.invoke({ list: replicaSetsList, namespace: namespace });
+        }, error => this._onFetchFailed(KubeResourceType.ReplicaSets, error));
+    }
+
+    public getDaemonSets(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getDaemonSets(namespace).then(daemonSetsList => {
+            this._actions.daemonSetsFetched.invoke({ list: daemonSetsList, namespace: namespace });
+        }, error => this._onFetchFailed(KubeResourceType.DaemonSets, error));
+    }
+
+    public getStatefulSets(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getStatefulSets(namespace).then(statefulSetsList => {
+            this._actions.statefulSetsFetched.invoke({ list: statefulSetsList, namespace: namespace });
+        }, error => this._onFetchFailed(KubeResourceType.StatefulSets, error));
+    }
+
+    public getJobs(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getJobs(namespace).then(jobList => {
+            this._actions.jobsFetched.invoke({ list: jobList, namespace: namespace });
+        }, error => this._onFetchFailed(KubeResourceType.Jobs, error));
+    }
+
+    public getCronJobs(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getCronJobs(namespace).then(cronJobList => {
+            this._actions.cronJobsFetched.invoke({ list: cronJobList, namespace: namespace });
+        }, error => this._onFetchFailed(KubeResourceType.CronJobs, error));
+    }
+
+    public getPods(kubeService: IKubeService, namespace?: string): void {
+        kubeService.getPods(undefined, namespace).then(podsList => {
+            this._actions.podsFetched.invoke({ list: podsList, namespace: namespace });
+        }, error => this._onFetchFailed(KubeResourceType.Pods, error));
+    }
+
+    /**
+     * Marks the resource kind as loading and fetches it again, used by the retry action of the failed views.
+     */
+    public retry(kubeService: IKubeService, resourceType: KubeResourceType, namespace?: string): void {
+        this._actions.fetchStatusChanged.invoke({ resourceType: resourceType, status: ResourceFetchStatus.Loading });
+        switch (resourceType) {
+            case KubeResourceType.Deployments:
+                this.getDeployments(kubeService, namespace);
+                break;
+            case KubeResourceType.ReplicaSets:
+                this.getReplicaSets(kubeService, namespace);
+                break;
+            case KubeResourceType.DaemonSets:
+                this.getDaemonSets(kubeService, namespace);
+                break;
+            case KubeResourceType.StatefulSets:
+                this.getStatefulSets(kubeService, namespace);
+                break;
+            case KubeResourceType.Jobs:
+                this.getJobs(kubeService, namespace);
+                break;
+            case KubeResourceType.CronJobs:
+                this.getCronJobs(kubeService, namespace);
+                break;
+        }
     }
 
-    public getReplicaSets(kubeService: IKubeService): void {
-        kubeService.getReplicaSets().then(replicaSetsList => {
-            this._actions.replicaSetsFetched.invoke(replicaSetsList);
+    /**
+     * Scales the workload, then fetches the workloads of its kind in the listed namespace again.
+     * The returned promise is rejected with the error of the host, so that the caller can show it.
+     */
+    public scaleWorkload(kubeService: IKubeService, resourceType: KubeResourceType, metadata: V1ObjectMeta, replicas: number, namespace?: string): Promise<void> {
+        if (!kubeService.scaleWorkload) {
+            return Promise.reject(new Error(Resources.CommandNotSupportedText));
+        }
+
+        return kubeService.scaleWorkload(resourceType, metadata.namespace, metadata.name, replicas).then(() => {
+            this._refreshWorkloads(kubeService, resourceType, namespace);
         });
     }
 
-    public getDaemonSets(kubeService: IKubeService): void {
-        kubeService.getDaemonSets().then(daemonSetsList => {
-            this._actions.daemonSetsFetched.invoke(daemonSetsList);
+    public restartWorkload(kubeService: IKubeService, resourceType: KubeResourceType, metadata: V1ObjectMeta, namespace?: string): Promise<void> {
+        if (!kubeService.restartWorkload) {
+            return Promise.reject(new Error(Resources.CommandNotSupportedText));
+        }
+
+        return kubeService.restartWorkload(resourceType, metadata.namespace, metadata.name).then(() => {
+            this._refreshWorkloads(kubeService, resourceType, namespace);
         });
     }
 
-    public getStatefulSets(kubeService: IKubeService): void {
-        kubeService.getStatefulSets().then(statefulSetsList => {
-            this._actions.statefulSetsFetched.invoke(statefulSetsList);
+    /**
+     * Rolls the deployment back to the pod template of the replica set, then fetches the deployments in the listed namespace again.
+     */
+    public rollbackDeployment(kubeService: IKubeService, deployment: V1Deployment, replicaSet: V1ReplicaSet, namespace?: string): Promise<void> {
+        if (!kubeService.rollbackDeployment) {
+            return Promise.reject(new Error(Resources.CommandNotSupportedText));
+        }
+
+        return kubeService.rollbackDeployment(deployment.metadata.namespace, deployment.metadata.name, Utils.getRollbackTemplate(replicaSet)).then(() => {
+            this._refreshWorkloads(kubeService, KubeResourceType.Deployments, namespace);
         });
     }
 
-    public getPods(kubeService: IKubeService): void {
-        kubeService.getPods().then(podsList => {
-            this._actions.podsFetched.invoke(podsList);
+    public watchDeployments(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.Deployments, event => {
+            this._actions.deploymentWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchReplicaSets(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.ReplicaSets, event => {
+            this._actions.replicaSetWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchDaemonSets(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.DaemonSets, event => {
+            this._actions.daemonSetWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchStatefulSets(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.StatefulSets, event => {
+            this._actions.statefulSetWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchJobs(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.Jobs, event => {
+            this._actions.jobWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    public watchCronJobs(kubeService: IKubeService, namespace?: string): IKubeWatch | undefined {
+        return kubeService.watch && kubeService.watch(KubeResourceType.CronJobs, event => {
+            this._actions.cronJobWatchEventReceived.invoke(event);
+        }, undefined, namespace);
+    }
+
+    // A restarted deployment rolls out a new replica set, so replica sets are fetched along with deployments
+    private _refreshWorkloads(kubeService: IKubeService, resourceType: KubeResourceType, namespace?: string): void {
+        if (resourceType === KubeResourceType.Deployments) {
+            this.getDeployments(kubeService, namespace);
+            this.getReplicaSets(kubeService, namespace);
+        }
+        else if (resourceType === KubeResourceType.StatefulSets) {
+            this.getStatefulSets(kubeService, namespace);
+        }
+    }
+
+    private _onFetchFailed(resourceType: KubeResourceType, error: any): void {
+        this._actions.fetchStatusChanged.invoke({
+            resourceType: resourceType,
+            status: ResourceFetchStatus.Failed,
+            errorMessage: Utils.getErrorMessage(error)
         });
     }
 
@@ -16,6 +16,7 @@ import { KubeResourceType } from "../../Contracts/KubeServiceBase";
 export interface IWorkloadsFilterBarProps extends IVssComponentProperties {
     filter: Filter;
     filterToggled: ObservableValue<boolean>,
+    namespaceItemsFn?: () => string[];
 }
 
 export class WorkloadsFilterBar extends BaseComponent<IWorkloadsFilterBarProps> {
@@ -26,6 +27,7 @@ export class WorkloadsFilterBar extends BaseComponent<IWorkloadsFilterBarProps>
             pickListItemsFn={this._pickListItems}
             listItemsFn={this._listItems}
             filterToggled={this.props.filterToggled}
+            namespaceItemsFn={this.props.namespaceItemsFn}
         />);
     }
 
@@ -34,6 +36,8 @@ export class WorkloadsFilterBar extends BaseComponent<IWorkloadsFilterBarProps>
         KubeResourceType.ReplicaSets,
         KubeResourceType.DaemonSets,
         KubeResourceType.StatefulSets,
+        KubeResourceType.Jobs,
+        KubeResourceType.CronJobs,
         KubeResourceType.Pods];
     };
 
@@ -52,6 +56,12 @@ export class WorkloadsFilterBar extends BaseComponent<IWorkloadsFilterBarProps>
             case KubeResourceType.StatefulSets:
                 name = Resources.StatefulSetText;
                 break;
+            case KubeResourceType.Jobs:
+                name = Resources.JobText;
+                break;
+            case KubeResourceType.CronJobs:
+                name = Resources.CronJobText;
+                break;
             case KubeResourceType.Pods:
                 name = Resources.PodsText;
                 break;
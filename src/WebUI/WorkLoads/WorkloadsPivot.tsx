@@ -6,9 +6,9 @@
 import { V1DeploymentList, V1ReplicaSet, V1ReplicaSetList, V1ServiceList, V1DaemonSetList, V1StatefulSetList, V1Service, V1PodList, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta } from "@kubernetes/client-node";
 import { BaseComponent, format } from "@uifabric/utilities";
 import * as React from "react";
-import { IKubeService } from "../../Contracts/Contracts";
+import { IKubeService, IKubeWatch } from "../../Contracts/Contracts";
 import * as Resources from "../Resources";
-import { IVssComponentProperties, IServiceItem, IDeploymentReplicaSetItem } from "../Types";
+import { IVssComponentProperties, IServiceItem, IDeploymentReplicaSetItem, IResourceFetchStatus } from "../Types";
 import { Utils } from "../Utils";
 import { DeploymentsTable } from "../Workloads/DeploymentsTable";
 import "../Common/KubeSummary.scss";
@@ -16,8 +16,11 @@ import "../Common/KubeSummary.scss";
 import "azure-devops-ui/Label.scss";
 import { DaemonSetTable } from "../Workloads/DaemonSetTable";
 import { StatefulSetTable } from "../Workloads/StatefulSetTable";
+import { JobsTable } from "../Workloads/JobsTable";
+import { CronJobsTable } from "../Workloads/CronJobsTable";
 import { PodsTable } from "../Pods/PodsTable";
 import { KubeZeroData } from "../Common//KubeZeroData";
+import { KubeFetchStatusView } from "../Common/KubeFetchStatusView";
 import { Filter, IFilterState, FILTER_CHANGE_EVENT, IFilterItemState } from "azure-devops-ui/Utilities/Filter";
 import { KubeResourceType } from "../../Contracts/KubeServiceBase";
 import { WorkloadsFilterBar } from "./WorkloadsFilterBar";
@@ -27,14 +30,18 @@ import { WorkloadsActionsCreator } from "./WorkloadsActionsCreator";
 import { PodsActionsCreator } from "../Pods/PodsActionsCreator";
 import { WorkloadsStore } from "./WorkloadsStore";
 import { ActionsCreatorManager } from "../FluxCommon/ActionsCreatorManager";
+import { FluxContextTypes, IFluxContext } from "../FluxCommon/FluxContext";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { WorkloadsEvents } from "../Constants";
 import { PodsStore } from "../Pods/PodsStore";
-import { NameKey, TypeKey } from "../Common/KubeFilterBar";
+import { NameKey, TypeKey, NamespaceKey } from "../Common/KubeFilterBar";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
 
 export interface IWorkloadsPivotState {
     workloadResourceSize: number;
     orphanPodsList: V1Pod[];
+    podsFetchStatus: IResourceFetchStatus;
+    isFetchComplete: boolean;
 }
 
 export interface IWorkloadsPivotProps extends IVssComponentProperties {
@@ -42,27 +49,36 @@ export interface IWorkloadsPivotProps extends IVssComponentProperties {
     filter: Filter;
     namespace?: string;
     filterToggled: ObservableValue<boolean>;
+    // Offers the commands of the kube service which change the workloads
+    allowMutations?: boolean;
 }
 
 export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloadsPivotState> {
-    constructor(props: IWorkloadsPivotProps) {
-        super(props, {});
+    public static contextTypes = FluxContextTypes;
+    public context: IFluxContext;
 
-        this._podsActionCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator);
-        this._workloadsStore = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore);
+    constructor(props: IWorkloadsPivotProps, context: IFluxContext) {
+        super(props, context);
+
+        this._podsActionCreator = ActionsCreatorManager.GetActionCreator<PodsActionsCreator>(PodsActionsCreator, this.context.fluxInstanceId);
+        this._workloadsStore = StoreManager.GetStore<WorkloadsStore>(WorkloadsStore, this.context.fluxInstanceId);
         // Initialize pods store as pods list will be required in workloadPodsView on item selection
-        StoreManager.GetStore<PodsStore>(PodsStore);
+        StoreManager.GetStore<PodsStore>(PodsStore, this.context.fluxInstanceId);
 
         this.state = {
-            orphanPodsList: [],
-            workloadResourceSize: 0
+            orphanPodsList: this._workloadsStore.getState().orphanPodsList || [],
+            workloadResourceSize: this._workloadsStore.getWorkloadSize(),
+            podsFetchStatus: this._workloadsStore.getFetchStatus(KubeResourceType.Pods),
+            isFetchComplete: this._workloadsStore.isFetchComplete()
         };
 
         // Fetch all pods in parent component as the podList is required in orphan set table as well as selected workload pods view
-        this._podsActionCreator.getPods(this.props.kubeService);
+        this._podsActionCreator.getPods(this.props.kubeService, undefined, this.props.namespace);
+        this._watch = this._podsActionCreator.watchPods(this.props.kubeService, undefined, this.props.namespace);
 
         this._workloadsStore.addListener(WorkloadsEvents.WorkloadPodsFetchedEvent, this._onPodsFetched);
         this._workloadsStore.addListener(WorkloadsEvents.WorkloadsFoundEvent, this._onDataFound);
+        this._workloadsStore.addListener(WorkloadsEvents.WorkloadsFetchStatusChangedEvent, this._onFetchStatusChanged);
     }
 
     public render(): React.ReactNode {
@@ -77,11 +93,28 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
     public componentWillUnmount(): void {
         this._workloadsStore.removeListener(WorkloadsEvents.WorkloadPodsFetchedEvent, this._onPodsFetched);
         this._workloadsStore.removeListener(WorkloadsEvents.WorkloadsFoundEvent, this._onDataFound);
+        this._workloadsStore.removeListener(WorkloadsEvents.WorkloadsFetchStatusChangedEvent, this._onFetchStatusChanged);
+        if (this._watch) {
+            this._watch.stop();
+        }
     }
 
     private _onPodsFetched = (): void => {
         const storeState = this._workloadsStore.getState();
-        this.setState({ orphanPodsList: storeState.orphanPodsList || [] });
+        if (storeState.orphanPodsList !== this.state.orphanPodsList) {
+            this.setState({ orphanPodsList: storeState.orphanPodsList || [] });
+        }
+    }
+
+    private _onFetchStatusChanged = (): void => {
+        this.setState({
+            podsFetchStatus: this._workloadsStore.getFetchStatus(KubeResourceType.Pods),
+            isFetchComplete: this._workloadsStore.isFetchComplete()
+        });
+    }
+
+    private _onPodsRetry = (): void => {
+        this._podsActionCreator.retryGetPods(this.props.kubeService, undefined, this.props.namespace);
     }
 
     private _onDataFound = (): void => {
@@ -92,7 +125,8 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
     }
 
     private _getContent(): JSX.Element {
-        return (this.state.workloadResourceSize === 0 ?
+        // Until every kind has been fetched, an empty store only means that the data is not there yet
+        return (this.state.workloadResourceSize === 0 && this.state.isFetchComplete ?
             KubeZeroData._getDefaultZeroData("https://kubernetes.io/docs/concepts/workloads/pods/pod/", Resources.LearnMoreText,
                 Resources.NoWorkLoadsText, Resources.NoWorkLoadsText)
             :
@@ -100,6 +134,15 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
                 {this._showComponent(KubeResourceType.Deployments) && this._getDeployments()}
                 {this._showComponent(KubeResourceType.DaemonSets) && this._getDaemonSetsComponent()}
                 {this._showComponent(KubeResourceType.StatefulSets) && this._getStatefulSetsComponent()}
+                {this._showComponent(KubeResourceType.Jobs) && this._getJobsComponent()}
+                {this._showComponent(KubeResourceType.CronJobs) && this._getCronJobsComponent()}
+                {this._showComponent(KubeResourceType.Pods) &&
+                    <KubeFetchStatusView
+                        className="top-padding"
+                        fetchStatus={this.state.podsFetchStatus}
+                        resourceName={Resources.PodsDetailsText}
+                        onRetry={this._onPodsRetry}
+                    />}
                 {this.state.orphanPodsList && this.state.orphanPodsList.length > 0 &&
                     this._showComponent(KubeResourceType.Pods) && this.getOrphanPods()}
             </div>);
@@ -108,9 +151,18 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
     private _getFilterBar(): JSX.Element {
         return (<WorkloadsFilterBar filter={this.props.filter}
             filterToggled={this.props.filterToggled}
+            namespaceItemsFn={this._isAllNamespaces() ? this._getNamespaceItems : undefined}
         />);
     }
 
+    private _isAllNamespaces(): boolean {
+        return Utils.isAllNamespaces(this.props.namespace);
+    }
+
+    private _getNamespaceItems = (): string[] => {
+        return StoreManager.GetStore<NamespacesStore>(NamespacesStore, this.context.fluxInstanceId).getNamespaceNames();
+    }
+
     private getOrphanPods(): JSX.Element {
         let pods: V1Pod[] | undefined = this._workloadsStore.getState().orphanPodsList || [];
         // Since PodsTable is a common component between services and workloads, we are sending pods to render as a prop
@@ -118,6 +170,8 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
             key={format("orphan-pods-list-{0}", this.props.namespace || "")}
             podsToRender={pods}
             nameFilter={this._getNameFilterValue()}
+            showNamespace={this._isAllNamespaces()}
+            namespaceSelections={this._getNamespaceFilterValue()}
         />;
     }
 
@@ -125,7 +179,9 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
         return (<DaemonSetTable
             key={format("ds-list-{0}", this.props.namespace || "")}
             kubeService={this.props.kubeService}
+            namespace={this.props.namespace}
             nameFilter={this._getNameFilterValue()}
+            namespaceSelections={this._getNamespaceFilterValue()}
         />);
     }
 
@@ -133,7 +189,30 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
         return (<StatefulSetTable
             key={format("sts-list-{0}", this.props.namespace || "")}
             kubeService={this.props.kubeService}
+            namespace={this.props.namespace}
+            nameFilter={this._getNameFilterValue()}
+            namespaceSelections={this._getNamespaceFilterValue()}
+            allowMutations={this.props.allowMutations}
+        />);
+    }
+
+    private _getJobsComponent(): JSX.Element {
+        return (<JobsTable
+            key={format("job-list-{0}", this.props.namespace || "")}
+            kubeService={this.props.kubeService}
+            namespace={this.props.namespace}
+            nameFilter={this._getNameFilterValue()}
+            namespaceSelections={this._getNamespaceFilterValue()}
+        />);
+    }
+
+    private _getCronJobsComponent(): JSX.Element {
+        return (<CronJobsTable
+            key={format("cronjob-list-{0}", this.props.namespace || "")}
+            kubeService={this.props.kubeService}
+            namespace={this.props.namespace}
             nameFilter={this._getNameFilterValue()}
+            namespaceSelections={this._getNamespaceFilterValue()}
         />);
     }
 
@@ -141,7 +220,10 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
         return (<DeploymentsTable
             key={format("dc-{0}", this.props.namespace || "")}
             kubeService={this.props.kubeService}
+            namespace={this.props.namespace}
             nameFilter={this._getNameFilterValue()}
+            namespaceSelections={this._getNamespaceFilterValue()}
+            allowMutations={this.props.allowMutations}
         />);
     }
 
@@ -158,6 +240,13 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
         return selections;
     }
 
+    // The namespace filter only applies while the objects of all namespaces are shown
+    private _getNamespaceFilterValue(): string[] {
+        const filterState: IFilterState | undefined = this.props.filter.getState();
+        const filterItem: IFilterItemState | null = this._isAllNamespaces() && filterState ? filterState[NamespaceKey] : null;
+        return filterItem ? filterItem.value : [];
+    }
+
     private _showComponent(resourceType: KubeResourceType): boolean {
         const selections: KubeResourceType[] = this._getTypeFilterValue();
         // if no selections are made, show all components
@@ -170,4 +259,5 @@ export class WorkloadsPivot extends BaseComponent<IWorkloadsPivotProps, IWorkloa
 
     private _workloadsStore: WorkloadsStore;
     private _podsActionCreator: PodsActionsCreator;
+    private _watch: IKubeWatch | undefined;
 }
\ No newline at end of file
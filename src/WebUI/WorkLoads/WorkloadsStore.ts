@@ -6,10 +6,26 @@
 import { StoreBase } from "../FluxCommon/Store";
 import { StoreManager } from "../FluxCommon/StoreManager";
 import { ActionsHubManager } from "../FluxCommon/ActionsHubManager";
-import { V1DeploymentList, V1ReplicaSet, V1ReplicaSetList, V1DaemonSetList, V1StatefulSetList, V1PodList, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta } from "@kubernetes/client-node";
+import { V1Deployment, V1DeploymentList, V1ReplicaSet, V1ReplicaSetList, V1DaemonSetList, V1StatefulSetList, V1PodList, V1Pod, V1DaemonSet, V1StatefulSet, V1PodTemplateSpec, V1ObjectMeta, V1Job, V1JobList, V1beta1CronJob, V1beta1CronJobList } from "@kubernetes/client-node";
 import { WorkloadsActions } from "./WorkloadsActions";
 import { PodsActions } from "../Pods/PodsActions";
-import { WorkloadsEvents } from "../Constants";
+import { NamespacesActions } from "../Namespaces/NamespacesActions";
+import { NamespacesStore } from "../Namespaces/NamespacesStore";
+import { WorkloadsEvents, ResourceFetchStatus, WorkloadPodOwnerKinds } from "../Constants";
+import { IKubeWatchEvent } from "../../Contracts/Contracts";
+import { KubeResourceType } from "../../Contracts/KubeServiceBase";
+import { IListFetchedPayload, IResourceFetchStatus, IResourceFetchStatusPayload } from "../Types";
+import { Utils } from "../Utils";
+
+const trackedResourceTypes: KubeResourceType[] = [
+    KubeResourceType.Deployments,
+    KubeResourceType.ReplicaSets,
+    KubeResourceType.DaemonSets,
+    KubeResourceType.StatefulSets,
+    KubeResourceType.Jobs,
+    KubeResourceType.CronJobs,
+    KubeResourceType.Pods
+];
 
 export interface IWorkloadsStoreState {
     deploymentNamespace?: string;
@@ -17,7 +33,11 @@ export interface IWorkloadsStoreState {
     replicaSetList?: V1ReplicaSetList;
     daemonSetList?: V1DaemonSetList;
     statefulSetList?: V1StatefulSetList;
+    jobList?: V1JobList;
+    cronJobList?: V1beta1CronJobList;
+    // The pods which are not listed under an owner
     orphanPodsList?: V1Pod[];
+    fetchStatus: { [resourceType: number]: IResourceFetchStatus };
 }
 
 export class WorkloadsStore extends StoreBase {
@@ -28,40 +48,122 @@ export class WorkloadsStore extends StoreBase {
     public initialize(instanceId?: string): void {
         super.initialize(instanceId);
 
-        this._state = { deploymentNamespace: "", deploymentList: undefined, replicaSetList: undefined, daemonSetList: undefined, statefulSetList: undefined, orphanPodsList: [] };
+        this._state = WorkloadsStore._getInitialState();
 
-        this._workloadActions = ActionsHubManager.GetActionsHub<WorkloadsActions>(WorkloadsActions);
-        this._podsActions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions);
+        this._workloadActions = ActionsHubManager.GetActionsHub<WorkloadsActions>(WorkloadsActions, instanceId);
+        this._podsActions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions, instanceId);
+        this._namespacesActions = ActionsHubManager.GetActionsHub<NamespacesActions>(NamespacesActions, instanceId);
+        this._namespacesStore = StoreManager.GetStore<NamespacesStore>(NamespacesStore, instanceId);
 
-        this._workloadActions.deploymentsFetched.addListener(this._setDeploymentsList);
-        this._workloadActions.replicaSetsFetched.addListener(this._setReplicaSetsList);
-        this._workloadActions.daemonSetsFetched.addListener(this._setDaemonSetsList);
-        this._workloadActions.statefulSetsFetched.addListener(this._setStatefulsetsList);
-        this._podsActions.podsFetched.addListener(this._setOrphanPodsList);
+        this._workloadActions.deploymentsFetched.addListener(this._onDeploymentsFetched);
+        this._workloadActions.replicaSetsFetched.addListener(this._onReplicaSetsFetched);
+        this._workloadActions.daemonSetsFetched.addListener(this._onDaemonSetsFetched);
+        this._workloadActions.statefulSetsFetched.addListener(this._onStatefulSetsFetched);
+        this._workloadActions.jobsFetched.addListener(this._onJobsFetched);
+        this._workloadActions.cronJobsFetched.addListener(this._onCronJobsFetched);
+        this._podsActions.podsFetched.addListener(this._onPodsFetched);
+        this._workloadActions.deploymentWatchEventReceived.addListener(this._onDeploymentWatchEvent);
+        this._workloadActions.replicaSetWatchEventReceived.addListener(this._onReplicaSetWatchEvent);
+        this._workloadActions.daemonSetWatchEventReceived.addListener(this._onDaemonSetWatchEvent);
+        this._workloadActions.statefulSetWatchEventReceived.addListener(this._onStatefulSetWatchEvent);
+        this._workloadActions.jobWatchEventReceived.addListener(this._onJobWatchEvent);
+        this._workloadActions.cronJobWatchEventReceived.addListener(this._onCronJobWatchEvent);
+        this._podsActions.podWatchEventReceived.addListener(this._onPodWatchEvent);
+        this._workloadActions.fetchStatusChanged.addListener(this._onFetchStatusChanged);
+        this._podsActions.fetchStatusChanged.addListener(this._onFetchStatusChanged);
+        this._namespacesActions.namespaceSelected.addListener(this._onNamespaceSelected);
     }
 
     public disposeInternal(): void {
-        this._workloadActions.deploymentsFetched.removeListener(this._setDeploymentsList);
-        this._workloadActions.replicaSetsFetched.removeListener(this._setReplicaSetsList);
-        this._workloadActions.daemonSetsFetched.removeListener(this._setDaemonSetsList);
-        this._workloadActions.statefulSetsFetched.removeListener(this._setStatefulsetsList);
-        this._podsActions.podsFetched.removeListener(this._setOrphanPodsList);
+        this._workloadActions.deploymentsFetched.removeListener(this._onDeploymentsFetched);
+        this._workloadActions.replicaSetsFetched.removeListener(this._onReplicaSetsFetched);
+        this._workloadActions.daemonSetsFetched.removeListener(this._onDaemonSetsFetched);
+        this._workloadActions.statefulSetsFetched.removeListener(this._onStatefulSetsFetched);
+        this._workloadActions.jobsFetched.removeListener(this._onJobsFetched);
+        this._workloadActions.cronJobsFetched.removeListener(this._onCronJobsFetched);
+        this._podsActions.podsFetched.removeListener(this._onPodsFetched);
+        this._workloadActions.deploymentWatchEventReceived.removeListener(this._onDeploymentWatchEvent);
+        this._workloadActions.replicaSetWatchEventReceived.removeListener(this._onReplicaSetWatchEvent);
+        this._workloadActions.daemonSetWatchEventReceived.removeListener(this._onDaemonSetWatchEvent);
+        this._workloadActions.statefulSetWatchEventReceived.removeListener(this._onStatefulSetWatchEvent);
+        this._workloadActions.jobWatchEventReceived.removeListener(this._onJobWatchEvent);
+        this._workloadActions.cronJobWatchEventReceived.removeListener(this._onCronJobWatchEvent);
+        this._podsActions.podWatchEventReceived.removeListener(this._onPodWatchEvent);
+        this._workloadActions.fetchStatusChanged.removeListener(this._onFetchStatusChanged);
+        this._podsActions.fetchStatusChanged.removeListener(this._onFetchStatusChanged);
+        this._namespacesActions.namespaceSelected.removeListener(this._onNamespaceSelected);
     }
 
     public getState(): IWorkloadsStoreState {
         return this._state;
     }
 
+    public getFetchStatus(resourceType: KubeResourceType): IResourceFetchStatus {
+        return this._state.fetchStatus[resourceType] || { status: ResourceFetchStatus.Loading };
+    }
+
+    /**
+     * True once every workload kind has been fetched successfully, only then an empty store means there are no workloads.
+     */
+    public isFetchComplete(): boolean {
+        return trackedResourceTypes.every(resourceType => this.getFetchStatus(resourceType).status === ResourceFetchStatus.Loaded);
+    }
+
     public getWorkloadSize(): number {
         return (this._state.deploymentList ? this._state.deploymentList.items.length : 0) +
             (this._state.replicaSetList ? this._state.replicaSetList.items.length : 0) +
             (this._state.daemonSetList ? this._state.daemonSetList.items.length : 0) +
             (this._state.statefulSetList ? this._state.statefulSetList.items.length : 0) +
+            (this._state.jobList ? this._state.jobList.items.length : 0) +
+            (this._state.cronJobList ? this._state.cronJobList.items.length : 0) +
             (this._state.orphanPodsList ? this._state.orphanPodsList.length : 0);
     }
 
+    private _onDeploymentsFetched = (payload: IListFetchedPayload<V1DeploymentList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._setDeploymentsList(payload.list);
+        }
+    }
+
+    private _onReplicaSetsFetched = (payload: IListFetchedPayload<V1ReplicaSetList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._setReplicaSetsList(payload.list);
+        }
+    }
+
+    private _onDaemonSetsFetched = (payload: IListFetchedPayload<V1DaemonSetList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._setDaemonSetsList(payload.list);
+        }
+    }
+
+    private _onStatefulSetsFetched = (payload: IListFetchedPayload<V1StatefulSetList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._setStatefulsetsList(payload.list);
+        }
+    }
+
+    private _onJobsFetched = (payload: IListFetchedPayload<V1JobList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._setJobsList(payload.list);
+        }
+    }
+
+    private _onCronJobsFetched = (payload: IListFetchedPayload<V1beta1CronJobList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._setCronJobsList(payload.list);
+        }
+    }
+
+    private _onPodsFetched = (payload: IListFetchedPayload<V1PodList>): void => {
+        if (this._isSelectedNamespace(payload.namespace)) {
+            this._setOrphanPodsList(payload.list);
+        }
+    }
+
     private _setDeploymentsList = (deploymentsList: V1DeploymentList): void => {
-        this._state.deploymentList = deploymentsList;
+        this._state.deploymentList = Utils.getUpdatedList(this._state.deploymentList, deploymentsList);
+        this._setFetchStatus(KubeResourceType.Deployments, { status: ResourceFetchStatus.Loaded });
         for (const deployment of (deploymentsList && deploymentsList.items || [])) {
             if (deployment && deployment.metadata.namespace) {
                 this._state.deploymentNamespace = deployment.metadata.namespace;
@@ -77,7 +179,8 @@ export class WorkloadsStore extends StoreBase {
     }
 
     private _setReplicaSetsList = (replicaSetList: V1ReplicaSetList): void => {
-        this._state.replicaSetList = replicaSetList;
+        this._state.replicaSetList = Utils.getUpdatedList(this._state.replicaSetList, replicaSetList);
+        this._setFetchStatus(KubeResourceType.ReplicaSets, { status: ResourceFetchStatus.Loaded });
         this.emit(WorkloadsEvents.ReplicaSetsFetchedEvent, this);
         if (this._state.replicaSetList && this._state.replicaSetList.items && this._state.replicaSetList.items.length > 0) {
             this.emit(WorkloadsEvents.WorkloadsFoundEvent, this);
@@ -85,7 +188,8 @@ export class WorkloadsStore extends StoreBase {
     }
 
     private _setDaemonSetsList = (daemonSetList: V1DaemonSetList): void => {
-        this._state.daemonSetList = daemonSetList;
+        this._state.daemonSetList = Utils.getUpdatedList(this._state.daemonSetList, daemonSetList);
+        this._setFetchStatus(KubeResourceType.DaemonSets, { status: ResourceFetchStatus.Loaded });
         this.emit(WorkloadsEvents.DaemonSetsFetchedEvent, this);
         if (this._state.daemonSetList && this._state.daemonSetList.items && this._state.daemonSetList.items.length > 0) {
             this.emit(WorkloadsEvents.WorkloadsFoundEvent, this);
@@ -93,22 +197,37 @@ export class WorkloadsStore extends StoreBase {
     }
 
     private _setStatefulsetsList = (statefulSetList: V1StatefulSetList): void => {
-        this._state.statefulSetList = statefulSetList;
+        this._state.statefulSetList = Utils.getUpdatedList(this._state.statefulSetList, statefulSetList);
+        this._setFetchStatus(KubeResourceType.StatefulSets, { status: ResourceFetchStatus.Loaded });
         this.emit(WorkloadsEvents.StatefulSetsFetchedEvent, this);
         if (this._state.statefulSetList && this._state.statefulSetList.items && this._state.statefulSetList.items.length > 0) {
             this.emit(WorkloadsEvents.WorkloadsFoundEvent, this);
         }
     }
 
+    private _setJobsList = (jobList: V1JobList): void => {
+        this._state.jobList = Utils.getUpdatedList(this._state.jobList, jobList);
+        this._setFetchStatus(KubeResourceType.Jobs, { status: ResourceFetchStatus.Loaded });
+        this.emit(WorkloadsEvents.JobsFetchedEvent, this);
+        if (this._state.jobList && this._state.jobList.items && this._state.jobList.items.length > 0) {
+            this.emit(WorkloadsEvents.WorkloadsFoundEvent, this);
+        }
+    }
+
+    private _setCronJobsList = (cronJobList: V1beta1CronJobList): void => {
+        this._state.cronJobList = Utils.getUpdatedList(this._state.cronJobList, cronJobList);
+        this._setFetchStatus(KubeResourceType.CronJobs, { status: ResourceFetchStatus.Loaded });
+        this.emit(WorkloadsEvents.CronJobsFetchedEvent, this);
+        if (this._state.cronJobList && this._state.cronJobList.items && this._state.cronJobList.items.length > 0) {
+            this.emit(WorkloadsEvents.WorkloadsFoundEvent, this);
+        }
+    }
+
     private _setOrphanPodsList = (podsList: V1PodList): void => {
-        let orphanPods: V1Pod[] = [];
-        podsList && podsList.items && podsList.items.forEach(pod => {
-            if (!pod.metadata.ownerReferences) {
-                orphanPods.push(pod);
-            }
-        });
+        const orphanPods: V1Pod[] = (podsList && podsList.items || []).filter(WorkloadsStore._isOrphanPod);
 
-        this._state.orphanPodsList = orphanPods;
+        this._state.orphanPodsList = Utils.reuseUnchangedItems(this._state.orphanPodsList, orphanPods);
+        this._setFetchStatus(KubeResourceType.Pods, { status: ResourceFetchStatus.Loaded });
         this.emit(WorkloadsEvents.WorkloadPodsFetchedEvent, this);
         
         if (this._state.orphanPodsList && this._state.orphanPodsList.length > 0) {
@@ -116,8 +235,115 @@ export class WorkloadsStore extends StoreBase {
         }
     }
 
+    private _onDeploymentWatchEvent = (event: IKubeWatchEvent<V1Deployment>): void => {
+        const deploymentList = this._state.deploymentList || {} as V1DeploymentList;
+        this._setDeploymentsList({ ...deploymentList, items: Utils.applyWatchEvent(deploymentList.items, event) });
+    }
+
+    private _onReplicaSetWatchEvent = (event: IKubeWatchEvent<V1ReplicaSet>): void => {
+        const replicaSetList = this._state.replicaSetList || {} as V1ReplicaSetList;
+        this._setReplicaSetsList({ ...replicaSetList, items: Utils.applyWatchEvent(replicaSetList.items, event) });
+    }
+
+    private _onDaemonSetWatchEvent = (event: IKubeWatchEvent<V1DaemonSet>): void => {
+        const daemonSetList = this._state.daemonSetList || {} as V1DaemonSetList;
+        this._setDaemonSetsList({ ...daemonSetList, items: Utils.applyWatchEvent(daemonSetList.items, event) });
+    }
+
+    private _onStatefulSetWatchEvent = (event: IKubeWatchEvent<V1StatefulSet>): void => {
+        const statefulSetList = this._state.statefulSetList || {} as V1StatefulSetList;
+        this._setStatefulsetsList({ ...statefulSetList, items: Utils.applyWatchEvent(statefulSetList.items, event) });
+    }
+
+    private _onJobWatchEvent = (event: IKubeWatchEvent<V1Job>): void => {
+        const jobList = this._state.jobList || {} as V1JobList;
+        this._setJobsList({ ...jobList, items: Utils.applyWatchEvent(jobList.items, event) });
+    }
+
+    private _onCronJobWatchEvent = (event: IKubeWatchEvent<V1beta1CronJob>): void => {
+        const cronJobList = this._state.cronJobList || {} as V1beta1CronJobList;
+        this._setCronJobsList({ ...cronJobList, items: Utils.applyWatchEvent(cronJobList.items, event) });
+    }
+
+    private _onPodWatchEvent = (event: IKubeWatchEvent<V1Pod>): void => {
+        const pod = event.object;
+        // A pod which gets adopted by a workload is no longer an orphan, so it is removed from the list
+        const isOrphan = !!pod && !!pod.metadata && WorkloadsStore._isOrphanPod(pod);
+        this._state.orphanPodsList = Utils.applyWatchEvent(this._state.orphanPodsList || [], isOrphan ? event : { type: "DELETED", object: pod });
+        this.emit(WorkloadsEvents.WorkloadPodsFetchedEvent, this);
+
+        if (this._state.orphanPodsList.length > 0) {
+            this.emit(WorkloadsEvents.WorkloadsFoundEvent, this);
+        }
+    }
+
+    private _onFetchStatusChanged = (payload: IResourceFetchStatusPayload): void => {
+        // Pods fetched for a service's label selector are tracked by the services store
+        if (payload.labelSelector || trackedResourceTypes.indexOf(payload.resourceType) < 0) {
+            return;
+        }
+
+        this._setFetchStatus(payload.resourceType, { status: payload.status, errorMessage: payload.errorMessage });
+        this.emit(WorkloadsStore._getFetchedEventName(payload.resourceType), this);
+    }
+
+    // Requests made before another namespace was selected may still arrive once the store was reset
+    private _isSelectedNamespace(namespace: string | undefined): boolean {
+        return Utils.isSelectedNamespace(namespace, this._namespacesStore.getState().selectedNamespace);
+    }
+
+    // The objects of the previous namespace are dropped, the views fetch the new namespace once they are remounted
+    private _onNamespaceSelected = (): void => {
+        this._state = WorkloadsStore._getInitialState();
+        trackedResourceTypes.forEach(resourceType => this.emit(WorkloadsStore._getFetchedEventName(resourceType), this));
+        this.emit(WorkloadsEvents.WorkloadsFetchStatusChangedEvent, this);
+    }
+
+    private static _getInitialState(): IWorkloadsStoreState {
+        let state: IWorkloadsStoreState = { deploymentNamespace: "", deploymentList: undefined, replicaSetList: undefined, daemonSetList: undefined, statefulSetList: undefined, jobList: undefined, cronJobList: undefined, orphanPodsList: [], fetchStatus: {} };
+        trackedResourceTypes.forEach(resourceType => {
+            state.fetchStatus[resourceType] = { status: ResourceFetchStatus.Loading };
+        });
+
+        return state;
+    }
+
+    private _setFetchStatus(resourceType: KubeResourceType, fetchStatus: IResourceFetchStatus): void {
+        // The status object is only replaced on a change, so that the views can skip rendering unchanged state
+        if (!Utils.isFetchStatusEqual(this._state.fetchStatus[resourceType], fetchStatus)) {
+            this._state.fetchStatus[resourceType] = fetchStatus;
+            this.emit(WorkloadsEvents.WorkloadsFetchStatusChangedEvent, this);
+        }
+    }
+
+    private static _getFetchedEventName(resourceType: KubeResourceType): string {
+        switch (resourceType) {
+            case KubeResourceType.Deployments:
+                return WorkloadsEvents.DeploymentsFetchedEvent;
+            case KubeResourceType.ReplicaSets:
+                return WorkloadsEvents.ReplicaSetsFetchedEvent;
+            case KubeResourceType.DaemonSets:
+                return WorkloadsEvents.DaemonSetsFetchedEvent;
+            case KubeResourceType.StatefulSets:
+                return WorkloadsEvents.StatefulSetsFetchedEvent;
+            case KubeResourceType.Jobs:
+                return WorkloadsEvents.JobsFetchedEvent;
+            case KubeResourceType.CronJobs:
+                return WorkloadsEvents.CronJobsFetchedEvent;
+            default:
+                return WorkloadsEvents.WorkloadPodsFetchedEvent;
+        }
+    }
+
+    // Pods of other owners, e.g. the mirror pods of a node, would not be shown anywhere else
+    private static _isOrphanPod(pod: V1Pod): boolean {
+        return !(pod.metadata.ownerReferences || []).some(owner => WorkloadPodOwnerKinds.indexOf(owner.kind) >= 0);
+    }
+
     private _state: IWorkloadsStoreState;
     private _workloadActions: WorkloadsActions;
     private _podsActions: PodsActions;
+    private _namespacesActions: NamespacesActions;
+    private _namespacesStore: NamespacesStore;
 }
 
@@ -0,0 +1,217 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+import { V1DaemonSet, V1DaemonSetStatus, V1Deployment, V1DeploymentStatus, V1Job, V1JobStatus, V1Pod, V1ReplicaSet, V1ReplicaSetStatus, V1StatefulSet, V1StatefulSetStatus } from "@kubernetes/client-node";
+import { PodHealth, PodHealthStatus } from "./PodHealth";
+
+// https://kubernetes.io/docs/concepts/workloads/controllers/deployment/#deployment-status
+const progressDeadlineExceededReason: string = "ProgressDeadlineExceeded";
+const newReplicaSetAvailableReason: string = "NewReplicaSetAvailable";
+
+export enum WorkloadHealthStatus {
+    // no pods are desired, e.g. the replica sets of earlier revisions
+    ScaledDown = "ScaledDown",
+    Healthy = "Healthy",
+    Progressing = "Progressing",
+    Degraded = "Degraded",
+    Failed = "Failed"
+}
+
+export interface IWorkloadHealth {
+    status: WorkloadHealthStatus;
+    // e.g. "ProgressDeadlineExceeded", or the reason of the worst pod such as "CrashLoopBackOff"
+    reason: string;
+    message: string;
+    readyCount: number;
+    desiredCount: number;
+}
+
+interface IWorkloadCondition {
+    type: string;
+    status: string;
+    reason?: string;
+    message?: string;
+}
+
+// What the controllers of the different workloads report, in the same terms
+interface IWorkloadState {
+    desiredCount: number;
+    readyCount: number;
+    // undefined for controllers which do not roll out updates
+    updatedCount?: number;
+    isGenerationObserved: boolean;
+    conditions: IWorkloadCondition[];
+}
+
+export class WorkloadHealth {
+    /**
+     * Returns the health of a workload of the given kind, undefined for kinds which do not manage pods.
+     */
+    public static getHealth(kind: string, workload: V1Deployment | V1ReplicaSet | V1DaemonSet | V1StatefulSet | V1Job, pods?: V1Pod[]): IWorkloadHealth | undefined {
+        switch (kind) {
+            case "Deployment":
+                return WorkloadHealth.getDeploymentHealth(workload as V1Deployment, pods);
+            case "ReplicaSet":
+                return WorkloadHealth.getReplicaSetHealth(workload as V1ReplicaSet, pods);
+            case "DaemonSet":
+                return WorkloadHealth.getDaemonSetHealth(workload as V1DaemonSet, pods);
+            case "StatefulSet":
+                return WorkloadHealth.getStatefulSetHealth(workload as V1StatefulSet, pods);
+            case "Job":
+                return WorkloadHealth.getJobHealth(workload as V1Job, pods);
+        }
+
+        return undefined;
+    }
+
+    public static getDeploymentHealth(deployment: V1Deployment, pods?: V1Pod[]): IWorkloadHealth {
+        const status = deployment.status || {} as V1DeploymentStatus;
+        return WorkloadHealth._evaluate({
+            desiredCount: WorkloadHealth._getDesiredReplicas(deployment.spec),
+            readyCount: status.availableReplicas || 0,
+            updatedCount: status.updatedReplicas || 0,
+            isGenerationObserved: WorkloadHealth._isGenerationObserved(deployment.metadata, status),
+            conditions: status.conditions || []
+        }, pods);
+    }
+
+    public static getReplicaSetHealth(replicaSet: V1ReplicaSet, pods?: V1Pod[]): IWorkloadHealth {
+        const status = replicaSet.status || {} as V1ReplicaSetStatus;
+        return WorkloadHealth._evaluate({
+            desiredCount: WorkloadHealth._getDesiredReplicas(replicaSet.spec),
+            readyCount: status.availableReplicas || 0,
+            isGenerationObserved: WorkloadHealth._isGenerationObserved(replicaSet.metadata, status),
+            conditions: status.conditions || []
+        }, pods);
+    }
+
+    public static getDaemonSetHealth(daemonSet: V1DaemonSet, pods?: V1Pod[]): IWorkloadHealth {
+        const status = daemonSet.status || {} as V1DaemonSetStatus;
+        return WorkloadHealth._evaluate({
+            desiredCount: status.desiredNumberScheduled || 0,
+            readyCount: status.numberAvailable || 0,
+            updatedCount: status.updatedNumberScheduled || 0,
+            isGenerationObserved: WorkloadHealth._isGenerationObserved(daemonSet.metadata, status),
+            conditions: status.conditions || []
+        }, pods);
+    }
+
+    public static getStatefulSetHealth(statefulSet: V1StatefulSet, pods?: V1Pod[]): IWorkloadHealth {
+        const status = statefulSet.status || {} as V1StatefulSetStatus;
+        return WorkloadHealth._evaluate({
+            desiredCount: WorkloadHealth._getDesiredReplicas(statefulSet.spec),
+            readyCount: status.readyReplicas || 0,
+            updatedCount: status.updatedReplicas || 0,
+            isGenerationObserved: WorkloadHealth._isGenerationObserved(statefulSet.metadata, status),
+            conditions: status.conditions || []
+        }, pods);
+    }
+
+    /**
+     * A job is healthy once it completed, the counts are its succeeded and desired completions.
+     */
+    public static getJobHealth(job: V1Job, pods?: V1Pod[]): IWorkloadHealth {
+        const status = job.status || {} as V1JobStatus;
+        const conditions: IWorkloadCondition[] = status.conditions || [];
+        const health: IWorkloadHealth = {
+            status: WorkloadHealthStatus.Progressing,
+            reason: "",
+            message: "",
+            readyCount: status.succeeded || 0,
+            desiredCount: job.spec && job.spec.completions != null ? job.spec.completions : 1
+        };
+
+        const complete = conditions.find(condition => condition.type === "Complete" && condition.status === "True");
+        if (complete) {
+            return { ...health, status: WorkloadHealthStatus.Healthy, reason: "Complete" };
+        }
+
+        // e.g. BackoffLimitExceeded or DeadlineExceeded
+        const failed = conditions.find(condition => condition.type === "Failed" && condition.status === "True");
+        if (failed) {
+            return { ...health, status: WorkloadHealthStatus.Failed, reason: failed.reason || "Failed", message: failed.message || "" };
+        }
+
+        // failed pods are retried until the backoff limit is reached
+        const failingPod = WorkloadHealth._getFailingPod(pods);
+        if (failingPod || status.failed > 0) {
+            return { ...health, status: WorkloadHealthStatus.Degraded, reason: failingPod ? failingPod.reason : "PodsFailed", message: failingPod ? failingPod.message : "" };
+        }
+
+        return { ...health, reason: status.active > 0 ? "Running" : "PodsStarting" };
+    }
+
+    private static _evaluate(state: IWorkloadState, pods?: V1Pod[]): IWorkloadHealth {
+        const health: IWorkloadHealth = { status: WorkloadHealthStatus.Healthy, reason: "", message: "", readyCount: state.readyCount, desiredCount: state.desiredCount };
+        if (state.desiredCount === 0) {
+            return { ...health, status: WorkloadHealthStatus.ScaledDown, reason: "ScaledDown" };
+        }
+
+        const replicaFailure = WorkloadHealth._getCondition(state, "ReplicaFailure");
+        if (replicaFailure && replicaFailure.status === "True") {
+            return { ...health, status: WorkloadHealthStatus.Failed, reason: replicaFailure.reason || "ReplicaFailure", message: replicaFailure.message || "" };
+        }
+
+        const progressing = WorkloadHealth._getCondition(state, "Progressing");
+        if (progressing && progressing.status === "False" && progressing.reason === progressDeadlineExceededReason) {
+            return { ...health, status: WorkloadHealthStatus.Failed, reason: progressing.reason, message: progressing.message || "" };
+        }
+
+        // the pods tell why replicas are not ready, while the controller only counts them
+        const failingPod = WorkloadHealth._getFailingPod(pods);
+        const isUpdating = !state.isGenerationObserved
+            || state.updatedCount !== undefined && state.updatedCount < state.desiredCount
+            || !!progressing && progressing.status === "True" && progressing.reason !== newReplicaSetAvailableReason;
+
+        if (state.readyCount >= state.desiredCount) {
+            if (failingPod) {
+                return { ...health, status: WorkloadHealthStatus.Degraded, reason: failingPod.reason, message: failingPod.message };
+            }
+
+            return isUpdating ? { ...health, status: WorkloadHealthStatus.Progressing, reason: "RollingUpdate" } : health;
+        }
+
+        if (failingPod) {
+            return { ...health, status: state.readyCount === 0 ? WorkloadHealthStatus.Failed : WorkloadHealthStatus.Degraded, reason: failingPod.reason, message: failingPod.message };
+        }
+
+        const hasStartingPods = !!pods && pods.some(pod => !PodHealth.isHealthy(PodHealth.getHealth(pod).status));
+        if (isUpdating || hasStartingPods) {
+            return { ...health, status: WorkloadHealthStatus.Progressing, reason: isUpdating ? "RollingUpdate" : "PodsStarting" };
+        }
+
+        const available = WorkloadHealth._getCondition(state, "Available");
+        return {
+            ...health,
+            status: state.readyCount === 0 ? WorkloadHealthStatus.Failed : WorkloadHealthStatus.Degraded,
+            reason: available && available.status === "False" && available.reason || "PodsUnavailable",
+            message: available && available.status === "False" && available.message || ""
+        };
+    }
+
+    // A pod failing or repeatedly restarting, undefined while pods are only starting
+    private static _getFailingPod(pods?: V1Pod[]): { reason: string, message: string } | undefined {
+        const failingHealth = (pods || [])
+            .map(PodHealth.getHealth)
+            .filter(podHealth => podHealth.status === PodHealthStatus.Failed || podHealth.status === PodHealthStatus.Warning)
+            .sort((first, second) => PodHealth.compareSeverity(second.status, first.status))[0];
+
+        return failingHealth && { reason: failingHealth.reason, message: failingHealth.message };
+    }
+
+    private static _getCondition(state: IWorkloadState, type: string): IWorkloadCondition | undefined {
+        return state.conditions.find(condition => condition.type === type);
+    }
+
+    // replicas defaults to 1 when it is not set
+    private static _getDesiredReplicas(spec: { replicas?: number } | undefined): number {
+        return spec && spec.replicas != null ? spec.replicas : 1;
+    }
+
+    // The status describes an earlier spec until the controller has observed the latest generation
+    private static _isGenerationObserved(metadata: { generation?: number } | undefined, status: { observedGeneration?: number }): boolean {
+        return !metadata || metadata.generation == null || status.observedGeneration == null || status.observedGeneration >= metadata.generation;
+    }
+}
@@ -0,0 +1,241 @@
+/*
+    Copyright (c) Microsoft Corporation. All rights reserved.
+    Licensed under the MIT license.
+*/
+
+const lastAppliedConfigurationKey: string = "kubectl.kubernetes.io/last-applied-configuration";
+const indentUnit: string = "  ";
+
+export interface IYamlLine {
+    text: string;
+    /**
+     * Structural nesting level of the line; lines following a foldable line with a greater depth belong to it
+     */
+    depth: number;
+    foldable: boolean;
+}
+
+export type YamlLineChange = "added" | "removed" | "unchanged";
+
+export interface IYamlDiffLine {
+    text: string;
+    change: YamlLineChange;
+}
+
+export class YamlUtils {
+    /**
+     * Serializes the object to yaml in the form printed by "kubectl get -o yaml": keys are sorted and
+     * list items are not indented relative to their parent key.
+     */
+    public static toYaml(obj: any): string {
+        return YamlUtils.toYamlLines(obj).map(line => line.text).join("\n");
+    }
+
+    public static toYamlLines(obj: any): IYamlLine[] {
+        let lines: IYamlLine[] = [];
+        if (YamlUtils._isBlock(obj)) {
+            YamlUtils._appendBlock(obj, "", 0, lines);
+        }
+        else {
+            lines.push({ text: YamlUtils._formatScalar(obj), depth: 0, foldable: false });
+        }
+
+        return lines;
+    }
+
+    /**
+     * Returns the lines of the new yaml along with the removed lines of the old yaml, in the order "diff -u" prints them.
+     */
+    public static diffLines(oldText: string, newText: string): IYamlDiffLine[] {
+        const oldLines = oldText ? oldText.split("\n") : [];
+        const newLines = newText ? newText.split("\n") : [];
+
+        // lengths of the longest common subsequences of the remaining lines
+        let common: number[][] = [];
+        for (let oldIndex = oldLines.length; oldIndex >= 0; oldIndex--) {
+            common[oldIndex] = [];
+            for (let newIndex = newLines.length; newIndex >= 0; newIndex--) {
+                if (oldIndex === oldLines.length || newIndex === newLines.length) {
+                    common[oldIndex][newIndex] = 0;
+                }
+                else if (oldLines[oldIndex] === newLines[newIndex]) {
+                    common[oldIndex][newIndex] = common[oldIndex + 1][newIndex + 1] + 1;
+                }
+                else {
+                    common[oldIndex][newIndex] = Math.max(common[oldIndex + 1][newIndex], common[oldIndex][newIndex + 1]);
+                }
+            }
+        }
+
+        let lines: IYamlDiffLine[] = [];
+        let oldIndex = 0, newIndex = 0;
+        while (oldIndex < oldLines.length || newIndex < newLines.length) {
+            if (oldIndex < oldLines.length && newIndex < newLines.length && oldLines[oldIndex] === newLines[newIndex]) {
+                lines.push({ text: newLines[newIndex++], change: "unchanged" });
+                oldIndex++;
+            }
+            else if (newIndex === newLines.length || (oldIndex < oldLines.length && common[oldIndex + 1][newIndex] >= common[oldIndex][newIndex + 1])) {
+                lines.push({ text: oldLines[oldIndex++], change: "removed" });
+            }
+            else {
+                lines.push({ text: newLines[newIndex++], change: "added" });
+            }
+        }
+
+        return lines;
+    }
+
+    /**
+     * Returns a copy of the kubernetes object without the fields that are not useful while reviewing it,
+     * i.e. metadata.managedFields and the last-applied-configuration annotation.
+     */
+    public static stripNoisyFields(obj: any): any {
+        if (!obj || !obj.metadata) {
+            return obj;
+        }
+
+        let metadata = { ...obj.metadata };
+        delete metadata.managedFields;
+        if (metadata.annotations && metadata.annotations.hasOwnProperty(lastAppliedConfigurationKey)) {
+            let annotations = { ...metadata.annotations };
+            delete annotations[lastAppliedConfigurationKey];
+            if (Object.keys(annotations).length > 0) {
+                metadata.annotations = annotations;
+            }
+            else {
+                delete metadata.annotations;
+            }
+        }
+
+        return { ...obj, metadata: metadata };
+    }
+
+    private static _appendBlock(value: any, indent: string, depth: number, lines: IYamlLine[]): void {
+        if (Array.isArray(value)) {
+            value.forEach(item => YamlUtils._appendListItem(item, indent, depth, lines));
+        }
+        else {
+            YamlUtils._getSortedKeys(value).forEach(key => YamlUtils._appendKeyValue(key, value[key], indent, depth, lines, indent));
+        }
+    }
+
+    private static _appendKeyValue(key: string, value: any, indent: string, depth: number, lines: IYamlLine[], linePrefix: string): void {
+        const formattedKey = YamlUtils._formatKey(key);
+        if (YamlUtils._isBlock(value)) {
+            lines.push({ text: linePrefix + formattedKey + ":", depth: depth, foldable: true });
+            // kubectl does not indent list items relative to the parent key
+            YamlUtils._appendBlock(value, Array.isArray(value) ? indent : indent + indentUnit, depth + 1, lines);
+        }
+        else if (YamlUtils._isMultilineString(value)) {
+            lines.push({ text: linePrefix + formattedKey + ": " + YamlUtils._getBlockScalarIndicator(value), depth: depth, foldable: true });
+            YamlUtils._getMultilineStringLines(value).forEach(line => {
+                lines.push({ text: line ? indent + indentUnit + line : "", depth: depth + 1, foldable: false });
+            });
+        }
+        else {
+            lines.push({ text: linePrefix + formattedKey + ": " + YamlUtils._formatScalar(value), depth: depth, foldable: false });
+        }
+    }
+
+    private static _appendListItem(item: any, indent: string, depth: number, lines: IYamlLine[]): void {
+        const itemPrefix = indent + "- ";
+        const childIndent = indent + indentUnit;
+        if (YamlUtils._isBlock(item)) {
+            const firstLineIndex = lines.length;
+            if (Array.isArray(item)) {
+                lines.push({ text: itemPrefix.replace(/ $/, ""), depth: depth, foldable: true });
+                YamlUtils._appendBlock(item, childIndent, depth + 1, lines);
+            }
+            else {
+                // The first key of a mapping shares the line with the list item marker
+                YamlUtils._getSortedKeys(item).forEach((key, index) => {
+                    YamlUtils._appendKeyValue(key, item[key], childIndent, depth + 1, lines, index === 0 ? itemPrefix : childIndent);
+                });
+                lines[firstLineIndex].depth = depth;
+                lines[firstLineIndex].foldable = lines.length - firstLineIndex > 1;
+            }
+        }
+        else if (YamlUtils._isMultilineString(item)) {
+            lines.push({ text: itemPrefix + YamlUtils._getBlockScalarIndicator(item), depth: depth, foldable: true });
+            YamlUtils._getMultilineStringLines(item).forEach(line => {
+                lines.push({ text: line ? childIndent + line : "", depth: depth + 1, foldable: false });
+            });
+        }
+        else {
+            lines.push({ text: itemPrefix + YamlUtils._formatScalar(item), depth: depth, foldable: false });
+        }
+    }
+
+    private static _getSortedKeys(value: { [key: string]: any }): string[] {
+        return Object.keys(value).filter(key => value[key] !== undefined).sort();
+    }
+
+    // Empty objects and arrays are printed inline as {} and []
+    private static _isBlock(value: any): boolean {
+        if (Array.isArray(value)) {
+            return value.length > 0;
+        }
+
+        return !!value && typeof value === "object" && !(value instanceof Date) && YamlUtils._getSortedKeys(value).length > 0;
+    }
+
+    private static _isMultilineString(value: any): boolean {
+        return typeof value === "string" && value.indexOf("\n") >= 0;
+    }
+
+    private static _getBlockScalarIndicator(value: string): string {
+        return /\n$/.test(value) ? "|" : "|-";
+    }
+
+    private static _getMultilineStringLines(value: string): string[] {
+        return value.replace(/\n$/, "").split("\n");
+    }
+
+    private static _formatKey(key: string): string {
+        return YamlUtils._needsQuotes(key) ? JSON.stringify(key) : key;
+    }
+
+    private static _formatScalar(value: any): string {
+        if (value === null || value === undefined) {
+            return "null";
+        }
+
+        if (value instanceof Date) {
+            return JSON.stringify(YamlUtils._formatDate(value));
+        }
+
+        if (Array.isArray(value)) {
+            return "[]";
+        }
+
+        if (typeof value === "object") {
+            return "{}";
+        }
+
+        if (typeof value === "number" || typeof value === "boolean") {
+            return String(value);
+        }
+
+        const text = String(value);
+        return YamlUtils._needsQuotes(text) ? JSON.stringify(text) : text;
+    }
+
+    // kubernetes timestamps are printed in RFC3339 format without fractional seconds
+    private static _formatDate(value: Date): string {
+        return value.toISOString().replace(/\.\d+Z$/, "Z");
+    }
+
+    private static _needsQuotes(text: string): boolean {
+        return text === ""
+            || text !== text.trim()
+            // values which yaml would otherwise read as a boolean, null, number or timestamp
+            || /^(true|false|yes|no|on|off|y|n|null|~)$/i.test(text)
+            || /^[-+]?(\d[\d_]*(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)
+            || /^0x[0-9a-fA-F]+$/.test(text)
+            || /^\d{4}-\d{2}-\d{2}/.test(text)
+            // indicator characters at the start and sequences that have special meaning anywhere
+            || /^[,\[\]{}#&*!|>'"%@`]/.test(text)
+            || /^[-?:]( |$)/.test(text)
+            || /: |:$| #|\t/.test(text);
+    }
+}
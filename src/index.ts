@@ -1,3 +1,4 @@
 export * from "./Contracts/Contracts";
 export * from "./Contracts/KubeServiceBase";
-export * from "./WebUI/Common/KubeSummary";
\ No newline at end of file
+export * from "./WebUI/Common/KubeSummary";
+export * from "./WebUI/KubeRouter";
\ No newline at end of file
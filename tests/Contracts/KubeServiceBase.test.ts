@@ -1,8 +1,13 @@
 import { KubeServiceBase, KubeResourceType } from "../../src/Contracts/KubeServiceBase";
+import { IPodLogOptions } from "../../src/Contracts/Contracts";
 
 class MockKubeService extends KubeServiceBase {
-    public fetch(resourceType: KubeResourceType): Promise<any> {
-        return Promise.resolve(resourceType);
+    public fetch(resourceType: KubeResourceType, labelSelector?: string, fieldSelector?: string, namespace?: string): Promise<any> {
+        return Promise.resolve(fieldSelector || namespace ? [resourceType, fieldSelector || "", namespace || ""].join("/") : resourceType);
+    }
+
+    public fetchPodLog(namespace: string, podName: string, options?: IPodLogOptions): Promise<string> {
+        return Promise.resolve([namespace, podName, options && options.container].join("/"));
     }
 }
 
@@ -56,6 +61,55 @@ describe("KubeServiceBase Tests", () => {
         });
     });
 
+    it("getJobs calls with right input", () => {
+        expect.assertions(1);
+        return service.getJobs().then(output => {
+            expect(output).toBe(KubeResourceType.Jobs);
+        });
+    });
+
+    it("getCronJobs calls with right input", () => {
+        expect.assertions(1);
+        return service.getCronJobs().then(output => {
+            expect(output).toBe(KubeResourceType.CronJobs);
+        });
+    });
+
+    it("getIngresses calls with right input", () => {
+        expect.assertions(1);
+        return service.getIngresses().then(output => {
+            expect(output).toBe(KubeResourceType.Ingresses);
+        });
+    });
+
+    it("getConfigMaps calls with right input", () => {
+        expect.assertions(1);
+        return service.getConfigMaps().then(output => {
+            expect(output).toBe(KubeResourceType.ConfigMaps);
+        });
+    });
+
+    it("getSecrets calls with right input", () => {
+        expect.assertions(1);
+        return service.getSecrets().then(output => {
+            expect(output).toBe(KubeResourceType.Secrets);
+        });
+    });
+
+    it("getPersistentVolumeClaims calls with right input", () => {
+        expect.assertions(1);
+        return service.getPersistentVolumeClaims().then(output => {
+            expect(output).toBe(KubeResourceType.PersistentVolumeClaims);
+        });
+    });
+
+    it("getNodes calls with right input", () => {
+        expect.assertions(1);
+        return service.getNodes().then(output => {
+            expect(output).toBe(KubeResourceType.Nodes);
+        });
+    });
+
     it("getPods calls with labelSelector as input",() => {
         expect.assertions(1);
         const labelSelector:string = "app=app";
@@ -63,4 +117,52 @@ describe("KubeServiceBase Tests", () => {
             expect(output).toBe(KubeResourceType.Pods);
         });
     });
+
+    it("getEvents calls with right input", () => {
+        expect.assertions(1);
+        return service.getEvents().then(output => {
+            expect(output).toBe(KubeResourceType.Events);
+        });
+    });
+
+    it("getEvents calls with fieldSelector as input", () => {
+        expect.assertions(1);
+        return service.getEvents("involvedObject.uid=some-uid").then(output => {
+            expect(output).toBe(KubeResourceType.Events + "/involvedObject.uid=some-uid/");
+        });
+    });
+
+    it("getNamespaces calls with right input", () => {
+        expect.assertions(1);
+        return service.getNamespaces().then(output => {
+            expect(output).toBe(KubeResourceType.Namespaces);
+        });
+    });
+
+    it("getDeployments calls with namespace as input", () => {
+        expect.assertions(1);
+        return service.getDeployments("some-namespace").then(output => {
+            expect(output).toBe(KubeResourceType.Deployments + "//some-namespace");
+        });
+    });
+
+    it("getPodLog calls with right input", () => {
+        expect.assertions(1);
+        return service.getPodLog("some-namespace", "some-pod", { container: "some-container", tailLines: 100 }).then(output => {
+            expect(output).toBe("some-namespace/some-pod/some-container");
+        });
+    });
+
+    it("getPodLog is rejected when the host does not read pod logs", () => {
+        class HostKubeService extends KubeServiceBase {
+            public fetch(resourceType: KubeResourceType): Promise<any> {
+                return Promise.resolve(resourceType);
+            }
+        }
+
+        expect.assertions(1);
+        return new HostKubeService().getPodLog("some-namespace", "some-pod").catch(error => {
+            expect(error.message).toBe("Reading pod logs is not supported");
+        });
+    });
 });
@@ -0,0 +1,76 @@
+import { V1Pod, V1PodSpec } from "@kubernetes/client-node";
+import { ConfigurationReferences } from "../../src/WebUI/ConfigurationReferences";
+import { buildConfigMap, buildPod, buildSecret, DeepPartial } from "./TestBuilders";
+
+function createPod(name: string, spec: DeepPartial<V1PodSpec>, ownerName?: string, namespace: string = "default"): V1Pod {
+    const ownerReferences = ownerName ? [{ kind: "ReplicaSet", name: ownerName }] : undefined;
+    return buildPod({ name: name, namespace: namespace, ownerReferences: ownerReferences }, spec);
+}
+
+describe("ConfigurationReferences getPodReferences Tests", () => {
+    it("getPodReferences returns the config maps and secrets of the environment, volumes and image pull secrets", () => {
+        const pod = createPod("web", {
+            initContainers: [{ name: "init", envFrom: [{ configMapRef: { name: "init-settings" } }] }],
+            containers: [{
+                name: "web",
+                envFrom: [{ secretRef: { name: "web-credentials" } }],
+                env: [
+                    { name: "MODE", valueFrom: { configMapKeyRef: { name: "web-settings", key: "mode" } } },
+                    { name: "TOKEN", valueFrom: { secretKeyRef: { name: "web-credentials", key: "token" } } },
+                    { name: "POD_IP", valueFrom: { fieldRef: { fieldPath: "status.podIP" } } }
+                ]
+            }],
+            volumes: [
+                { name: "config", configMap: { name: "web-files" } },
+                { name: "certs", secret: { secretName: "web-tls" } },
+                { name: "all", projected: { sources: [{ configMap: { name: "shared" } }, { secret: { name: "shared-keys" } }, { downwardAPI: {} }] } },
+                { name: "cache", emptyDir: {} }
+            ],
+            imagePullSecrets: [{ name: "registry" }]
+        });
+
+        expect(ConfigurationReferences.getPodReferences(pod)).toStrictEqual({
+            configMaps: ["init-settings", "web-settings", "web-files", "shared"],
+            secrets: ["web-credentials", "web-tls", "shared-keys", "registry"]
+        });
+    });
+
+    it("getPodReferences returns no references for a pod without spec", () => {
+        expect(ConfigurationReferences.getPodReferences(buildPod({ name: "web" }))).toStrictEqual({ configMaps: [], secrets: [] });
+    });
+});
+
+describe("ConfigurationReferences getConsumers Tests", () => {
+    const spec = { containers: [{ name: "web", envFrom: [{ configMapRef: { name: "settings" } }] }] };
+    const pods = [
+        createPod("web-5d8f7-abcde", spec, "web-5d8f7"),
+        createPod("web-5d8f7-fghij", spec, "web-5d8f7"),
+        createPod("debug", spec),
+        createPod("web-other", spec, "web-other", "staging"),
+        createPod("api", { containers: [{ name: "api" }] })
+    ];
+
+    it("getConsumers groups the pods of the namespace by their owner", () => {
+        const consumers = ConfigurationReferences.getConsumers(pods, "ConfigMap", "default", "settings");
+        expect(consumers.map(consumer => consumer.kind + "/" + consumer.name)).toStrictEqual(["ReplicaSet/web-5d8f7", "Pod/debug"]);
+        expect(consumers[0].pods).toStrictEqual([pods[0], pods[1]]);
+    });
+
+    it("getConsumers does not match a secret of the same name", () => {
+        expect(ConfigurationReferences.getConsumers(pods, "Secret", "default", "settings")).toStrictEqual([]);
+    });
+});
+
+describe("ConfigurationReferences getKeys and getSize Tests", () => {
+    it("getSize counts the utf-8 bytes of config map values and the decoded bytes of binary data", () => {
+        const configMap = buildConfigMap({}, { "mode": "fast", "greeting": "h\u00e9llo \u20ac" }, { "logo.png": "iVBORw0=" });
+        expect(ConfigurationReferences.getKeys(configMap)).toStrictEqual(["mode", "greeting", "logo.png"]);
+        expect(ConfigurationReferences.getSize(configMap, "ConfigMap")).toStrictEqual(4 + 10 + 5);
+    });
+
+    it("getSize counts the decoded bytes of secret values", () => {
+        const secret = buildSecret({}, { "password": "c2VjcmV0", "token": "YWJjZA==", "empty": "" });
+        expect(ConfigurationReferences.getSize(secret, "Secret")).toStrictEqual(6 + 4);
+        expect(ConfigurationReferences.getSize(buildSecret({}), "Secret")).toStrictEqual(0);
+    });
+});
@@ -0,0 +1,47 @@
+import { FluxScope } from "../../../src/WebUI/FluxCommon/FluxContext";
+import { StoreBase } from "../../../src/WebUI/FluxCommon/Store";
+import { StoreManager } from "../../../src/WebUI/FluxCommon/StoreManager";
+
+class TestStore extends StoreBase {
+    public static getKey(): string {
+        return "test-store";
+    }
+
+    public disposeInternal(): void {
+        this.isDisposed = true;
+    }
+
+    public isDisposed: boolean = false;
+}
+
+describe("FluxScope Tests", () => {
+    afterEach(() => {
+        StoreManager.dispose();
+    });
+
+    it("createScopeId returns a new id on every call", () => {
+        expect(FluxScope.createScopeId("summary")).not.toStrictEqual(FluxScope.createScopeId("summary"));
+    });
+
+    it("dispose removes the stores of the scope and of its nested instance ids", () => {
+        const scopeStore = StoreManager.GetStore<TestStore>(TestStore, "summary-1");
+        const clusterStore = StoreManager.GetStore<TestStore>(TestStore, "summary-1.prod");
+
+        FluxScope.dispose("summary-1");
+
+        expect(scopeStore.isDisposed).toStrictEqual(true);
+        expect(clusterStore.isDisposed).toStrictEqual(true);
+        expect(StoreManager.GetStore<TestStore>(TestStore, "summary-1")).not.toBe(scopeStore);
+    });
+
+    it("dispose keeps the stores of other scopes and the default instances", () => {
+        const defaultStore = StoreManager.GetStore<TestStore>(TestStore);
+        const otherStore = StoreManager.GetStore<TestStore>(TestStore, "summary-10");
+
+        FluxScope.dispose("summary-1");
+
+        expect(defaultStore.isDisposed).toStrictEqual(false);
+        expect(otherStore.isDisposed).toStrictEqual(false);
+        expect(StoreManager.GetStore<TestStore>(TestStore, "summary-10")).toBe(otherStore);
+    });
+});
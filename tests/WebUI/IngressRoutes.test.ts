@@ -0,0 +1,74 @@
+import { V1beta1Ingress, V1beta1IngressSpec, V1LoadBalancerIngress } from "@kubernetes/client-node";
+import { IngressRoutes } from "../../src/WebUI/IngressRoutes";
+import { buildIngress, buildService, DeepPartial } from "./TestBuilders";
+
+function createIngress(spec: DeepPartial<V1beta1IngressSpec>, addresses: DeepPartial<V1LoadBalancerIngress>[] = [], namespace: string = "default"): V1beta1Ingress {
+    return buildIngress({ name: "shop", namespace: namespace }, spec, { loadBalancer: { ingress: addresses } });
+}
+
+describe("IngressRoutes getRoutes Tests", () => {
+    it("getRoutes returns the paths of every rule with their urls", () => {
+        const ingress = createIngress({
+            tls: [{ hosts: ["shop.contoso.com"], secretName: "shop-tls" }],
+            rules: [
+                { host: "shop.contoso.com", http: { paths: [{ path: "/api", backend: { serviceName: "api", servicePort: 80 } }, { backend: { serviceName: "web", servicePort: "http" } }] } },
+                { host: "admin.contoso.com", http: { paths: [{ path: "/", backend: { serviceName: "admin", servicePort: 8080 } }] } }
+            ]
+        });
+
+        const routes = IngressRoutes.getRoutes(ingress);
+        expect(routes.map(route => route.url)).toStrictEqual(["https://shop.contoso.com/api", "https://shop.contoso.com/", "http://admin.contoso.com/"]);
+        expect(routes.map(route => route.servicePort)).toStrictEqual(["80", "http", "8080"]);
+        expect(routes[1].path).toStrictEqual("");
+    });
+
+    it("getRoutes uses the load balancer address for rules without host and the default backend", () => {
+        const ingress = createIngress({
+            backend: { serviceName: "fallback", servicePort: 80 },
+            rules: [{ http: { paths: [{ path: "/web", backend: { serviceName: "web", servicePort: 80 } }] } }]
+        }, [{ ip: "52.1.2.3" }]);
+
+        const routes = IngressRoutes.getRoutes(ingress);
+        expect(routes.map(route => route.url)).toStrictEqual(["http://52.1.2.3/web", "http://52.1.2.3/"]);
+        expect(routes[1].serviceName).toStrictEqual("fallback");
+    });
+
+    it("getRoutes applies wildcard tls hosts to a single label", () => {
+        const ingress = createIngress({
+            tls: [{ hosts: ["*.contoso.com"] }],
+            rules: [
+                { host: "shop.contoso.com", http: { paths: [{ backend: { serviceName: "web", servicePort: 80 } }] } },
+                { host: "a.b.contoso.com", http: { paths: [{ backend: { serviceName: "web", servicePort: 80 } }] } }
+            ]
+        });
+
+        expect(IngressRoutes.getRoutes(ingress).map(route => route.isTls)).toStrictEqual([true, false]);
+    });
+
+    it("getRoutes has no url until a host or address is known", () => {
+        const ingress = createIngress({ backend: { serviceName: "web", servicePort: 80 } });
+        expect(IngressRoutes.getRoutes(ingress)[0].url).toStrictEqual("");
+    });
+});
+
+describe("IngressRoutes getServiceRoutes and getAddresses Tests", () => {
+    const service = buildService({ name: "web", namespace: "default" }, { ports: [{ name: "http", port: 80 }] });
+    const rules = [{ host: "shop.contoso.com", http: { paths: [
+        { path: "/", backend: { serviceName: "web", servicePort: "http" } },
+        { path: "/metrics", backend: { serviceName: "web", servicePort: 9090 } },
+        { path: "/api", backend: { serviceName: "api", servicePort: 80 } }
+    ] } }];
+
+    it("getServiceRoutes returns the routes to a port of the service", () => {
+        const routes = IngressRoutes.getServiceRoutes([createIngress({ rules: rules })], service);
+        expect(routes.map(route => route.path)).toStrictEqual(["/"]);
+    });
+
+    it("getServiceRoutes ignores ingresses of other namespaces", () => {
+        expect(IngressRoutes.getServiceRoutes([createIngress({ rules: rules }, [], "staging")], service)).toStrictEqual([]);
+    });
+
+    it("getAddresses returns the ips and host names of the load balancer", () => {
+        expect(IngressRoutes.getAddresses(createIngress({}, [{ ip: "52.1.2.3" }, { hostname: "lb.contoso.com" }]))).toStrictEqual(["52.1.2.3", "lb.contoso.com"]);
+    });
+});
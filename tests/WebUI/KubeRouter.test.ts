@@ -0,0 +1,113 @@
+import { V1ConfigMap, V1DaemonSet, V1Deployment, V1Job, V1Node, V1Pod, V1ReplicaSet, V1Secret, V1StatefulSet } from "@kubernetes/client-node";
+import { SelectedItemKeys } from "../../src/WebUI/Constants";
+import { IKubeRoute, IKubeRouteItems, KubeRouter } from "../../src/WebUI/KubeRouter";
+import { IServiceItem } from "../../src/WebUI/Types";
+
+describe("KubeRouter serialize and parse Tests", () => {
+    it("parse returns the serialized route", () => {
+        const route: IKubeRoute = {
+            clusterName: "prod east",
+            namespace: "default",
+            pivotKey: "services",
+            nameFilter: "web&api",
+            typeFilter: [1, "LoadBalancer"],
+            selectedItemType: SelectedItemKeys.ReplicaSetKey,
+            selectedItemName: "web-5d8f7",
+            selectedItemNamespace: "default",
+            podName: "web-5d8f7-abcde",
+            podTab: "pod-logs"
+        };
+
+        expect(KubeRouter.parse("#" + KubeRouter.serialize(route))).toStrictEqual(route);
+    });
+
+    it("parse ignores unknown and malformed parameters", () => {
+        expect(KubeRouter.parse("ns=default&foo=bar&pod=%E0%A4%A&tab")).toStrictEqual({ namespace: "default" });
+    });
+});
+
+describe("KubeRouter resolveSelection Tests", () => {
+    const deployment = { metadata: { name: "web", uid: "deployment-uid" } } as V1Deployment;
+    const stagingDeployment = { metadata: { name: "web", namespace: "staging", uid: "staging-deployment-uid" } } as V1Deployment;
+    const replicaSet = { metadata: { name: "web-5d8f7", uid: "rs-uid" } } as V1ReplicaSet;
+    const ownedPod = { metadata: { name: "web-5d8f7-abcde", uid: "pod-uid", ownerReferences: [{ uid: "rs-uid" }] } } as V1Pod;
+    const orphanPod = { metadata: { name: "debug", uid: "orphan-uid" } } as V1Pod;
+    const job = { metadata: { name: "migrate", uid: "job-uid" } } as V1Job;
+    const jobPod = { metadata: { name: "migrate-x7k2p", uid: "job-pod-uid", ownerReferences: [{ kind: "Job", uid: "job-uid" }] } } as V1Pod;
+    const configMap = { metadata: { name: "settings", uid: "config-map-uid" } } as V1ConfigMap;
+    const secret = { metadata: { name: "settings", uid: "secret-uid" } } as V1Secret;
+    const mirrorPod = { metadata: { name: "kube-proxy-node-1", uid: "mirror-uid", ownerReferences: [{ kind: "Node", uid: "node-uid" }] } } as V1Pod;
+    const node = { metadata: { name: "node-1", uid: "node-uid" } } as V1Node;
+    const service = { package: "web", service: { metadata: { name: "web", namespace: "default" } } } as IServiceItem;
+    const stagingService = { package: "web", service: { metadata: { name: "web", namespace: "staging" } } } as IServiceItem;
+    const items: IKubeRouteItems = {
+        deployments: [deployment, stagingDeployment],
+        replicaSets: [replicaSet],
+        daemonSets: [] as V1DaemonSet[],
+        statefulSets: [] as V1StatefulSet[],
+        jobs: [job],
+        pods: [ownedPod, orphanPod, jobPod, mirrorPod],
+        services: [service, stagingService],
+        configMaps: [configMap],
+        secrets: [secret],
+        nodes: [node]
+    };
+
+    it("resolveSelection selects the workload owning the pod", () => {
+        expect(KubeRouter.resolveSelection({ podName: "web-5d8f7-abcde", podTab: "pod-logs" }, items)).toStrictEqual({
+            item: replicaSet,
+            showSelectedItem: true,
+            selectedItemType: SelectedItemKeys.ReplicaSetKey,
+            selectedPodName: "web-5d8f7-abcde",
+            selectedPodTab: "pod-logs"
+        });
+    });
+
+    it("resolveSelection selects a pod without owner as orphan pod", () => {
+        const selection = KubeRouter.resolveSelection({ podName: "debug" }, items);
+        expect(selection && selection.selectedItemType).toStrictEqual(SelectedItemKeys.OrphanPodKey);
+        expect(selection && selection.item).toBe(orphanPod);
+    });
+
+    it("resolveSelection selects the job owning the pod", () => {
+        const selection = KubeRouter.resolveSelection({ podName: "migrate-x7k2p" }, items);
+        expect(selection && selection.selectedItemType).toStrictEqual(SelectedItemKeys.JobKey);
+        expect(selection && selection.item).toBe(job);
+    });
+
+    it("resolveSelection selects a pod owned by a kind which is not listed as orphan pod", () => {
+        const selection = KubeRouter.resolveSelection({ podName: "kube-proxy-node-1" }, items);
+        expect(selection && selection.selectedItemType).toStrictEqual(SelectedItemKeys.OrphanPodKey);
+        expect(selection && selection.item).toBe(mirrorPod);
+    });
+
+    it("resolveSelection selects a deployment by name", () => {
+        const selection = KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.DeploymentKey, selectedItemName: "web" }, items);
+        expect(selection && selection.item).toBe(deployment);
+    });
+
+    it("resolveSelection selects the object of the selected namespace", () => {
+        const deploymentSelection = KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.DeploymentKey, selectedItemName: "web", selectedItemNamespace: "staging" }, items);
+        const serviceSelection = KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.ServiceItemKey, selectedItemName: "web", selectedItemNamespace: "staging" }, items);
+        expect(deploymentSelection && deploymentSelection.item).toBe(stagingDeployment);
+        expect(serviceSelection && serviceSelection.item).toBe(stagingService);
+    });
+
+    it("resolveSelection tells a config map and a secret of the same name apart", () => {
+        const configMapSelection = KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.ConfigMapKey, selectedItemName: "settings" }, items);
+        const secretSelection = KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.SecretKey, selectedItemName: "settings" }, items);
+        expect(configMapSelection && configMapSelection.item).toBe(configMap);
+        expect(secretSelection && secretSelection.item).toBe(secret);
+    });
+
+    it("resolveSelection selects a node and a pod opened from the node", () => {
+        const nodeSelection = KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.NodeKey, selectedItemName: "node-1" }, items);
+        const podSelection = KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.NodePodKey, selectedItemName: "kube-proxy-node-1" }, items);
+        expect(nodeSelection && nodeSelection.item).toBe(node);
+        expect(podSelection && podSelection.item).toBe(mirrorPod);
+    });
+
+    it("resolveSelection returns undefined until the selected object is known", () => {
+        expect(KubeRouter.resolveSelection({ selectedItemType: SelectedItemKeys.ReplicaSetKey, selectedItemName: "api-1" }, items)).toBeUndefined();
+    });
+});
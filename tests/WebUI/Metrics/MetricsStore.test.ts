@@ -0,0 +1,49 @@
+import { V1ObjectMeta } from "@kubernetes/client-node";
+import { IPodMetricsList } from "../../../src/Contracts/Contracts";
+import { ActionsHubManager } from "../../../src/WebUI/FluxCommon/ActionsHubManager";
+import { StoreManager } from "../../../src/WebUI/FluxCommon/StoreManager";
+import { MetricsActions } from "../../../src/WebUI/Metrics/MetricsActions";
+import { MetricsStore } from "../../../src/WebUI/Metrics/MetricsStore";
+
+function createMetricsList(timestamp: string, cpu: string, memory: string): IPodMetricsList {
+    return {
+        items: [{
+            metadata: { name: "web-5d8f7-abcde", namespace: "default" } as V1ObjectMeta,
+            timestamp: timestamp,
+            window: "30s",
+            containers: [{ name: "web", usage: { cpu: cpu, memory: memory } }]
+        }]
+    };
+}
+
+describe("MetricsStore Tests", () => {
+    let store: MetricsStore;
+    let actions: MetricsActions;
+
+    beforeEach(() => {
+        store = StoreManager.GetStore<MetricsStore>(MetricsStore);
+        actions = ActionsHubManager.GetActionsHub<MetricsActions>(MetricsActions);
+    });
+
+    afterEach(() => {
+        StoreManager.dispose();
+        ActionsHubManager.dispose();
+    });
+
+    it("keeps the samples of a container between fetches", () => {
+        actions.podMetricsFetched.invoke({ podMetricsList: createMetricsList("2019-02-11T10:00:00Z", "100m", "64Mi") });
+        actions.podMetricsFetched.invoke({ podMetricsList: createMetricsList("2019-02-11T10:00:30Z", "250m", "80Mi") });
+
+        const samples = store.getPodMetrics("default", "web-5d8f7-abcde")!.containers["web"];
+        expect(samples.map(sample => sample.cpuMillicores)).toStrictEqual([100, 250]);
+        expect(samples[1].memoryBytes).toStrictEqual(80 * 1024 * 1024);
+    });
+
+    it("does not add a sample the metrics server reported before", () => {
+        actions.podMetricsFetched.invoke({ podMetricsList: createMetricsList("2019-02-11T10:00:00Z", "100m", "64Mi") });
+        actions.podMetricsFetched.invoke({ podMetricsList: createMetricsList("2019-02-11T10:00:00Z", "100m", "64Mi") });
+
+        expect(store.getPodMetrics("default", "web-5d8f7-abcde")!.containers["web"].length).toStrictEqual(1);
+        expect(store.getPodMetrics("other", "web-5d8f7-abcde")).toBeUndefined();
+    });
+});
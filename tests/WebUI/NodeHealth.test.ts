@@ -0,0 +1,74 @@
+import { V1Node, V1NodeCondition, V1NodeSpec, V1NodeStatus, V1Taint } from "@kubernetes/client-node";
+import { NodeHealth, NodeHealthStatus } from "../../src/WebUI/NodeHealth";
+import { buildNode, buildPod, DeepPartial } from "./TestBuilders";
+
+function createNode(conditions: DeepPartial<V1NodeCondition>[], spec: DeepPartial<V1NodeSpec> = {}, labels?: { [key: string]: string }, status: DeepPartial<V1NodeStatus> = {}): V1Node {
+    return buildNode({ name: "node-1", labels: labels }, spec, { ...status, conditions: conditions });
+}
+
+const notPressured: DeepPartial<V1NodeCondition>[] = [{ type: "MemoryPressure", status: "False" }, { type: "DiskPressure", status: "False" }];
+
+describe("NodeHealth getHealth Tests", () => {
+    it("getHealth returns Ready for a ready node without pressure", () => {
+        expect(NodeHealth.getHealth(createNode([{ type: "Ready", status: "True", reason: "KubeletReady" }, ...notPressured]))).toStrictEqual({
+            status: NodeHealthStatus.Ready,
+            reason: "",
+            message: "",
+            pressures: [],
+            schedulingDisabled: false
+        });
+    });
+
+    it("getHealth returns Pressure for a ready node with pressure conditions", () => {
+        const health = NodeHealth.getHealth(createNode([{ type: "Ready", status: "True" }, { type: "MemoryPressure", status: "True" }, { type: "DiskPressure", status: "True" }]));
+        expect(health.status).toStrictEqual(NodeHealthStatus.Pressure);
+        expect(health.pressures).toStrictEqual(["MemoryPressure", "DiskPressure"]);
+    });
+
+    it("getHealth returns the reason of a node which is not ready or not reporting", () => {
+        const notReady = NodeHealth.getHealth(createNode([{ type: "Ready", status: "False", reason: "KubeletNotReady", message: "runtime network not ready" }], { unschedulable: true }));
+        expect(notReady.status).toStrictEqual(NodeHealthStatus.NotReady);
+        expect(notReady.reason).toStrictEqual("KubeletNotReady");
+        expect(notReady.message).toStrictEqual("runtime network not ready");
+        expect(notReady.schedulingDisabled).toStrictEqual(true);
+
+        expect(NodeHealth.getHealth(createNode([{ type: "Ready", status: "Unknown", reason: "NodeStatusUnknown" }])).status).toStrictEqual(NodeHealthStatus.Unknown);
+        expect(NodeHealth.getHealth(createNode([])).status).toStrictEqual(NodeHealthStatus.Unknown);
+    });
+
+    it("getConditionHealthStatus returns the health of a single condition", () => {
+        expect(NodeHealth.getConditionHealthStatus({ type: "Ready", status: "False" } as V1NodeCondition)).toStrictEqual(NodeHealthStatus.NotReady);
+        expect(NodeHealth.getConditionHealthStatus({ type: "DiskPressure", status: "True" } as V1NodeCondition)).toStrictEqual(NodeHealthStatus.Pressure);
+        expect(NodeHealth.getConditionHealthStatus({ type: "MemoryPressure", status: "False" } as V1NodeCondition)).toStrictEqual(NodeHealthStatus.Ready);
+        expect(NodeHealth.getConditionHealthStatus({ type: "Ready", status: "Unknown" } as V1NodeCondition)).toStrictEqual(NodeHealthStatus.Unknown);
+    });
+});
+
+describe("NodeHealth node Tests", () => {
+    it("getRoles returns the roles of the role labels", () => {
+        const labels = { "node-role.kubernetes.io/master": "", "node-role.kubernetes.io/": "", "kubernetes.io/role": "agent", "kubernetes.io/os": "linux" };
+        expect(NodeHealth.getRoles(createNode([], {}, labels))).toStrictEqual(["master", "agent"]);
+        expect(NodeHealth.getRoles(createNode([]))).toStrictEqual([]);
+    });
+
+    it("getTaintText returns the taint as kubectl shows it", () => {
+        expect(NodeHealth.getTaintText({ key: "dedicated", value: "gpu", effect: "NoSchedule" } as V1Taint)).toStrictEqual("dedicated=gpu:NoSchedule");
+        expect(NodeHealth.getTaintText({ key: "node.kubernetes.io/unreachable", effect: "NoExecute" } as V1Taint)).toStrictEqual("node.kubernetes.io/unreachable:NoExecute");
+    });
+
+    it("getAllocatable formats the resources available to pods", () => {
+        const node = createNode([], {}, undefined, { allocatable: { cpu: "3920m", memory: "15203588Ki", pods: "110" }, capacity: { cpu: "4" } });
+        expect(NodeHealth.getAllocatable(node)).toStrictEqual({ cpu: "3.92", memory: "14.5Gi", pods: "110" });
+        expect(NodeHealth.getCapacity(node)).toStrictEqual({ cpu: "4", memory: "", pods: "" });
+    });
+
+    it("getPods returns the pods scheduled on the node", () => {
+        const pods = [
+            buildPod({ name: "web" }, { nodeName: "node-1" }),
+            buildPod({ name: "api" }, { nodeName: "node-2" }),
+            buildPod({ name: "pending" }, {})
+        ];
+        expect(NodeHealth.getPods(pods, "node-1")).toStrictEqual([pods[0]]);
+        expect(NodeHealth.getPods(pods, "")).toStrictEqual([]);
+    });
+});
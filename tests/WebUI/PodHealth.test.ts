@@ -0,0 +1,89 @@
+import { V1ContainerStatus, V1Pod, V1PodCondition } from "@kubernetes/client-node";
+import { PodHealth, PodHealthStatus } from "../../src/WebUI/PodHealth";
+import { buildPod, DeepPartial } from "./TestBuilders";
+
+function createPod(phase: string, containerStatuses: DeepPartial<V1ContainerStatus>[], conditions: DeepPartial<V1PodCondition>[] = [], initContainerStatuses?: DeepPartial<V1ContainerStatus>[]): V1Pod {
+    return buildPod(
+        { name: "web-5d8f7-abcde" },
+        { containers: containerStatuses.map(container => ({ name: container.name })) },
+        { phase: phase, containerStatuses: containerStatuses, initContainerStatuses: initContainerStatuses, conditions: conditions }
+    );
+}
+
+describe("PodHealth getHealth Tests", () => {
+    it("getHealth fails a running pod in CrashLoopBackOff", () => {
+        const pod = createPod("Running", [{
+            name: "web",
+            ready: false,
+            restartCount: 7,
+            state: { waiting: { reason: "CrashLoopBackOff", message: "back-off 5m0s restarting failed container" } },
+            lastState: { terminated: { reason: "OOMKilled", exitCode: 137 } }
+        }]);
+
+        const health = PodHealth.getHealth(pod);
+        expect(health.status).toStrictEqual(PodHealthStatus.Failed);
+        expect(health.reason).toStrictEqual("CrashLoopBackOff");
+        expect(health.message).toStrictEqual("back-off 5m0s restarting failed container");
+        expect(health.restartCount).toStrictEqual(7);
+        expect(health.lastTerminationReason).toStrictEqual("OOMKilled");
+    });
+
+    it("getHealth shows a pending pod pulling its image as pending", () => {
+        const pod = createPod("Pending", [{ name: "web", ready: false, restartCount: 0, state: { waiting: { reason: "ContainerCreating" } } }]);
+        const health = PodHealth.getHealth(pod);
+        expect(health.status).toStrictEqual(PodHealthStatus.Pending);
+        expect(health.reason).toStrictEqual("ContainerCreating");
+    });
+
+    it("getHealth reports the failing init container", () => {
+        const pod = createPod("Pending", [{ name: "web", ready: false, restartCount: 0, state: { waiting: { reason: "PodInitializing" } } }], [], [
+            { name: "migrate", ready: false, restartCount: 0, state: { waiting: { reason: "ErrImagePull" } } }
+        ]);
+
+        expect(PodHealth.getHealth(pod).reason).toStrictEqual("Init:ErrImagePull");
+        expect(PodHealth.getHealth(pod).status).toStrictEqual(PodHealthStatus.Failed);
+    });
+
+    it("getHealth warns about a pod which cannot be scheduled", () => {
+        const pod = createPod("Pending", [], [{ type: "PodScheduled", status: "False", reason: "Unschedulable", message: "0/3 nodes are available" }]);
+        const health = PodHealth.getHealth(pod);
+        expect(health.status).toStrictEqual(PodHealthStatus.Warning);
+        expect(health.message).toStrictEqual("0/3 nodes are available");
+    });
+
+    it("getHealth shows a running pod which is not ready as not ready", () => {
+        const pod = createPod("Running", [
+            { name: "web", ready: true, restartCount: 0, state: { running: {} } },
+            { name: "sidecar", ready: false, restartCount: 0, state: { running: {} } }
+        ], [{ type: "Ready", status: "False" }]);
+
+        const health = PodHealth.getHealth(pod);
+        expect(health.status).toStrictEqual(PodHealthStatus.NotReady);
+        expect(health.readyContainers).toStrictEqual(1);
+        expect(health.totalContainers).toStrictEqual(2);
+    });
+
+    it("getHealth warns about a ready pod which keeps restarting", () => {
+        const pod = createPod("Running", [{ name: "web", ready: true, restartCount: 4, state: { running: {} }, lastState: { terminated: { reason: "Error", exitCode: 1 } } }]);
+        expect(PodHealth.getHealth(pod).status).toStrictEqual(PodHealthStatus.Warning);
+    });
+
+    it("getHealth shows completed and evicted pods from their phase", () => {
+        expect(PodHealth.getHealth(createPod("Succeeded", [])).status).toStrictEqual(PodHealthStatus.Succeeded);
+
+        const evictedPod = createPod("Failed", []);
+        evictedPod.status.reason = "Evicted";
+        expect(PodHealth.getHealth(evictedPod).reason).toStrictEqual("Evicted");
+        expect(PodHealth.getHealth(evictedPod).status).toStrictEqual(PodHealthStatus.Failed);
+    });
+});
+
+describe("PodHealth getSummary Tests", () => {
+    it("getSummary counts the healthy pods and returns the worst health", () => {
+        const healthyPod = createPod("Running", [{ name: "web", ready: true, restartCount: 0, state: { running: {} } }], [{ type: "Ready", status: "True" }]);
+        const failedPod = createPod("Running", [{ name: "web", ready: false, restartCount: 2, state: { waiting: { reason: "CrashLoopBackOff" } } }]);
+
+        expect(PodHealth.getSummary([healthyPod, failedPod, healthyPod])).toStrictEqual({ healthyCount: 2, totalCount: 3, status: PodHealthStatus.Failed });
+        expect(PodHealth.getSummary([])).toStrictEqual({ healthyCount: 0, totalCount: 0 });
+    });
+});
@@ -0,0 +1,43 @@
+import { V1PodTemplateSpec } from "@kubernetes/client-node";
+import { PodTemplateDiff, TemplateChangeCategory } from "../../src/WebUI/PodTemplateDiff";
+
+describe("PodTemplateDiff getChanges Tests", () => {
+    const getTemplate = (image: string, env: any[], hash: string): V1PodTemplateSpec => ({
+        metadata: { labels: { app: "web", "pod-template-hash": hash } },
+        spec: {
+            containers: [
+                { name: "sidecar", image: "proxy:1.0" },
+                { name: "web", image: image, env: env, resources: { limits: { cpu: "500m" } } }
+            ]
+        }
+    } as any);
+
+    it("getChanges matches named list items on their name and groups the changes by category", () => {
+        const oldTemplate = getTemplate("web:1.0", [{ name: "LOG_LEVEL", value: "info" }, { name: "PORT", value: "80" }], "5d8f7");
+        const newTemplate = getTemplate("web:1.1", [{ name: "PORT", value: "80" }, { name: "LOG_LEVEL", value: "debug" }], "6c9a8");
+        newTemplate.spec.containers[1].resources = { limits: { cpu: "1" } } as any;
+
+        expect(PodTemplateDiff.getChanges(oldTemplate, newTemplate)).toStrictEqual([
+            { category: TemplateChangeCategory.Images, path: "spec.containers[web].image", oldValue: "web:1.0", newValue: "web:1.1" },
+            { category: TemplateChangeCategory.Environment, path: "spec.containers[web].env[LOG_LEVEL].value", oldValue: "info", newValue: "debug" },
+            { category: TemplateChangeCategory.Resources, path: "spec.containers[web].resources.limits.cpu", oldValue: "500m", newValue: "1" }
+        ]);
+    });
+
+    it("getChanges reports added fields without an old value and ignores the pod-template-hash label", () => {
+        const oldTemplate = getTemplate("web:1.0", [], "5d8f7");
+        const newTemplate = getTemplate("web:1.0", [{ name: "DEBUG", value: "true" }], "6c9a8");
+
+        expect(PodTemplateDiff.getChanges(oldTemplate, newTemplate)).toStrictEqual([
+            { category: TemplateChangeCategory.Environment, path: "spec.containers[web].env[DEBUG].name", oldValue: undefined, newValue: "DEBUG" },
+            { category: TemplateChangeCategory.Environment, path: "spec.containers[web].env[DEBUG].value", oldValue: undefined, newValue: "true" }
+        ]);
+    });
+
+    it("getCategory classifies probes and volumes", () => {
+        expect(PodTemplateDiff.getCategory("spec.containers[web].readinessProbe.httpGet.path")).toStrictEqual(TemplateChangeCategory.Probes);
+        expect(PodTemplateDiff.getCategory("spec.volumes[config].configMap.name")).toStrictEqual(TemplateChangeCategory.Volumes);
+        expect(PodTemplateDiff.getCategory("spec.containers[web].volumeMounts[config].mountPath")).toStrictEqual(TemplateChangeCategory.Volumes);
+        expect(PodTemplateDiff.getCategory("spec.nodeSelector.pool")).toStrictEqual(TemplateChangeCategory.Other);
+    });
+});
@@ -0,0 +1,55 @@
+import { V1PodList } from "@kubernetes/client-node";
+import { ResourceFetchStatus } from "../../../src/WebUI/Constants";
+import { ActionsHubManager } from "../../../src/WebUI/FluxCommon/ActionsHubManager";
+import { StoreManager } from "../../../src/WebUI/FluxCommon/StoreManager";
+import { NamespacesActions } from "../../../src/WebUI/Namespaces/NamespacesActions";
+import { PodsActions } from "../../../src/WebUI/Pods/PodsActions";
+import { PodsStore } from "../../../src/WebUI/Pods/PodsStore";
+import { buildPod, buildPodList } from "../TestBuilders";
+
+function createPodList(namespace: string): V1PodList {
+    return buildPodList([buildPod({ name: "web-5d8f7-abcde", namespace: namespace, uid: namespace + "-uid" })]);
+}
+
+describe("PodsStore Tests", () => {
+    let store: PodsStore;
+    let actions: PodsActions;
+    let namespacesActions: NamespacesActions;
+
+    beforeEach(() => {
+        store = StoreManager.GetStore<PodsStore>(PodsStore);
+        actions = ActionsHubManager.GetActionsHub<PodsActions>(PodsActions);
+        namespacesActions = ActionsHubManager.GetActionsHub<NamespacesActions>(NamespacesActions);
+    });
+
+    afterEach(() => {
+        StoreManager.dispose();
+        ActionsHubManager.dispose();
+    });
+
+    it("keeps the pods of the host namespace until a namespace is selected", () => {
+        const podList = createPodList("default");
+        actions.podsFetched.invoke({ list: podList });
+        expect(store.getState().podsList).toBe(podList);
+    });
+
+    it("drops the pods requested for the namespace selected before", () => {
+        namespacesActions.namespaceSelected.invoke("staging");
+        actions.podsFetched.invoke({ list: createPodList("default"), namespace: "default" });
+        expect(store.getState().podsList).toBeUndefined();
+
+        const podList = createPodList("staging");
+        actions.podsFetched.invoke({ list: podList, namespace: "staging" });
+        expect(store.getState().podsList).toBe(podList);
+    });
+
+    it("stays loading on watch events until the pods are fetched", () => {
+        const pod = buildPod({ name: "web-5d8f7-abcde", namespace: "default", uid: "default-uid", resourceVersion: "1" });
+        actions.podWatchEventReceived.invoke({ type: "ADDED", object: pod });
+        expect(store.getState().podsList!.items).toStrictEqual([pod]);
+        expect(store.getState().podsFetchStatus.status).toStrictEqual(ResourceFetchStatus.Loading);
+
+        actions.podsFetched.invoke({ list: buildPodList([pod]) });
+        expect(store.getState().podsFetchStatus.status).toStrictEqual(ResourceFetchStatus.Loaded);
+    });
+});
@@ -0,0 +1,64 @@
+import { RefreshScheduler } from "../../src/WebUI/RefreshScheduler";
+
+describe("RefreshScheduler Tests", () => {
+    let isHidden: boolean = false;
+
+    beforeAll(() => {
+        Object.defineProperty(document, "hidden", { configurable: true, get: () => isHidden });
+    });
+
+    beforeEach(() => {
+        isHidden = false;
+        jest.useFakeTimers();
+    });
+
+    it("refreshes on every interval once started", () => {
+        const onRefresh = jest.fn();
+        const scheduler = new RefreshScheduler(10, onRefresh);
+        scheduler.start();
+
+        jest.advanceTimersByTime(9000);
+        expect(onRefresh).toHaveBeenCalledTimes(0);
+        jest.advanceTimersByTime(21000);
+        expect(onRefresh).toHaveBeenCalledTimes(3);
+
+        scheduler.stop();
+        jest.advanceTimersByTime(30000);
+        expect(onRefresh).toHaveBeenCalledTimes(3);
+    });
+
+    it("does not refresh while paused and refreshes immediately on resume", () => {
+        const onRefresh = jest.fn();
+        const scheduler = new RefreshScheduler(10, onRefresh);
+        scheduler.start();
+        scheduler.pause();
+
+        jest.advanceTimersByTime(60000);
+        expect(onRefresh).toHaveBeenCalledTimes(0);
+        expect(scheduler.isPaused()).toStrictEqual(true);
+
+        scheduler.resume();
+        expect(onRefresh).toHaveBeenCalledTimes(1);
+        jest.advanceTimersByTime(10000);
+        expect(onRefresh).toHaveBeenCalledTimes(2);
+        scheduler.stop();
+    });
+
+    it("backs off while the page is hidden and catches up once visible", () => {
+        const onRefresh = jest.fn();
+        const scheduler = new RefreshScheduler(10, onRefresh);
+        scheduler.start();
+        isHidden = true;
+
+        // refreshes at 10s, then 20s and 40s later
+        jest.advanceTimersByTime(70000);
+        expect(onRefresh).toHaveBeenCalledTimes(3);
+
+        isHidden = false;
+        document.dispatchEvent(new Event("visibilitychange"));
+        expect(onRefresh).toHaveBeenCalledTimes(4);
+        jest.advanceTimersByTime(10000);
+        expect(onRefresh).toHaveBeenCalledTimes(5);
+        scheduler.stop();
+    });
+});
@@ -0,0 +1,36 @@
+import { ResourceQuantity } from "../../src/WebUI/ResourceQuantity";
+
+describe("ResourceQuantity parse Tests", () => {
+    const parseData = [
+        ["millicores", "250m", 0.25],
+        ["cores", "2", 2],
+        ["nanocores", "150000000n", 0.15],
+        ["binarySuffix", "64Mi", 64 * 1024 * 1024],
+        ["decimalSuffix", "1G", 1e9],
+        ["exponent", "1e3", 1000],
+        ["number", 3, 3]
+    ];
+
+    it.each(parseData)("parse checking for:: %s", (testName, quantity, expectedValue) => {
+        expect(ResourceQuantity.parse(quantity)).toBeCloseTo(expectedValue as number);
+    });
+
+    it("parse returns NaN for values which are not quantities", () => {
+        expect(ResourceQuantity.parse(undefined)).toBeNaN();
+        expect(ResourceQuantity.parse("100Xi")).toBeNaN();
+    });
+});
+
+describe("ResourceQuantity format Tests", () => {
+    it("formatCpu shows millicores below a core and cores above", () => {
+        expect(ResourceQuantity.formatCpu(ResourceQuantity.parseCpuMillicores("250m"))).toStrictEqual("250m");
+        expect(ResourceQuantity.formatCpu(1500)).toStrictEqual("1.5");
+        expect(ResourceQuantity.formatCpu(NaN)).toStrictEqual("");
+    });
+
+    it("formatMemory shows the largest binary unit", () => {
+        expect(ResourceQuantity.formatMemory(512)).toStrictEqual("512");
+        expect(ResourceQuantity.formatMemory(64 * 1024 * 1024)).toStrictEqual("64Mi");
+        expect(ResourceQuantity.formatMemory(1.5 * 1024 * 1024 * 1024)).toStrictEqual("1.5Gi");
+    });
+});
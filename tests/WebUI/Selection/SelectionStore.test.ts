@@ -0,0 +1,54 @@
+import { V1ReplicaSet } from "@kubernetes/client-node";
+import { ActionsHubManager } from "../../../src/WebUI/FluxCommon/ActionsHubManager";
+import { StoreManager } from "../../../src/WebUI/FluxCommon/StoreManager";
+import { SelectionActions } from "../../../src/WebUI/Selection/SelectionActions";
+import { SelectionStore } from "../../../src/WebUI/Selection/SelectionStore";
+
+describe("SelectionStore navigation Tests", () => {
+    let store: SelectionStore;
+    let actions: SelectionActions;
+    const replicaSets = ["web-1", "web-2"].map(name => ({ metadata: { name: name } } as V1ReplicaSet));
+
+    beforeEach(() => {
+        store = StoreManager.GetStore<SelectionStore>(SelectionStore);
+        actions = ActionsHubManager.GetActionsHub<SelectionActions>(SelectionActions);
+    });
+
+    afterEach(() => {
+        StoreManager.dispose();
+        ActionsHubManager.dispose();
+    });
+
+    it("navigates back to the main view and forward to the selected item", () => {
+        actions.selectItem.invoke({ item: replicaSets[0], showSelectedItem: true, selectedItemType: "replica-set" });
+        expect(store.getState().selectedItem).toBe(replicaSets[0]);
+        expect(store.canNavigateBack()).toStrictEqual(true);
+
+        actions.navigateBack.invoke({});
+        expect(store.getState().showSelectedItem).toStrictEqual(false);
+        expect(store.canNavigateForward()).toStrictEqual(true);
+
+        actions.navigateForward.invoke({});
+        expect(store.getState().showSelectedItem).toStrictEqual(true);
+        expect(store.getState().selectedItem).toBe(replicaSets[0]);
+    });
+
+    it("drops the entries to navigate forward to on a new selection", () => {
+        actions.selectItem.invoke({ item: replicaSets[0], showSelectedItem: true, selectedItemType: "replica-set" });
+        actions.navigateBack.invoke({});
+        actions.selectItem.invoke({ item: replicaSets[1], showSelectedItem: true, selectedItemType: "replica-set" });
+
+        expect(store.getState().history.length).toStrictEqual(2);
+        expect(store.canNavigateForward()).toStrictEqual(false);
+        expect(store.getState().selectedItem).toBe(replicaSets[1]);
+    });
+
+    it("restores the view state saved with the main view", () => {
+        actions.saveViewState.invoke({ selectedPivotKey: "services" });
+        actions.selectItem.invoke({ item: replicaSets[0], showSelectedItem: true, selectedItemType: "replica-set" });
+        actions.navigateTo.invoke(0);
+
+        expect(store.getState().showSelectedItem).toStrictEqual(false);
+        expect(store.getState().viewState.selectedPivotKey).toStrictEqual("services");
+    });
+});
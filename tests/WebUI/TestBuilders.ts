@@ -0,0 +1,58 @@
+import { V1beta1Ingress, V1beta1IngressSpec, V1beta1IngressStatus, V1ConfigMap, V1DaemonSet, V1DaemonSetSpec, V1DaemonSetStatus, V1Deployment, V1DeploymentSpec, V1DeploymentStatus, V1Job, V1JobSpec, V1JobStatus, V1Node, V1NodeSpec, V1NodeStatus, V1ObjectMeta, V1PersistentVolumeClaim, V1PersistentVolumeClaimSpec, V1PersistentVolumeClaimStatus, V1Pod, V1PodList, V1PodSpec, V1PodStatus, V1ReplicaSet, V1ReplicaSetSpec, V1ReplicaSetStatus, V1Secret, V1Service, V1ServiceSpec, V1StatefulSet, V1StatefulSetSpec, V1StatefulSetStatus } from "@kubernetes/client-node";
+
+// The models of @kubernetes/client-node declare every property, the tests only set those the code under test reads
+export type DeepPartial<T> = {
+    [P in keyof T]?: T[P] extends (infer U)[] ? DeepPartial<U>[] : T[P] extends object ? DeepPartial<T[P]> : T[P];
+};
+
+export function buildPod(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1PodSpec>, status?: DeepPartial<V1PodStatus>): V1Pod {
+    return { metadata: metadata, spec: spec, status: status } as V1Pod;
+}
+
+export function buildPodList(pods: V1Pod[]): V1PodList {
+    return { items: pods } as V1PodList;
+}
+
+export function buildDeployment(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1DeploymentSpec>, status?: DeepPartial<V1DeploymentStatus>): V1Deployment {
+    return { metadata: metadata, spec: spec, status: status } as V1Deployment;
+}
+
+export function buildReplicaSet(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1ReplicaSetSpec>, status?: DeepPartial<V1ReplicaSetStatus>): V1ReplicaSet {
+    return { metadata: metadata, spec: spec, status: status } as V1ReplicaSet;
+}
+
+export function buildDaemonSet(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1DaemonSetSpec>, status?: DeepPartial<V1DaemonSetStatus>): V1DaemonSet {
+    return { metadata: metadata, spec: spec, status: status } as V1DaemonSet;
+}
+
+export function buildStatefulSet(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1StatefulSetSpec>, status?: DeepPartial<V1StatefulSetStatus>): V1StatefulSet {
+    return { metadata: metadata, spec: spec, status: status } as V1StatefulSet;
+}
+
+export function buildJob(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1JobSpec>, status?: DeepPartial<V1JobStatus>): V1Job {
+    return { metadata: metadata, spec: spec, status: status } as V1Job;
+}
+
+export function buildService(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1ServiceSpec>): V1Service {
+    return { metadata: metadata, spec: spec } as V1Service;
+}
+
+export function buildIngress(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1beta1IngressSpec>, status?: DeepPartial<V1beta1IngressStatus>): V1beta1Ingress {
+    return { metadata: metadata, spec: spec, status: status } as V1beta1Ingress;
+}
+
+export function buildConfigMap(metadata: DeepPartial<V1ObjectMeta>, data?: { [key: string]: string }, binaryData?: { [key: string]: string }): V1ConfigMap {
+    return { metadata: metadata, data: data, binaryData: binaryData } as V1ConfigMap;
+}
+
+export function buildSecret(metadata: DeepPartial<V1ObjectMeta>, data?: { [key: string]: string }): V1Secret {
+    return { metadata: metadata, data: data } as V1Secret;
+}
+
+export function buildPersistentVolumeClaim(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1PersistentVolumeClaimSpec>, status?: DeepPartial<V1PersistentVolumeClaimStatus>): V1PersistentVolumeClaim {
+    return { metadata: metadata, spec: spec, status: status } as V1PersistentVolumeClaim;
+}
+
+export function buildNode(metadata: DeepPartial<V1ObjectMeta>, spec?: DeepPartial<V1NodeSpec>, status?: DeepPartial<V1NodeStatus>): V1Node {
+    return { metadata: metadata, spec: spec, status: status } as V1Node;
+}
@@ -1,4 +1,5 @@
 import { Utils } from "../../src/WebUI/Utils";
+import { buildPod, buildPodList } from "./TestBuilders";
 
 describe("Utils isOwnerMatched Tests", () => {
     const isOwnerMatchedData = [
@@ -79,4 +80,145 @@ describe("Utils getUILabelModelArray Tests", () => {
     it.each(getUILabelModelArrayData)("getUILabelModelArray checking for:: %s", (testName, items, labelCount) => {
         expect(Utils.getUILabelModelArray(items).length).toStrictEqual(labelCount);
     });
-});
\ No newline at end of file
+});
+
+describe("Utils applyWatchEvent Tests", () => {
+    const first = buildPod({ uid: "1", name: "web", resourceVersion: "1" });
+    const second = buildPod({ uid: "2", name: "db", resourceVersion: "1" });
+    const applyWatchEventData = [
+        [
+            "addedIsAppended",
+            [first],
+            { type: "ADDED", object: second },
+            ["1", "2"]
+        ],
+        [
+            "modifiedKeepsPosition",
+            [first, second],
+            { type: "MODIFIED", object: buildPod({ uid: "1", name: "web", resourceVersion: "2" }) },
+            ["1", "2"]
+        ],
+        [
+            "deletedIsRemoved",
+            [first, second],
+            { type: "DELETED", object: first },
+            ["2"]
+        ],
+        [
+            "deletedUnknownObject",
+            [first],
+            { type: "DELETED", object: second },
+            ["1"]
+        ],
+        [
+            "addedToEmptyList",
+            undefined,
+            { type: "ADDED", object: first },
+            ["1"]
+        ]
+    ];
+
+    it.each(applyWatchEventData)("applyWatchEvent checking for:: %s", (testName, items, event, expectedUids) => {
+        expect(Utils.applyWatchEvent(items, event).map(item => item.metadata.uid)).toStrictEqual(expectedUids);
+    });
+
+    it("applyWatchEvent replaces the modified object without changing the input", () => {
+        const items = [first, second];
+        const modified = buildPod({ uid: "2", name: "db", resourceVersion: "2" });
+        const result = Utils.applyWatchEvent(items, { type: "MODIFIED", object: modified });
+        expect(result[1]).toBe(modified);
+        expect(items[1]).toBe(second);
+    });
+});
+
+describe("Utils reuseUnchangedItems Tests", () => {
+    const first = buildPod({ uid: "1", resourceVersion: "10" });
+    const second = buildPod({ uid: "2", resourceVersion: "20" });
+
+    it("reuseUnchangedItems returns previous items when nothing changed", () => {
+        const previousItems = [first, second];
+        const newItems = [buildPod({ uid: "1", resourceVersion: "10" }), buildPod({ uid: "2", resourceVersion: "20" })];
+        expect(Utils.reuseUnchangedItems(previousItems, newItems)).toBe(previousItems);
+    });
+
+    it("reuseUnchangedItems reuses only the unchanged items", () => {
+        const modified = buildPod({ uid: "2", resourceVersion: "21" });
+        const result = Utils.reuseUnchangedItems([first, second], [buildPod({ uid: "1", resourceVersion: "10" }), modified]);
+        expect(result[0]).toBe(first);
+        expect(result[1]).toBe(modified);
+    });
+
+    it("reuseUnchangedItems returns new items when an item is removed", () => {
+        const result = Utils.reuseUnchangedItems([first, second], [buildPod({ uid: "1", resourceVersion: "10" })]);
+        expect(result.length).toStrictEqual(1);
+        expect(result[0]).toBe(first);
+    });
+
+    it("getUpdatedList returns previous list when items are unchanged", () => {
+        const previousList = buildPodList([first, second]);
+        expect(Utils.getUpdatedList(previousList, buildPodList([first, second]))).toBe(previousList);
+        expect(Utils.getUpdatedList(undefined, previousList)).toBe(previousList);
+    });
+});
+
+describe("Utils getErrorMessage Tests", () => {
+    it("getErrorMessage prefers the message from the response body", () => {
+        expect(Utils.getErrorMessage({ statusMessage: "Forbidden", body: { message: "pods is forbidden" } })).toStrictEqual("pods is forbidden");
+        expect(Utils.getErrorMessage({ response: { body: { message: "not found" } } })).toStrictEqual("not found");
+    });
+
+    it("getErrorMessage falls back to the error message", () => {
+        expect(Utils.getErrorMessage(new Error("connect ECONNREFUSED"))).toStrictEqual("connect ECONNREFUSED");
+        expect(Utils.getErrorMessage("timeout")).toStrictEqual("timeout");
+        expect(Utils.getErrorMessage(undefined)).toStrictEqual("");
+    });
+});
+
+describe("Utils filterByNamespace Tests", () => {
+    it("filterByNamespace matches every namespace when none is selected", () => {
+        expect(Utils.filterByNamespace("default")).toStrictEqual(true);
+        expect(Utils.filterByNamespace("default", [])).toStrictEqual(true);
+    });
+
+    it("filterByNamespace matches only the selected namespaces", () => {
+        expect(Utils.filterByNamespace("default", ["default", "kube-system"])).toStrictEqual(true);
+        expect(Utils.filterByNamespace("monitoring", ["default", "kube-system"])).toStrictEqual(false);
+    });
+});
+
+describe("Utils isSelectedNamespace Tests", () => {
+    it("isSelectedNamespace keeps every list until a namespace is selected", () => {
+        expect(Utils.isSelectedNamespace(undefined, "")).toStrictEqual(true);
+        expect(Utils.isSelectedNamespace("default", "")).toStrictEqual(true);
+    });
+
+    it("isSelectedNamespace drops the lists of another namespace", () => {
+        expect(Utils.isSelectedNamespace("staging", "staging")).toStrictEqual(true);
+        expect(Utils.isSelectedNamespace("default", "staging")).toStrictEqual(false);
+        expect(Utils.isSelectedNamespace(undefined, "*")).toStrictEqual(false);
+    });
+});
+
+describe("Utils getRollbackTemplate Tests", () => {
+    it("getRollbackTemplate removes the pod-template-hash label from a copy of the template", () => {
+        const template = { metadata: { labels: { app: "web", "pod-template-hash": "5d8f7" } }, spec: { containers: [] } };
+        const replicaSet: any = { metadata: { annotations: { "deployment.kubernetes.io/revision": "3" } }, spec: { template: template } };
+
+        expect(Utils.getRollbackTemplate(replicaSet)).toStrictEqual({ metadata: { labels: { app: "web" } }, spec: { containers: [] } });
+        expect(template.metadata.labels["pod-template-hash"]).toStrictEqual("5d8f7");
+        expect(Utils.getRevision(replicaSet.metadata)).toStrictEqual("3");
+    });
+});
+
+describe("Utils getPipelineRunUrl Tests", () => {
+    it("getPipelineRunUrl reads the annotation regardless of its casing", () => {
+        expect(Utils.getPipelineRunUrl({ "Pipeline-Run-Url": "https://dev.azure.com/org/project/_build/results?buildId=12" })).toStrictEqual("https://dev.azure.com/org/project/_build/results?buildId=12");
+        expect(Utils.getPipelineRunUrl({ "pipeline-name": "release" })).toStrictEqual("");
+    });
+
+    it("getPipelineRunUrl ignores urls which are not absolute http urls", () => {
+        expect(Utils.getPipelineRunUrl({ "pipeline-run-url": "javascript:alert(1)" })).toStrictEqual("");
+        expect(Utils.getPipelineRunUrl({ "pipeline-run-url": "/org/project/_build/results?buildId=12" })).toStrictEqual("");
+        expect(Utils.getPipelineRunUrl({ "pipeline-run-url": "http://tfs.contoso.com/org/project/_build/results?buildId=12" })).toStrictEqual("http://tfs.contoso.com/org/project/_build/results?buildId=12");
+    });
+});
@@ -0,0 +1,64 @@
+import { V1PersistentVolumeClaim, V1PersistentVolumeClaimSpec, V1PersistentVolumeClaimStatus, V1Pod, V1Volume } from "@kubernetes/client-node";
+import { VolumeClaims } from "../../src/WebUI/VolumeClaims";
+import { buildPersistentVolumeClaim, buildPod, buildStatefulSet, DeepPartial } from "./TestBuilders";
+
+function createPod(name: string, claimNames: string[], ownerName?: string, namespace: string = "default"): V1Pod {
+    const ownerReferences = ownerName ? [{ kind: "StatefulSet", name: ownerName }] : undefined;
+    const volumes: DeepPartial<V1Volume>[] = claimNames.map((claimName, index) => ({ name: "volume-" + index, persistentVolumeClaim: { claimName: claimName } }));
+    volumes.push({ name: "cache", emptyDir: {} });
+    return buildPod({ name: name, namespace: namespace, ownerReferences: ownerReferences }, { containers: [], volumes: volumes });
+}
+
+function createClaim(name: string, spec: DeepPartial<V1PersistentVolumeClaimSpec>, status?: DeepPartial<V1PersistentVolumeClaimStatus>, namespace: string = "default"): V1PersistentVolumeClaim {
+    return buildPersistentVolumeClaim({ name: name, namespace: namespace }, spec, status);
+}
+
+describe("VolumeClaims getPodVolumeClaims Tests", () => {
+    it("getPodVolumeClaims returns the claims of the pods with the fetched claim of their namespace", () => {
+        const pods = [createPod("db-0", ["data-db-0"], "db"), createPod("db-1", ["data-db-1"], "db"), createPod("web", [])];
+        const claims = [createClaim("data-db-0", {}, { phase: "Bound" }), createClaim("data-db-1", {}, undefined, "staging")];
+
+        const podVolumeClaims = VolumeClaims.getPodVolumeClaims(pods, claims);
+        expect(podVolumeClaims.map(item => item.pod.metadata.name + "/" + item.volumeName + "/" + item.claimName)).toStrictEqual(["db-0/volume-0/data-db-0", "db-1/volume-0/data-db-1"]);
+        expect(podVolumeClaims[0].claim).toBe(claims[0]);
+        expect(podVolumeClaims[1].claim).toBeUndefined();
+    });
+
+    it("hasVolumeClaims is true for a pod spec with claims or a stateful set with claim templates", () => {
+        const statefulSet = buildStatefulSet({}, { volumeClaimTemplates: [createClaim("data", {})] });
+        expect(VolumeClaims.hasVolumeClaims(createPod("db-0", ["data-db-0"]).spec)).toBeTruthy();
+        expect(VolumeClaims.hasVolumeClaims(createPod("web", []).spec)).toBeFalsy();
+        expect(VolumeClaims.hasVolumeClaims(createPod("web", []).spec, statefulSet)).toBeTruthy();
+        expect(VolumeClaims.hasVolumeClaims(undefined)).toBeFalsy();
+    });
+
+    it("getConsumers groups the pods mounting the claim by their owner", () => {
+        const pods = [createPod("db-0", ["data-db-0", "shared"], "db"), createPod("debug", ["shared"]), createPod("web", ["shared"], undefined, "staging")];
+        const consumers = VolumeClaims.getConsumers(pods, createClaim("shared", {}));
+        expect(consumers.map(consumer => consumer.kind + "/" + consumer.name)).toStrictEqual(["StatefulSet/db", "Pod/debug"]);
+    });
+});
+
+describe("VolumeClaims claim Tests", () => {
+    it("getStorage returns the capacity of the bound volume or the requested storage", () => {
+        const spec = { resources: { requests: { storage: "10Gi" } } };
+        expect(VolumeClaims.getStorage(createClaim("data", spec, { phase: "Bound", capacity: { storage: "16Gi" } }))).toStrictEqual("16Gi");
+        expect(VolumeClaims.getStorage(createClaim("data", spec, { phase: "Pending" }))).toStrictEqual("10Gi");
+        expect(VolumeClaims.getStorage(createClaim("data", {}))).toStrictEqual("");
+    });
+
+    it("getAccessModesText returns the short access modes of the volume or the claim", () => {
+        const spec = { accessModes: ["ReadWriteOnce", "ReadOnlyMany"] };
+        expect(VolumeClaims.getAccessModesText(createClaim("data", spec))).toStrictEqual("RWO, ROX");
+        expect(VolumeClaims.getAccessModesText(createClaim("data", spec, { accessModes: ["ReadWriteMany"] }))).toStrictEqual("RWX");
+        expect(VolumeClaims.getAccessModesText(createClaim("data", { accessModes: ["ReadWriteOncePod", "Custom"] }))).toStrictEqual("RWOP, Custom");
+    });
+
+    it("getPhase returns Terminating for claims being deleted and Pending until the status is known", () => {
+        const claim = createClaim("data", {}, { phase: "Bound" });
+        expect(VolumeClaims.getPhase(claim)).toStrictEqual("Bound");
+        expect(VolumeClaims.getPhase(createClaim("data", {}))).toStrictEqual("Pending");
+        claim.metadata.deletionTimestamp = new Date();
+        expect(VolumeClaims.getPhase(claim)).toStrictEqual("Terminating");
+    });
+});
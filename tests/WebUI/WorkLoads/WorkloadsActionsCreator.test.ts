@@ -0,0 +1,49 @@
+import { V1DeploymentList, V1ObjectMeta, V1ReplicaSetList, V1StatefulSetList } from "@kubernetes/client-node";
+import { IKubeService } from "../../../src/Contracts/Contracts";
+import { KubeResourceType } from "../../../src/Contracts/KubeServiceBase";
+import { ActionsCreatorManager } from "../../../src/WebUI/FluxCommon/ActionsCreatorManager";
+import { ActionsHubManager } from "../../../src/WebUI/FluxCommon/ActionsHubManager";
+import { WorkloadsActionsCreator } from "../../../src/WebUI/WorkLoads/WorkloadsActionsCreator";
+
+describe("WorkloadsActionsCreator Tests", () => {
+    const metadata = { name: "web", namespace: "default" } as V1ObjectMeta;
+    const getKubeService = (scaleWorkload?: IKubeService["scaleWorkload"]): IKubeService => {
+        const kubeService: Partial<IKubeService> = {
+            getDeployments: jest.fn(() => Promise.resolve({ items: [] } as V1DeploymentList)),
+            getReplicaSets: jest.fn(() => Promise.resolve({ items: [] } as V1ReplicaSetList)),
+            getStatefulSets: jest.fn(() => Promise.resolve({ items: [] } as V1StatefulSetList)),
+            scaleWorkload: scaleWorkload
+        };
+
+        return kubeService as IKubeService;
+    };
+
+    afterEach(() => {
+        ActionsCreatorManager.dispose();
+        ActionsHubManager.dispose();
+    });
+
+    it("scaleWorkload fetches the deployments and replica sets of the listed namespace once scaled", () => {
+        const kubeService = getKubeService(jest.fn(() => Promise.resolve()));
+        const actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, "scale-test");
+
+        return actionCreator.scaleWorkload(kubeService, KubeResourceType.Deployments, metadata, 3, "*").then(() => {
+            expect(kubeService.scaleWorkload).toHaveBeenCalledWith(KubeResourceType.Deployments, "default", "web", 3);
+            expect(kubeService.getDeployments).toHaveBeenCalledWith("*");
+            expect(kubeService.getReplicaSets).toHaveBeenCalledWith("*");
+            expect(kubeService.getStatefulSets).not.toHaveBeenCalled();
+        });
+    });
+
+    it("scaleWorkload is rejected without fetching when the host fails", () => {
+        const kubeService = getKubeService(jest.fn(() => Promise.reject(new Error("forbidden"))));
+        const actionCreator = ActionsCreatorManager.GetActionCreator<WorkloadsActionsCreator>(WorkloadsActionsCreator, "scale-failure-test");
+
+        return actionCreator.scaleWorkload(kubeService, KubeResourceType.StatefulSets, metadata, 0).then(() => {
+            throw new Error("scaleWorkload should be rejected");
+        }, error => {
+            expect(error.message).toStrictEqual("forbidden");
+            expect(kubeService.getStatefulSets).not.toHaveBeenCalled();
+        });
+    });
+});
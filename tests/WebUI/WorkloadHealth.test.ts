@@ -0,0 +1,124 @@
+import { V1Deployment, V1DeploymentStatus, V1Job, V1JobStatus, V1Pod, V1ReplicaSet } from "@kubernetes/client-node";
+import { WorkloadHealth, WorkloadHealthStatus } from "../../src/WebUI/WorkloadHealth";
+import { buildDaemonSet, buildDeployment, buildJob, buildPod, buildReplicaSet, buildStatefulSet, DeepPartial } from "./TestBuilders";
+
+function createDeployment(replicas: number, status: DeepPartial<V1DeploymentStatus>, generation: number = 1): V1Deployment {
+    return buildDeployment({ name: "web", generation: generation }, { replicas: replicas }, { observedGeneration: 1, ...status });
+}
+
+function createPod(ready: boolean, waitingReason?: string): V1Pod {
+    const state = waitingReason ? { waiting: { reason: waitingReason } } : { running: {} };
+    return buildPod(
+        { name: "web-5d8f7-abcde" },
+        { containers: [{ name: "web" }] },
+        { phase: "Running", containerStatuses: [{ name: "web", ready: ready, restartCount: 0, state: state }], conditions: [] }
+    );
+}
+
+describe("WorkloadHealth getDeploymentHealth Tests", () => {
+    it("getDeploymentHealth is healthy when all replicas are available and updated", () => {
+        const health = WorkloadHealth.getDeploymentHealth(createDeployment(3, { availableReplicas: 3, updatedReplicas: 3 }));
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Healthy);
+        expect(health.readyCount).toStrictEqual(3);
+        expect(health.desiredCount).toStrictEqual(3);
+    });
+
+    it("getDeploymentHealth is progressing while a rollout is in progress", () => {
+        const health = WorkloadHealth.getDeploymentHealth(createDeployment(3, {
+            availableReplicas: 2,
+            updatedReplicas: 1,
+            conditions: [{ type: "Progressing", status: "True", reason: "ReplicaSetUpdated" }]
+        }));
+
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Progressing);
+    });
+
+    it("getDeploymentHealth is progressing until the latest generation is observed", () => {
+        expect(WorkloadHealth.getDeploymentHealth(createDeployment(3, { availableReplicas: 3, updatedReplicas: 3 }, 2)).status).toStrictEqual(WorkloadHealthStatus.Progressing);
+    });
+
+    it("getDeploymentHealth fails when the progress deadline is exceeded", () => {
+        const health = WorkloadHealth.getDeploymentHealth(createDeployment(3, {
+            availableReplicas: 3,
+            updatedReplicas: 1,
+            conditions: [{ type: "Progressing", status: "False", reason: "ProgressDeadlineExceeded", message: "ReplicaSet \"web-6b9c\" has timed out progressing." }]
+        }));
+
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Failed);
+        expect(health.reason).toStrictEqual("ProgressDeadlineExceeded");
+    });
+
+    it("getDeploymentHealth fails when replicas cannot be created", () => {
+        const health = WorkloadHealth.getDeploymentHealth(createDeployment(2, {
+            availableReplicas: 0,
+            updatedReplicas: 2,
+            conditions: [{ type: "ReplicaFailure", status: "True", reason: "FailedCreate", message: "exceeded quota" }]
+        }));
+
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Failed);
+        expect(health.message).toStrictEqual("exceeded quota");
+    });
+
+    it("getDeploymentHealth takes the reason from a failing pod", () => {
+        const deployment = createDeployment(2, { availableReplicas: 1, updatedReplicas: 2 });
+        const health = WorkloadHealth.getDeploymentHealth(deployment, [createPod(true), createPod(false, "CrashLoopBackOff")]);
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Degraded);
+        expect(health.reason).toStrictEqual("CrashLoopBackOff");
+    });
+
+    it("getDeploymentHealth is scaled down without desired replicas", () => {
+        expect(WorkloadHealth.getDeploymentHealth(createDeployment(0, {})).status).toStrictEqual(WorkloadHealthStatus.ScaledDown);
+    });
+});
+
+describe("WorkloadHealth other workloads Tests", () => {
+    it("getReplicaSetHealth is degraded when some replicas are unavailable", () => {
+        const replicaSet = buildReplicaSet({ name: "web-5d8f7" }, { replicas: 3 }, { availableReplicas: 2 });
+        expect(WorkloadHealth.getReplicaSetHealth(replicaSet).status).toStrictEqual(WorkloadHealthStatus.Degraded);
+    });
+
+    it("getDaemonSetHealth counts the available pods of the scheduled nodes", () => {
+        const daemonSet = buildDaemonSet({ name: "agent" }, undefined, { desiredNumberScheduled: 3, numberAvailable: 3, updatedNumberScheduled: 3 });
+        const health = WorkloadHealth.getDaemonSetHealth(daemonSet);
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Healthy);
+        expect(health.desiredCount).toStrictEqual(3);
+    });
+
+    it("getStatefulSetHealth is progressing while its pods are starting", () => {
+        const statefulSet = buildStatefulSet({ name: "db" }, { replicas: 2 }, { readyReplicas: 1, updatedReplicas: 2 });
+        const health = WorkloadHealth.getStatefulSetHealth(statefulSet, [createPod(true), createPod(false, "ContainerCreating")]);
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Progressing);
+    });
+
+    it("getHealth returns undefined for kinds without pods", () => {
+        expect(WorkloadHealth.getHealth("Service", {} as V1ReplicaSet)).toBeUndefined();
+    });
+});
+
+describe("WorkloadHealth getJobHealth Tests", () => {
+    const createJob = (completions: number | undefined, status: DeepPartial<V1JobStatus>): V1Job => buildJob({ name: "migrate" }, { completions: completions }, status);
+
+    it("getJobHealth is healthy once the job is complete", () => {
+        const health = WorkloadHealth.getJobHealth(createJob(2, { succeeded: 2, conditions: [{ type: "Complete", status: "True" }] }));
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Healthy);
+        expect(health.readyCount).toStrictEqual(2);
+        expect(health.desiredCount).toStrictEqual(2);
+    });
+
+    it("getJobHealth fails with the reason of the failed condition", () => {
+        const health = WorkloadHealth.getJobHealth(createJob(undefined, { failed: 6, conditions: [{ type: "Failed", status: "True", reason: "BackoffLimitExceeded" }] }));
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Failed);
+        expect(health.reason).toStrictEqual("BackoffLimitExceeded");
+        expect(health.desiredCount).toStrictEqual(1);
+    });
+
+    it("getJobHealth is degraded while failed pods are retried", () => {
+        expect(WorkloadHealth.getJobHealth(createJob(1, { active: 1, failed: 1 })).status).toStrictEqual(WorkloadHealthStatus.Degraded);
+    });
+
+    it("getJobHealth is progressing while pods are running", () => {
+        const health = WorkloadHealth.getJobHealth(createJob(1, { active: 1 }));
+        expect(health.status).toStrictEqual(WorkloadHealthStatus.Progressing);
+        expect(WorkloadHealth.getHealth("Job", createJob(1, { active: 1 }))).toStrictEqual(health);
+    });
+});
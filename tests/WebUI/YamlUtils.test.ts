@@ -0,0 +1,103 @@
+import { YamlUtils } from "../../src/WebUI/YamlUtils";
+
+describe("YamlUtils toYaml Tests", () => {
+    const toYamlData = [
+        [
+            "sortedKeys",
+            { kind: "Pod", apiVersion: "v1" },
+            "apiVersion: v1\nkind: Pod"
+        ],
+        [
+            "nestedObjects",
+            { metadata: { name: "web", labels: { app: "web" } } },
+            "metadata:\n  labels:\n    app: web\n  name: web"
+        ],
+        [
+            "listOfObjects",
+            { containers: [{ name: "web", image: "nginx", ports: [{ containerPort: 80 }] }] },
+            "containers:\n- image: nginx\n  name: web\n  ports:\n  - containerPort: 80"
+        ],
+        [
+            "listOfScalars",
+            { args: ["--port", "8080"] },
+            "args:\n- --port\n- \"8080\""
+        ],
+        [
+            "emptyValues",
+            { annotations: {}, finalizers: [], nodeName: null },
+            "annotations: {}\nfinalizers: []\nnodeName: null"
+        ],
+        [
+            "scalarsNeedingQuotes",
+            { a: "true", b: "", c: "key: value", d: "2019-02-11T10:00:00Z", e: 3, f: false },
+            "a: \"true\"\nb: \"\"\nc: \"key: value\"\nd: \"2019-02-11T10:00:00Z\"\ne: 3\nf: false"
+        ],
+        [
+            "dates",
+            { creationTimestamp: new Date(Date.UTC(2019, 1, 11, 10, 0, 0)) },
+            "creationTimestamp: \"2019-02-11T10:00:00Z\""
+        ],
+        [
+            "multilineStrings",
+            { data: { config: "line1\nline2\n" } },
+            "data:\n  config: |\n    line1\n    line2"
+        ]
+    ];
+
+    it.each(toYamlData)("toYaml checking for:: %s", (testName, obj, expectedYaml) => {
+        expect(YamlUtils.toYaml(obj)).toStrictEqual(expectedYaml);
+    });
+});
+
+describe("YamlUtils toYamlLines Tests", () => {
+    it("toYamlLines marks blocks as foldable and list items one level deeper than their key", () => {
+        const lines = YamlUtils.toYamlLines({ spec: { containers: [{ name: "web", image: "nginx" }] } });
+        expect(lines.map(line => line.depth)).toStrictEqual([0, 1, 2, 3]);
+        expect(lines.map(line => line.foldable)).toStrictEqual([true, true, true, false]);
+    });
+});
+
+describe("YamlUtils diffLines Tests", () => {
+    it("diffLines keeps common lines and marks the changed ones", () => {
+        const diff = YamlUtils.diffLines("containers:\n- image: nginx:1.14\n  name: web", "containers:\n- image: nginx:1.15\n  name: web\nreplicas: 2");
+        expect(diff).toStrictEqual([
+            { text: "containers:", change: "unchanged" },
+            { text: "- image: nginx:1.14", change: "removed" },
+            { text: "- image: nginx:1.15", change: "added" },
+            { text: "  name: web", change: "unchanged" },
+            { text: "replicas: 2", change: "added" }
+        ]);
+    });
+
+    it("diffLines of equal text has no changes", () => {
+        expect(YamlUtils.diffLines("a: 1\nb: 2", "a: 1\nb: 2").every(line => line.change === "unchanged")).toStrictEqual(true);
+    });
+});
+
+describe("YamlUtils stripNoisyFields Tests", () => {
+    it("stripNoisyFields removes managedFields and last applied configuration", () => {
+        const obj = {
+            metadata: {
+                name: "web",
+                managedFields: [{ manager: "kubectl" }],
+                annotations: { "kubectl.kubernetes.io/last-applied-configuration": "{}" }
+            }
+        };
+
+        expect(YamlUtils.stripNoisyFields(obj)).toStrictEqual({ metadata: { name: "web" } });
+        expect(obj.metadata.managedFields.length).toStrictEqual(1);
+    });
+
+    it("stripNoisyFields keeps other annotations", () => {
+        const obj = {
+            metadata: {
+                annotations: {
+                    "kubectl.kubernetes.io/last-applied-configuration": "{}",
+                    "pipeline-name": "release"
+                }
+            }
+        };
+
+        expect(YamlUtils.stripNoisyFields(obj)).toStrictEqual({ metadata: { annotations: { "pipeline-name": "release" } } });
+    });
+});